@@ -8,7 +8,14 @@ export default {
         './src/lib/db/schema-users.ts',
         './src/lib/db/schema-booking.ts',
         './src/lib/db/schema-session.ts',
-        './src/lib/db/schema.ts'
+        './src/lib/db/schema.ts',
+        './src/lib/db/schema-lexicon.ts',
+        './src/lib/db/schema-transcript.ts',
+        './src/lib/db/schema-prescription.ts',
+        './src/lib/db/schema-diagnosis.ts',
+        './src/lib/db/schema-instructions.ts',
+        './src/lib/db/schema-knowledge.ts',
+        './src/lib/db/schema-icd10.ts'
     ],
     out: './drizzle',
     dialect: 'postgresql',
@@ -0,0 +1,24 @@
+-- pgvector knowledge base for RAG
+-- The other tables are managed with `drizzle-kit push`; this migration only adds knowledge_chunks
+-- (the snapshot in meta/ describes the full schema so later migrations diff correctly)
+CREATE EXTENSION IF NOT EXISTS vector;--> statement-breakpoint
+CREATE TABLE "knowledge_chunks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"chunk_id" varchar(255) NOT NULL,
+	"source" varchar(255) NOT NULL,
+	"specialty" varchar(100),
+	"version" varchar(50),
+	"position" integer NOT NULL,
+	"content" text NOT NULL,
+	"content_hash" varchar(64) NOT NULL,
+	"metadata" jsonb,
+	"embedding_model" varchar(255) NOT NULL,
+	"embedding" vector(768) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "knowledge_chunks_chunk_id_unique" UNIQUE("chunk_id")
+);
+--> statement-breakpoint
+CREATE INDEX "knowledge_chunks_embedding_idx" ON "knowledge_chunks" USING hnsw ("embedding" vector_cosine_ops);--> statement-breakpoint
+CREATE INDEX "knowledge_chunks_source_idx" ON "knowledge_chunks" USING btree ("source");--> statement-breakpoint
+CREATE INDEX "knowledge_chunks_specialty_idx" ON "knowledge_chunks" USING btree ("specialty");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "knowledge_documents" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source" varchar(255) NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"format" varchar(20) NOT NULL,
+	"original_filename" varchar(255),
+	"content" text NOT NULL,
+	"specialty" varchar(100),
+	"icd_chapters" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"effective_date" date,
+	"issuing_body" varchar(255),
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "knowledge_documents_source_unique" UNIQUE("source")
+);
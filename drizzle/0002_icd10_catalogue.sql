@@ -0,0 +1,25 @@
+-- ICD-10 catalogue (Bộ Y tế) - rows are loaded with scripts/icd10-import.ts
+-- pg_trgm makes the ILIKE '%...%' search on search_text use the GIN index
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+CREATE TABLE "icd10_blocks" (
+	"code" varchar(10) PRIMARY KEY NOT NULL,
+	"name_vi" text NOT NULL,
+	"name_en" text,
+	"chapter" varchar(5) NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "icd10_codes" (
+	"code" varchar(10) PRIMARY KEY NOT NULL,
+	"name_vi" text NOT NULL,
+	"name_en" text,
+	"chapter" varchar(5) NOT NULL,
+	"block" varchar(10),
+	"parent_code" varchar(10),
+	"billable" boolean DEFAULT true NOT NULL,
+	"search_text" text NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "icd10_codes_search_idx" ON "icd10_codes" USING gin ("search_text" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "icd10_codes_parent_idx" ON "icd10_codes" USING btree ("parent_code");
\ No newline at end of file
@@ -0,0 +1,56 @@
+-- Structured diagnoses (bệnh chính / bệnh kèm theo) - medical_records.icd_codes and diagnosis are generated from these rows
+CREATE TABLE "medical_record_diagnoses" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"medical_record_id" uuid NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"icd_code" varchar(10) NOT NULL,
+	"label" text NOT NULL,
+	"certainty" varchar(20) DEFAULT 'confirmed' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "medical_record_diagnoses" ADD CONSTRAINT "medical_record_diagnoses_medical_record_id_medical_records_id_fk" FOREIGN KEY ("medical_record_id") REFERENCES "public"."medical_records"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "medical_record_diagnoses_code_idx" ON "medical_record_diagnoses" USING btree ("medical_record_id","icd_code");--> statement-breakpoint
+CREATE UNIQUE INDEX "medical_record_diagnoses_primary_idx" ON "medical_record_diagnoses" USING btree ("medical_record_id") WHERE role = 'primary';--> statement-breakpoint
+-- Backfill from the legacy icd_codes jsonb ("K29.7" or "K29.7 - Viêm dạ dày"): the first valid code was the main disease
+-- Codes are normalized like normalizeIcd10Code ("k297" → "K29.7"); entries that are not ICD-10 codes
+-- ("Error retrieving ICD codes", "[object Object]" from older analyses) are skipped
+INSERT INTO "medical_record_diagnoses" ("medical_record_id", "position", "role", "icd_code", "label", "certainty")
+SELECT DISTINCT ON (valid."medical_record_id", valid."icd_code")
+	valid."medical_record_id",
+	valid."position",
+	CASE WHEN valid."position" = 0 THEN 'primary' ELSE 'secondary' END,
+	valid."icd_code",
+	COALESCE(NULLIF(valid."label", ''), "icd10_codes"."name_vi", ''),
+	'confirmed'
+FROM (
+	SELECT
+		legacy."medical_record_id",
+		(row_number() OVER (PARTITION BY legacy."medical_record_id" ORDER BY legacy."ordinality") - 1)::integer AS "position",
+		legacy."icd_code",
+		legacy."label"
+	FROM (
+		SELECT
+			r."id" AS "medical_record_id",
+			e.ordinality AS "ordinality",
+			regexp_replace(
+				regexp_replace(upper(regexp_replace(split_part(e.value, ' - ', 1), '[[:space:]†*+]', '', 'g')), '^([A-Z][0-9]{2})\.?([0-9]{1,2})\.?$', '\1.\2'),
+				'^([A-Z][0-9]{2})\.$', '\1'
+			) AS "icd_code",
+			trim(substr(e.value, length(split_part(e.value, ' - ', 1)) + 4)) AS "label"
+		FROM "medical_records" r
+		CROSS JOIN LATERAL jsonb_array_elements_text(r."icd_codes") WITH ORDINALITY AS e(value, ordinality)
+		WHERE jsonb_typeof(r."icd_codes") = 'array'
+	) legacy
+	WHERE legacy."icd_code" ~ '^[A-Z][0-9]{2}(\.[0-9]{1,2})?$'
+) valid
+LEFT JOIN "icd10_codes" ON "icd10_codes"."code" = valid."icd_code"
+ORDER BY valid."medical_record_id", valid."icd_code", valid."position";--> statement-breakpoint
+-- icd_codes now only holds bare codes, in diagnosis order; records without any valid code are left unchanged
+UPDATE "medical_records" r
+SET "icd_codes" = (
+	SELECT jsonb_agg(d."icd_code" ORDER BY d."position") FROM "medical_record_diagnoses" d WHERE d."medical_record_id" = r."id"
+)
+WHERE EXISTS (SELECT 1 FROM "medical_record_diagnoses" d WHERE d."medical_record_id" = r."id");
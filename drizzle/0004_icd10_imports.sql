@@ -0,0 +1,8 @@
+-- One row per ICD-10 import; complete = a full catalogue was loaded with --replace (see icd10Service.validateIcd10Codes)
+CREATE TABLE "icd10_imports" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source" text NOT NULL,
+	"codes" integer NOT NULL,
+	"complete" boolean NOT NULL,
+	"imported_at" timestamp DEFAULT now() NOT NULL
+);
@@ -2,6 +2,13 @@ import { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   output: "standalone",
+  // pdfkit reads its font metrics from disk at runtime, onnxruntime-node loads a native binary
+  // (local embeddings) - keep them out of the bundle
+  serverExternalPackages: ["pdfkit", "@huggingface/transformers", "onnxruntime-node"],
+  // Vietnamese-capable font embedded in the PDF documents
+  outputFileTracingIncludes: {
+    "/api/session/[sessionId]/documents/[kind]": ["./node_modules/dejavu-fonts-ttf/ttf/DejaVuSerif*.ttf"],
+  },
   // Prevents Next.js from looking for dependencies in parent directory
   turbopack: {
     root: __dirname,
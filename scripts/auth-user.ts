@@ -0,0 +1,53 @@
+import * as dotenv from 'dotenv';
+import { hashPassword } from '@/lib/auth/password';
+import { isRole, ROLES } from '@/lib/auth/types';
+
+dotenv.config({ path: '.env.local' });
+
+/**
+ * Create a sign-in account or reset its password (credentials adapter)
+ *
+ *   npx tsx scripts/auth-user.ts bs.an@phongkham.vn 'mat-khau' doctor "BS. Nguyễn Văn An"
+ *   npx tsx scripts/auth-user.ts admin@phongkham.vn 'mat-khau'          # existing user: new password, role kept
+ *
+ * Passwords hashed by another system (e.g. bcrypt from the booking app) cannot be checked - reset them here
+ */
+async function main() {
+    const [email, password, roleArg, name] = process.argv.slice(2);
+
+    if (!email || !password) {
+        console.error('Usage: npx tsx scripts/auth-user.ts <email> <password> [role] [name]');
+        process.exit(1);
+    }
+    if (roleArg && !isRole(roleArg)) {
+        console.error(`❌ Unknown role "${roleArg}" (expected ${ROLES.join(', ')})`);
+        process.exit(1);
+    }
+    const role = isRole(roleArg) ? roleArg : undefined;
+
+    // Loaded after dotenv - the database client reads POSTGRES_URL when the module is imported
+    const { forceCreateUser, getUserByEmail, updateUser } = await import('@/lib/services/userService');
+
+    const passwordHash = await hashPassword(password);
+    const existing = await getUserByEmail(email);
+
+    if (existing) {
+        await updateUser(existing.id, { password: passwordHash, ...(role ? { role } : {}) });
+        console.log(`✅ Updated ${existing.email} (${role || existing.role})`);
+    } else {
+        const user = await forceCreateUser({
+            email: email.trim().toLowerCase(),
+            password: passwordHash,
+            role: role || 'staff',
+            name: name || email,
+        });
+        console.log(`✅ Created ${user.email} (${user.role})`);
+    }
+
+    process.exit(0);
+}
+
+main().catch((error) => {
+    console.error('❌ Error saving user:', error);
+    process.exit(1);
+});
@@ -0,0 +1,53 @@
+import * as dotenv from 'dotenv';
+import fs from 'fs/promises';
+import path from 'path';
+import { parseIcd10Csv, parseIcd10Json } from '@/lib/icd10/catalogue';
+
+dotenv.config({ path: '.env.local' });
+
+/**
+ * Load the ICD-10 catalogue into icd10_blocks / icd10_codes
+ *
+ *   npx tsx scripts/icd10-import.ts                                  # starter catalogue (data/icd10/seed.json)
+ *   npx tsx scripts/icd10-import.ts data/icd10/icd10-byt.csv --replace  # full Bộ Y tế catalogue, drop codes not in the file
+ *
+ * Only a --replace import marks the catalogue complete; until then codes missing from it are accepted on save
+ * when well-formed (icd10_imports keeps one row per run)
+ *
+ * CSV: export the Bộ Y tế Excel file as CSV (UTF-8) - columns "Mã bệnh", "Tên bệnh" and optionally
+ * "Disease name", "Mã loại", "Tên loại", "Mã nhóm", "Tên nhóm" (see HEADER_ALIASES in src/lib/icd10/catalogue.ts)
+ */
+async function main() {
+    const args = process.argv.slice(2);
+    const replace = args.includes('--replace');
+    const file = args.find(arg => !arg.startsWith('--')) || path.join('data', 'icd10', 'seed.json');
+
+    const content = await fs.readFile(file, 'utf-8');
+    const catalogue = path.extname(file).toLowerCase() === '.csv' ? parseIcd10Csv(content) : parseIcd10Json(content);
+
+    catalogue.skipped.slice(0, 20).forEach(reason => console.log(`✗ ${reason}`));
+    if (catalogue.skipped.length > 20) console.log(`✗ ... ${catalogue.skipped.length - 20} more`);
+
+    if (catalogue.codes.length === 0) {
+        console.error(`❌ No ICD-10 codes found in ${file}`);
+        process.exit(1);
+    }
+
+    // Loaded after dotenv - the database client reads POSTGRES_URL when the module is imported
+    const { importIcd10Catalogue } = await import('@/lib/services/icd10Service');
+
+    console.log(`📥 Importing ${catalogue.codes.length} codes and ${catalogue.blocks.length} blocks from ${file}${replace ? ' (replace)' : ''}...`);
+    const stats = await importIcd10Catalogue(catalogue, { replace, source: path.basename(file) });
+
+    const billable = catalogue.codes.filter(item => item.billable).length;
+    console.log(`\n✅ ${stats.codes} codes (${billable} billable), ${stats.blocks} blocks${replace ? `, ${stats.deleted} codes removed` : ''}`);
+    if (!stats.complete) {
+        console.log('⚠️  Partial catalogue - codes not in it are only format-checked on save. Import the full Bộ Y tế file with --replace to validate every code');
+    }
+    process.exit(0);
+}
+
+main().catch((error) => {
+    console.error('❌ Error importing ICD-10 catalogue:', error);
+    process.exit(1);
+});
@@ -0,0 +1,56 @@
+import * as dotenv from 'dotenv';
+import { getMedicalVectorStore } from '@/lib/rag/vectorStore';
+import { describeModel, VectorIndexError } from '@/lib/rag/vectorIndex';
+
+dotenv.config({ path: '.env.local' });
+
+/**
+ * Build / verify the RAG vector index (data/vector_store/db.json)
+ *
+ *   npx tsx scripts/rag-index.ts           # sync: embed new and changed protocols only
+ *   npx tsx scripts/rag-index.ts rebuild   # re-embed everything (required after changing the embedding model)
+ *   npx tsx scripts/rag-index.ts verify    # check hashes / model without calling the embedding API (exit 1 on problems)
+ *
+ * With VECTOR_STORE=pgvector, sync / rebuild also update the knowledge_chunks table
+ */
+async function main() {
+    const command = process.argv[2] || 'sync';
+    const store = getMedicalVectorStore();
+
+    if (command === 'verify') {
+        console.log(`🔍 Verifying vector index against ${describeModel(store.model)}...`);
+        const report = await store.verifyIndex();
+
+        if (report.ok) {
+            console.log('✅ Vector index is up to date');
+            process.exit(0);
+        }
+        report.problems.forEach(problem => console.log(`✗ ${problem}`));
+        console.log(`\n❌ ${report.problems.length} problem(s) - run "npx tsx scripts/rag-index.ts" (or "rebuild")`);
+        process.exit(1);
+    }
+
+    if (command !== 'sync' && command !== 'rebuild') {
+        console.error(`Unknown command "${command}" - use sync, rebuild or verify`);
+        process.exit(1);
+    }
+
+    console.log(`📚 ${command === 'rebuild' ? 'Rebuilding' : 'Syncing'} vector index with ${describeModel(store.model)}...`);
+    const { index, stats, store: written } = await store.syncIndex({ rebuild: command === 'rebuild' });
+
+    stats.added.forEach(source => console.log(`+ ${source}`));
+    stats.updated.forEach(source => console.log(`~ ${source}`));
+    stats.removed.forEach(source => console.log(`- ${source}`));
+    console.log(`\n✅ ${Object.keys(index.files).length} files, ${stats.embeddedChunks} chunks embedded, ${stats.reusedChunks} reused, ${stats.unchanged.length} files unchanged (${describeModel(index.model)})`);
+    console.log(`🗄️  ${store.store.name} store: ${written.upserted} chunks written, ${written.deleted} deleted, ${written.unchanged} unchanged`);
+    process.exit(0);
+}
+
+main().catch((error) => {
+    if (error instanceof VectorIndexError) {
+        console.error(`❌ ${error.message}`);
+    } else {
+        console.error('❌ Error building vector index:', error);
+    }
+    process.exit(1);
+});
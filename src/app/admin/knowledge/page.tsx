@@ -0,0 +1,379 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button, Card, Badge, Input, useToast } from '@/components/ui';
+import { Library, Upload, Trash2, Loader2, Eye, RefreshCw } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+import { ICD10_CHAPTERS } from '@/lib/icd10/types';
+import {
+    KNOWLEDGE_UPLOAD_EXTENSIONS,
+    type KnowledgeChunkPreview,
+    type KnowledgeDocument,
+} from '@/lib/knowledge/types';
+
+interface IndexStatus {
+    ok: boolean;
+    problems: string[];
+    model: string;
+    store: string;
+}
+
+export default function KnowledgeAdminPage() {
+    const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [indexStatus, setIndexStatus] = useState<IndexStatus | null>(null);
+    const [indexing, setIndexing] = useState(false);
+
+    // Upload form
+    const [file, setFile] = useState<File | null>(null);
+    const [fileInputKey, setFileInputKey] = useState(0);
+    const [title, setTitle] = useState('');
+    const [specialty, setSpecialty] = useState('');
+    const [icdChapters, setIcdChapters] = useState<string[]>([]);
+    const [effectiveDate, setEffectiveDate] = useState('');
+    const [issuingBody, setIssuingBody] = useState('');
+    const [uploading, setUploading] = useState(false);
+    const [previewing, setPreviewing] = useState(false);
+    const [preview, setPreview] = useState<KnowledgeChunkPreview[] | null>(null);
+    const toast = useToast();
+
+    useEffect(() => {
+        fetchDocuments();
+        fetchIndexStatus();
+    }, []);
+
+    const fetchDocuments = async () => {
+        try {
+            const data = await apiClient.listKnowledge();
+            setDocuments(data.data);
+        } catch (error) {
+            console.error('Error fetching knowledge documents:', error);
+            toast.error('Không thể tải danh sách phác đồ');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchIndexStatus = async () => {
+        try {
+            const data = await apiClient.getKnowledgeIndex();
+            setIndexStatus(data.data);
+        } catch (error) {
+            console.error('Error verifying vector index:', error);
+        }
+    };
+
+    const toggleChapter = (chapter: string) => {
+        setIcdChapters(prev => prev.includes(chapter) ? prev.filter(c => c !== chapter) : [...prev, chapter]);
+    };
+
+    const handlePreview = async () => {
+        if (!file) return;
+        setPreviewing(true);
+        try {
+            const data = await apiClient.previewKnowledge({ body: { file } });
+            setPreview(data.data.chunks);
+        } catch (error) {
+            console.error('Error previewing chunks:', error);
+            toast.error(error instanceof Error ? error.message : 'Không thể xem trước phân đoạn');
+        } finally {
+            setPreviewing(false);
+        }
+    };
+
+    const handleUpload = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!file) return;
+        setUploading(true);
+        try {
+            const data = await apiClient.uploadKnowledge({
+                body: {
+                    file,
+                    title,
+                    specialty,
+                    icdChapters: icdChapters.join(','),
+                    effectiveDate,
+                    issuingBody,
+                }
+            });
+            toast.success(data.message || 'Đã tải lên phác đồ');
+            setFile(null);
+            setFileInputKey(key => key + 1);
+            setTitle('');
+            setPreview(null);
+            setDocuments(prev => [...prev, data.data]);
+            fetchIndexStatus();
+        } catch (error) {
+            console.error('Error uploading protocol:', error);
+            toast.error(error instanceof Error ? error.message : 'Lỗi kết nối. Vui lòng thử lại.');
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const handleToggle = async (document: KnowledgeDocument) => {
+        try {
+            const data = await apiClient.updateKnowledgeDocument({
+                path: { documentId: document.id },
+                body: { isActive: !document.isActive }
+            });
+            setDocuments(prev => prev.map(d => d.id === document.id ? data.data : d));
+            fetchIndexStatus();
+        } catch (error) {
+            console.error('Error updating protocol:', error);
+            toast.error('Không thể cập nhật phác đồ');
+        }
+    };
+
+    const handleDelete = async (document: KnowledgeDocument) => {
+        if (!confirm(`Xóa phác đồ "${document.title}"?`)) {
+            return;
+        }
+
+        try {
+            const data = await apiClient.deleteKnowledgeDocument({ path: { documentId: document.id } });
+            setDocuments(prev => prev.filter(d => d.id !== document.id));
+            toast.success(data.message);
+            fetchIndexStatus();
+        } catch (error) {
+            console.error('Error deleting protocol:', error);
+            toast.error('Không thể xóa phác đồ');
+        }
+    };
+
+    const handleReindex = async (rebuild: boolean) => {
+        if (rebuild && !confirm('Embedding lại toàn bộ phác đồ? Việc này có thể mất vài phút.')) {
+            return;
+        }
+
+        setIndexing(true);
+        try {
+            const data = await apiClient.reindexKnowledge({ body: { rebuild } });
+            const { stats } = data.data;
+            toast.success(
+                `${data.message}: +${stats.added.length} ~${stats.updated.length} -${stats.removed.length} phác đồ, ` +
+                `${stats.embeddedChunks} đoạn được embedding`
+            );
+            fetchIndexStatus();
+        } catch (error) {
+            console.error('Error re-indexing:', error);
+            toast.error(error instanceof Error ? error.message : 'Không thể cập nhật chỉ mục');
+        } finally {
+            setIndexing(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-50 via-sky-50/30 to-teal-50/30 p-6">
+            <div className="max-w-6xl mx-auto space-y-6">
+                {/* Header */}
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-900 flex items-center gap-3">
+                        <Library className="w-8 h-8 text-sky-600" />
+                        Kho phác đồ điều trị
+                    </h1>
+                    <p className="text-slate-600 mt-1">
+                        Phác đồ được AI tra cứu khi đối chiếu hồ sơ; sau khi tải lên hoặc thay đổi cần cập nhật chỉ mục
+                    </p>
+                </div>
+
+                {/* Index status */}
+                <Card variant="elevated">
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                        <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                                <span className="font-semibold text-slate-800">Chỉ mục vector</span>
+                                {indexStatus && (
+                                    <Badge variant={indexStatus.ok ? 'success' : 'warning'}>
+                                        {indexStatus.ok ? 'Đã cập nhật' : 'Cần cập nhật'}
+                                    </Badge>
+                                )}
+                            </div>
+                            {indexStatus && (
+                                <div className="text-xs text-slate-500">{indexStatus.model} · {indexStatus.store}</div>
+                            )}
+                            {indexStatus && !indexStatus.ok && (
+                                <ul className="text-xs text-amber-700 list-disc pl-4">
+                                    {indexStatus.problems.slice(0, 5).map(problem => <li key={problem}>{problem}</li>)}
+                                </ul>
+                            )}
+                        </div>
+                        <div className="flex gap-2">
+                            <Button variant="primary" size="sm" onClick={() => handleReindex(false)} isLoading={indexing}>
+                                {!indexing && <RefreshCw className="w-4 h-4 mr-1" />}
+                                Cập nhật chỉ mục
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => handleReindex(true)} disabled={indexing}>
+                                Xây dựng lại
+                            </Button>
+                        </div>
+                    </div>
+                </Card>
+
+                {/* Upload form */}
+                <Card variant="elevated">
+                    <form onSubmit={handleUpload} className="space-y-4">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label className="block mb-2 text-sm font-semibold text-slate-700">File phác đồ</label>
+                                <input
+                                    key={fileInputKey}
+                                    type="file"
+                                    accept={Object.keys(KNOWLEDGE_UPLOAD_EXTENSIONS).join(',')}
+                                    onChange={(e) => {
+                                        setFile(e.target.files?.[0] || null);
+                                        setPreview(null);
+                                    }}
+                                    className="block w-full text-sm text-slate-600 file:mr-3 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-sky-50 file:text-sky-700"
+                                />
+                                <p className="text-xs text-slate-500 mt-1">Markdown, PDF (có lớp văn bản) hoặc DOCX, tối đa 10 MB</p>
+                            </div>
+                            <Input
+                                label="Tên phác đồ"
+                                placeholder="(mặc định: tiêu đề đầu tiên trong file)"
+                                value={title}
+                                onChange={(e) => setTitle(e.target.value)}
+                            />
+                            <Input
+                                label="Chuyên khoa"
+                                placeholder="ho-hap"
+                                value={specialty}
+                                onChange={(e) => setSpecialty(e.target.value)}
+                            />
+                            <Input
+                                label="Cơ quan ban hành"
+                                placeholder="Bộ Y tế"
+                                value={issuingBody}
+                                onChange={(e) => setIssuingBody(e.target.value)}
+                            />
+                            <Input
+                                label="Ngày hiệu lực"
+                                type="date"
+                                value={effectiveDate}
+                                onChange={(e) => setEffectiveDate(e.target.value)}
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block mb-2 text-sm font-semibold text-slate-700">Chương ICD-10</label>
+                            <div className="flex flex-wrap gap-2">
+                                {ICD10_CHAPTERS.map(item => (
+                                    <button
+                                        key={item.chapter}
+                                        type="button"
+                                        title={`${item.range}: ${item.title}`}
+                                        onClick={() => toggleChapter(item.chapter)}
+                                        className={`px-2.5 py-1 rounded-lg text-xs font-medium border transition-colors ${icdChapters.includes(item.chapter)
+                                            ? 'bg-sky-600 text-white border-sky-600'
+                                            : 'bg-white text-slate-600 border-slate-300 hover:border-sky-400'
+                                            }`}
+                                    >
+                                        {item.chapter} · {item.range}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="flex gap-2">
+                            <Button type="button" variant="outline" onClick={handlePreview} disabled={!file || previewing} className="flex items-center gap-2">
+                                {previewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+                                Xem trước phân đoạn
+                            </Button>
+                            <Button type="submit" variant="primary" disabled={!file || uploading} className="flex items-center gap-2">
+                                {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                                Tải lên
+                            </Button>
+                        </div>
+
+                        {preview && (
+                            <div className="border border-slate-200 rounded-lg">
+                                <div className="px-4 py-2 bg-slate-50 border-b border-slate-200 text-sm font-semibold text-slate-700">
+                                    {preview.length} đoạn sẽ được embedding
+                                </div>
+                                <div className="max-h-96 overflow-y-auto divide-y divide-slate-100">
+                                    {preview.map(chunk => (
+                                        <div key={chunk.position} className="px-4 py-3">
+                                            <div className="text-xs text-slate-500 mb-1">
+                                                #{chunk.position} · {chunk.length} ký tự
+                                                {chunk.section.length > 0 && ` · ${chunk.section.join(' › ')}`}
+                                            </div>
+                                            <pre className="text-xs text-slate-700 whitespace-pre-wrap font-sans">{chunk.text}</pre>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </form>
+                </Card>
+
+                {/* Documents */}
+                <Card variant="elevated" padding="none">
+                    <div className="p-5 bg-gradient-to-r from-slate-50 to-slate-100 border-b border-slate-200">
+                        <h3 className="font-bold text-slate-800 text-lg">📚 Danh sách phác đồ ({documents.length})</h3>
+                    </div>
+                    {loading ? (
+                        <div className="flex items-center justify-center gap-2 py-12 text-slate-500">
+                            <Loader2 className="w-5 h-5 animate-spin" />
+                            Đang tải phác đồ...
+                        </div>
+                    ) : documents.length === 0 ? (
+                        <div className="text-center py-12 text-slate-400 font-medium">Chưa có phác đồ nào</div>
+                    ) : (
+                        <table className="w-full">
+                            <thead className="bg-slate-100 border-b border-slate-200">
+                                <tr>
+                                    <th className="px-6 py-3 text-left text-sm font-semibold text-slate-700">Phác đồ</th>
+                                    <th className="px-6 py-3 text-left text-sm font-semibold text-slate-700">Chuyên khoa / ICD-10</th>
+                                    <th className="px-6 py-3 text-left text-sm font-semibold text-slate-700">Ban hành</th>
+                                    <th className="px-6 py-3 text-center text-sm font-semibold text-slate-700">Thao tác</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {documents.map(document => (
+                                    <tr key={document.id} className={`border-b border-slate-100 ${document.isActive ? '' : 'opacity-50'}`}>
+                                        <td className="px-6 py-3">
+                                            <div className="font-medium text-slate-800">{document.title}</div>
+                                            <div className="text-xs text-slate-500 mt-1">
+                                                {document.source} · {document.format.toUpperCase()} · {document.size.toLocaleString('vi-VN')} ký tự
+                                            </div>
+                                        </td>
+                                        <td className="px-6 py-3 text-sm text-slate-600">
+                                            <div>{document.specialty || '—'}</div>
+                                            {document.icdChapters.length > 0 && (
+                                                <div className="text-xs text-slate-500 mt-1">Chương {document.icdChapters.join(', ')}</div>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-3 text-sm text-slate-600">
+                                            <div>{document.issuingBody || '—'}</div>
+                                            {document.effectiveDate && (
+                                                <div className="text-xs text-slate-500 mt-1">
+                                                    Hiệu lực {new Date(document.effectiveDate).toLocaleDateString('vi-VN')}
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-3">
+                                            {document.builtIn ? (
+                                                <div className="flex justify-center">
+                                                    <Badge variant="info">Có sẵn</Badge>
+                                                </div>
+                                            ) : (
+                                                <div className="flex items-center gap-2 justify-center">
+                                                    <Button variant="secondary" size="sm" onClick={() => handleToggle(document)}>
+                                                        {document.isActive ? 'Tắt' : 'Bật'}
+                                                    </Button>
+                                                    <Button variant="danger" size="sm" onClick={() => handleDelete(document)} title="Xóa phác đồ">
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </Button>
+                                                </div>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </Card>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,240 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button, Card, Badge, Input, useToast } from '@/components/ui';
+import { BookOpen, Plus, Trash2, Loader2 } from 'lucide-react';
+import { apiClient } from '@/lib/api-client';
+
+type LexiconKind = 'correction' | 'term';
+
+interface LexiconEntry {
+    id: string;
+    kind: LexiconKind;
+    misheard: string | null;
+    correct: string;
+    note: string | null;
+    source: string;
+    sourceSessionId: string | null;
+    isActive: boolean;
+    createdAt: string;
+}
+
+export default function LexiconAdminPage() {
+    const [entries, setEntries] = useState<LexiconEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [filter, setFilter] = useState<'all' | LexiconKind>('all');
+    const [kind, setKind] = useState<LexiconKind>('correction');
+    const [misheard, setMisheard] = useState('');
+    const [correct, setCorrect] = useState('');
+    const [note, setNote] = useState('');
+    const toast = useToast();
+
+    useEffect(() => {
+        fetchEntries();
+    }, []);
+
+    const fetchEntries = async () => {
+        try {
+            const data = await apiClient.listLexicon();
+            setEntries(data.data);
+        } catch (error) {
+            console.error('Error fetching lexicon:', error);
+            toast.error('Không thể tải từ điển');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        try {
+            const data = await apiClient.createLexiconEntry({
+                body: {
+                    kind,
+                    misheard: kind === 'correction' ? misheard : null,
+                    correct,
+                    note: note || null,
+                    source: 'admin'
+                }
+            });
+
+            toast.success(data.message || 'Đã thêm vào từ điển');
+            setMisheard('');
+            setCorrect('');
+            setNote('');
+            fetchEntries();
+        } catch (error) {
+            console.error('Error adding lexicon entry:', error);
+            toast.error(error instanceof Error ? error.message : 'Lỗi kết nối. Vui lòng thử lại.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleToggle = async (entry: LexiconEntry) => {
+        try {
+            const data = await apiClient.updateLexiconEntry({
+                path: { entryId: entry.id },
+                body: { isActive: !entry.isActive }
+            });
+            setEntries(prev => prev.map(e => e.id === entry.id ? data.data : e));
+        } catch (error) {
+            console.error('Error updating lexicon entry:', error);
+            toast.error('Không thể cập nhật mục từ');
+        }
+    };
+
+    const handleDelete = async (entry: LexiconEntry) => {
+        if (!confirm(`Xóa "${entry.misheard ? `${entry.misheard} → ` : ''}${entry.correct}" khỏi từ điển?`)) {
+            return;
+        }
+
+        try {
+            const data = await apiClient.deleteLexiconEntry({ path: { entryId: entry.id } });
+            setEntries(prev => prev.filter(e => e.id !== entry.id));
+            toast.success(data.message);
+        } catch (error) {
+            console.error('Error deleting lexicon entry:', error);
+            toast.error('Không thể xóa mục từ');
+        }
+    };
+
+    const visibleEntries = filter === 'all' ? entries : entries.filter(e => e.kind === filter);
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-50 via-sky-50/30 to-teal-50/30 p-6">
+            <div className="max-w-5xl mx-auto space-y-6">
+                {/* Header */}
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-900 flex items-center gap-3">
+                        <BookOpen className="w-8 h-8 text-sky-600" />
+                        Từ điển Speech-to-Text
+                    </h1>
+                    <p className="text-slate-600 mt-1">
+                        Lỗi nghe nhầm được sửa tự động trước khi AI hiệu chỉnh; thuật ngữ được gợi ý cho Whisper và không bị AI thay đổi
+                    </p>
+                </div>
+
+                {/* Add form */}
+                <Card variant="elevated">
+                    <form onSubmit={handleAdd} className="space-y-4">
+                        <div className="flex gap-2">
+                            <Button
+                                type="button"
+                                variant={kind === 'correction' ? 'primary' : 'outline'}
+                                size="sm"
+                                onClick={() => setKind('correction')}
+                            >
+                                Lỗi nghe nhầm
+                            </Button>
+                            <Button
+                                type="button"
+                                variant={kind === 'term' ? 'primary' : 'outline'}
+                                size="sm"
+                                onClick={() => setKind('term')}
+                            >
+                                Thuật ngữ / tên thuốc
+                            </Button>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            {kind === 'correction' && (
+                                <Input
+                                    label="Whisper nghe thành"
+                                    placeholder="đau thượng vịt"
+                                    value={misheard}
+                                    onChange={(e) => setMisheard(e.target.value)}
+                                />
+                            )}
+                            <Input
+                                label={kind === 'correction' ? 'Từ đúng' : 'Thuật ngữ'}
+                                placeholder={kind === 'correction' ? 'đau thượng vị' : 'Esomeprazole'}
+                                value={correct}
+                                onChange={(e) => setCorrect(e.target.value)}
+                            />
+                            <Input
+                                label="Ghi chú"
+                                placeholder="(không bắt buộc)"
+                                value={note}
+                                onChange={(e) => setNote(e.target.value)}
+                            />
+                        </div>
+                        <Button
+                            type="submit"
+                            variant="primary"
+                            disabled={saving || !correct.trim() || (kind === 'correction' && !misheard.trim())}
+                            className="flex items-center gap-2"
+                        >
+                            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                            Thêm vào từ điển
+                        </Button>
+                    </form>
+                </Card>
+
+                {/* Entries */}
+                <Card variant="elevated" padding="none">
+                    <div className="p-5 bg-gradient-to-r from-slate-50 to-slate-100 border-b border-slate-200 flex items-center justify-between">
+                        <h3 className="font-bold text-slate-800 text-lg">📖 Danh sách mục từ ({visibleEntries.length})</h3>
+                        <select
+                            value={filter}
+                            onChange={(e) => setFilter(e.target.value as 'all' | LexiconKind)}
+                            className="text-sm border border-slate-300 rounded-lg px-3 py-1.5 bg-white"
+                        >
+                            <option value="all">Tất cả</option>
+                            <option value="correction">Lỗi nghe nhầm</option>
+                            <option value="term">Thuật ngữ</option>
+                        </select>
+                    </div>
+                    {loading ? (
+                        <div className="flex items-center justify-center gap-2 py-12 text-slate-500">
+                            <Loader2 className="w-5 h-5 animate-spin" />
+                            Đang tải từ điển...
+                        </div>
+                    ) : visibleEntries.length === 0 ? (
+                        <div className="text-center py-12 text-slate-400 font-medium">Chưa có mục từ nào</div>
+                    ) : (
+                        <table className="w-full">
+                            <thead className="bg-slate-100 border-b border-slate-200">
+                                <tr>
+                                    <th className="px-6 py-3 text-left text-sm font-semibold text-slate-700">Nghe thành</th>
+                                    <th className="px-6 py-3 text-left text-sm font-semibold text-slate-700">Từ đúng</th>
+                                    <th className="px-6 py-3 text-left text-sm font-semibold text-slate-700">Nguồn</th>
+                                    <th className="px-6 py-3 text-center text-sm font-semibold text-slate-700">Thao tác</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {visibleEntries.map(entry => (
+                                    <tr key={entry.id} className={`border-b border-slate-100 ${entry.isActive ? '' : 'opacity-50'}`}>
+                                        <td className="px-6 py-3 text-slate-600">
+                                            {entry.kind === 'term' ? <Badge variant="info">Thuật ngữ</Badge> : entry.misheard}
+                                        </td>
+                                        <td className="px-6 py-3">
+                                            <div className="font-medium text-slate-800">{entry.correct}</div>
+                                            {entry.note && <div className="text-xs text-slate-500 mt-1">{entry.note}</div>}
+                                        </td>
+                                        <td className="px-6 py-3">
+                                            <Badge variant={entry.source === 'transcript' ? 'warning' : 'default'}>
+                                                {entry.source === 'transcript' ? 'Từ transcript' : 'Quản trị'}
+                                            </Badge>
+                                        </td>
+                                        <td className="px-6 py-3">
+                                            <div className="flex items-center gap-2 justify-center">
+                                                <Button variant="secondary" size="sm" onClick={() => handleToggle(entry)}>
+                                                    {entry.isActive ? 'Tắt' : 'Bật'}
+                                                </Button>
+                                                <Button variant="danger" size="sm" onClick={() => handleDelete(entry)} title="Xóa mục từ">
+                                                    <Trash2 className="w-4 h-4" />
+                                                </Button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </Card>
+            </div>
+        </div>
+    );
+}
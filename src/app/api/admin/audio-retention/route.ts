@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { purgeExpiredAudio } from '@/lib/services/recordingService';
+import { AUDIO_RETENTION_DAYS } from '@/lib/storage';
+
+/**
+ * API endpoint to purge audio recordings past their retention period
+ * POST /api/admin/audio-retention (call from a daily cron job)
+ */
+export async function POST() {
+    try {
+        const purged = await purgeExpiredAudio();
+        console.log(`🗑️ Purged ${purged} expired audio recording(s)`);
+
+        return NextResponse.json({
+            success: true,
+            message: `Purged ${purged} expired audio recordings`,
+            purged,
+            retentionDays: AUDIO_RETENTION_DAYS
+        });
+    } catch (error) {
+        console.error('❌ Error purging audio recordings:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Failed to purge audio recordings',
+                details: error instanceof Error ? error.message : String(error)
+            },
+            { status: 500 }
+        );
+    }
+}
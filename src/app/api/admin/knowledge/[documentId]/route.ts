@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    getKnowledgeDocument,
+    getBuiltInKnowledgeDocument,
+    updateKnowledgeDocument,
+    deleteKnowledgeDocument,
+} from '@/lib/services/knowledgeBaseService';
+import { updateKnowledgeDocumentBody } from '@/lib/contracts/admin';
+import { parseJsonBody, validationError } from '@/lib/contracts/server';
+import { isUuid } from '@/lib/contracts/common';
+
+function notFound() {
+    return NextResponse.json(
+        {
+            success: false,
+            error: 'Not found',
+            message: 'Phác đồ không tồn tại'
+        },
+        { status: 404 }
+    );
+}
+
+function builtInReadOnly() {
+    return validationError('Phác đồ có sẵn chỉ đọc - sửa file trong data/knowledge_base/protocols', 'documentId');
+}
+
+/**
+ * GET /api/admin/knowledge/:documentId
+ * Protocol with its markdown
+ */
+export async function GET(
+    request: NextRequest,
+    context: { params: Promise<{ documentId: string }> }
+) {
+    try {
+        const { documentId } = await context.params;
+        // Uploaded documents have uuid ids, built-in protocols are addressed by file name
+        const document = isUuid(documentId)
+            ? await getKnowledgeDocument(documentId)
+            : await getBuiltInKnowledgeDocument(documentId);
+
+        if (!document) return notFound();
+
+        return NextResponse.json({ success: true, data: document });
+    } catch (error) {
+        console.error('Error fetching knowledge document:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể tải phác đồ',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PATCH /api/admin/knowledge/:documentId
+ * Update title, markdown, tags ({ tags: { specialty, icdChapters, effectiveDate, issuingBody } }) or active flag
+ */
+export async function PATCH(
+    request: NextRequest,
+    context: { params: Promise<{ documentId: string }> }
+) {
+    try {
+        const { documentId } = await context.params;
+        if (!isUuid(documentId)) {
+            return (await getBuiltInKnowledgeDocument(documentId)) ? builtInReadOnly() : notFound();
+        }
+
+        // Blank title / markdown and invalid tags are rejected by updateKnowledgeDocumentBody
+        const parsed = await parseJsonBody(request, updateKnowledgeDocumentBody);
+        if (!parsed.success) return parsed.response;
+
+        const document = await updateKnowledgeDocument(documentId, parsed.data);
+        if (!document) return notFound();
+
+        return NextResponse.json({
+            success: true,
+            message: 'Đã cập nhật phác đồ',
+            data: document
+        });
+    } catch (error) {
+        console.error('Error updating knowledge document:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể cập nhật phác đồ',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/admin/knowledge/:documentId
+ * Its chunks leave the vector store on the next re-index
+ */
+export async function DELETE(
+    request: NextRequest,
+    context: { params: Promise<{ documentId: string }> }
+) {
+    try {
+        const { documentId } = await context.params;
+        if (!isUuid(documentId)) {
+            return (await getBuiltInKnowledgeDocument(documentId)) ? builtInReadOnly() : notFound();
+        }
+
+        const deleted = await deleteKnowledgeDocument(documentId);
+        if (!deleted) return notFound();
+
+        return NextResponse.json({ success: true, message: 'Đã xóa phác đồ' });
+    } catch (error) {
+        console.error('Error deleting knowledge document:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể xóa phác đồ',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
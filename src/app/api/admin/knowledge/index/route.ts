@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMedicalVectorStore } from '@/lib/rag/vectorStore';
+import { describeModel, EmbeddingModelMismatchError } from '@/lib/rag/vectorIndex';
+import { reindexKnowledge } from '@/lib/contracts/admin';
+import { parseJsonBody } from '@/lib/contracts/server';
+
+/**
+ * GET /api/admin/knowledge/index
+ * Is the vector index up to date with the knowledge base? (no embedding calls)
+ */
+export async function GET() {
+    try {
+        const store = getMedicalVectorStore();
+        const report = await store.verifyIndex();
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                ...report,
+                model: describeModel(store.model),
+                store: store.store.name
+            }
+        });
+    } catch (error) {
+        console.error('Error verifying vector index:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể kiểm tra chỉ mục',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/admin/knowledge/index
+ * Re-index: embed new / changed protocols only and drop removed ones
+ * Body: { rebuild?: boolean } - re-embed everything (after changing the embedding model)
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const parsed = await parseJsonBody(request, reindexKnowledge.body);
+        if (!parsed.success) return parsed.response;
+        const rebuild = parsed.data.rebuild === true;
+
+        const store = getMedicalVectorStore();
+        const { index, stats, store: written } = await store.syncIndex({ rebuild });
+
+        return NextResponse.json({
+            success: true,
+            message: rebuild ? 'Đã xây dựng lại chỉ mục' : 'Đã cập nhật chỉ mục',
+            data: {
+                files: Object.keys(index.files).length,
+                model: describeModel(index.model),
+                stats,
+                store: { name: store.store.name, ...written }
+            }
+        });
+    } catch (error) {
+        if (error instanceof EmbeddingModelMismatchError) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'Conflict',
+                    message: 'Chỉ mục được tạo bằng mô hình embedding khác - cần xây dựng lại',
+                    details: error.message
+                },
+                { status: 409 }
+            );
+        }
+
+        console.error('Error re-indexing knowledge base:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể cập nhật chỉ mục',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { previewKnowledgeChunks } from '@/lib/services/knowledgeBaseService';
+import { convertKnowledgeUpload } from '@/lib/knowledge/convert';
+import { previewKnowledge, previewKnowledgeMarkdown } from '@/lib/contracts/admin';
+import { parseFormData, parseJsonBody, validationError } from '@/lib/contracts/server';
+
+/**
+ * POST /api/admin/knowledge/preview
+ * Show how a protocol will be converted and chunked before it is saved (nothing is stored)
+ *
+ * Body: FormData with "file", or JSON { content: markdown }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        let markdown: string;
+
+        if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+            const parsed = await parseFormData(request, previewKnowledge.form);
+            if (!parsed.success) return parsed.response;
+            const { file } = parsed.data;
+
+            const converted = await convertKnowledgeUpload(file.name, Buffer.from(await file.arrayBuffer()));
+            if (typeof converted === 'string') {
+                return validationError(converted, 'file');
+            }
+            markdown = converted.markdown;
+        } else {
+            const parsed = await parseJsonBody(request, previewKnowledgeMarkdown.body);
+            if (!parsed.success) return parsed.response;
+            markdown = parsed.data.content;
+        }
+
+        const chunks = await previewKnowledgeChunks(markdown);
+
+        return NextResponse.json({ success: true, data: { markdown, chunks } });
+    } catch (error) {
+        console.error('Error previewing knowledge chunks:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể xem trước phân đoạn',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
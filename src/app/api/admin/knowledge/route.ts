@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listKnowledgeDocuments, createKnowledgeDocument } from '@/lib/services/knowledgeBaseService';
+import { convertKnowledgeUpload, titleFromMarkdown } from '@/lib/knowledge/convert';
+import { uploadKnowledgeForm } from '@/lib/contracts/admin';
+import { parseFormData, validationError } from '@/lib/contracts/server';
+
+/**
+ * GET /api/admin/knowledge
+ * List protocols of the RAG knowledge base (built-in files + uploaded documents)
+ */
+export async function GET() {
+    try {
+        const documents = await listKnowledgeDocuments();
+
+        return NextResponse.json({ success: true, data: documents });
+    } catch (error) {
+        console.error('Error listing knowledge documents:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể tải danh sách phác đồ',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/admin/knowledge
+ * Upload a protocol (markdown / PDF / DOCX, converted to markdown)
+ * The document is indexed on the next re-index (POST /api/admin/knowledge/index)
+ *
+ * FormData:
+ * - file: protocol file
+ * - title: (optional) defaults to the first heading / file name
+ * - specialty, icdChapters ("IX,X"), effectiveDate (YYYY-MM-DD), issuingBody: (optional) tags
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const parsed = await parseFormData(request, uploadKnowledgeForm);
+        if (!parsed.success) return parsed.response;
+        const { file, title: requestedTitle, tags } = parsed.data;
+
+        const converted = await convertKnowledgeUpload(file.name, Buffer.from(await file.arrayBuffer()));
+        if (typeof converted === 'string') {
+            return validationError(converted, 'file');
+        }
+
+        const title = requestedTitle || titleFromMarkdown(converted.markdown, file.name);
+        const document = await createKnowledgeDocument({
+            title,
+            format: converted.format,
+            originalFilename: file.name,
+            content: converted.markdown,
+            tags,
+        });
+
+        return NextResponse.json({
+            success: true,
+            message: 'Đã tải lên phác đồ - cần cập nhật chỉ mục để sử dụng',
+            data: document
+        });
+    } catch (error) {
+        console.error('Error uploading knowledge document:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể tải lên phác đồ',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateLexiconEntry, deleteLexiconEntry } from '@/lib/services/lexiconService';
+import { updateLexiconEntryBody } from '@/lib/contracts/admin';
+import { parseJsonBody, parseIdParams } from '@/lib/contracts/server';
+
+/**
+ * PATCH /api/admin/lexicon/:entryId
+ * Update text, note or active flag of a lexicon entry
+ */
+export async function PATCH(
+    request: NextRequest,
+    context: { params: Promise<{ entryId: string }> }
+) {
+    try {
+        const params = await parseIdParams(context.params, 'entryId');
+        if (!params.success) return params.response;
+        const { entryId } = params.data;
+        const parsed = await parseJsonBody(request, updateLexiconEntryBody);
+        if (!parsed.success) return parsed.response;
+        const body = parsed.data;
+
+        const entry = await updateLexiconEntry(entryId, {
+            ...(body.misheard !== undefined && { misheard: body.misheard }),
+            ...(body.correct !== undefined && { correct: body.correct }),
+            ...(body.note !== undefined && { note: body.note }),
+            ...(body.isActive !== undefined && { isActive: body.isActive }),
+        });
+
+        if (!entry) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'Entry not found',
+                    message: 'Mục từ không tồn tại'
+                },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, data: entry });
+    } catch (error) {
+        console.error('Error updating lexicon entry:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể cập nhật mục từ',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/admin/lexicon/:entryId
+ */
+export async function DELETE(
+    request: NextRequest,
+    context: { params: Promise<{ entryId: string }> }
+) {
+    try {
+        const params = await parseIdParams(context.params, 'entryId');
+        if (!params.success) return params.response;
+        const { entryId } = params.data;
+        const deleted = await deleteLexiconEntry(entryId);
+
+        if (!deleted) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'Entry not found',
+                    message: 'Mục từ không tồn tại'
+                },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, message: 'Đã xóa mục từ' });
+    } catch (error) {
+        console.error('Error deleting lexicon entry:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể xóa mục từ',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
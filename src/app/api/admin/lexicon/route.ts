@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listLexiconEntries, createLexiconEntry } from '@/lib/services/lexiconService';
+import { createLexiconEntryBody, listLexiconQuery } from '@/lib/contracts/admin';
+import { parseJsonBody, parseQuery } from '@/lib/contracts/server';
+
+/**
+ * GET /api/admin/lexicon?kind=correction|term
+ * List STT lexicon entries
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const parsed = parseQuery(request, listLexiconQuery);
+        if (!parsed.success) return parsed.response;
+
+        const entries = await listLexiconEntries(parsed.data);
+
+        return NextResponse.json({ success: true, data: entries });
+    } catch (error) {
+        console.error('Error listing lexicon entries:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể tải từ điển',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/admin/lexicon
+ * Add a misheard → correct rule or a whitelisted term
+ * Also used by the transcript view when a doctor corrects a word
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const parsed = await parseJsonBody(request, createLexiconEntryBody);
+        if (!parsed.success) return parsed.response;
+
+        const entry = await createLexiconEntry(parsed.data);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Đã thêm vào từ điển',
+            data: entry
+        });
+    } catch (error) {
+        console.error('Error creating lexicon entry:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể thêm mục từ',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -1,19 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { medicalAgentGraph } from '@/lib/agents/graph';
+import type { PatientContext, TranscriptLine } from '@/lib/agents/state';
+import { getPatientContext } from '@/lib/services/patientContextService';
+import { analyzeTranscript } from '@/lib/contracts/analysis';
+import { parseJsonBody } from '@/lib/contracts/server';
 
 export async function POST(req: NextRequest) {
     try {
-        const { transcript } = await req.json();
-
-        if (!transcript) {
-            return NextResponse.json({ error: "Transcript is required" }, { status: 400 });
-        }
+        const parsed = await parseJsonBody(req, analyzeTranscript.body);
+        if (!parsed.success) return parsed.response;
+        const { transcript, segments, sessionId } = parsed.data;
 
         console.log(" Starting Medical Agent Workflow...");
 
+        // Segment indices are the positions in the client's transcript list (evidence links point back to them)
+        const lines: TranscriptLine[] = segments
+            ? segments.map((seg, index) => ({ index, role: seg.role, text: seg.text }))
+            : [];
+
+        // Patient context is optional - the analysis still runs without it
+        let patientContext: PatientContext | null = null;
+        if (sessionId) {
+            try {
+                patientContext = await getPatientContext(sessionId);
+            } catch (contextError) {
+                console.error(' Error loading patient context:', contextError);
+            }
+        }
+
         // Invoke the LangGraph workflow
         const result = await medicalAgentGraph.invoke({
-            transcript: transcript
+            transcript: transcript,
+            segments: lines,
+            patientContext
         });
 
         console.log(" Workflow completed!");
@@ -22,8 +41,15 @@ export async function POST(req: NextRequest) {
             success: true,
             data: {
                 soap: result.soap,
+                soapEvidence: result.soapEvidence,
+                medications: result.medications,
+                planAdvice: result.planAdvice,
+                safetyAlerts: result.safetyAlerts,
                 icdCodes: result.icdCodes,
+                icdSuggestions: result.icdSuggestions,
+                icdError: result.icdError,
                 medicalAdvice: result.medicalAdvice,
+                citations: result.citations,
                 references: result.references
             }
         });
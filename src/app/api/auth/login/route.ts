@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthAdapter } from '@/lib/auth';
+import { canSignIn } from '@/lib/auth/permissions';
+import { createSessionToken, SESSION_COOKIE, sessionCookieOptions } from '@/lib/auth/session';
+import { loginBody } from '@/lib/contracts/auth';
+import { forbiddenResponse, parseJsonBody, unauthorizedResponse } from '@/lib/contracts/server';
+
+/**
+ * POST /api/auth/login
+ * Check email / password with the configured adapter (AUTH_PROVIDER) and set the session cookie
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const parsed = await parseJsonBody(request, loginBody);
+        if (!parsed.success) return parsed.response;
+
+        const user = await getAuthAdapter().authenticate(parsed.data.email, parsed.data.password);
+        if (!user) {
+            return unauthorizedResponse('Email hoặc mật khẩu không đúng');
+        }
+        if (!canSignIn(user.role)) {
+            return forbiddenResponse('Tài khoản không có quyền truy cập hệ thống');
+        }
+
+        const response = NextResponse.json({
+            success: true,
+            message: 'Đăng nhập thành công',
+            data: user
+        });
+        response.cookies.set(SESSION_COOKIE, createSessionToken(user), sessionCookieOptions());
+        return response;
+    } catch (error) {
+        console.error('Error signing in:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể đăng nhập',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE, sessionCookieOptions } from '@/lib/auth/session';
+
+/**
+ * POST /api/auth/logout
+ * Clear the session cookie
+ */
+export async function POST() {
+    const response = NextResponse.json({ success: true, message: 'Đã đăng xuất' });
+    response.cookies.set(SESSION_COOKIE, '', { ...sessionCookieOptions(), maxAge: 0 });
+    return response;
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { unauthorizedResponse } from '@/lib/contracts/server';
+
+/**
+ * GET /api/auth/session
+ * Current user (the UI uses the role to hide actions it cannot perform)
+ */
+export async function GET() {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    return NextResponse.json({ success: true, data: user });
+}
@@ -1,19 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMedicalRecordByBookingId } from '@/lib/services/sessionService';
+import { parseIdParams } from '@/lib/contracts/server';
 
 export async function GET(
     request: NextRequest,
-    { params }: { params: Promise<{ bookingId: string }> }
+    context: { params: Promise<{ bookingId: string }> }
 ) {
     try {
-        const { bookingId } = await params;
-
-        if (!bookingId) {
-            return NextResponse.json(
-                { success: false, message: 'Booking ID is required' },
-                { status: 400 }
-            );
-        }
+        const params = await parseIdParams(context.params, 'bookingId');
+        if (!params.success) return params.response;
+        const { bookingId } = params.data;
 
         const data = await getMedicalRecordByBookingId(bookingId);
 
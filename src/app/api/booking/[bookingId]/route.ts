@@ -1,12 +1,16 @@
 import { NextResponse } from 'next/server';
 import { deleteBooking, getBookingById } from '@/lib/services/bookingService';
+import { deleteBookingAudio } from '@/lib/services/recordingService';
+import { parseIdParams } from '@/lib/contracts/server';
 
 export async function GET(
     request: Request,
-    { params }: { params: Promise<{ bookingId: string }> }
+    context: { params: Promise<{ bookingId: string }> }
 ) {
     try {
-        const { bookingId } = await params;
+        const params = await parseIdParams(context.params, 'bookingId');
+        if (!params.success) return params.response;
+        const { bookingId } = params.data;
         const booking = await getBookingById(bookingId);
 
         if (!booking) {
@@ -31,10 +35,12 @@ export async function GET(
 
 export async function DELETE(
     request: Request,
-    { params }: { params: Promise<{ bookingId: string }> }
+    context: { params: Promise<{ bookingId: string }> }
 ) {
     try {
-        const { bookingId } = await params;
+        const params = await parseIdParams(context.params, 'bookingId');
+        if (!params.success) return params.response;
+        const { bookingId } = params.data;
 
         // Check if booking exists
         const booking = await getBookingById(bookingId);
@@ -45,6 +51,8 @@ export async function DELETE(
             );
         }
 
+        // Audio files live outside the database - remove them before the sessions cascade away
+        await deleteBookingAudio(bookingId);
         // Delete the booking
         const result = await deleteBooking(bookingId);
 
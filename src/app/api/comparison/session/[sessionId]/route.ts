@@ -1,20 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db, comparisonRecords } from '@/lib/db';
 import { eq } from 'drizzle-orm';
+import { parseIdParams } from '@/lib/contracts/server';
 
 export async function GET(
     req: NextRequest,
     context: { params: Promise<{ sessionId: string }> }
 ) {
     try {
-        const { sessionId } = await context.params;
-
-        if (!sessionId) {
-            return NextResponse.json(
-                { success: false, error: 'Session ID is required' },
-                { status: 400 }
-            );
-        }
+        const params = await parseIdParams(context.params, 'sessionId');
+        if (!params.success) return params.response;
+        const { sessionId } = params.data;
 
         // Find comparison record for this session
         const result = await db
@@ -1,26 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { comparisonRecords } from "@/lib/db/schema";
-import { compareMedicalResults, SoapNote } from "@/lib/agents/comparison";
+import { compareMedicalResults } from "@/lib/agents/comparison";
+import { submitComparison } from "@/lib/contracts/analysis";
+import { parseJsonBody } from "@/lib/contracts/server";
 
 export async function POST(req: NextRequest) {
     try {
-        const body = await req.json();
-        const { sessionId, medicalRecordId, aiResults, doctorResults } = body;
-
-        if (!aiResults || !doctorResults) {
-            return NextResponse.json(
-                { error: "Missing aiResults or doctorResults" },
-                { status: 400 }
-            );
-        }
+        const parsed = await parseJsonBody(req, submitComparison.body);
+        if (!parsed.success) return parsed.response;
+        const { sessionId, medicalRecordId, aiResults, doctorResults } = parsed.data;
 
         // Run Comparison Analysis
         const analysis = await compareMedicalResults(
-            aiResults.soap as SoapNote,
-            doctorResults.soap as SoapNote,
-            aiResults.icdCodes as string[],
-            doctorResults.icdCodes as string[]
+            aiResults.soap,
+            doctorResults.soap,
+            aiResults.icdCodes,
+            doctorResults.icdCodes
         );
 
         // Save to Database
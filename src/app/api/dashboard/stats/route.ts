@@ -1,11 +1,13 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getDashboardStats, getBookingsList } from '@/lib/services/dashboardService';
+import { dashboardStatsQuery } from '@/lib/contracts/booking';
+import { parseQuery } from '@/lib/contracts/server';
 
-export async function GET(request: Request) {
+export async function GET(request: NextRequest) {
     try {
-        const { searchParams } = new URL(request.url);
-        const page = parseInt(searchParams.get('page') || '1');
-        const limit = parseInt(searchParams.get('limit') || '50');
+        const parsed = parseQuery(request, dashboardStatsQuery);
+        if (!parsed.success) return parsed.response;
+        const { page, limit } = parsed.data;
 
         const stats = await getDashboardStats();
         const bookings = await getBookingsList(limit, page);
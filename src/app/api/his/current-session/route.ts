@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getHisCurrentSession } from '@/lib/contracts/his';
+import { parseQuery } from '@/lib/contracts/server';
 
 /**
  * Mock HIS System API - Current Session Endpoint
@@ -8,8 +10,9 @@ import { NextRequest, NextResponse } from 'next/server';
  * This is a mock implementation for demo purposes
  */
 export async function GET(request: NextRequest) {
-    const searchParams = request.nextUrl.searchParams;
-    const includeContext = searchParams.get('context') === 'true';
+    const parsed = parseQuery(request, getHisCurrentSession.query);
+    if (!parsed.success) return parsed.response;
+    const includeContext = parsed.data.context;
 
     try {
         // Mock delay to simulate API call
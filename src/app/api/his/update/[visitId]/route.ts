@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { updateHisVisitBody } from '@/lib/contracts/his';
+import { parseJsonBody } from '@/lib/contracts/server';
 
 /**
  * Mock HIS System API - Update Visit Endpoint
@@ -8,15 +10,6 @@ import { NextRequest, NextResponse } from 'next/server';
  * This is a mock implementation for demo purposes
  */
 
-interface UpdatePayload {
-    visitId: string;
-    subjective: string; // Triệu chứng
-    objective: string; // Sinh hiệu, khám lâm sàng
-    assessment: string; // Chẩn đoán
-    plan: string; // Kế hoạch điều trị
-    icdCodes: string[]; // Mã ICD-10
-}
-
 export async function POST(
     request: NextRequest,
     context: { params: Promise<{ visitId: string }> }
@@ -24,18 +17,11 @@ export async function POST(
     try {
         const params = await context.params;
         const visitId = params.visitId;
-        const payload: UpdatePayload = await request.json();
 
-        // Validate required fields
-        if (!payload.assessment || !payload.icdCodes || payload.icdCodes.length === 0) {
-            return NextResponse.json(
-                {
-                    success: false,
-                    error: 'Missing required fields: assessment and icdCodes are required'
-                },
-                { status: 400 }
-            );
-        }
+        // assessment and icdCodes are required
+        const parsed = await parseJsonBody(request, updateHisVisitBody);
+        if (!parsed.success) return parsed.response;
+        const payload = parsed.data;
 
         // Mock delay to simulate API call to external system
         await new Promise(resolve => setTimeout(resolve, 500));
@@ -68,7 +54,8 @@ export async function POST(
                     objective: payload.objective,
                     assessment: payload.assessment,
                     plan: payload.plan,
-                    icdCodes: payload.icdCodes
+                    icdCodes: payload.icdCodes,
+                    diagnoses: payload.diagnoses || []
                 }
             }
         });
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getIcd10Codes } from '@/lib/services/icd10Service';
+import { lookupIcd10Query } from '@/lib/contracts/icd10';
+import { parseQuery } from '@/lib/contracts/server';
+
+/**
+ * GET /api/icd10/lookup?codes=K29.7,I10
+ * Catalogue entries for the given codes (unknown codes are left out) - names of the codes already on a record
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const parsed = parseQuery(request, lookupIcd10Query);
+        if (!parsed.success) return parsed.response;
+
+        const items = await getIcd10Codes(parsed.data.codes);
+
+        return NextResponse.json({ success: true, data: items });
+    } catch (error) {
+        console.error('Error looking up ICD-10 codes:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể tra cứu mã ICD-10',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchIcd10Codes } from '@/lib/services/icd10Service';
+import { searchIcd10Query } from '@/lib/contracts/icd10';
+import { parseQuery } from '@/lib/contracts/server';
+
+/**
+ * GET /api/icd10/search?q=viem da day&limit=20&billable=1
+ * Search the ICD-10 catalogue by code prefix ("K29", "k297") or by name, with or without diacritics
+ * billable=1 leaves out categories that must be coded in more detail
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const parsed = parseQuery(request, searchIcd10Query);
+        if (!parsed.success) return parsed.response;
+        const { q, limit, billable } = parsed.data;
+
+        const codes = await searchIcd10Codes(q, { limit, billableOnly: billable });
+
+        return NextResponse.json({ success: true, data: codes });
+    } catch (error) {
+        console.error('Error searching ICD-10 codes:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể tìm mã ICD-10',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { saveMedicalRecord, type MedicalRecordInput } from '@/lib/services/sessionService';
+import { saveMedicalRecord } from '@/lib/services/sessionService';
+import { InvalidIcd10CodesError } from '@/lib/services/icd10Service';
+import { UnacknowledgedSafetyAlertsError } from '@/lib/agents/safety';
+import { saveMedicalRecordBody } from '@/lib/contracts/medicalRecord';
+import { parseJsonBody, validationError } from '@/lib/contracts/server';
 
 /**
  * POST /api/medical-record/save
@@ -7,44 +11,10 @@ import { saveMedicalRecord, type MedicalRecordInput } from '@/lib/services/sessi
  */
 export async function POST(request: NextRequest) {
     try {
-        const body: MedicalRecordInput = await request.json();
-
-        // Validate required fields
-        if (!body.sessionId) {
-            return NextResponse.json(
-                {
-                    success: false,
-                    error: 'Validation error',
-                    message: 'Session ID là bắt buộc'
-                },
-                { status: 400 }
-            );
-        }
-
-        if (!body.status || !['draft', 'final'].includes(body.status)) {
-            return NextResponse.json(
-                {
-                    success: false,
-                    error: 'Validation error',
-                    message: 'Status phải là "draft" hoặc "final"'
-                },
-                { status: 400 }
-            );
-        }
-
-        // For final records, ensure critical fields are present
-        if (body.status === 'final') {
-            if (!body.assessment || !body.icdCodes || body.icdCodes.length === 0) {
-                return NextResponse.json(
-                    {
-                        success: false,
-                        error: 'Validation error',
-                        message: 'Chẩn đoán và mã ICD-10 là bắt buộc khi lưu bệnh án chính thức'
-                    },
-                    { status: 400 }
-                );
-            }
-        }
+        // Required fields, structured prescription / diagnoses and the final-record checks (see saveMedicalRecordBody)
+        const parsed = await parseJsonBody(request, saveMedicalRecordBody);
+        if (!parsed.success) return parsed.response;
+        const body = parsed.data;
 
         // Save record using service
         const record = await saveMedicalRecord(body);
@@ -57,6 +27,13 @@ export async function POST(request: NextRequest) {
             data: record
         });
     } catch (error) {
+        if (error instanceof InvalidIcd10CodesError) {
+            return validationError(error.message, 'diagnoses');
+        }
+        if (error instanceof UnacknowledgedSafetyAlertsError) {
+            return validationError(error.message, 'safetyAcknowledged');
+        }
+
         console.error('Error saving medical record:', error);
         return NextResponse.json(
             {
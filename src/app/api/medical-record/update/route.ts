@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMedicalRecordBySession, saveMedicalRecord } from '@/lib/services/sessionService';
+import { InvalidIcd10CodesError } from '@/lib/services/icd10Service';
+import { UnacknowledgedSafetyAlertsError } from '@/lib/agents/safety';
+import { updateMedicalRecordBody } from '@/lib/contracts/medicalRecord';
+import { parseJsonBody, validationError } from '@/lib/contracts/server';
 
 /**
  * PATCH /api/medical-record/update
@@ -7,31 +11,10 @@ import { getMedicalRecordBySession, saveMedicalRecord } from '@/lib/services/ses
  */
 export async function PATCH(request: NextRequest) {
     try {
-        const body = await request.json();
-        const { medicalRecordId, sessionId, updates } = body;
-
-        // Validate required fields
-        if (!sessionId) {
-            return NextResponse.json(
-                {
-                    success: false,
-                    error: 'Validation error',
-                    message: 'Session ID hoặc Medical Record ID là bắt buộc'
-                },
-                { status: 400 }
-            );
-        }
-
-        if (!updates || typeof updates !== 'object') {
-            return NextResponse.json(
-                {
-                    success: false,
-                    error: 'Validation error',
-                    message: 'Updates object là bắt buộc'
-                },
-                { status: 400 }
-            );
-        }
+        // Diagnoses are only replaced when sent (icdCodes from older clients are converted by the service)
+        const parsed = await parseJsonBody(request, updateMedicalRecordBody);
+        if (!parsed.success) return parsed.response;
+        const { sessionId, updates, safetyAcknowledged } = parsed.data;
 
         // Get existing record
         const existingRecord = await getMedicalRecordBySession(sessionId);
@@ -54,8 +37,10 @@ export async function PATCH(request: NextRequest) {
             objective: updates.objective ?? existingRecord.objective ?? undefined,
             assessment: updates.assessment ?? existingRecord.assessment ?? undefined,
             plan: updates.plan ?? existingRecord.plan ?? undefined,
-            icdCodes: updates.icdCodes ?? (existingRecord.icdCodes as string[]) ?? undefined,
+            diagnoses: updates.diagnoses,
+            icdCodes: updates.diagnoses ? undefined : updates.icdCodes,
             status: updates.status ?? existingRecord.status,
+            safetyAcknowledged,
         };
 
         // Save updated record
@@ -67,6 +52,13 @@ export async function PATCH(request: NextRequest) {
             data: record
         });
     } catch (error) {
+        if (error instanceof InvalidIcd10CodesError) {
+            return validationError(error.message, 'updates.diagnoses');
+        }
+        if (error instanceof UnacknowledgedSafetyAlertsError) {
+            return validationError(error.message, 'safetyAcknowledged');
+        }
+
         console.error('Error updating medical record:', error);
         return NextResponse.json(
             {
@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserById, deleteUser } from '@/lib/services/userService';
+import { getUserById, deleteUser, toPublicUser } from '@/lib/services/userService';
+import { deletePatientAudio } from '@/lib/services/recordingService';
+import { parseIdParams } from '@/lib/contracts/server';
 
 export async function GET(
     req: NextRequest,
     context: { params: Promise<{ patientId: string }> }
 ) {
     try {
-        const { patientId } = await context.params;
+        const params = await parseIdParams(context.params, 'patientId');
+        if (!params.success) return params.response;
+        const { patientId } = params.data;
 
         const patient = await getUserById(patientId);
 
@@ -19,7 +23,7 @@ export async function GET(
 
         return NextResponse.json({
             success: true,
-            patient  // Return as "patient" for backwards compatibility
+            patient: toPublicUser(patient)  // Return as "patient" for backwards compatibility
         });
 
     } catch (error) {
@@ -36,7 +40,9 @@ export async function DELETE(
     context: { params: Promise<{ patientId: string }> }
 ) {
     try {
-        const { patientId } = await context.params;
+        const params = await parseIdParams(context.params, 'patientId');
+        if (!params.success) return params.response;
+        const { patientId } = params.data;
 
         // Check if patient exists
         const patient = await getUserById(patientId);
@@ -47,6 +53,8 @@ export async function DELETE(
             );
         }
 
+        // Audio files live outside the database - remove them before the rows cascade away
+        await deletePatientAudio(patientId);
         // Delete patient and all associated records
         const result = await deleteUser(patientId);
 
@@ -2,13 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db, examinationSessions, medicalRecords } from '@/lib/db';
 import { eq, desc } from 'drizzle-orm';
 import type { ExaminationSession } from '@/lib/db/schema-session';
+import { parseIdParams } from '@/lib/contracts/server';
 
 export async function GET(
     req: NextRequest,
     context: { params: Promise<{ patientId: string }> }
 ) {
     try {
-        const { patientId } = await context.params;
+        const params = await parseIdParams(context.params, 'patientId');
+        if (!params.success) return params.response;
+        const { patientId } = params.data;
 
         // Get all sessions for this patient
         const sessions = await db
@@ -2,31 +2,23 @@ import { NextRequest, NextResponse } from 'next/server';
 import {
     createPatient,
     forceCreatePatient,
-    type PatientInput
+    toPublicUser
 } from '@/lib/services/userService';
+import { createPatientBody } from '@/lib/contracts/patient';
+import { parseJsonBody } from '@/lib/contracts/server';
 
 export async function POST(req: NextRequest) {
     try {
-        const body = await req.json();
-        const { patientData, force } = body as {
-            patientData: PatientInput;
-            force?: boolean;
-        };
-
-        // Validate required fields
-        if (!patientData.name) {
-            return NextResponse.json(
-                { error: 'Patient name is required' },
-                { status: 400 }
-            );
-        }
+        const parsed = await parseJsonBody(req, createPatientBody);
+        if (!parsed.success) return parsed.response;
+        const { patientData, force } = parsed.data;
 
         // Force create (bypass duplicate check)
         if (force) {
             const user = await forceCreatePatient(patientData);
             return NextResponse.json({
                 success: true,
-                patient: user  // Return as "patient" for backwards compatibility
+                patient: toPublicUser(user)  // Return as "patient" for backwards compatibility
             });
         }
 
@@ -38,7 +30,7 @@ export async function POST(req: NextRequest) {
                 {
                     success: false,
                     error: result.error,
-                    duplicates: result.duplicates
+                    duplicates: result.duplicates?.map(toPublicUser)
                 },
                 { status: 409 } // Conflict
             );
@@ -46,7 +38,7 @@ export async function POST(req: NextRequest) {
 
         return NextResponse.json({
             success: true,
-            patient: result.user  // Return as "patient" for backwards compatibility
+            patient: toPublicUser(result.user)  // Return as "patient" for backwards compatibility
         });
 
     } catch (error) {
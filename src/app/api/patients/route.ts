@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { listPatients, searchPatients } from '@/lib/services/userService';
+import { listPatientsQuery } from '@/lib/contracts/patient';
+import { parseQuery } from '@/lib/contracts/server';
 
 export async function GET(req: NextRequest) {
     try {
-        const { searchParams } = new URL(req.url);
-
-        const query = searchParams.get('q') || searchParams.get('search');
-        const page = parseInt(searchParams.get('page') || '1', 10);
-        const limit = parseInt(searchParams.get('limit') || '20', 10);
+        const parsed = parseQuery(req, listPatientsQuery);
+        if (!parsed.success) return parsed.response;
+        const { page, limit } = parsed.data;
+        const query = parsed.data.q || parsed.data.search;
 
         // Search mode
         if (query) {
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRecordSafety } from '@/lib/agents/safety';
+import { medicationsFromPrescription } from '@/lib/prescription/prescription';
+import { getPatientContext } from '@/lib/services/patientContextService';
+import { checkSafety } from '@/lib/contracts/medicalRecord';
+import { parseJsonBody } from '@/lib/contracts/server';
+
+/**
+ * POST /api/safety/check
+ * Re-check drug–allergy / drug–drug safety of an edited plan
+ * Body: { plan: string, sessionId?: string, prescriptionItems?: PrescriptionItem[] }
+ * When structured items are sent they are checked directly (no LLM extraction)
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const parsed = await parseJsonBody(request, checkSafety.body);
+        if (!parsed.success) return parsed.response;
+        const { plan, sessionId, prescriptionItems } = parsed.data;
+
+        const patientContext = sessionId ? await getPatientContext(sessionId) : null;
+
+        const result = await checkRecordSafety(plan, medicationsFromPrescription(prescriptionItems || []), patientContext);
+
+        return NextResponse.json({
+            success: true,
+            message: result.alerts.length > 0
+                ? `Có ${result.alerts.length} cảnh báo an toàn thuốc`
+                : 'Không phát hiện cảnh báo an toàn thuốc',
+            data: result
+        });
+    } catch (error) {
+        console.error('Error checking plan safety:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể kiểm tra an toàn thuốc',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
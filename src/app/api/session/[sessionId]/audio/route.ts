@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/services/sessionService';
+import { saveSessionAudio, getSessionAudio, readAudioRecording } from '@/lib/services/recordingService';
+import { audioMimeType, uploadSessionAudio } from '@/lib/contracts/session';
+import { parseFormData, parseIdParams } from '@/lib/contracts/server';
+
+/**
+ * POST /api/session/:sessionId/audio
+ * Upload the full recording of the session
+ *
+ * FormData:
+ * - file: audio file
+ * - duration: (optional) recording length in seconds
+ */
+export async function POST(
+    request: NextRequest,
+    context: { params: Promise<{ sessionId: string }> }
+) {
+    try {
+        const params = await parseIdParams(context.params, 'sessionId');
+        if (!params.success) return params.response;
+        const { sessionId } = params.data;
+        const parsed = await parseFormData(request, uploadSessionAudio.form);
+        if (!parsed.success) return parsed.response;
+        const { file, duration } = parsed.data;
+
+        const session = await getSession(sessionId);
+        if (!session) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'Session not found',
+                    message: 'Phiên khám không tồn tại'
+                },
+                { status: 404 }
+            );
+        }
+
+        const recording = await saveSessionAudio(
+            sessionId,
+            Buffer.from(await file.arrayBuffer()),
+            audioMimeType(file.type) || 'audio/webm',   // Checked by the contract
+            duration
+        );
+
+        console.log(` Stored ${recording.sizeBytes} bytes of audio for session ${sessionId} (${recording.storageBackend})`);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Đã lưu file ghi âm',
+            data: {
+                id: recording.id,
+                mimeType: recording.mimeType,
+                sizeBytes: recording.sizeBytes,
+                durationSeconds: recording.durationSeconds,
+                expiresAt: recording.expiresAt
+            }
+        });
+    } catch (error) {
+        console.error('Error saving session audio:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể lưu file ghi âm',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * GET /api/session/:sessionId/audio
+ * Stream the latest recording of the session (supports Range requests so the player can seek)
+ */
+export async function GET(
+    request: NextRequest,
+    context: { params: Promise<{ sessionId: string }> }
+) {
+    try {
+        const params = await parseIdParams(context.params, 'sessionId');
+        if (!params.success) return params.response;
+        const { sessionId } = params.data;
+        const recording = await getSessionAudio(sessionId);
+        const data = recording && await readAudioRecording(recording);
+
+        if (!recording || !data) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'Audio not found',
+                    message: 'Phiên khám không có file ghi âm (hoặc đã hết hạn lưu trữ)'
+                },
+                { status: 404 }
+            );
+        }
+
+        // Rows stored before the upload allow-list may hold any type - never serve them as a document
+        const headers = {
+            'Content-Type': audioMimeType(recording.mimeType) || 'application/octet-stream',
+            'X-Content-Type-Options': 'nosniff',
+            'Accept-Ranges': 'bytes',
+            'Cache-Control': 'private, no-store',
+        };
+
+        const range = request.headers.get('range')?.match(/^bytes=(\d*)-(\d*)$/);
+        if (range && (range[1] || range[2])) {
+            // "bytes=-500" = last 500 bytes
+            const start = range[1] ? parseInt(range[1], 10) : Math.max(data.length - parseInt(range[2], 10), 0);
+            const end = range[1] && range[2] ? Math.min(parseInt(range[2], 10), data.length - 1) : data.length - 1;
+
+            if (start >= data.length || start > end) {
+                return new NextResponse(null, {
+                    status: 416,
+                    headers: { 'Content-Range': `bytes */${data.length}` }
+                });
+            }
+
+            return new NextResponse(new Uint8Array(data.subarray(start, end + 1)), {
+                status: 206,
+                headers: {
+                    ...headers,
+                    'Content-Range': `bytes ${start}-${end}/${data.length}`,
+                    'Content-Length': String(end - start + 1),
+                }
+            });
+        }
+
+        return new NextResponse(new Uint8Array(data), {
+            headers: { ...headers, 'Content-Length': String(data.length) }
+        });
+    } catch (error) {
+        console.error('Error streaming session audio:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể tải file ghi âm',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { renderVisitDocument } from '@/lib/services/documentService';
+import { visitDocumentParams, visitDocumentQuery } from '@/lib/contracts/session';
+import { parseQuery, parseWith } from '@/lib/contracts/server';
+
+/**
+ * GET /api/session/:sessionId/documents/:kind?format=pdf|html
+ * Printable prescription (kind=prescription), visit summary (kind=summary)
+ * or approved patient instructions (kind=instructions)
+ * Add &download=1 to download instead of opening inline
+ */
+export async function GET(
+    request: NextRequest,
+    context: { params: Promise<{ sessionId: string; kind: string }> }
+) {
+    try {
+        const params = parseWith(visitDocumentParams, await context.params);
+        if (!params.success) return params.response;
+        const { sessionId, kind } = params.data;
+
+        const query = parseQuery(request, visitDocumentQuery);
+        if (!query.success) return query.response;
+        const { format, download } = query.data;
+
+        const document = await renderVisitDocument(sessionId, kind, format);
+        if (!document) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'Not found',
+                    message: kind === 'instructions'
+                        ? 'Hướng dẫn cho bệnh nhân chưa được bác sĩ duyệt'
+                        : 'Phiên khám chưa có bệnh án'
+                },
+                { status: 404 }
+            );
+        }
+
+        return new NextResponse(typeof document.body === 'string' ? document.body : new Uint8Array(document.body), {
+            headers: {
+                'Content-Type': document.contentType,
+                'Content-Disposition': `${download ? 'attachment' : 'inline'}; filename="${document.filename}"`,
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        console.error('Error rendering visit document:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể tạo tài liệu',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMedicalRecordBySession } from '@/lib/services/sessionService';
+import {
+    generateSessionInstructions,
+    getPatientInstructions,
+    savePatientInstructions,
+} from '@/lib/services/patientInstructionsService';
+import { generateSessionInstructions as generateContract, saveSessionInstructionsBody } from '@/lib/contracts/session';
+import { parseJsonBody, parseIdParams } from '@/lib/contracts/server';
+
+function notFound() {
+    return NextResponse.json(
+        {
+            success: false,
+            error: 'Not found',
+            message: 'Phiên khám chưa có bệnh án'
+        },
+        { status: 404 }
+    );
+}
+
+function serverError(message: string, error: unknown) {
+    return NextResponse.json(
+        {
+            success: false,
+            error: 'Internal server error',
+            message,
+            details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 500 }
+    );
+}
+
+/**
+ * GET /api/session/:sessionId/instructions
+ * Patient instructions attached to the session's medical record (data: null if none yet)
+ */
+export async function GET(
+    request: NextRequest,
+    context: { params: Promise<{ sessionId: string }> }
+) {
+    try {
+        const params = await parseIdParams(context.params, 'sessionId');
+        if (!params.success) return params.response;
+        const { sessionId } = params.data;
+        const record = await getMedicalRecordBySession(sessionId);
+        if (!record) return notFound();
+
+        return NextResponse.json({
+            success: true,
+            data: await getPatientInstructions(record.id)
+        });
+    } catch (error) {
+        console.error('Error fetching patient instructions:', error);
+        return serverError('Không thể tải hướng dẫn cho bệnh nhân', error);
+    }
+}
+
+/**
+ * POST /api/session/:sessionId/instructions
+ * Generate a new AI draft from the medical record
+ * Body: { readingLevel: 'simple' | 'standard' | 'detailed' }
+ */
+export async function POST(
+    request: NextRequest,
+    context: { params: Promise<{ sessionId: string }> }
+) {
+    try {
+        const params = await parseIdParams(context.params, 'sessionId');
+        if (!params.success) return params.response;
+        const { sessionId } = params.data;
+        const parsed = await parseJsonBody(request, generateContract.body);
+        if (!parsed.success) return parsed.response;
+
+        const instructions = await generateSessionInstructions(sessionId, parsed.data.readingLevel);
+        if (!instructions) return notFound();
+
+        return NextResponse.json({
+            success: true,
+            message: 'Đã tạo bản nháp hướng dẫn - vui lòng kiểm tra và duyệt',
+            data: instructions
+        });
+    } catch (error) {
+        console.error('Error generating patient instructions:', error);
+        return serverError('Không thể tạo hướng dẫn cho bệnh nhân', error);
+    }
+}
+
+/**
+ * PUT /api/session/:sessionId/instructions
+ * Save the doctor-edited instructions
+ * Body: { readingLevel, content, status: 'draft' | 'approved' }
+ */
+export async function PUT(
+    request: NextRequest,
+    context: { params: Promise<{ sessionId: string }> }
+) {
+    try {
+        const params = await parseIdParams(context.params, 'sessionId');
+        if (!params.success) return params.response;
+        const { sessionId } = params.data;
+        // Approving requires the disease explanation and the warning signs (see saveSessionInstructionsBody)
+        const parsed = await parseJsonBody(request, saveSessionInstructionsBody);
+        if (!parsed.success) return parsed.response;
+        const body = parsed.data;
+
+        const record = await getMedicalRecordBySession(sessionId);
+        if (!record) return notFound();
+
+        const instructions = await savePatientInstructions(record.id, body);
+
+        return NextResponse.json({
+            success: true,
+            message: body.status === 'approved'
+                ? 'Đã duyệt và đính kèm hướng dẫn vào bệnh án'
+                : 'Đã lưu nháp hướng dẫn',
+            data: instructions
+        });
+    } catch (error) {
+        console.error('Error saving patient instructions:', error);
+        return serverError('Không thể lưu hướng dẫn cho bệnh nhân', error);
+    }
+}
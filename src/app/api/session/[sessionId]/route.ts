@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession, getMedicalRecordBySession } from '@/lib/services/sessionService';
+import { deleteSessionAudio } from '@/lib/services/recordingService';
+import { getPrescriptionItems } from '@/lib/services/prescriptionService';
+import { getDiagnoses } from '@/lib/services/diagnosisService';
 import { db, examinationSessions, medicalRecords } from '@/lib/db';
 import { eq } from 'drizzle-orm';
+import { parseIdParams } from '@/lib/contracts/server';
 
 /** * GET /api/session/:sessionId * Get examination session details by ID */
 export async function GET(
@@ -9,15 +13,9 @@ export async function GET(
     context: { params: Promise<{ sessionId: string }> }
 ) {
     try {
-        const params = await context.params;
-        const sessionId = params.sessionId;
-        if (!sessionId) {
-            return NextResponse.json(
-                {
-                    success: false,
-                    error: 'Session ID is required'
-                }, { status: 400 });
-        }
+        const params = await parseIdParams(context.params, 'sessionId');
+        if (!params.success) return params.response;
+        const { sessionId } = params.data;
         // Get session
         const session = await getSession(sessionId);
         if (!session) {
@@ -31,12 +29,16 @@ export async function GET(
         }
         // Get associated medical record
         const medicalRecord = await getMedicalRecordBySession(sessionId);
+        const prescriptionItems = medicalRecord ? await getPrescriptionItems(medicalRecord.id) : [];
+        const diagnoses = medicalRecord ? await getDiagnoses(medicalRecord.id) : [];
 
         return NextResponse.json({
             success: true,
             data: {
                 session,
-                medicalRecord: medicalRecord || null
+                medicalRecord: medicalRecord || null,
+                prescriptionItems,
+                diagnoses
             }
         });
     } catch (error) { console.error('Error fetching session:', error); return NextResponse.json({ success: false, error: 'Internal server error', message: 'Không thể lấy thông tin phiên khám', details: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 }); }
@@ -46,17 +48,15 @@ export async function GET(
 export async function DELETE(request: NextRequest, context: { params: Promise<{ sessionId: string }> }) {
 
     try {
-        const params = await context.params; const sessionId = params.sessionId;
-        if (!sessionId) {
-            return NextResponse.json({
-                success: false, error: 'Session ID is required'
-            },
-                { status: 400 });
-        }
+        const params = await parseIdParams(context.params, 'sessionId');
+        if (!params.success) return params.response;
+        const { sessionId } = params.data;
         // Check if session exists        
         const session = await getSession(sessionId);
         if (!session) { return NextResponse.json({ success: false, error: 'Session not found', message: 'Phiên khám không tồn tại' }, { status: 404 }); }
 
+        // Audio files live outside the database - remove them before the rows cascade away
+        await deleteSessionAudio(sessionId);
         // Delete medical records first (foreign key constraint)        
         await db.delete(medicalRecords).where(eq(medicalRecords.sessionId, sessionId));
         // Delete session        
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/services/sessionService';
+import { saveSessionTranscript, getSessionTranscript, getSessionAudio } from '@/lib/services/recordingService';
+import { saveSessionTranscriptBody } from '@/lib/contracts/session';
+import { parseJsonBody, parseIdParams } from '@/lib/contracts/server';
+
+/**
+ * GET /api/session/:sessionId/transcript
+ * Transcript of the session + metadata of its audio recording (if any)
+ */
+export async function GET(
+    request: NextRequest,
+    context: { params: Promise<{ sessionId: string }> }
+) {
+    try {
+        const params = await parseIdParams(context.params, 'sessionId');
+        if (!params.success) return params.response;
+        const { sessionId } = params.data;
+
+        const [transcript, audio] = await Promise.all([
+            getSessionTranscript(sessionId),
+            getSessionAudio(sessionId),
+        ]);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                transcript,
+                audio: audio && {
+                    id: audio.id,
+                    mimeType: audio.mimeType,
+                    sizeBytes: audio.sizeBytes,
+                    durationSeconds: audio.durationSeconds,
+                    expiresAt: audio.expiresAt,
+                    createdAt: audio.createdAt,
+                }
+            }
+        });
+    } catch (error) {
+        console.error('Error fetching transcript:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể lấy transcript',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/session/:sessionId/transcript
+ * Save the transcript of the session (segments after edits + original STT segments)
+ */
+export async function PUT(
+    request: NextRequest,
+    context: { params: Promise<{ sessionId: string }> }
+) {
+    try {
+        const params = await parseIdParams(context.params, 'sessionId');
+        if (!params.success) return params.response;
+        const { sessionId } = params.data;
+        const parsed = await parseJsonBody(request, saveSessionTranscriptBody);
+        if (!parsed.success) return parsed.response;
+
+        const session = await getSession(sessionId);
+        if (!session) {
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: 'Session not found',
+                    message: 'Phiên khám không tồn tại'
+                },
+                { status: 404 }
+            );
+        }
+
+        const transcript = await saveSessionTranscript({ sessionId, ...parsed.data });
+
+        return NextResponse.json({
+            success: true,
+            message: 'Đã lưu transcript',
+            data: transcript
+        });
+    } catch (error) {
+        console.error('Error saving transcript:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: 'Internal server error',
+                message: 'Không thể lưu transcript',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
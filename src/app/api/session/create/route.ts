@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSession, createSessionFromBooking, type SessionInput } from '@/lib/services/sessionService';
-import { createUser, forceCreateUser, type UserInput } from '@/lib/services/userService';
+import { forceCreateUser, toPublicUser, type UserInput } from '@/lib/services/userService';
+import { createSessionBody } from '@/lib/contracts/session';
+import { parseJsonBody } from '@/lib/contracts/server';
 
 /**
  * POST /api/session/create
@@ -13,7 +15,9 @@ import { createUser, forceCreateUser, type UserInput } from '@/lib/services/user
  */
 export async function POST(request: NextRequest) {
     try {
-        const body = await request.json();
+        const parsed = await parseJsonBody(request, createSessionBody);
+        if (!parsed.success) return parsed.response;
+        const body = parsed.data;
 
         // NEW FORMAT: bookingId provided - create session from booking
         if (body.bookingId) {
@@ -46,57 +50,44 @@ export async function POST(request: NextRequest) {
             });
         }
 
-        // OLD FORMAT: patientName provided - auto-create patient first
-        if (body.patientName) {
-            // Step 1: Create patient from form data
-            const patientData: UserInput = {
-                name: body.patientName,
-                email: `temp_${Date.now()}@placeholder.local`, // Temporary email
-                gender: body.patientInfo?.gender,
-                address: body.patientInfo?.address,
-                phone: body.patientInfo?.phoneNumber,
-                medicalHistory: body.medicalHistory,
-                // Calculate birthDate from age if provided
-                birthDate: body.patientInfo?.age
-                    ? calculateBirthDate(body.patientInfo.age)
-                    : undefined,
-            };
+        // OLD FORMAT: patientName provided (createSessionBody requires one of the three) - auto-create patient first
+        // Step 1: Create patient from form data
+        const patientData: UserInput = {
+            name: body.patientName!,
+            email: `temp_${Date.now()}@placeholder.local`, // Temporary email
+            gender: body.patientInfo?.gender,
+            address: body.patientInfo?.address,
+            phone: body.patientInfo?.phoneNumber,
+            medicalHistory: body.medicalHistory,
+            // Calculate birthDate from age if provided
+            birthDate: body.patientInfo?.age
+                ? calculateBirthDate(body.patientInfo.age)
+                : undefined,
+        };
 
-            // Force create patient (bypass duplicate check for old flow)
-            const patient = await forceCreateUser(patientData);
+        // Force create patient (bypass duplicate check for old flow)
+        const patient = await forceCreateUser(patientData);
 
-            // Step 2: Create session linked to patient
-            const sessionInput: SessionInput = {
-                patientId: patient.id,
-                chiefComplaint: body.chiefComplaint || body.medicalHistory, // Use medical history as chief complaint if not provided
-                visitId: body.visitId,
-            };
+        // Step 2: Create session linked to patient
+        const sessionInput: SessionInput = {
+            patientId: patient.id,
+            chiefComplaint: body.chiefComplaint || body.medicalHistory, // Use medical history as chief complaint if not provided
+            visitId: body.visitId,
+        };
 
-            const session = await createSession(sessionInput);
-
-            return NextResponse.json({
-                success: true,
-                message: 'Phiên khám đã được tạo thành công',
-                data: {
-                    ...session,
-                    // Include patient info for backward compatibility
-                    patientName: patient.name,
-                    patientDisplayId: patient.displayId,
-                    patient: patient
-                }
-            });
-        }
-
-        // No valid input
-        return NextResponse.json(
-            {
-                success: false,
-                error: 'Validation error',
-                message: 'Mã booking, tên bệnh nhân hoặc mã bệnh nhân là bắt buộc'
-            },
-            { status: 400 }
-        );
+        const session = await createSession(sessionInput);
 
+        return NextResponse.json({
+            success: true,
+            message: 'Phiên khám đã được tạo thành công',
+            data: {
+                ...session,
+                // Include patient info for backward compatibility
+                patientName: patient.name,
+                patientDisplayId: patient.displayId,
+                patient: toPublicUser(patient)
+            }
+        });
     } catch (error) {
         console.error('Error creating session:', error);
         return NextResponse.json(
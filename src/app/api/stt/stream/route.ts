@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runSttPipeline } from '@/lib/stt/pipeline';
+import { transcribeChunk } from '@/lib/contracts/analysis';
+import { audioFileExtension } from '@/lib/contracts/session';
+import { parseFormData } from '@/lib/contracts/server';
+
+/**
+ * POST /api/stt/stream
+ * Xử lý một chunk audio trong lúc đang ghi âm (live transcription)
+ *
+ * FormData:
+ * - file: audio chunk (file audio độc lập, có header riêng - định dạng theo MediaRecorder, thường là webm hoặc mp4)
+ * - chunkIndex: thứ tự chunk (0, 1, 2...)
+ * - offset: thời điểm bắt đầu chunk tính từ đầu buổi ghi âm (giây)
+ * - context: (optional) JSON array [{ role, text }] các câu trước đó
+ * - speakers: (optional) JSON array [{ id, role, embedding? }] người nói đã biết từ các chunk trước
+ */
+export async function POST(req: NextRequest) {
+    // Unreadable context / speakers JSON is ignored (see transcribeChunk)
+    const parsed = await parseFormData(req, transcribeChunk.form);
+    if (!parsed.success) return parsed.response;
+    const { file, chunkIndex, offset, context, speakers } = parsed.data;
+
+    try {
+        console.log(` Received chunk #${chunkIndex}: ${file.size} bytes @ ${offset.toFixed(1)}s`);
+
+        const result = await runSttPipeline(file, {
+            filename: `chunk-${chunkIndex}.${audioFileExtension(file.type)}`,
+            offset,
+            context,
+            speakers,
+        });
+
+        return NextResponse.json({
+            success: true,
+            chunkIndex,
+            offset,
+            segments: result.segments,
+            raw_text: result.raw_text,
+            speakers: result.speakers
+        });
+
+    } catch (error) {
+        console.error(` Chunk #${chunkIndex} processing error:`, error);
+        return NextResponse.json(
+            { error: "Lỗi xử lý hệ thống", details: String(error) },
+            { status: 500 }
+        );
+    }
+}
@@ -6,7 +6,7 @@ import Card from '@/components/ui/Card';
 import Badge from '@/components/ui/Badge';
 import Button from '@/components/ui/Button';
 import { ArrowLeft, Calendar, FileText, User, Phone, Clock, Stethoscope, AlertCircle } from 'lucide-react';
-import { apiClient } from '@/lib/api-client';
+import { apiClient, ApiClientError } from '@/lib/api-client';
 
 interface BookingInfo {
     id: string;
@@ -37,7 +37,7 @@ interface MedicalRecordInfo {
     objective: string | null;
     assessment: string | null;
     plan: string | null;
-    icdCodes: string[];
+    icdCodes: string[] | null;
     status: string;
     createdAt: string;
 }
@@ -65,18 +65,15 @@ export default function BookingRecordPage() {
             setError(null);
 
             // Migrated to backend API
-            const data = await apiClient.get(`/booking/${bookingId}/record`);
-
-            if (data.success) {
-                setBooking(data.data.booking);
-                setSession(data.data.session);
-                setMedicalRecord(data.data.medicalRecord);
-            } else {
-                setError(data.message || 'Không tìm thấy bệnh án');
-            }
+            const data = await apiClient.getBookingRecord({ path: { bookingId } });
+            setBooking(data.data.booking);
+            setSession(data.data.session);
+            setMedicalRecord(data.data.medicalRecord);
         } catch (err) {
             console.error('Error fetching record data:', err);
-            setError('Lỗi khi tải dữ liệu bệnh án');
+            setError(err instanceof ApiClientError && err.statusCode === 404
+                ? 'Không tìm thấy bệnh án'
+                : 'Lỗi khi tải dữ liệu bệnh án');
         } finally {
             setLoading(false);
         }
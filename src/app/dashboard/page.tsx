@@ -9,8 +9,10 @@ import { useToast } from '@/components/ui';
 import PatientSearchModal from '@/components/PatientSearchModal';
 import PatientFormModal from '@/components/PatientFormModal';
 import UrgencyBadge, { getRowUrgencyClass } from '@/components/UrgencyBadge';
+import UserMenu from '@/components/UserMenu';
+import { useAuth } from '@/components/AuthProvider';
 import { Search, UserPlus, TrendingUp, Users, Calendar, Activity, Stethoscope, Trash2, Phone, Clock, FileText } from 'lucide-react';
-import { apiClient } from '@/lib/api-client';
+import { apiClient, ApiClientError } from '@/lib/api-client';
 
 interface DashboardStats {
     today: {
@@ -55,6 +57,11 @@ export default function DashboardPage() {
     const [showPatientForm, setShowPatientForm] = useState(false);
     const [deletingBookingId, setDeletingBookingId] = useState<string | null>(null);
     const toast = useToast();
+    const { can } = useAuth();
+
+    // Completed bookings open the record, the others the examination
+    const canOpenBooking = (sessionStatus: string | null) =>
+        sessionStatus === 'completed' ? can('records:view') : can('examination:conduct');
 
     useEffect(() => {
         fetchDashboardData();
@@ -74,15 +81,13 @@ export default function DashboardPage() {
         try {
             // 🔄 MIGRATED: Now calling NestJS backend instead of /api/dashboard/stats
             // Old: const res = await fetch('/api/dashboard/stats?limit=50');
-            // New: Using apiClient.get() with params
-            const data = await apiClient.get('/dashboard/stats', {
+            // New: Using the typed apiClient.getDashboardStats() with params
+            const data = await apiClient.getDashboardStats({
                 params: { limit: 50 }
             });
 
-            if (data.success) {
-                setStats(data.stats);
-                setBookings(data.bookings || data.patients || []);
-            }
+            setStats(data.stats);
+            setBookings(data.bookings || data.patients || []);
         } catch (error) {
             console.error('Error fetching dashboard data:', error);
             toast.error('Không thể tải dữ liệu dashboard');
@@ -102,12 +107,22 @@ export default function DashboardPage() {
     const handlePatientCreated = (patientId: string) => {
         setShowPatientForm(false);
         fetchDashboardData();
-        router.push(`/examination?patientId=${patientId}`);
+        if (can('examination:conduct')) {
+            router.push(`/examination?patientId=${patientId}`);
+        } else {
+            toast.success('Đã tạo bệnh nhân');
+        }
     };
 
     const handlePatientSelected = (patientId: string, displayId: string) => {
         setShowPatientSearch(false);
-        router.push(`/examination?patientId=${patientId}`);
+        if (can('examination:conduct')) {
+            router.push(`/examination?patientId=${patientId}`);
+        } else if (can('records:view') && displayId) {
+            router.push(`/patient/${displayId}/history`);
+        } else {
+            toast.info(`Bệnh nhân ${displayId || patientId}`);
+        }
     };
 
     const handleQuickExam = (bookingId: string, sessionStatus: string | null, e: React.MouseEvent) => {
@@ -133,24 +148,23 @@ export default function DashboardPage() {
         try {
             // 🔄 MIGRATED: Now calling NestJS backend instead of /api/booking/:id
             // Old: const res = await fetch(`/api/booking/${bookingId}`, { method: 'DELETE' });
-            // New: Using apiClient.delete()
-            const data = await apiClient.delete(`/booking/${bookingId}`);
-
-            if (data.success) {
-                fetchDashboardData();
-                toast.success('Xóa lịch khám thành công!');
-            } else {
-                toast.error('Lỗi: ' + data.message);
-            }
+            // New: Using the typed apiClient.deleteBooking()
+            await apiClient.deleteBooking({ path: { bookingId } });
+            fetchDashboardData();
+            toast.success('Xóa lịch khám thành công!');
         } catch (error) {
             console.error('Error deleting booking:', error);
-            toast.error('Lỗi kết nối. Vui lòng thử lại.');
+            toast.error(error instanceof ApiClientError && error.statusCode > 0
+                ? 'Lỗi: ' + error.message
+                : 'Lỗi kết nối. Vui lòng thử lại.');
         } finally {
             setDeletingBookingId(null);
         }
     };
 
     const handleRowClick = (bookingId: string, sessionStatus: string | null) => {
+        if (!canOpenBooking(sessionStatus)) return;
+
         if (sessionStatus === 'completed') {
             // Booking đã hoàn thành → xem bệnh án
             router.push(`/booking/${bookingId}/record`);
@@ -180,16 +194,19 @@ export default function DashboardPage() {
                         <h1 className="text-3xl font-bold text-slate-900">Dashboard</h1>
                         <p className="text-slate-600 mt-1">Tổng quan hệ thống quản lý khám bệnh</p>
                     </div>
-                    <div className="flex gap-3">
+                    <div className="flex items-center gap-3">
                         <Button variant="secondary" onClick={handleSearch} className="flex items-center gap-2">
                             <Search className="w-5 h-5" />
                             Tìm kiếm
                             <span className="ml-2 text-xs bg-white/50 px-2 py-1 rounded font-mono">Ctrl+K</span>
                         </Button>
-                        <Button variant="primary" onClick={handleNewPatient} className="flex items-center gap-2">
-                            <UserPlus className="w-5 h-5" />
-                            Bệnh nhân    mới
-                        </Button>
+                        {can('patients:create') && (
+                            <Button variant="primary" onClick={handleNewPatient} className="flex items-center gap-2">
+                                <UserPlus className="w-5 h-5" />
+                                Bệnh nhân    mới
+                            </Button>
+                        )}
+                        <UserMenu />
                     </div>
                 </div>
 
@@ -232,7 +249,7 @@ export default function DashboardPage() {
                                     {bookings.map((booking, idx) => (
                                         <tr
                                             key={booking.id}
-                                            className={`border-b border-slate-100 transition cursor-pointer ${getRowUrgencyClass(booking.bookingTime, booking.hasSession, booking.sessionStatus)}`}
+                                            className={`border-b border-slate-100 transition ${canOpenBooking(booking.sessionStatus) ? 'cursor-pointer' : ''} ${getRowUrgencyClass(booking.bookingTime, booking.hasSession, booking.sessionStatus)}`}
                                             onClick={() => handleRowClick(booking.id, booking.sessionStatus)}
                                             style={{ animationDelay: `${idx * 50}ms` }}
                                         >
@@ -272,38 +289,42 @@ export default function DashboardPage() {
                                             </td>
                                             <td className="px-6 py-4">
                                                 <div className="flex items-center gap-2 justify-center">
-                                                    <Button
-                                                        variant="primary"
-                                                        onClick={(e) => handleQuickExam(booking.id, booking.sessionStatus, e)}
-                                                        className="px-3 py-2 text-xs flex items-center gap-1"
-                                                        title={booking.sessionStatus === 'completed' ? 'Xem bệnh án' : 'Bắt đầu khám'}
-                                                    >
-                                                        {booking.sessionStatus === 'completed' ? (
-                                                            <>
-                                                                <FileText className="w-4 h-4" />
-                                                                Xem
-                                                            </>
-                                                        ) : (
-                                                            <>
-                                                                <Stethoscope className="w-4 h-4" />
-                                                                Khám
-                                                            </>
-                                                        )}
-                                                    </Button>
-                                                    <Button
-                                                        variant="danger"
-                                                        onClick={(e) => handleDeleteBooking(booking.id, booking.displayId, e)}
-                                                        className="px-3 py-2 text-xs flex items-center gap-1"
-                                                        disabled={deletingBookingId === booking.id}
-                                                        title="Xóa lịch khám"
-                                                    >
-                                                        {deletingBookingId === booking.id ? (
-                                                            <span className="animate-spin">⏳</span>
-                                                        ) : (
-                                                            <Trash2 className="w-4 h-4" />
-                                                        )}
-                                                        Xóa
-                                                    </Button>
+                                                    {canOpenBooking(booking.sessionStatus) && (
+                                                        <Button
+                                                            variant="primary"
+                                                            onClick={(e) => handleQuickExam(booking.id, booking.sessionStatus, e)}
+                                                            className="px-3 py-2 text-xs flex items-center gap-1"
+                                                            title={booking.sessionStatus === 'completed' ? 'Xem bệnh án' : 'Bắt đầu khám'}
+                                                        >
+                                                            {booking.sessionStatus === 'completed' ? (
+                                                                <>
+                                                                    <FileText className="w-4 h-4" />
+                                                                    Xem
+                                                                </>
+                                                            ) : (
+                                                                <>
+                                                                    <Stethoscope className="w-4 h-4" />
+                                                                    Khám
+                                                                </>
+                                                            )}
+                                                        </Button>
+                                                    )}
+                                                    {can('bookings:delete') && (
+                                                        <Button
+                                                            variant="danger"
+                                                            onClick={(e) => handleDeleteBooking(booking.id, booking.displayId, e)}
+                                                            className="px-3 py-2 text-xs flex items-center gap-1"
+                                                            disabled={deletingBookingId === booking.id}
+                                                            title="Xóa lịch khám"
+                                                        >
+                                                            {deletingBookingId === booking.id ? (
+                                                                <span className="animate-spin">⏳</span>
+                                                            ) : (
+                                                                <Trash2 className="w-4 h-4" />
+                                                            )}
+                                                            Xóa
+                                                        </Button>
+                                                    )}
                                                 </div>
                                             </td>
                                         </tr>
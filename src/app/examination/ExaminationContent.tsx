@@ -5,24 +5,46 @@ import { useSearchParams } from 'next/navigation';
 import MatchingEngine from '@/components/MatchingEngine';
 import SessionInitForm from '@/components/SessionInitForm';
 import MedicalRecordReview, { type MedicalRecordData } from '@/components/MedicalRecordReview';
+import { getRoleStyle, formatTimestamp } from '@/components/TranscriptPlayer';
 import { Button, Card, Badge, Textarea, useToast } from '@/components/ui';
-import { Session } from '@/lib/services/sessionService';
-import { ChevronDown, Check, Loader2, Mic, Edit3, Sparkles, ChevronRight } from 'lucide-react';
-import { apiClient } from '@/lib/api-client';
+import type { Session } from '@/lib/services/sessionService';
+import type { Jsonified } from '@/lib/contracts';
+import { ChevronDown, Check, Loader2, Mic, Edit3, Sparkles, ChevronRight, Pencil, Merge, Scissors, Trash2, RotateCcw, RefreshCw } from 'lucide-react';
+import { apiClient, ApiClientError } from '@/lib/api-client';
+import { SPEAKER_ROLES, type ProcessedSegment, type SpeakerProfile } from '@/lib/stt/types';
+import type { Citation, IcdSuggestion, PrescribedMedication, SafetyAlert, SoapEvidence } from '@/lib/agents/state';
+import { applyLexicon } from '@/lib/stt/lexicon';
+import { withCleanText, mergeSegments, splitSegment, formatTranscriptForAnalysis } from '@/lib/stt/transcriptEdit';
+import { prescriptionFromMedications } from '@/lib/prescription/prescription';
+
+// Live transcription: recorder is restarted every CHUNK_DURATION_MS so each chunk is a standalone audio file
+const CHUNK_DURATION_MS = 15000;
+// Number of previous utterances sent with each chunk to keep speaker roles consistent
+const CHUNK_CONTEXT_SIZE = 6;
+// localStorage key prefix for partial transcripts (survives tab crash / reload)
+const PARTIAL_TRANSCRIPT_KEY = 'mea:partial-transcript:';
+
+interface ChunkResult {
+    segments: ProcessedSegment[];
+    raw_text: string;
+}
 
-interface TranscriptSegment {
-    start: number;
-    end: number;
+interface PartialTranscript extends ChunkResult {
+    speakers?: SpeakerProfile[];
+    original_segments?: ProcessedSegment[]; // STT output before manual edits (audit)
+}
+
+interface SegmentEditDraft {
+    index: number;
+    text: string;
     role: string;
-    raw_text: string;
-    clean_text: string;
 }
 
-interface STTResponse {
-    success: boolean;
-    segments: TranscriptSegment[];
-    raw_text: string;
-    num_speakers: number;
+interface WordCorrectionDraft {
+    segmentIndex: number;
+    misheard: string;
+    correct: string;
+    saveToLexicon: boolean;
 }
 
 interface AnalysisResult {
@@ -32,8 +54,15 @@ interface AnalysisResult {
         assessment: string;
         plan: string;
     };
+    soapEvidence?: SoapEvidence;
+    medications?: PrescribedMedication[];
+    planAdvice?: string;
+    safetyAlerts?: SafetyAlert[];
     icdCodes: string[];
+    icdSuggestions?: IcdSuggestion[];
+    icdError?: string | null;
     medicalAdvice: string;
+    citations?: Citation[];
     references: string[];
 }
 
@@ -46,7 +75,7 @@ export default function ExaminationPage() {
     const patientId = searchParams.get('patientId'); // Legacy support
 
     // Session Management State  
-    const [currentSession, setCurrentSession] = useState<Session | null>(null);
+    const [currentSession, setCurrentSession] = useState<Jsonified<Session> | null>(null);
     const [medicalRecordSaved, setMedicalRecordSaved] = useState(false);
     const [isCreatingSession, setIsCreatingSession] = useState(false);
 
@@ -60,18 +89,45 @@ export default function ExaminationPage() {
     const [isRecording, setIsRecording] = useState(false);
     const [loading, setLoading] = useState(false);
     const [analyzing, setAnalyzing] = useState(false);
-    const [transcripts, setTranscripts] = useState<TranscriptSegment[]>([]);
+    const [transcripts, setTranscripts] = useState<ProcessedSegment[]>([]);
     const [fullText, setFullText] = useState("");
     const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
     const [showMatchingEngine, setShowMatchingEngine] = useState(false);
     const [medicalRecordId, setMedicalRecordId] = useState<string | null>(null);
+    const [speakers, setSpeakers] = useState<SpeakerProfile[]>([]);
+    const [wordCorrection, setWordCorrection] = useState<WordCorrectionDraft | null>(null);
+    // Transcript editing: originals are kept untouched for audit, edits mark the analysis as stale
+    const [originalSegments, setOriginalSegments] = useState<ProcessedSegment[]>([]);
+    const [editingSegment, setEditingSegment] = useState<SegmentEditDraft | null>(null);
+    const [transcriptDirty, setTranscriptDirty] = useState(false);
+    const [recordedAudioUrl, setRecordedAudioUrl] = useState<string | null>(null);
+    const [analysisVersion, setAnalysisVersion] = useState(0);
 
     // Toast notifications
     const toast = useToast();
 
+    // Voice clusters come from diarization; without a diarization service every speaker is a
+    // 'role:*' pseudo-cluster grouped by content - both can be reassigned to another role
+    const voiceSpeakers = speakers.filter(s => !s.id.startsWith('role:'));
+
     // Refs
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-    const audioChunksRef = useRef<Blob[]>([]);
+    const mediaStreamRef = useRef<MediaStream | null>(null);
+    // Continuous recorder for the whole visit (stored with the session for playback), alongside the STT chunks
+    const fullRecorderRef = useRef<MediaRecorder | null>(null);
+    const chunkTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+    const chunkIndexRef = useRef(0); // Index of the next chunk to record
+    const recordingStartedAtRef = useRef(0); // performance.now() when recording started
+    const pendingChunksRef = useRef(0); // Chunks sent to STT, response not yet received
+    const chunkResultsRef = useRef<Map<number, ChunkResult>>(new Map());
+    // Speaker registry (stable IDs + voice embeddings) shared by all chunks of the recording
+    const speakersRef = useRef<SpeakerProfile[]>([]);
+    // Chunks are sent one at a time so each one is matched against the speakers found so far
+    const sttQueueRef = useRef<Promise<void>>(Promise.resolve());
+    // idle → recording → stopping (last chunk not yet flushed) → flushing (waiting for STT) → idle
+    const recordingPhaseRef = useRef<'idle' | 'recording' | 'stopping' | 'flushing'>('idle');
+    const transcriptListRef = useRef<HTMLDivElement>(null);
+    const segmentEditorRef = useRef<HTMLTextAreaElement>(null);
 
     // Auto-create session if bookingId or patientId provided
     useEffect(() => {
@@ -90,7 +146,7 @@ export default function ExaminationPage() {
             }
 
             // Only work in recording mode
-            if (inputMode === 'recording' && e.code === 'Space' && transcripts.length === 0 && !loading) {
+            if (inputMode === 'recording' && e.code === 'Space' && (isRecording || (transcripts.length === 0 && !loading))) {
                 e.preventDefault();
                 if (isRecording) {
                     stopRecording();
@@ -104,6 +160,55 @@ export default function ExaminationPage() {
         return () => window.removeEventListener('keydown', handleKeyDown);
     }, [isRecording, transcripts.length, loading, inputMode]);
 
+    // Release microphone if the page is left while recording
+    useEffect(() => {
+        return () => {
+            if (chunkTimerRef.current) clearInterval(chunkTimerRef.current);
+            if (fullRecorderRef.current) fullRecorderRef.current.onstop = null;
+            mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    // Local playback URL of the full recording (review before upload completes)
+    useEffect(() => {
+        return () => {
+            if (recordedAudioUrl) URL.revokeObjectURL(recordedAudioUrl);
+        };
+    }, [recordedAudioUrl]);
+
+    // Keep the newest live segment in view while recording
+    useEffect(() => {
+        if (isRecording && transcriptListRef.current) {
+            transcriptListRef.current.scrollTop = transcriptListRef.current.scrollHeight;
+        }
+    }, [transcripts, isRecording]);
+
+    // Restore partial transcript left behind by a crashed or reloaded tab
+    useEffect(() => {
+        if (!currentSession) return;
+        const saved = localStorage.getItem(PARTIAL_TRANSCRIPT_KEY + currentSession.id);
+        if (!saved) return;
+
+        try {
+            const partial: PartialTranscript = JSON.parse(saved);
+            if (partial.segments?.length > 0) {
+                speakersRef.current = partial.speakers || [];
+                setSpeakers(speakersRef.current);
+                setInputMode('recording');
+                setTranscripts(partial.segments);
+                setOriginalSegments(partial.original_segments || partial.segments);
+                setFullText(partial.raw_text);
+                toast.info('Đã khôi phục bản ghi hội thoại chưa hoàn tất');
+                analyzeTranscript(partial.segments.some(seg => seg.edited)
+                    ? formatTranscriptForAnalysis(partial.segments)
+                    : partial.raw_text, partial.segments);
+            }
+        } catch (error) {
+            console.error('Invalid partial transcript, discarding:', error);
+            localStorage.removeItem(PARTIAL_TRANSCRIPT_KEY + currentSession.id);
+        }
+    }, [currentSession?.id]);
+
     // Create session for a booking or patient
     const createSessionForBookingOrPatient = async (id: string) => {
         setIsCreatingSession(true);
@@ -113,10 +218,7 @@ export default function ExaminationPage() {
                 ? { bookingId: id, chiefComplaint: '' }
                 : { patientId: id, chiefComplaint: '' };
 
-            // Migrated to backend API
-            const result = await apiClient.post('/session/create', {
-                body: JSON.stringify(requestBody)
-            });
+            const result = await apiClient.createSession({ body: requestBody });
 
             if (result.success) {
                 setCurrentSession(result.data);
@@ -131,7 +233,7 @@ export default function ExaminationPage() {
         }
     };
 
-    const handleSessionCreated = (session: Session) => {
+    const handleSessionCreated = (session: Jsonified<Session>) => {
         setCurrentSession(session);
     };
 
@@ -139,17 +241,25 @@ export default function ExaminationPage() {
     const startRecording = async () => {
         try {
             const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            const mediaRecorder = new MediaRecorder(stream);
-            mediaRecorderRef.current = mediaRecorder;
-            audioChunksRef.current = [];
-
-            mediaRecorder.ondataavailable = (event) => {
-                if (event.data.size > 0) {
-                    audioChunksRef.current.push(event.data);
-                }
-            };
-
-            mediaRecorder.start();
+            mediaStreamRef.current = stream;
+
+            // Reset live transcription state
+            chunkIndexRef.current = 0;
+            pendingChunksRef.current = 0;
+            chunkResultsRef.current = new Map();
+            speakersRef.current = [];
+            sttQueueRef.current = Promise.resolve();
+            recordingStartedAtRef.current = performance.now();
+            recordingPhaseRef.current = 'recording';
+            setTranscripts([]);
+            setOriginalSegments([]);
+            setEditingSegment(null);
+            setSpeakers([]);
+            setRecordedAudioUrl(null);
+
+            startFullRecording(stream);
+            startChunk(stream);
+            chunkTimerRef.current = setInterval(rotateChunk, CHUNK_DURATION_MS);
             setIsRecording(true);
         } catch (error) {
             console.error('Error accessing microphone:', error);
@@ -157,39 +267,349 @@ export default function ExaminationPage() {
         }
     };
 
+    // Start a fresh MediaRecorder on the shared stream so every chunk is a standalone, decodable file
+    const startChunk = (stream: MediaStream) => {
+        const recorder = new MediaRecorder(stream);
+        const chunkIndex = chunkIndexRef.current++;
+        const offset = (performance.now() - recordingStartedAtRef.current) / 1000;
+        const parts: Blob[] = [];
+
+        recorder.ondataavailable = (event) => {
+            if (event.data.size > 0) {
+                parts.push(event.data);
+            }
+        };
+
+        recorder.onstop = () => {
+            if (recordingPhaseRef.current === 'stopping') {
+                recordingPhaseRef.current = 'flushing';
+            }
+            sendChunkToSTT(new Blob(parts, { type: recorder.mimeType || 'audio/webm' }), chunkIndex, offset);
+        };
+
+        recorder.start();
+        mediaRecorderRef.current = recorder;
+    };
+
+    const startFullRecording = (stream: MediaStream) => {
+        const recorder = new MediaRecorder(stream);
+        const parts: Blob[] = [];
+
+        recorder.ondataavailable = (event) => {
+            if (event.data.size > 0) {
+                parts.push(event.data);
+            }
+        };
+
+        recorder.onstop = () => {
+            const duration = (performance.now() - recordingStartedAtRef.current) / 1000;
+            const audioBlob = new Blob(parts, { type: recorder.mimeType || 'audio/webm' });
+            setRecordedAudioUrl(audioBlob.size > 0 ? URL.createObjectURL(audioBlob) : null);
+            uploadSessionAudio(audioBlob, duration);
+        };
+
+        // Timeslice keeps memory usage flat during long visits
+        recorder.start(1000);
+        fullRecorderRef.current = recorder;
+    };
+
+    const uploadSessionAudio = async (audioBlob: Blob, duration: number) => {
+        if (!currentSession || audioBlob.size === 0) return;
+
+        try {
+            await apiClient.uploadSessionAudio({
+                path: { sessionId: currentSession.id },
+                body: { file: audioBlob, duration: Number(duration.toFixed(3)) }
+            });
+        } catch (error) {
+            console.error('Error uploading session audio:', error);
+            toast.error('Không thể lưu file ghi âm của phiên khám.');
+        }
+    };
+
+    // Persist the transcript with the session (edited segments + STT originals for audit)
+    const persistTranscript = async (
+        segments: ProcessedSegment[],
+        originals: ProcessedSegment[] = originalSegments,
+        rawText: string = fullText
+    ) => {
+        if (!currentSession || segments.length === 0) return;
+
+        try {
+            await apiClient.saveSessionTranscript({
+                path: { sessionId: currentSession.id },
+                body: {
+                    segments,
+                    originalSegments: originals.length > 0 ? originals : segments,
+                    speakers: speakersRef.current,
+                    rawText
+                }
+            });
+        } catch (error) {
+            console.error('Error saving transcript:', error);
+            toast.error('Không thể lưu transcript của phiên khám.');
+        }
+    };
+
+    const rotateChunk = () => {
+        const stream = mediaStreamRef.current;
+        if (!stream || !mediaRecorderRef.current) return;
+
+        mediaRecorderRef.current.stop();
+        startChunk(stream);
+    };
+
     const stopRecording = () => {
         if (mediaRecorderRef.current && isRecording) {
+            if (chunkTimerRef.current) {
+                clearInterval(chunkTimerRef.current);
+                chunkTimerRef.current = null;
+            }
+            recordingPhaseRef.current = 'stopping';
             mediaRecorderRef.current.stop();
-            mediaRecorderRef.current.onstop = () => {
-                const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/wav' });
-                sendAudioToSTT(audioBlob);
-            };
+            fullRecorderRef.current?.stop();
+            fullRecorderRef.current = null;
+            mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+            mediaRecorderRef.current = null;
+            mediaStreamRef.current = null;
             setIsRecording(false);
+            setLoading(true);
         }
     };
 
-    const sendAudioToSTT = async (audioBlob: Blob) => {
-        setLoading(true);
-        const formData = new FormData();
-        formData.append('file', audioBlob, 'recording.wav');
+    // Chunk responses may arrive out of order - always rebuild the transcript in recording order
+    const getOrderedChunkResults = (beforeIndex: number = Infinity): ChunkResult[] => {
+        return Array.from(chunkResultsRef.current.entries())
+            .filter(([index]) => index < beforeIndex)
+            .sort(([a], [b]) => a - b)
+            .map(([, result]) => result);
+    };
+
+    const publishChunkResults = (): string => {
+        const ordered = getOrderedChunkResults();
+        const segments = ordered.flatMap(result => result.segments);
+        const rawText = ordered.map(result => result.raw_text.trim()).filter(Boolean).join(' ');
+
+        setTranscripts(segments);
+        setFullText(rawText);
+        setSpeakers(speakersRef.current);
+        savePartialTranscript({ segments, raw_text: rawText, speakers: speakersRef.current });
+        return rawText;
+    };
+
+    const savePartialTranscript = (partial: PartialTranscript) => {
+        if (currentSession) {
+            localStorage.setItem(PARTIAL_TRANSCRIPT_KEY + currentSession.id, JSON.stringify(partial));
+        }
+    };
+
+    // Publish a manually edited transcript (recording finished) - the AI analysis is now out of date
+    const commitTranscriptEdit = (segments: ProcessedSegment[]) => {
+        setTranscripts(segments);
+        setSpeakers(speakersRef.current);
+        setTranscriptDirty(true);
+        savePartialTranscript({
+            segments,
+            raw_text: fullText,
+            speakers: speakersRef.current,
+            original_segments: originalSegments
+        });
+    };
+
+    // Apply a doctor's edit to every transcribed segment (live chunks and published transcript)
+    const updateSegments = (update: (seg: ProcessedSegment) => ProcessedSegment) => {
+        if (chunkResultsRef.current.size > 0) {
+            chunkResultsRef.current.forEach((result, index) => {
+                chunkResultsRef.current.set(index, { ...result, segments: result.segments.map(update) });
+            });
+            publishChunkResults();
+        } else {
+            // Recording finished: chunk results are gone, patch the published segments directly
+            commitTranscriptEdit(transcripts.map(update));
+        }
+    };
+
+    const startSegmentEdit = (index: number) => {
+        const seg = transcripts[index];
+        setWordCorrection(null);
+        setEditingSegment({ index, text: seg.clean_text, role: seg.role });
+    };
+
+    const saveSegmentEdit = () => {
+        if (!editingSegment) return;
+        const text = editingSegment.text.trim();
+        if (!text) {
+            deleteSegment(editingSegment.index);
+            return;
+        }
+
+        commitTranscriptEdit(transcripts.map((seg, i) => {
+            if (i !== editingSegment.index) return seg;
+            const withRole = editingSegment.role !== seg.role ? { ...seg, role: editingSegment.role, edited: true } : seg;
+            return text !== seg.clean_text ? withCleanText(withRole, text) : withRole;
+        }));
+        setEditingSegment(null);
+    };
+
+    // Split the segment being edited at the textarea cursor (pending text/role edits are kept)
+    const splitEditingSegment = () => {
+        if (!editingSegment) return;
+        const seg = { ...transcripts[editingSegment.index], role: editingSegment.role };
+        const base = editingSegment.text !== seg.clean_text ? withCleanText(seg, editingSegment.text) : seg;
+        const parts = splitSegment(base, segmentEditorRef.current?.selectionStart ?? 0);
+        if (!parts) {
+            toast.warning('Đặt con trỏ vào giữa đoạn để tách');
+            return;
+        }
+
+        commitTranscriptEdit([
+            ...transcripts.slice(0, editingSegment.index),
+            ...parts,
+            ...transcripts.slice(editingSegment.index + 1)
+        ]);
+        setEditingSegment(null);
+    };
+
+    const mergeWithNextSegment = (index: number) => {
+        if (index >= transcripts.length - 1) return;
+        commitTranscriptEdit([
+            ...transcripts.slice(0, index),
+            mergeSegments(transcripts[index], transcripts[index + 1]),
+            ...transcripts.slice(index + 2)
+        ]);
+        setEditingSegment(null);
+    };
+
+    const deleteSegment = (index: number) => {
+        commitTranscriptEdit(transcripts.filter((_, i) => i !== index));
+        setEditingSegment(null);
+    };
+
+    const restoreOriginalTranscript = () => {
+        if (!confirm('Hủy mọi chỉnh sửa và khôi phục transcript gốc từ Speech-to-Text?')) return;
+        commitTranscriptEdit(originalSegments);
+        setEditingSegment(null);
+    };
+
+    // Re-run the AI analysis on the edited transcript (remounts the record review with the new result)
+    const reanalyzeTranscript = async () => {
+        persistTranscript(transcripts);
+        await analyzeTranscript(formatTranscriptForAnalysis(transcripts), transcripts);
+        setAnalysisVersion(v => v + 1);
+    };
+
+    // Doctor corrects the role of a whole voice cluster - applies to past and future segments
+    const reassignSpeakerRole = (speakerId: string, role: string) => {
+        speakersRef.current = speakersRef.current.map(s => s.id === speakerId ? { ...s, role } : s);
+        updateSegments(seg => seg.speaker === speakerId ? { ...seg, role } : seg);
+    };
+
+    // Open the word correction form, prefilled with the text selected inside the segment
+    const openWordCorrection = (segmentIndex: number) => {
+        const selected = window.getSelection()?.toString().trim() || '';
+        setWordCorrection({ segmentIndex, misheard: selected, correct: '', saveToLexicon: true });
+    };
+
+    // Doctor fixes a misheard word: applied to the whole transcript and (optionally) learned by the lexicon
+    const applyWordCorrection = async () => {
+        if (!wordCorrection) return;
+        const misheard = wordCorrection.misheard.trim();
+        const correct = wordCorrection.correct.trim();
+        if (!misheard || !correct) return;
+
+        const lexicon = { corrections: [{ misheard, correct }], terms: [] };
+        updateSegments(seg => {
+            const clean_text = applyLexicon(seg.clean_text, lexicon);
+            return clean_text === seg.clean_text ? seg : withCleanText(seg, clean_text);
+        });
+        setWordCorrection(null);
+
+        if (!wordCorrection.saveToLexicon) return;
+        try {
+            const data = await apiClient.createLexiconEntry({
+                body: {
+                    kind: 'correction',
+                    misheard,
+                    correct,
+                    source: 'transcript',
+                    sourceSessionId: currentSession?.id || null
+                }
+            });
+            if (data.success) {
+                toast.success(`Đã thêm "${misheard}" → "${correct}" vào từ điển`);
+            }
+        } catch (error) {
+            console.error('Error saving lexicon entry:', error);
+            toast.error(error instanceof Error ? error.message : 'Không thể lưu vào từ điển');
+        }
+    };
+
+    // Once recording is stopped and every chunk is transcribed, hand the full text to the AI
+    const finishIfAllChunksDone = () => {
+        if (recordingPhaseRef.current !== 'flushing' || pendingChunksRef.current > 0) return;
+
+        recordingPhaseRef.current = 'idle';
+        setLoading(false);
+
+        const rawText = publishChunkResults();
+        // From here on the transcript is edited in place - keep the STT output as the audit copy
+        const segments = getOrderedChunkResults().flatMap(result => result.segments);
+        setOriginalSegments(segments);
+        savePartialTranscript({ segments, raw_text: rawText, speakers: speakersRef.current, original_segments: segments });
+        chunkResultsRef.current = new Map();
+        persistTranscript(segments, segments, rawText);
+
+        if (rawText.trim()) {
+            // Start AI analysis in background - doctor can continue working
+            analyzeTranscript(rawText, segments);
+        } else {
+            toast.warning('Không nhận diện được nội dung hội thoại. Vui lòng ghi âm lại.');
+        }
+    };
+
+    const sendChunkToSTT = async (audioBlob: Blob, chunkIndex: number, offset: number) => {
+        if (audioBlob.size === 0) {
+            finishIfAllChunksDone();
+            return;
+        }
+
+        pendingChunksRef.current++;
+        sttQueueRef.current = sttQueueRef.current.then(() => transcribeChunk(audioBlob, chunkIndex, offset));
+    };
+
+    const transcribeChunk = async (audioBlob: Blob, chunkIndex: number, offset: number) => {
+        const context = getOrderedChunkResults(chunkIndex)
+            .flatMap(result => result.segments)
+            .slice(-CHUNK_CONTEXT_SIZE)
+            .map(seg => ({ role: seg.role, text: seg.clean_text }));
 
         try {
-            // Migrated to backend API
-            const data: STTResponse = await apiClient.postFormData('/stt', formData);
+            const data = await apiClient.transcribeChunk({
+                body: {
+                    file: audioBlob,
+                    chunkIndex,
+                    offset: Number(offset.toFixed(3)),
+                    context,
+                    speakers: speakersRef.current
+                }
+            });
 
             if (data.success) {
-                setTranscripts(data.segments);
-                setFullText(data.raw_text);
-                // Start AI analysis in background - doctor can continue working
-                analyzeTranscript(data.raw_text);
+                speakersRef.current = data.speakers;
+                chunkResultsRef.current.set(chunkIndex, {
+                    segments: data.segments,
+                    raw_text: data.raw_text
+                });
+                publishChunkResults();
             } else {
-                toast.error('Lỗi xử lý âm thanh. Vui lòng thử lại.');
+                toast.error(`Lỗi xử lý đoạn ghi âm #${chunkIndex + 1}.`);
             }
         } catch (error) {
-            console.error('Error sending audio to STT:', error);
-            toast.error('Lỗi kết nối với server. Vui lòng thử lại.');
+            console.error(`Error sending chunk #${chunkIndex} to STT:`, error);
+            toast.error(`Lỗi kết nối khi xử lý đoạn ghi âm #${chunkIndex + 1}.`);
         } finally {
-            setLoading(false);
+            pendingChunksRef.current--;
+            finishIfAllChunksDone();
         }
     };
 
@@ -205,6 +625,7 @@ export default function ExaminationPage() {
         setTranscripts([{
             start: 0,
             end: 0,
+            speaker: 'manual',
             role: 'Ghi chú',
             raw_text: manualTranscript,
             clean_text: manualTranscript
@@ -214,16 +635,22 @@ export default function ExaminationPage() {
         analyzeTranscript(manualTranscript);
     };
 
-    const analyzeTranscript = async (text: string) => {
+    // segments: transcript list the SOAP evidence indices refer to (recording mode)
+    const analyzeTranscript = async (text: string, segments?: ProcessedSegment[]) => {
         setAnalyzing(true);
+        setTranscriptDirty(false);
         try {
-            // Migrated to backend API
-            const data = await apiClient.post('/analyze', {
-                body: JSON.stringify({ transcript: text })
+            const data = await apiClient.analyzeTranscript({
+                body: {
+                    transcript: text,
+                    sessionId: currentSession?.id,
+                    segments: segments?.map(seg => ({ role: seg.role, text: seg.clean_text }))
+                }
             });
 
             if (data.success) {
                 setAnalysisResult(data.data);
+                if (data.data.icdError) toast.warning(data.data.icdError);
             } else {
                 toast.error('Lỗi phân tích. Vui lòng thử lại.');
             }
@@ -239,20 +666,21 @@ export default function ExaminationPage() {
         if (!currentSession) return;
 
         try {
-            // Migrated to backend API
-            const result = await apiClient.post('/medical-record/save', {
-                body: JSON.stringify({
+            const result = await apiClient.saveMedicalRecord({
+                body: {
                     sessionId: currentSession.id,
                     ...data,
                     status: isFinal ? 'final' : 'draft',
-                })
+                }
             });
 
             if (result.success) {
                 setMedicalRecordId(result.data.id);
                 setMedicalRecordSaved(true);
+                persistTranscript(transcripts);
 
                 if (isFinal) {
+                    localStorage.removeItem(PARTIAL_TRANSCRIPT_KEY + currentSession.id);
                     toast.success('Bệnh án đã được lưu và hoàn tất!');
                 } else {
                     toast.success('Bản nháp đã được lưu!');
@@ -260,7 +688,9 @@ export default function ExaminationPage() {
             }
         } catch (error) {
             console.error('Error saving medical record:', error);
-            toast.error('Lỗi lưu bệnh án. Vui lòng thử lại.');
+            toast.error(error instanceof ApiClientError && error.issues
+                ? `Bệnh án chưa hợp lệ: ${error.message}`
+                : 'Lỗi lưu bệnh án. Vui lòng thử lại.');
         }
     };
 
@@ -371,6 +801,12 @@ ${analysisResult.soap.plan}
                                 onClick={() => {
                                     setInputMode('choose');
                                     setTranscripts([]);
+                                    setOriginalSegments([]);
+                                    setEditingSegment(null);
+                                    setTranscriptDirty(false);
+                                    setSpeakers([]);
+                                    setRecordedAudioUrl(null);
+                                    localStorage.removeItem(PARTIAL_TRANSCRIPT_KEY + currentSession.id);
                                     setManualTranscript('');
                                     setAnalysisResult(null);
                                 }}
@@ -386,8 +822,8 @@ ${analysisResult.soap.plan}
                                     <StepCard
                                         stepNumber={1}
                                         title="Ghi âm hội thoại"
-                                        status={transcripts.length > 0 ? 'completed' : isRecording ? 'active' : 'pending'}
-                                        isExpanded={transcripts.length === 0}
+                                        status={isRecording ? 'active' : transcripts.length > 0 ? 'completed' : 'pending'}
+                                        isExpanded={transcripts.length === 0 || isRecording}
                                     >
                                         <div className="text-center py-8">
                                             {!isRecording && transcripts.length === 0 && (
@@ -420,12 +856,15 @@ ${analysisResult.soap.plan}
                                                         <span className="inline-block w-3 h-3 bg-red-500 rounded-full animate-pulse mr-2"></span>
                                                         Đang ghi âm... Nhấn Space hoặc nút để dừng
                                                     </div>
+                                                    <div className="text-xs text-slate-500">
+                                                        Hội thoại được chuyển thành văn bản sau mỗi {CHUNK_DURATION_MS / 1000} giây
+                                                    </div>
                                                 </div>
                                             )}
                                             {loading && (
                                                 <div className="flex items-center justify-center gap-2 text-slate-600">
                                                     <Loader2 className="w-5 h-5 animate-spin" />
-                                                    <span>Đang xử lý âm thanh...</span>
+                                                    <span>Đang xử lý đoạn ghi âm cuối...</span>
                                                 </div>
                                             )}
                                         </div>
@@ -435,31 +874,208 @@ ${analysisResult.soap.plan}
                                     {transcripts.length > 0 && (
                                         <StepCard
                                             stepNumber={2}
-                                            title="Hội thoại (Speech-to-Text)"
-                                            status={analysisResult ? 'completed' : analyzing ? 'active' : 'completed'}
+                                            title={isRecording ? 'Hội thoại (Speech-to-Text) - Trực tiếp' : 'Hội thoại (Speech-to-Text)'}
+                                            status={isRecording || analyzing ? 'active' : 'completed'}
                                             isExpanded={!analysisResult}
                                         >
+                                            {loading && !isRecording && (
+                                                <div className="flex items-center gap-2 text-slate-600 mb-4">
+                                                    <Loader2 className="w-5 h-5 animate-spin" />
+                                                    <span className="font-medium">Đang xử lý đoạn ghi âm cuối...</span>
+                                                </div>
+                                            )}
                                             {analyzing && (
                                                 <div className="flex items-center gap-2 text-sky-600 mb-4">
                                                     <Loader2 className="w-5 h-5 animate-spin" />
                                                     <span className="font-medium">Đang phân tích bằng AI... Bạn có thể tiếp tục làm việc</span>
                                                 </div>
                                             )}
-                                            <div className="space-y-3 max-h-96 overflow-y-auto">
+                                            {!isRecording && !loading && (transcriptDirty || transcripts.some(seg => seg.edited)) && (
+                                                <div className="flex flex-wrap items-center gap-2 mb-4 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                                                    <span className="flex-1">
+                                                        {transcriptDirty
+                                                            ? 'Transcript đã được chỉnh sửa - kết quả phân tích AI có thể chưa cập nhật.'
+                                                            : 'Transcript đã được chỉnh sửa thủ công.'}
+                                                    </span>
+                                                    {originalSegments.length > 0 && (
+                                                        <Button variant="ghost" size="sm" onClick={restoreOriginalTranscript} className="flex items-center gap-1">
+                                                            <RotateCcw className="w-4 h-4" />
+                                                            Khôi phục bản gốc
+                                                        </Button>
+                                                    )}
+                                                    {transcriptDirty && (
+                                                        <Button
+                                                            variant="primary"
+                                                            size="sm"
+                                                            onClick={reanalyzeTranscript}
+                                                            disabled={analyzing || transcripts.length === 0}
+                                                            className="flex items-center gap-1"
+                                                        >
+                                                            <RefreshCw className="w-4 h-4" />
+                                                            Phân tích lại
+                                                        </Button>
+                                                    )}
+                                                </div>
+                                            )}
+                                            {speakers.length > 0 && (
+                                                <div className="flex flex-wrap items-center gap-2 mb-4">
+                                                    <span className="text-xs font-medium text-slate-500">Người nói:</span>
+                                                    {speakers.map(speaker => (
+                                                        <label
+                                                            key={speaker.id}
+                                                            className="flex items-center gap-1 rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-600"
+                                                            title={speaker.id.startsWith('role:')
+                                                                ? 'Nhóm theo nội dung câu (chưa cấu hình dịch vụ tách giọng DIARIZATION_URL) - đổi vai trò áp dụng cho cả nhóm'
+                                                                : undefined}
+                                                        >
+                                                            <span>
+                                                                {speaker.id.startsWith('role:')
+                                                                    ? `Nhận là "${speaker.id.slice('role:'.length)}"`
+                                                                    : `Giọng ${voiceSpeakers.indexOf(speaker) + 1}`}
+                                                                {' '}({transcripts.filter(seg => seg.speaker === speaker.id).length})
+                                                            </span>
+                                                            <select
+                                                                value={speaker.role}
+                                                                onChange={(e) => reassignSpeakerRole(speaker.id, e.target.value)}
+                                                                disabled={loading}
+                                                                className="bg-transparent font-medium text-slate-800 focus:outline-none"
+                                                            >
+                                                                {SPEAKER_ROLES.map(role => (
+                                                                    <option key={role} value={role}>{role}</option>
+                                                                ))}
+                                                            </select>
+                                                        </label>
+                                                    ))}
+                                                </div>
+                                            )}
+                                            <div ref={transcriptListRef} className="space-y-3 max-h-96 overflow-y-auto">
                                                 {transcripts.map((seg, idx) => {
-                                                    const style = seg.role === 'Bác sĩ'
-                                                        ? { bgColor: 'bg-sky-50', borderColor: 'border-sky-400', textColor: 'text-sky-700', label: '👨‍⚕️ Bác sĩ' }
-                                                        : seg.role === 'Ghi chú'
-                                                            ? { bgColor: 'bg-slate-50', borderColor: 'border-slate-400', textColor: 'text-slate-700', label: '📝 Ghi chú' }
-                                                            : { bgColor: 'bg-teal-50', borderColor: 'border-teal-400', textColor: 'text-teal-700', label: '🧑 Bệnh nhân' };
+                                                    const style = getRoleStyle(seg.role);
+                                                    const speakerIndex = voiceSpeakers.findIndex(s => s.id === seg.speaker);
 
                                                     return (
                                                         <div
                                                             key={idx}
                                                             className={`p-4 rounded-xl border-l-4 ${style.borderColor} ${style.bgColor} transition-all hover:shadow-md`}
                                                         >
-                                                            <div className={`text-xs font-bold mb-2 ${style.textColor}`}>{style.label}</div>
-                                                            <div className="text-slate-800 leading-relaxed whitespace-pre-wrap">{seg.clean_text}</div>
+                                                            <div className={`flex items-center text-xs font-bold mb-2 ${style.textColor}`}>
+                                                                {style.label}
+                                                                {speakerIndex >= 0 && (
+                                                                    <span className="ml-2 font-normal text-slate-400">Giọng {speakerIndex + 1}</span>
+                                                                )}
+                                                                {seg.end > 0 && (
+                                                                    <span className="ml-2 font-mono font-normal text-slate-400">{formatTimestamp(seg.start)}</span>
+                                                                )}
+                                                                {seg.edited && (
+                                                                    <span
+                                                                        className="ml-2 font-normal text-amber-600"
+                                                                        title={`Bản gốc (STT): ${seg.raw_text}`}
+                                                                    >
+                                                                        đã sửa
+                                                                    </span>
+                                                                )}
+                                                                {!isRecording && !loading && seg.speaker !== 'manual' && editingSegment?.index !== idx && (
+                                                                    <div className="ml-auto flex items-center gap-3 font-normal text-slate-400">
+                                                                        <button
+                                                                            // Keep the text selection alive until the click handler reads it
+                                                                            onMouseDown={(e) => e.preventDefault()}
+                                                                            onClick={() => openWordCorrection(idx)}
+                                                                            className="flex items-center gap-1 hover:text-sky-600"
+                                                                            title="Bôi đen từ bị nghe nhầm rồi bấm để sửa"
+                                                                        >
+                                                                            <Edit3 className="w-3 h-3" />
+                                                                            Sửa từ
+                                                                        </button>
+                                                                        <button onClick={() => startSegmentEdit(idx)} className="hover:text-sky-600" title="Sửa đoạn">
+                                                                            <Pencil className="w-3 h-3" />
+                                                                        </button>
+                                                                        {idx < transcripts.length - 1 && (
+                                                                            <button onClick={() => mergeWithNextSegment(idx)} className="hover:text-sky-600" title="Gộp với đoạn sau">
+                                                                                <Merge className="w-3 h-3" />
+                                                                            </button>
+                                                                        )}
+                                                                        <button onClick={() => deleteSegment(idx)} className="hover:text-red-600" title="Xóa đoạn">
+                                                                            <Trash2 className="w-3 h-3" />
+                                                                        </button>
+                                                                    </div>
+                                                                )}
+                                                            </div>
+                                                            {editingSegment?.index === idx ? (
+                                                                <div className="space-y-2">
+                                                                    <select
+                                                                        value={editingSegment.role}
+                                                                        onChange={(e) => setEditingSegment({ ...editingSegment, role: e.target.value })}
+                                                                        className="text-xs border border-slate-300 rounded-lg px-2 py-1 bg-white"
+                                                                    >
+                                                                        {SPEAKER_ROLES.map(role => (
+                                                                            <option key={role} value={role}>{role}</option>
+                                                                        ))}
+                                                                    </select>
+                                                                    <textarea
+                                                                        ref={segmentEditorRef}
+                                                                        autoFocus
+                                                                        value={editingSegment.text}
+                                                                        onChange={(e) => setEditingSegment({ ...editingSegment, text: e.target.value })}
+                                                                        onKeyDown={(e) => {
+                                                                            if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') saveSegmentEdit();
+                                                                            if (e.key === 'Escape') setEditingSegment(null);
+                                                                        }}
+                                                                        rows={3}
+                                                                        className="w-full px-3 py-2 text-slate-800 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500"
+                                                                    />
+                                                                    <div className="flex flex-wrap gap-2">
+                                                                        <Button variant="primary" size="sm" onClick={saveSegmentEdit}>Lưu</Button>
+                                                                        <Button variant="secondary" size="sm" onClick={splitEditingSegment} className="flex items-center gap-1" title="Tách đoạn tại vị trí con trỏ">
+                                                                            <Scissors className="w-4 h-4" />
+                                                                            Tách tại con trỏ
+                                                                        </Button>
+                                                                        <Button variant="ghost" size="sm" onClick={() => setEditingSegment(null)}>Hủy</Button>
+                                                                    </div>
+                                                                </div>
+                                                            ) : (
+                                                                <div className="text-slate-800 leading-relaxed whitespace-pre-wrap">{renderCorrectedText(seg)}</div>
+                                                            )}
+                                                            {seg.correction_status === 'rejected' && (
+                                                                <div className="mt-1 text-xs text-amber-600">Bản sửa tự động bị loại (thay đổi quá nhiều) - giữ nguyên bản gốc</div>
+                                                            )}
+                                                            {wordCorrection?.segmentIndex === idx && (
+                                                                <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                                                                    <input
+                                                                        value={wordCorrection.misheard}
+                                                                        onChange={(e) => setWordCorrection({ ...wordCorrection, misheard: e.target.value })}
+                                                                        placeholder="Từ bị nghe nhầm"
+                                                                        className="px-2 py-1 border border-slate-300 rounded-lg bg-white"
+                                                                    />
+                                                                    <span className="text-slate-400">→</span>
+                                                                    <input
+                                                                        autoFocus
+                                                                        value={wordCorrection.correct}
+                                                                        onChange={(e) => setWordCorrection({ ...wordCorrection, correct: e.target.value })}
+                                                                        onKeyDown={(e) => e.key === 'Enter' && applyWordCorrection()}
+                                                                        placeholder="Từ đúng"
+                                                                        className="px-2 py-1 border border-slate-300 rounded-lg bg-white"
+                                                                    />
+                                                                    <label className="flex items-center gap-1 text-xs text-slate-600">
+                                                                        <input
+                                                                            type="checkbox"
+                                                                            checked={wordCorrection.saveToLexicon}
+                                                                            onChange={(e) => setWordCorrection({ ...wordCorrection, saveToLexicon: e.target.checked })}
+                                                                        />
+                                                                        Lưu vào từ điển
+                                                                    </label>
+                                                                    <Button
+                                                                        variant="primary"
+                                                                        size="sm"
+                                                                        onClick={applyWordCorrection}
+                                                                        disabled={!wordCorrection.misheard.trim() || !wordCorrection.correct.trim()}
+                                                                    >
+                                                                        Áp dụng
+                                                                    </Button>
+                                                                    <Button variant="ghost" size="sm" onClick={() => setWordCorrection(null)}>
+                                                                        Hủy
+                                                                    </Button>
+                                                                </div>
+                                                            )}
                                                         </div>
                                                     );
                                                 })}
@@ -547,19 +1163,29 @@ Ví dụ:
                                     isExpanded={!showMatchingEngine}
                                 >
                                     <MedicalRecordReview
+                                        key={analysisVersion}
                                         sessionId={currentSession.id}
                                         aiResults={{
                                             soap: analysisResult.soap,
-                                            icdCodes: analysisResult.icdCodes.map(code => {
-                                                const [codeNum, ...descParts] = code.split(' - ');
-                                                return { code: codeNum, description: descParts.join(' - ') || codeNum };
-                                            }),
+                                            icdCodes: analysisResult.icdSuggestions?.length
+                                                ? analysisResult.icdSuggestions
+                                                : analysisResult.icdCodes.map(code => {
+                                                    const [codeNum, ...descParts] = code.split(' - ');
+                                                    return { code: codeNum, description: descParts.join(' - ') || codeNum };
+                                                }),
                                             medicalAdvice: analysisResult.medicalAdvice,
+                                            citations: analysisResult.citations,
+                                            soapEvidence: analysisResult.soapEvidence,
+                                            medications: analysisResult.medications,
+                                            planAdvice: analysisResult.planAdvice,
+                                            safetyAlerts: analysisResult.safetyAlerts,
                                         }}
                                         onSave={handleMedicalRecordSave}
                                         onComparison={handleShowComparison}
                                         readOnly={true}
                                         onProceed={() => setShowMatchingEngine(true)}
+                                        segments={inputMode === 'recording' ? transcripts : undefined}
+                                        audioUrl={recordedAudioUrl}
                                     />
                                 </StepCard>
                             )}
@@ -577,7 +1203,11 @@ Ví dụ:
                                         medicalRecordId={medicalRecordId || undefined}
                                         aiSoap={analysisResult.soap}
                                         aiIcd={analysisResult.icdCodes}
+                                        icdSuggestions={analysisResult.icdSuggestions}
                                         medicalAdvice={analysisResult.medicalAdvice}
+                                        citations={analysisResult.citations}
+                                        aiPrescription={prescriptionFromMedications(analysisResult.medications || [])}
+                                        aiPlanAdvice={analysisResult.planAdvice}
                                     />
                                 </StepCard>
                             )}
@@ -589,7 +1219,35 @@ Ví dụ:
     );
 }
 
+// Highlight the words changed by the medical text fixer, original wording shown on hover
+function renderCorrectedText(seg: ProcessedSegment) {
+    if (!seg.corrections?.length) return seg.clean_text;
 
+    const originalByToken = new Map<number, string>();
+    for (const correction of seg.corrections) {
+        const length = correction.to.split(/\s+/).filter(Boolean).length;
+        for (let i = 0; i < length; i++) {
+            originalByToken.set(correction.tokenIndex + i, correction.from);
+        }
+    }
+
+    let tokenIndex = 0;
+    return seg.clean_text.trim().split(/(\s+)/).map((part, i) => {
+        if (/^\s+$/.test(part)) return part;
+
+        const original = originalByToken.get(tokenIndex++);
+        if (original === undefined) return part;
+        return (
+            <mark
+                key={i}
+                className="bg-amber-100 text-slate-900 rounded px-0.5"
+                title={original ? `Gốc: "${original}"` : 'Từ được thêm khi hiệu chỉnh'}
+            >
+                {part}
+            </mark>
+        );
+    });
+}
 
 // Step Card Component
 function StepCard({
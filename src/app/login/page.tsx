@@ -0,0 +1,101 @@
+'use client';
+
+import React, { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Lock, LogIn, Mail, Stethoscope } from 'lucide-react';
+import { Button, Card, Input } from '@/components/ui';
+import { useAuth } from '@/components/AuthProvider';
+import { apiClient, ApiClientError } from '@/lib/api-client';
+
+// Only paths of this app - "//evil.com", "/\evil.com" or "/\t/evil.com" would leave the site,
+// so the target is resolved like the browser does and must stay on this origin
+function safeNext(next: string | null): string {
+    if (!next || !next.startsWith('/')) return '/dashboard';
+    try {
+        const url = new URL(next, window.location.origin);
+        return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : '/dashboard';
+    } catch {
+        return '/dashboard';
+    }
+}
+
+function LoginForm() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const { signedIn } = useAuth();
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError('');
+
+        try {
+            const result = await apiClient.login({ body: { email, password } });
+            signedIn(result.data);
+            router.replace(safeNext(searchParams.get('next')));
+        } catch (err) {
+            setError(err instanceof ApiClientError && err.statusCode > 0
+                ? err.message
+                : 'Lỗi kết nối. Vui lòng thử lại.');
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <Card variant="elevated" className="w-full max-w-md p-8">
+            <div className="text-center mb-8">
+                <div className="inline-flex items-center justify-center w-16 h-16 bg-sky-100 rounded-full mb-4">
+                    <Stethoscope className="w-8 h-8 text-sky-600" />
+                </div>
+                <h1 className="text-2xl font-bold text-slate-900 mb-2">Đăng nhập</h1>
+                <p className="text-slate-600">Trợ lý khám bệnh MEA</p>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-5">
+                <Input
+                    label="Email"
+                    type="email"
+                    autoComplete="username"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    icon={<Mail className="w-5 h-5" />}
+                />
+                <Input
+                    label="Mật khẩu"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    icon={<Lock className="w-5 h-5" />}
+                />
+
+                {error && (
+                    <p className="text-sm text-red-600">{error}</p>
+                )}
+
+                <Button type="submit" className="w-full" isLoading={isLoading}>
+                    <LogIn className="w-5 h-5" />
+                    Đăng nhập
+                </Button>
+            </form>
+        </Card>
+    );
+}
+
+export default function LoginPage() {
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-50 via-sky-50/30 to-teal-50/30 flex items-center justify-center p-6">
+            <Suspense fallback={
+                <div className="w-16 h-16 border-4 border-sky-600 border-t-transparent rounded-full animate-spin"></div>
+            }>
+                <LoginForm />
+            </Suspense>
+        </div>
+    );
+}
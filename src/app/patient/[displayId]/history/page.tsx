@@ -7,14 +7,15 @@ import Badge from '@/components/ui/Badge';
 import Button from '@/components/ui/Button';
 import { ArrowLeft, Calendar, FileText, Stethoscope, User, Phone, Mail, MapPin } from 'lucide-react';
 import { apiClient } from '@/lib/api-client';
+import { useAuth } from '@/components/AuthProvider';
 
 interface Patient {
     id: string;
-    displayId: string;
+    displayId: string | null;
     name: string;
     birthDate: string | null;
     gender: string | null;
-    phoneNumber: string | null;
+    phone: string | null;
     email: string | null;
     address: string | null;
 }
@@ -22,14 +23,14 @@ interface Patient {
 interface Session {
     id: string;
     visitNumber: number;
-    chiefComplaint: string;
-    status: 'active' | 'completed' | 'cancelled';
+    chiefComplaint: string | null;
+    status: string;
     createdAt: string;
     medicalRecord: {
-        subjective: string;
-        objective: string;
-        assessment: string;
-        plan: string;
+        subjective: string | null;
+        objective: string | null;
+        assessment: string | null;
+        plan: string | null;
     } | null;
 }
 
@@ -42,6 +43,7 @@ export default function PatientHistoryPage() {
     const [sessions, setSessions] = useState<Session[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const { can } = useAuth();
 
     useEffect(() => {
         if (displayId) {
@@ -56,7 +58,7 @@ export default function PatientHistoryPage() {
 
             // First, get patient by displayId
             // Migrated to backend API
-            const patientData = await apiClient.get('/patients', {
+            const patientData = await apiClient.listPatients({
                 params: { q: displayId }
             });
 
@@ -67,7 +69,7 @@ export default function PatientHistoryPage() {
             }
 
             const foundPatient = patientData.patients.find(
-                (p: any) => p.displayId === displayId
+                p => p.displayId === displayId
             );
 
             if (!foundPatient) {
@@ -78,19 +80,13 @@ export default function PatientHistoryPage() {
 
             // Get full patient details
             // Migrated to backend API
-            const detailData = await apiClient.get(`/patient/${foundPatient.id}`);
-
-            if (detailData.success) {
-                setPatient(detailData.patient);
-            }
+            const detailData = await apiClient.getPatient({ path: { patientId: foundPatient.id } });
+            setPatient(detailData.patient);
 
             // Get patient sessions
             // Migrated to backend API
-            const sessionsData = await apiClient.get(`/patient/${foundPatient.id}/sessions`);
-
-            if (sessionsData.success) {
-                setSessions(sessionsData.sessions);
-            }
+            const sessionsData = await apiClient.getPatientSessions({ path: { patientId: foundPatient.id } });
+            setSessions(sessionsData.sessions);
 
         } catch (err) {
             console.error('Error fetching patient data:', err);
@@ -168,10 +164,12 @@ export default function PatientHistoryPage() {
                             <p className="text-slate-600 mt-1">Lịch sử khám bệnh chi tiết</p>
                         </div>
                     </div>
-                    <Button variant="primary" onClick={handleNewExam} className="flex items-center gap-2">
-                        <Stethoscope className="w-5 h-5" />
-                        Khám mới
-                    </Button>
+                    {can('examination:conduct') && (
+                        <Button variant="primary" onClick={handleNewExam} className="flex items-center gap-2">
+                            <Stethoscope className="w-5 h-5" />
+                            Khám mới
+                        </Button>
+                    )}
                 </div>
 
                 {/* Patient Info Card */}
@@ -199,10 +197,10 @@ export default function PatientHistoryPage() {
                             </div>
                         </div>
                         <div className="space-y-3 text-sm">
-                            {patient.phoneNumber && (
+                            {patient.phone && (
                                 <div className="flex items-center gap-2">
                                     <Phone className="w-4 h-4 text-slate-400" />
-                                    <span className="text-slate-700">{patient.phoneNumber}</span>
+                                    <span className="text-slate-700">{patient.phone}</span>
                                 </div>
                             )}
                             {patient.email && (
@@ -234,9 +232,11 @@ export default function PatientHistoryPage() {
                             <div className="text-center py-12">
                                 <div className="text-6xl mb-4 opacity-40">📋</div>
                                 <p className="text-slate-400 font-medium">Chưa có lịch sử khám bệnh</p>
-                                <Button variant="primary" onClick={handleNewExam} className="mt-4">
-                                    Tạo phiên khám đầu tiên
-                                </Button>
+                                {can('examination:conduct') && (
+                                    <Button variant="primary" onClick={handleNewExam} className="mt-4">
+                                        Tạo phiên khám đầu tiên
+                                    </Button>
+                                )}
                             </div>
                         ) : (
                             <div className="space-y-4">
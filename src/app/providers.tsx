@@ -1,11 +1,14 @@
 'use client';
 
 import { ToastProvider } from '@/components/ui';
+import { AuthProvider } from '@/components/AuthProvider';
 
 export default function Providers({ children }: { children: React.ReactNode }) {
     return (
         <ToastProvider>
-            {children}
+            <AuthProvider>
+                {children}
+            </AuthProvider>
         </ToastProvider>
     );
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import Card from '@/components/ui/Card';
 import Badge from '@/components/ui/Badge';
@@ -16,15 +16,27 @@ import {
     Stethoscope,
     Trash2,
     Bot,
-    Target
+    Target,
+    MessageSquare
 } from 'lucide-react';
-import { apiClient } from '@/lib/api-client';
+import { apiClient, ApiClientError } from '@/lib/api-client';
+import { getApiUrl } from '@/lib/api-config';
+import TranscriptPlayer, { type TranscriptPlayerHandle } from '@/components/TranscriptPlayer';
+import SoapSourceLinks from '@/components/SoapSourceLinks';
+import PrescriptionEditor from '@/components/PrescriptionEditor';
+import DiagnosisList from '@/components/DiagnosisList';
+import VisitDocumentLinks from '@/components/VisitDocumentLinks';
+import PatientInstructionsPanel from '@/components/PatientInstructionsPanel';
+import { useAuth } from '@/components/AuthProvider';
+import type { PrescriptionItem } from '@/lib/prescription/types';
+import type { Diagnosis } from '@/lib/diagnosis/types';
+import type { ProcessedSegment } from '@/lib/stt/types';
 
 interface Session {
     id: string;
-    patientId: string;
+    patientId: string | null;
     visitNumber: number;
-    chiefComplaint: string;
+    chiefComplaint: string | null;
     status: 'active' | 'completed' | 'cancelled';
     createdAt: string;
     updatedAt: string;
@@ -33,24 +45,38 @@ interface Session {
 interface MedicalRecord {
     id: string;
     sessionId: string;
-    subjective: string;
-    objective: string;
-    assessment: string;
-    plan: string;
+    subjective: string | null;
+    objective: string | null;
+    assessment: string | null;
+    plan: string | null;
     createdAt: string;
 }
 
 interface Patient {
     id: string;
-    displayId: string;
+    displayId: string | null;
     name: string;
     birthDate: string | null;
     gender: string | null;
 }
 
+interface SessionTranscript {
+    segments: ProcessedSegment[];
+    sttProvider: string | null;
+    sttModel: string | null;
+    durationSeconds: number | null;
+}
+
+interface AudioInfo {
+    id: string;
+    mimeType: string;
+    durationSeconds: number | null;
+    expiresAt: string | null;
+}
+
 interface ComparisonData {
     id: string;
-    sessionId: string;
+    sessionId: string | null;
     matchScore: number;
     aiResults: any;
     doctorResults: any;
@@ -66,9 +92,17 @@ export default function SessionDetailPage() {
     const [medicalRecord, setMedicalRecord] = useState<MedicalRecord | null>(null);
     const [patient, setPatient] = useState<Patient | null>(null);
     const [comparison, setComparison] = useState<ComparisonData | null>(null);
+    const [transcript, setTranscript] = useState<SessionTranscript | null>(null);
+    const [audio, setAudio] = useState<AudioInfo | null>(null);
+    const [prescriptionItems, setPrescriptionItems] = useState<PrescriptionItem[]>([]);
+    const [diagnoses, setDiagnoses] = useState<Diagnosis[]>([]);
+    const [selectedSentence, setSelectedSentence] = useState<{ field: string; sentenceIndex: number } | null>(null);
+    const [linkedSegments, setLinkedSegments] = useState<number[]>([]);
+    const playerRef = useRef<TranscriptPlayerHandle>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [deleting, setDeleting] = useState(false);
+    const { can } = useAuth();
 
     useEffect(() => {
         if (sessionId) {
@@ -83,32 +117,27 @@ export default function SessionDetailPage() {
 
             // Get session and medical record
             // Migrated to backend API
-            const sessionData = await apiClient.get(`/session/${sessionId}`);
-
-            if (!sessionData.success) {
-                setError(sessionData.message || 'Không thể tải thông tin phiên khám');
-                setLoading(false);
-                return;
-            }
+            const sessionData = await apiClient.getSession({ path: { sessionId } });
 
             setSession(sessionData.data.session);
             setMedicalRecord(sessionData.data.medicalRecord);
+            setPrescriptionItems(sessionData.data.prescriptionItems || []);
+            setDiagnoses(sessionData.data.diagnoses || []);
 
             // Get patient info
             if (sessionData.data.session.patientId) {
                 // Migrated to backend API
-                const patientData = await apiClient.get(`/patient/${sessionData.data.session.patientId}`);
-
-                if (patientData.success) {
-                    setPatient(patientData.patient);
-                }
+                const patientData = await apiClient.getPatient({
+                    path: { patientId: sessionData.data.session.patientId }
+                });
+                setPatient(patientData.patient);
             }
 
             // Get comparison data if exists
             try {
                 // Migrated to backend API
-                const compData = await apiClient.get(`/comparison/session/${sessionId}`);
-                if (compData.success && compData.comparison) {
+                const compData = await apiClient.getSessionComparison({ path: { sessionId } });
+                if (compData.comparison) {
                     setComparison(compData.comparison);
                 }
             } catch (compError) {
@@ -116,6 +145,16 @@ export default function SessionDetailPage() {
                 console.log('No comparison data found for this session');
             }
 
+            // Get recorded conversation if exists
+            try {
+                const transcriptData = await apiClient.getSessionTranscript({ path: { sessionId } });
+                setTranscript(transcriptData.data.transcript);
+                setAudio(transcriptData.data.audio);
+            } catch {
+                // Transcript is optional (manual entry, older sessions)
+                console.log('No transcript found for this session');
+            }
+
         } catch (err) {
             console.error('Error fetching session data:', err);
             setError('Lỗi khi tải dữ liệu phiên khám');
@@ -124,6 +163,13 @@ export default function SessionDetailPage() {
         }
     };
 
+    // SOAP sentence clicked: highlight its source segments and play the first one
+    const handleSourceSelect = (field: string, sentenceIndex: number, segmentIndices: number[]) => {
+        setSelectedSentence({ field, sentenceIndex });
+        setLinkedSegments(segmentIndices);
+        playerRef.current?.seekToSegment(segmentIndices[0]);
+    };
+
     const handleBack = () => {
         if (patient) {
             router.push(`/patient/${patient.displayId}/history`);
@@ -140,17 +186,14 @@ export default function SessionDetailPage() {
         setDeleting(true);
         try {
             // Migrated to backend API
-            const data = await apiClient.delete(`/session/${sessionId}`);
-
-            if (data.success) {
-                alert('Xóa phiên khám thành công!');
-                handleBack();
-            } else {
-                alert('Lỗi: ' + data.message);
-            }
+            await apiClient.deleteSession({ path: { sessionId } });
+            alert('Xóa phiên khám thành công!');
+            handleBack();
         } catch (error) {
             console.error('Error deleting session:', error);
-            alert('Lỗi kết nối. Vui lòng thử lại.');
+            alert(error instanceof ApiClientError && error.statusCode > 0
+                ? 'Lỗi: ' + error.message
+                : 'Lỗi kết nối. Vui lòng thử lại.');
         } finally {
             setDeleting(false);
         }
@@ -168,6 +211,9 @@ export default function SessionDetailPage() {
         return `${age} tuổi`;
     };
 
+    const transcriptSegments = transcript?.segments || [];
+    const hasTranscript = transcriptSegments.length > 0;
+
     if (loading) {
         return (
             <div className="min-h-screen bg-gradient-to-br from-slate-50 via-sky-50/30 to-teal-50/30 flex items-center justify-center">
@@ -210,21 +256,23 @@ export default function SessionDetailPage() {
                             <p className="text-slate-600 mt-1">Lần khám thứ {session.visitNumber}</p>
                         </div>
                     </div>
-                    <div className="flex gap-3">
-                        <Button
-                            variant="danger"
-                            onClick={handleDelete}
-                            disabled={deleting}
-                            className="flex items-center gap-2"
-                        >
-                            {deleting ? (
-                                <span className="animate-spin">⏳</span>
-                            ) : (
-                                <Trash2 className="w-4 h-4" />
-                            )}
-                            Xóa phiên khám
-                        </Button>
-                    </div>
+                    {can('sessions:delete') && (
+                        <div className="flex gap-3">
+                            <Button
+                                variant="danger"
+                                onClick={handleDelete}
+                                disabled={deleting}
+                                className="flex items-center gap-2"
+                            >
+                                {deleting ? (
+                                    <span className="animate-spin">⏳</span>
+                                ) : (
+                                    <Trash2 className="w-4 h-4" />
+                                )}
+                                Xóa phiên khám
+                            </Button>
+                        </div>
+                    )}
                 </div>
 
                 {/* Patient & Session Info */}
@@ -297,6 +345,28 @@ export default function SessionDetailPage() {
                     </p>
                 </Card>
 
+                {/* Recorded Conversation */}
+                {transcript && hasTranscript && (
+                    <Card variant="elevated">
+                        <div className="flex items-center justify-between mb-4">
+                            <div className="flex items-center gap-3">
+                                <MessageSquare className="w-5 h-5 text-sky-600" />
+                                <h3 className="font-bold text-slate-900">Hội thoại khám bệnh</h3>
+                            </div>
+                            <div className="text-xs text-slate-400 text-right">
+                                {transcript.sttProvider && <p>STT: {transcript.sttProvider}{transcript.sttModel ? ` / ${transcript.sttModel}` : ''}</p>}
+                                {audio?.expiresAt && <p>File ghi âm lưu đến {new Date(audio.expiresAt).toLocaleDateString('vi-VN')}</p>}
+                            </div>
+                        </div>
+                        <TranscriptPlayer
+                            ref={playerRef}
+                            segments={transcriptSegments}
+                            highlightedIndices={linkedSegments}
+                            audioUrl={audio ? getApiUrl(`/session/${sessionId}/audio`) : null}
+                        />
+                    </Card>
+                )}
+
                 {/* AI Comparison Score */}
                 {comparison && (
                     <Card variant="elevated" className="border-2 border-indigo-200 bg-gradient-to-r from-indigo-50 to-purple-50">
@@ -367,9 +437,20 @@ export default function SessionDetailPage() {
                                 <h3 className="font-bold text-slate-900">Subjective (Triệu chứng chủ quan)</h3>
                             </div>
                             <div className="prose prose-sm max-w-none">
-                                <p className="text-slate-700 whitespace-pre-wrap bg-blue-50 p-4 rounded-lg">
-                                    {medicalRecord.subjective || 'Chưa có thông tin'}
-                                </p>
+                                {hasTranscript && medicalRecord.subjective ? (
+                                    <SoapSourceLinks
+                                        field="subjective"
+                                        text={medicalRecord.subjective}
+                                        segments={transcriptSegments}
+                                        selected={selectedSentence}
+                                        onSelect={handleSourceSelect}
+                                        className="bg-blue-50 p-2 rounded-lg"
+                                    />
+                                ) : (
+                                    <p className="text-slate-700 whitespace-pre-wrap bg-blue-50 p-4 rounded-lg">
+                                        {medicalRecord.subjective || 'Chưa có thông tin'}
+                                    </p>
+                                )}
                             </div>
                         </Card>
 
@@ -380,9 +461,20 @@ export default function SessionDetailPage() {
                                 <h3 className="font-bold text-slate-900">Objective (Triệu chứng khách quan)</h3>
                             </div>
                             <div className="prose prose-sm max-w-none">
-                                <p className="text-slate-700 whitespace-pre-wrap bg-green-50 p-4 rounded-lg">
-                                    {medicalRecord.objective || 'Chưa có thông tin'}
-                                </p>
+                                {hasTranscript && medicalRecord.objective ? (
+                                    <SoapSourceLinks
+                                        field="objective"
+                                        text={medicalRecord.objective}
+                                        segments={transcriptSegments}
+                                        selected={selectedSentence}
+                                        onSelect={handleSourceSelect}
+                                        className="bg-green-50 p-2 rounded-lg"
+                                    />
+                                ) : (
+                                    <p className="text-slate-700 whitespace-pre-wrap bg-green-50 p-4 rounded-lg">
+                                        {medicalRecord.objective || 'Chưa có thông tin'}
+                                    </p>
+                                )}
                             </div>
                         </Card>
 
@@ -393,10 +485,26 @@ export default function SessionDetailPage() {
                                 <h3 className="font-bold text-slate-900">Assessment (Chẩn đoán)</h3>
                             </div>
                             <div className="prose prose-sm max-w-none">
-                                <p className="text-slate-700 whitespace-pre-wrap bg-amber-50 p-4 rounded-lg font-medium">
-                                    {medicalRecord.assessment || 'Chưa có chẩn đoán'}
-                                </p>
+                                {hasTranscript && medicalRecord.assessment ? (
+                                    <SoapSourceLinks
+                                        field="assessment"
+                                        text={medicalRecord.assessment}
+                                        segments={transcriptSegments}
+                                        selected={selectedSentence}
+                                        onSelect={handleSourceSelect}
+                                        className="bg-amber-50 p-2 rounded-lg"
+                                    />
+                                ) : (
+                                    <p className="text-slate-700 whitespace-pre-wrap bg-amber-50 p-4 rounded-lg font-medium">
+                                        {medicalRecord.assessment || 'Chưa có chẩn đoán'}
+                                    </p>
+                                )}
                             </div>
+                            {diagnoses.length > 0 && (
+                                <div className="mt-3">
+                                    <DiagnosisList diagnoses={diagnoses} readOnly />
+                                </div>
+                            )}
                         </Card>
 
                         {/* Plan */}
@@ -405,13 +513,37 @@ export default function SessionDetailPage() {
                                 <PillBottle className="w-5 h-5 text-purple-600" />
                                 <h3 className="font-bold text-slate-900">Plan (Kế hoạch điều trị)</h3>
                             </div>
+                            {prescriptionItems.length > 0 && (
+                                <div className="mb-3">
+                                    <PrescriptionEditor items={prescriptionItems} readOnly />
+                                </div>
+                            )}
                             <div className="prose prose-sm max-w-none">
-                                <p className="text-slate-700 whitespace-pre-wrap bg-purple-50 p-4 rounded-lg">
-                                    {medicalRecord.plan || 'Chưa có kế hoạch điều trị'}
-                                </p>
+                                {hasTranscript && medicalRecord.plan ? (
+                                    <SoapSourceLinks
+                                        field="plan"
+                                        text={medicalRecord.plan}
+                                        segments={transcriptSegments}
+                                        selected={selectedSentence}
+                                        onSelect={handleSourceSelect}
+                                        className="bg-purple-50 p-2 rounded-lg"
+                                    />
+                                ) : (
+                                    <p className="text-slate-700 whitespace-pre-wrap bg-purple-50 p-4 rounded-lg">
+                                        {medicalRecord.plan || 'Chưa có kế hoạch điều trị'}
+                                    </p>
+                                )}
                             </div>
                         </Card>
 
+                        {/* Printable documents for the patient */}
+                        <Card variant="outlined">
+                            <VisitDocumentLinks sessionId={sessionId} />
+                        </Card>
+
+                        {/* Plain-language instructions, reviewed by the doctor */}
+                        <PatientInstructionsPanel sessionId={sessionId} />
+
                         {/* Metadata */}
                         <Card variant="outlined" className="bg-slate-50">
                             <div className="text-xs text-slate-500 space-y-1">
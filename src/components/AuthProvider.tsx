@@ -0,0 +1,71 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { apiClient } from '@/lib/api-client';
+import { hasPermission, type Permission } from '@/lib/auth/permissions';
+import type { AuthUser } from '@/lib/auth/types';
+
+interface AuthContextType {
+    user: AuthUser | null;
+    loading: boolean;
+    can: (permission: Permission) => boolean;
+    signedIn: (user: AuthUser) => void;     // Called by the login page
+    logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function useAuth() {
+    const context = useContext(AuthContext);
+    if (!context) {
+        throw new Error('useAuth must be used within an AuthProvider');
+    }
+    return context;
+}
+
+/**
+ * Current user for the UI - actions the role cannot perform are hidden with can(permission)
+ * The proxy enforces the same permissions on the server
+ */
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+    const router = useRouter();
+    const pathname = usePathname();
+    const onLoginPage = pathname === '/login';
+    const [user, setUser] = useState<AuthUser | null>(null);
+    const [loading, setLoading] = useState(!onLoginPage);
+
+    useEffect(() => {
+        if (onLoginPage) return;
+
+        apiClient.getAuthSession()
+            .then(result => setUser(result.data))
+            .catch(() => setUser(null))
+            .finally(() => setLoading(false));
+    }, [onLoginPage]);
+
+    const can = useCallback((permission: Permission) => {
+        return user ? hasPermission(user.role, permission) : false;
+    }, [user]);
+
+    const signedIn = useCallback((signedInUser: AuthUser) => {
+        setUser(signedInUser);
+        setLoading(false);
+    }, []);
+
+    const logout = useCallback(async () => {
+        try {
+            await apiClient.logout();
+        } catch (error) {
+            console.error('Error signing out:', error);
+        }
+        setUser(null);
+        router.replace('/login');
+    }, [router]);
+
+    return (
+        <AuthContext.Provider value={{ user, loading, can, signedIn, logout }}>
+            {children}
+        </AuthContext.Provider>
+    );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import React from 'react';
+import { AlertCircle, Star, X } from 'lucide-react';
+import { ensurePrimaryDiagnosis, setPrimaryDiagnosis } from '@/lib/diagnosis/diagnosis';
+import {
+    DIAGNOSIS_CERTAINTIES,
+    DIAGNOSIS_CERTAINTY_LABELS,
+    DIAGNOSIS_ROLE_LABELS,
+    type Diagnosis,
+    type DiagnosisCertainty,
+    type DiagnosisIssue,
+} from '@/lib/diagnosis/types';
+
+interface DiagnosisListProps {
+    diagnoses: Diagnosis[];
+    onChange?: (diagnoses: Diagnosis[]) => void;  // Not needed in read-only mode
+    issues?: DiagnosisIssue[];
+    readOnly?: boolean;
+}
+
+const CERTAINTY_CLASSES: Record<DiagnosisCertainty, string> = {
+    confirmed: 'bg-emerald-100 text-emerald-700',
+    suspected: 'bg-amber-100 text-amber-700',
+    rule_out: 'bg-slate-100 text-slate-600',
+};
+
+/**
+ * Bệnh chính + bệnh kèm theo of a record
+ * Editable rows (label, certainty, which one is the main disease) in the ICD-10 picker, badges elsewhere
+ */
+export default function DiagnosisList({ diagnoses, onChange, issues = [], readOnly = false }: DiagnosisListProps) {
+    if (diagnoses.length === 0) return null;
+
+    const update = (index: number, changes: Partial<Diagnosis>) => {
+        onChange?.(diagnoses.map((diagnosis, idx) => idx === index ? { ...diagnosis, ...changes } : diagnosis));
+    };
+
+    // The first remaining diagnosis takes over when the main disease is removed
+    const remove = (index: number) => {
+        onChange?.(ensurePrimaryDiagnosis(diagnoses.filter((_, idx) => idx !== index)));
+    };
+
+    const listIssues = issues.filter(issue => issue.index === null);
+
+    return (
+        <div className="space-y-2">
+            {diagnoses.map((diagnosis, index) => {
+                const isPrimary = diagnosis.role === 'primary';
+                const rowIssues = issues.filter(issue => issue.index === index);
+
+                return (
+                    <div
+                        key={diagnosis.icdCode}
+                        className={`flex flex-wrap items-center gap-2 px-3 py-2 rounded-xl border text-sm ${isPrimary
+                            ? 'bg-sky-50 border-sky-300'
+                            : 'bg-white border-slate-200'}`}
+                    >
+                        {readOnly ? (
+                            <span className={`text-xs font-semibold px-2 py-0.5 rounded ${isPrimary ? 'bg-sky-500 text-white' : 'bg-slate-100 text-slate-600'}`}>
+                                {DIAGNOSIS_ROLE_LABELS[diagnosis.role]}
+                            </span>
+                        ) : (
+                            <button
+                                type="button"
+                                onClick={() => !isPrimary && onChange?.(setPrimaryDiagnosis(diagnoses, index))}
+                                title={isPrimary ? DIAGNOSIS_ROLE_LABELS.primary : 'Đặt làm bệnh chính'}
+                                className={`inline-flex items-center gap-1 text-xs font-semibold px-2 py-0.5 rounded transition ${isPrimary
+                                    ? 'bg-sky-500 text-white cursor-default'
+                                    : 'bg-slate-100 text-slate-600 hover:bg-sky-100 hover:text-sky-700'}`}
+                            >
+                                <Star className={`w-3 h-3 ${isPrimary ? 'fill-current' : ''}`} />
+                                {DIAGNOSIS_ROLE_LABELS[diagnosis.role]}
+                            </button>
+                        )}
+
+                        <span className="font-mono font-semibold text-sky-700">{diagnosis.icdCode}</span>
+
+                        {readOnly ? (
+                            <span className={`text-slate-700 ${diagnosis.certainty === 'rule_out' ? 'line-through' : ''}`}>
+                                {diagnosis.label}
+                            </span>
+                        ) : (
+                            <input
+                                type="text"
+                                value={diagnosis.label}
+                                onChange={(e) => update(index, { label: e.target.value })}
+                                placeholder="Tên bệnh"
+                                className="flex-1 min-w-[160px] px-2 py-1 text-sm text-slate-900 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500"
+                            />
+                        )}
+
+                        {readOnly ? (
+                            diagnosis.certainty !== 'confirmed' && (
+                                <span className={`text-xs px-2 py-0.5 rounded ${CERTAINTY_CLASSES[diagnosis.certainty]}`}>
+                                    {DIAGNOSIS_CERTAINTY_LABELS[diagnosis.certainty]}
+                                </span>
+                            )
+                        ) : (
+                            <select
+                                value={diagnosis.certainty}
+                                onChange={(e) => update(index, { certainty: e.target.value as DiagnosisCertainty })}
+                                className={`text-xs px-2 py-1 rounded-lg border-0 focus:ring-2 focus:ring-sky-500 ${CERTAINTY_CLASSES[diagnosis.certainty]}`}
+                            >
+                                {DIAGNOSIS_CERTAINTIES.map(certainty => (
+                                    <option key={certainty} value={certainty}>
+                                        {DIAGNOSIS_CERTAINTY_LABELS[certainty]}
+                                    </option>
+                                ))}
+                            </select>
+                        )}
+
+                        {!readOnly && (
+                            <button
+                                type="button"
+                                onClick={() => remove(index)}
+                                className="p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-full transition"
+                            >
+                                <X className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+
+                        {rowIssues.map(issue => (
+                            <p
+                                key={issue.message}
+                                className={`w-full flex items-center gap-1 text-xs ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}
+                            >
+                                <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                                {issue.message}
+                            </p>
+                        ))}
+                    </div>
+                );
+            })}
+
+            {listIssues.map(issue => (
+                <p key={issue.message} className="flex items-center gap-1 text-xs text-red-600">
+                    <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                    {issue.message}
+                </p>
+            ))}
+        </div>
+    );
+}
@@ -7,14 +7,26 @@ import { ArrowRight, Check, AlertTriangle, FileText, Activity, Calculator, Clipb
 import clsx from 'clsx';
 import { useToast } from './ui';
 import ICD10Picker from './ICD10Picker';
-import { apiClient } from '@/lib/api-client';
+import PrescriptionEditor from './PrescriptionEditor';
+import VisitDocumentLinks from './VisitDocumentLinks';
+import PatientInstructionsPanel from './PatientInstructionsPanel';
+import { apiClient, ApiClientError } from '@/lib/api-client';
+import type { PrescriptionItem } from '@/lib/prescription/types';
+import type { Citation, IcdSuggestion } from '@/lib/agents/state';
+import { formatPlan, validatePrescription } from '@/lib/prescription/prescription';
+import { diagnosesFromSuggestions, icdCodesFromDiagnoses, validateDiagnoses } from '@/lib/diagnosis/diagnosis';
+import type { Diagnosis } from '@/lib/diagnosis/types';
 
 interface MatchingEngineProps {
     sessionId: string;
     medicalRecordId?: string;
     aiSoap: SoapNote;
     aiIcd: string[];
+    icdSuggestions?: IcdSuggestion[];  // Structured AI codes (confidence, rationale) - shown in the picker
     medicalAdvice: string;
+    citations?: Citation[];  // Protocol excerpts cited in medicalAdvice - kept with the comparison record
+    aiPrescription?: PrescriptionItem[];  // Structured prescription extracted from the AI plan
+    aiPlanAdvice?: string;  // Non-drug part of the AI plan
 }
 
 interface DoctorInputForm {
@@ -26,7 +38,7 @@ interface DoctorInputForm {
     notes: string;
 }
 
-export default function MatchingEngine({ sessionId, medicalRecordId, aiSoap, aiIcd, medicalAdvice }: MatchingEngineProps) {
+export default function MatchingEngine({ sessionId, medicalRecordId, aiSoap, aiIcd, icdSuggestions = [], medicalAdvice, citations = [], aiPrescription = [], aiPlanAdvice }: MatchingEngineProps) {
     const [mode, setMode] = useState<'input' | 'analyzing' | 'result'>('input');
     const [comparison, setComparison] = useState<ComparisonResult | null>(null);
     const [isSaved, setIsSaved] = useState(false);  // Track if medical record is saved
@@ -45,44 +57,69 @@ export default function MatchingEngine({ sessionId, medicalRecordId, aiSoap, aiI
         return formatted;
     };
 
-    // ICD-10 codes state for the picker
-    const [selectedIcdCodes, setSelectedIcdCodes] = useState<string[]>(
-        aiIcd.map(code => code.split(' - ')[0]) // Extract just the code part
-    );
+    // Structured AI codes, or the "K29.7 - Viêm dạ dày" strings from older analyses
+    const aiIcdItems = icdSuggestions.length > 0 ? icdSuggestions : aiIcd.map(code => {
+        const [codeNum, ...descParts] = code.split(' - ');
+        return { code: codeNum, description: descParts.join(' - ') || '' };
+    });
+
+    // Diagnoses for the picker - the AI primary code starts as the main disease
+    const [diagnoses, setDiagnoses] = useState<Diagnosis[]>(() => diagnosesFromSuggestions(aiIcdItems));
+    const diagnosisErrors = validateDiagnoses(diagnoses).filter(issue => issue.severity === 'error');
+
+    // Structured prescription - when present the plan field only holds the advice,
+    // the saved plan text is generated from both
+    const [prescriptionItems, setPrescriptionItems] = useState<PrescriptionItem[]>(aiPrescription);
+    const prescriptionIssues = validatePrescription(prescriptionItems);
+    const hasPrescription = prescriptionItems.length > 0;
+    const buildPlan = (planField: string) => hasPrescription ? formatPlan(prescriptionItems, planField) : planField;
 
     const { register, handleSubmit, getValues } = useForm<DoctorInputForm>({
         defaultValues: {
             subjective: formatNumberedList(aiSoap.subjective),
             objective: formatNumberedList(aiSoap.objective),
             assessment: formatNumberedList(aiSoap.assessment),
-            plan: formatNumberedList(aiSoap.plan),
+            plan: formatNumberedList(aiPrescription.length > 0 && aiPlanAdvice !== undefined ? aiPlanAdvice : aiSoap.plan),
             icdCodes: aiIcd.join(', '),
             notes: ''
         }
     });
 
     // Save medical record before comparison
-    const handleSaveMedicalRecord = async () => {
+    // safetyAcknowledged: the doctor confirmed the blocking drug safety alerts returned by the server
+    const handleSaveMedicalRecord = async (safetyAcknowledged = false) => {
         const data = getValues();
 
-        if (!data.assessment || selectedIcdCodes.length === 0) {
-            toast.error('Chẩn đoán và mã ICD-10 là bắt buộc');
+        if (!data.assessment || !diagnoses.some(diagnosis => diagnosis.role === 'primary')) {
+            toast.error('Chẩn đoán và mã ICD-10 bệnh chính là bắt buộc');
+            return;
+        }
+
+        if (diagnosisErrors.length > 0) {
+            toast.error('Chẩn đoán chưa hợp lệ: ' + diagnosisErrors.map(issue => issue.message).join('; '));
+            return;
+        }
+
+        const prescriptionErrors = prescriptionIssues.filter(issue => issue.severity === 'error');
+        if (prescriptionErrors.length > 0) {
+            toast.error('Đơn thuốc chưa hợp lệ: ' + prescriptionErrors.map(issue => issue.message).join('; '));
             return;
         }
 
         setIsSaving(true);
         try {
-            // Migrated to backend API
-            const result = await apiClient.post('/medical-record/save', {
-                body: JSON.stringify({
+            const result = await apiClient.saveMedicalRecord({
+                body: {
                     sessionId,
                     subjective: data.subjective,
                     objective: data.objective,
                     assessment: data.assessment,
-                    plan: data.plan,
-                    icdCodes: selectedIcdCodes,
+                    plan: buildPlan(data.plan),
+                    diagnoses,
+                    prescriptionItems,
                     status: 'final',
-                })
+                    safetyAcknowledged,
+                }
             });
 
             if (result.success) {
@@ -92,8 +129,19 @@ export default function MatchingEngine({ sessionId, medicalRecordId, aiSoap, aiI
                 toast.error('Không thể lưu bệnh án: ' + (result.message || 'Lỗi không xác định'));
             }
         } catch (error) {
+            const safetyIssue = error instanceof ApiClientError
+                ? error.issues?.find(issue => issue.path === 'safetyAcknowledged')
+                : undefined;
+            if (safetyIssue && !safetyAcknowledged
+                && confirm(`${safetyIssue.message}\n\nXác nhận đã xem xét các cảnh báo và lưu bệnh án?`)) {
+                await handleSaveMedicalRecord(true);
+                return;
+            }
+
             console.error('Error saving medical record:', error);
-            toast.error('Lỗi kết nối. Vui lòng thử lại.');
+            toast.error(error instanceof ApiClientError && error.issues
+                ? 'Không thể lưu bệnh án: ' + error.message
+                : 'Lỗi kết nối. Vui lòng thử lại.');
         } finally {
             setIsSaving(false);
         }
@@ -109,35 +157,29 @@ export default function MatchingEngine({ sessionId, medicalRecordId, aiSoap, aiI
                 aiResults: {
                     soap: aiSoap,
                     icdCodes: aiIcd,
-                    medicalAdvice
+                    medicalAdvice,
+                    citations
                 },
                 doctorResults: {
                     soap: {
                         subjective: data.subjective,
                         objective: data.objective,
                         assessment: data.assessment,
-                        plan: data.plan
+                        plan: buildPlan(data.plan)
                     },
-                    icdCodes: selectedIcdCodes, // Use state instead of form field
+                    icdCodes: icdCodesFromDiagnoses(diagnoses), // Use state instead of form field
                     treatment: { medications: [], tests: [], followUp: '' } // Simplified for MVP
                 }
             };
 
-            // Migrated to backend API
-            const result = await apiClient.post('/comparison/submit', {
-                body: JSON.stringify(payload)
-            });
-
-            if (result.success) {
-                setComparison(result.analysis);
-                setMode('result');
-            } else {
-                toast.error('Lỗi phân tích: ' + result.error);
-                setMode('input');
-            }
+            const result = await apiClient.submitComparison({ body: payload });
+            setComparison(result.analysis);
+            setMode('result');
         } catch (error) {
             console.error(error);
-            toast.error('Không thể kết nối đến server');
+            toast.error(error instanceof ApiClientError && error.statusCode > 0
+                ? 'Lỗi phân tích: ' + error.message
+                : 'Không thể kết nối đến server');
             setMode('input');
         }
     };
@@ -208,12 +250,9 @@ export default function MatchingEngine({ sessionId, medicalRecordId, aiSoap, aiI
                                 Mã ICD-10 (bác sĩ chọn)
                             </label>
                             <ICD10Picker
-                                selectedCodes={selectedIcdCodes}
-                                suggestedCodes={aiIcd.map(code => {
-                                    const [codeNum, ...descParts] = code.split(' - ');
-                                    return { code: codeNum, description: descParts.join(' - ') || '' };
-                                })}
-                                onChange={setSelectedIcdCodes}
+                                diagnoses={diagnoses}
+                                suggestedCodes={aiIcdItems}
+                                onChange={setDiagnoses}
                                 maxSelections={10}
                             />
                         </div>
@@ -222,12 +261,20 @@ export default function MatchingEngine({ sessionId, medicalRecordId, aiSoap, aiI
                         <div className="space-y-2 border-l-4 border-l-purple-500 pl-4">
                             <label className="text-sm font-bold text-gray-800 flex items-center gap-2">
                                 <PillBottle className="w-4 h-4 text-purple-600" />
-                                Plan (Điều trị)
+                                Plan (Điều trị) - Đơn thuốc
+                            </label>
+                            <PrescriptionEditor
+                                items={prescriptionItems}
+                                onChange={setPrescriptionItems}
+                                issues={prescriptionIssues}
+                            />
+                            <label className="pt-2 text-sm font-bold text-gray-800 block">
+                                {hasPrescription ? 'Dặn dò & theo dõi' : 'Kế hoạch điều trị'}
                             </label>
                             <textarea
                                 {...register('plan')}
-                                rows={8}
-                                placeholder="Kế hoạch điều trị, đơn thuốc, xét nghiệm..."
+                                rows={hasPrescription ? 5 : 8}
+                                placeholder={hasPrescription ? 'Chế độ ăn, nghỉ ngơi, tái khám, xét nghiệm...' : 'Kế hoạch điều trị, đơn thuốc, xét nghiệm...'}
                                 className="w-full p-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-sm bg-purple-50/30 transition"
                             />
                         </div>
@@ -237,7 +284,7 @@ export default function MatchingEngine({ sessionId, medicalRecordId, aiSoap, aiI
                                 /* Step 1: Save Medical Record */
                                 <button
                                     type="button"
-                                    onClick={handleSaveMedicalRecord}
+                                    onClick={() => handleSaveMedicalRecord()}
                                     disabled={isSaving}
                                     className="bg-emerald-600 text-white px-6 py-3 rounded-xl hover:bg-emerald-700 transition shadow-lg flex items-center gap-2 font-bold disabled:opacity-50 disabled:cursor-not-allowed"
                                 >
@@ -270,7 +317,15 @@ export default function MatchingEngine({ sessionId, medicalRecordId, aiSoap, aiI
                                 </>
                             )}
                         </div>
+
+                        {isSaved && (
+                            <VisitDocumentLinks sessionId={sessionId} className="justify-end" />
+                        )}
                     </form>
+
+                    {isSaved && (
+                        <PatientInstructionsPanel sessionId={sessionId} className="mt-6" />
+                    )}
                 </div>
             </div>
         );
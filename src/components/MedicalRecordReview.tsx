@@ -1,9 +1,23 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useId } from 'react';
 import { Card, Button, Tabs, Textarea, type TabItem } from './ui';
-import { Sparkles, Save, Lightbulb, BookOpen, ChevronRight, AlertCircle } from 'lucide-react';
-import ICD10Picker from './ICD10Picker';
+import { Sparkles, Save, Lightbulb, BookOpen, ChevronRight, AlertCircle, ShieldAlert, Loader2 } from 'lucide-react';
+import ICD10Picker, { type IcdCodeItem } from './ICD10Picker';
+import DiagnosisList from './DiagnosisList';
+import TranscriptPlayer, { type TranscriptPlayerHandle } from './TranscriptPlayer';
+import SoapSourceLinks from './SoapSourceLinks';
+import PrescriptionEditor from './PrescriptionEditor';
+import VisitDocumentLinks from './VisitDocumentLinks';
+import PatientInstructionsPanel from './PatientInstructionsPanel';
+import type { ProcessedSegment } from '@/lib/stt/types';
+import type { Citation, PrescribedMedication, SafetyAlert, SafetySeverity, SoapEvidence } from '@/lib/agents/state';
+import { splitCitationMarkers } from '@/lib/agents/citations';
+import type { PrescriptionItem } from '@/lib/prescription/types';
+import { formatPlan, prescriptionFromMedications, validatePrescription } from '@/lib/prescription/prescription';
+import type { Diagnosis } from '@/lib/diagnosis/types';
+import { diagnosesFromSuggestions, validateDiagnoses } from '@/lib/diagnosis/diagnosis';
+import { apiClient, ApiClientError } from '@/lib/api-client';
 
 // Helper: Parse markdown table to structured data
 interface TableData {
@@ -57,9 +71,36 @@ function parseMarkdownTable(text: string): { beforeTable: string; table: TableDa
     return { beforeTable, table: { headers, rows }, afterTable };
 }
 
-// AI Advice Display Component
-function AIAdviceDisplay({ advice }: { advice: string }) {
+// AI Advice Display Component - [n] markers link to the cited protocol excerpts (footnotes below)
+function AIAdviceDisplay({ advice, citations = [] }: { advice: string; citations?: Citation[] }) {
     const { beforeTable, table, afterTable } = parseMarkdownTable(advice);
+    const [openCitation, setOpenCitation] = useState<number | null>(null);
+    const footnotePrefix = useId();
+
+    const showCitation = (id: number) => {
+        setOpenCitation(id);
+        document.getElementById(`${footnotePrefix}-citation-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    };
+
+    // Text with its citation markers as footnote links
+    const withCitations = (text: string): React.ReactNode => {
+        if (citations.length === 0) return text;
+        return splitCitationMarkers(text).map((part, i) => typeof part === 'string' ? part : (
+            <sup key={i} className="ml-0.5">
+                {part.map((id, j) => (
+                    <button
+                        key={id}
+                        type="button"
+                        onClick={() => showCitation(id)}
+                        className="font-semibold text-sky-600 hover:text-sky-800 hover:underline"
+                        title={citations.find(c => c.id === id)?.title}
+                    >
+                        {j === 0 ? '[' : ''}{id}{j === part.length - 1 ? ']' : ','}
+                    </button>
+                ))}
+            </sup>
+        ));
+    };
 
     return (
         <div className="rounded-xl overflow-hidden shadow-lg border border-sky-100 animate-fade-in">
@@ -90,13 +131,13 @@ function AIAdviceDisplay({ advice }: { advice: string }) {
                                     <p key={i} className="mb-2">
                                         {parts.map((part, j) =>
                                             j % 2 === 1
-                                                ? <span key={j} className="font-semibold text-sky-700">{part}</span>
-                                                : part
+                                                ? <span key={j} className="font-semibold text-sky-700">{withCitations(part)}</span>
+                                                : <React.Fragment key={j}>{withCitations(part)}</React.Fragment>
                                         )}
                                     </p>
                                 );
                             }
-                            return <p key={i} className="mb-2">{line}</p>;
+                            return <p key={i} className="mb-2">{withCitations(line)}</p>;
                         })}
                     </div>
                 )}
@@ -205,18 +246,18 @@ function AIAdviceDisplay({ advice }: { advice: string }) {
                                         return <span key={i}>{parseBoldText(trimmedLine)}<br /></span>;
                                     }
 
-                                    return <span key={i}>{trimmedLine}<br /></span>;
+                                    return <span key={i}>{withCitations(trimmedLine)}<br /></span>;
                                 }).filter(Boolean);
                             };
 
                             // Helper to parse bold text
                             const parseBoldText = (str: string) => {
-                                if (!str.includes('**')) return str;
+                                if (!str.includes('**')) return withCitations(str);
                                 const parts = str.split(/\*\*(.*?)\*\*/g);
                                 return parts.map((part, j) =>
                                     j % 2 === 1
-                                        ? <strong key={j} className="text-slate-800">{part}</strong>
-                                        : part
+                                        ? <strong key={j} className="text-slate-800">{withCitations(part)}</strong>
+                                        : <React.Fragment key={j}>{withCitations(part)}</React.Fragment>
                                 );
                             };
 
@@ -257,7 +298,7 @@ function AIAdviceDisplay({ advice }: { advice: string }) {
                                         {reference && (
                                             <div className="mt-3 pt-3 border-t border-slate-100 flex items-start gap-2">
                                                 <BookOpen className="w-4 h-4 text-slate-400 mt-0.5 flex-shrink-0" />
-                                                <span className="text-xs text-slate-500 italic">{reference}</span>
+                                                <span className="text-xs text-slate-500 italic">{withCitations(reference)}</span>
                                             </div>
                                         )}
                                     </div>
@@ -273,16 +314,129 @@ function AIAdviceDisplay({ advice }: { advice: string }) {
                         <div className="flex items-start gap-3">
                             <AlertCircle className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
                             <p className="text-sm text-amber-800 leading-relaxed whitespace-pre-wrap">
-                                {afterTable}
+                                {withCitations(afterTable)}
                             </p>
                         </div>
                     </div>
                 )}
+
+                {/* Footnotes - cited protocol excerpts */}
+                {citations.length > 0 && (
+                    <div className="pt-3 border-t border-sky-100">
+                        <h5 className="text-sm font-bold text-slate-700 mb-2 flex items-center gap-2">
+                            <BookOpen className="w-4 h-4 text-sky-600" />
+                            Trích dẫn từ phác đồ
+                        </h5>
+                        <ol className="space-y-2">
+                            {citations.map(citation => (
+                                <li
+                                    key={citation.id}
+                                    id={`${footnotePrefix}-citation-${citation.id}`}
+                                    className={`rounded-lg border text-sm transition-colors ${openCitation === citation.id ? 'border-sky-300 bg-sky-50' : 'border-slate-200 bg-white'}`}
+                                >
+                                    <button
+                                        type="button"
+                                        onClick={() => setOpenCitation(openCitation === citation.id ? null : citation.id)}
+                                        className="w-full px-3 py-2 flex items-start gap-2 text-left"
+                                    >
+                                        <span className="font-semibold text-sky-700">[{citation.id}]</span>
+                                        <span className="flex-1">
+                                            <span className="font-medium text-slate-800">{citation.title}</span>
+                                            {citation.section.length > 0 && (
+                                                <span className="text-slate-500"> › {citation.section.join(' › ')}</span>
+                                            )}
+                                        </span>
+                                        <ChevronRight className={`w-4 h-4 text-slate-400 mt-0.5 transition-transform ${openCitation === citation.id ? 'rotate-90' : ''}`} />
+                                    </button>
+                                    {openCitation === citation.id && (
+                                        <div className="px-3 pb-3">
+                                            <p className="text-xs text-slate-600 whitespace-pre-wrap leading-relaxed border-l-2 border-sky-300 pl-3">
+                                                {citation.text}
+                                            </p>
+                                            <p className="text-[11px] text-slate-400 mt-2">{citation.source}</p>
+                                        </div>
+                                    )}
+                                </li>
+                            ))}
+                        </ol>
+                    </div>
+                )}
             </div>
         </div>
     );
 }
 
+// 400 issues come back as "field: message; ..." in ApiClientError.message
+function saveErrorText(error: unknown): string {
+    if (!(error instanceof ApiClientError) || error.statusCode === 0) return 'Lỗi kết nối. Vui lòng thử lại.';
+    if (error.issues) return `Bệnh án chưa hợp lệ: ${error.message}`;
+    return error.message || 'Không thể lưu bệnh án';
+}
+
+const SEVERITY_STYLES: Record<SafetySeverity, { label: string; className: string }> = {
+    contraindicated: { label: 'Chống chỉ định', className: 'bg-red-600 text-white' },
+    major: { label: 'Nghiêm trọng', className: 'bg-orange-500 text-white' },
+    moderate: { label: 'Trung bình', className: 'bg-amber-100 text-amber-800' },
+    minor: { label: 'Nhẹ', className: 'bg-slate-100 text-slate-700' },
+};
+
+// Drug safety alerts - blocking ones must be acknowledged before the record can be finalized
+function SafetyAlertsPanel({
+    alerts,
+    acknowledged,
+    onAcknowledge,
+    checking,
+}: {
+    alerts: SafetyAlert[];
+    acknowledged: boolean;
+    onAcknowledge: (value: boolean) => void;
+    checking: boolean;
+}) {
+    const hasBlocking = alerts.some(alert => alert.blocking);
+
+    return (
+        <div className={`mx-6 mt-6 rounded-xl border-2 ${hasBlocking ? 'border-red-300 bg-red-50' : 'border-amber-200 bg-amber-50'}`}>
+            <div className="px-4 py-3 flex items-center gap-2 border-b border-inherit">
+                <ShieldAlert className={`w-5 h-5 ${hasBlocking ? 'text-red-600' : 'text-amber-600'}`} />
+                <h4 className={`font-bold ${hasBlocking ? 'text-red-800' : 'text-amber-800'}`}>
+                    Cảnh báo an toàn thuốc ({alerts.length})
+                </h4>
+                {checking && <Loader2 className="w-4 h-4 animate-spin text-slate-500 ml-auto" />}
+            </div>
+            <ul className="p-4 space-y-3">
+                {alerts.map((alert, idx) => (
+                    <li key={idx} className="flex items-start gap-3">
+                        <span className={`shrink-0 px-2 py-0.5 rounded text-xs font-semibold ${SEVERITY_STYLES[alert.severity].className}`}>
+                            {SEVERITY_STYLES[alert.severity].label}
+                        </span>
+                        <div className="text-sm">
+                            <p className="font-semibold text-slate-800">
+                                {alert.type === 'check_failed'
+                                    ? 'Không kiểm tra được an toàn thuốc'
+                                    : alert.type === 'drug_allergy'
+                                        ? `${alert.drugs.join(', ')} - dị ứng ${alert.allergen}`
+                                        : alert.drugs.join(' + ')}
+                            </p>
+                            <p className="text-slate-600">{alert.rationale}</p>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+            {hasBlocking && (
+                <label className="flex items-start gap-2 px-4 pb-4 text-sm text-red-800 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={acknowledged}
+                        onChange={(e) => onAcknowledge(e.target.checked)}
+                        className="mt-0.5"
+                    />
+                    Tôi đã xem xét các cảnh báo trên và chịu trách nhiệm với chỉ định thuốc này
+                </label>
+            )}
+        </div>
+    );
+}
+
 interface AIResults {
     soap: {
         subjective: string;
@@ -290,8 +444,13 @@ interface AIResults {
         assessment: string;
         plan: string;
     };
-    icdCodes: Array<{ code: string; description: string }>;
+    icdCodes: IcdCodeItem[];  // AI suggestions (confidence / rationale when the coding agent is grounded in the catalogue)
     medicalAdvice?: string;
+    citations?: Citation[];  // Protocol excerpts cited in medicalAdvice as [n]
+    soapEvidence?: SoapEvidence;  // Statement → transcript segment links from the scribe agent
+    medications?: PrescribedMedication[];  // Prescription extracted from the plan
+    planAdvice?: string;  // Non-drug part of the plan
+    safetyAlerts?: SafetyAlert[];
 }
 
 interface MedicalRecordReviewProps {
@@ -301,6 +460,8 @@ interface MedicalRecordReviewProps {
     onComparison?: () => void;
     readOnly?: boolean;  // If true, show read-only view with "Tiếp theo" button
     onProceed?: () => void;  // Callback when "Tiếp theo" is clicked
+    segments?: ProcessedSegment[];  // Transcript the SOAP was generated from
+    audioUrl?: string | null;
 }
 
 export interface MedicalRecordData {
@@ -308,9 +469,13 @@ export interface MedicalRecordData {
     objective: string;
     assessment: string;
     plan: string;
-    icdCodes: string[];
+    diagnoses: Diagnosis[];  // Bệnh chính first, then bệnh kèm theo
+    prescriptionItems: PrescriptionItem[];
+    safetyAcknowledged?: boolean;  // Blocking drug safety alerts reviewed (checked again by the server on final save)
 }
 
+type SoapField = 'subjective' | 'objective' | 'assessment' | 'plan';
+
 export default function MedicalRecordReview({
     sessionId,
     aiResults,
@@ -318,6 +483,8 @@ export default function MedicalRecordReview({
     onComparison,
     readOnly = false,
     onProceed,
+    segments = [],
+    audioUrl,
 }: MedicalRecordReviewProps) {
     // Helper: Format text with numbered items and dashes to have proper line breaks
     const formatNumberedList = (text: string): string => {
@@ -333,42 +500,146 @@ export default function MedicalRecordReview({
         return formatted;
     };
 
+    // Structured prescription + the remaining advice; the plan text is generated from both
+    const aiPrescription = prescriptionFromMedications(aiResults.medications || []);
+    const aiAdvice = aiPrescription.length > 0 && aiResults.planAdvice !== undefined
+        ? aiResults.planAdvice
+        : aiResults.soap.plan || '';
+    const [advice, setAdvice] = useState(formatNumberedList(aiAdvice));
+
+    // The coding agent's primary code becomes the main disease
+    const aiDiagnoses = diagnosesFromSuggestions(aiResults.icdCodes || []);
+    const hasPrimaryDiagnosis = (diagnoses: Diagnosis[]) => diagnoses.some(diagnosis => diagnosis.role === 'primary');
+
     // Initialize form data from AI results with formatted text
     const [formData, setFormData] = useState<MedicalRecordData>({
         subjective: formatNumberedList(aiResults.soap.subjective || ''),
         objective: formatNumberedList(aiResults.soap.objective || ''),
         assessment: formatNumberedList(aiResults.soap.assessment || ''),
-        plan: formatNumberedList(aiResults.soap.plan || ''),
-        icdCodes: aiResults.icdCodes?.map(item => item.code) || [],
+        plan: formatPlan(aiPrescription, formatNumberedList(aiAdvice)),
+        diagnoses: aiDiagnoses,
+        prescriptionItems: aiPrescription,
     });
+    const prescriptionIssues = useMemo(() => validatePrescription(formData.prescriptionItems), [formData.prescriptionItems]);
+    const prescriptionErrors = prescriptionIssues.filter(issue => issue.severity === 'error');
+    const diagnosisErrors = useMemo(
+        () => validateDiagnoses(formData.diagnoses).filter(issue => issue.severity === 'error'),
+        [formData.diagnoses]
+    );
 
     const [isSaving, setIsSaving] = useState(false);
+    const [isFinalized, setIsFinalized] = useState(false);
     const [saveMessage, setSaveMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
-    const [selectedIcdCodes, setSelectedIcdCodes] = useState<string[]>(
-        aiResults.icdCodes?.map(item => item.code) || []
+
+    // Drug safety alerts for the plan that was last checked
+    const [safetyAlerts, setSafetyAlerts] = useState<SafetyAlert[]>(aiResults.safetyAlerts || []);
+    const [checkedPlan, setCheckedPlan] = useState(formData.plan);
+    const [alertsAcknowledged, setAlertsAcknowledged] = useState(false);
+    const [checkingSafety, setCheckingSafety] = useState(false);
+    const blockedBySafety = safetyAlerts.some(alert => alert.blocking) && !alertsAcknowledged;
+
+    // Re-run the safety check if the doctor edited the plan since the last check
+    // Returns false when the save must stop (new blocking alerts to review)
+    const ensurePlanChecked = async (): Promise<boolean> => {
+        if (formData.plan === checkedPlan) {
+            if (blockedBySafety) {
+                setSaveMessage({ type: 'error', text: 'Vui lòng xác nhận đã xem xét cảnh báo an toàn thuốc' });
+            }
+            return !blockedBySafety;
+        }
+
+        setCheckingSafety(true);
+        try {
+            const result = await apiClient.checkSafety({
+                body: { plan: formData.plan, sessionId, prescriptionItems: formData.prescriptionItems },
+            });
+
+            const alerts: SafetyAlert[] = result.data.alerts;
+            setSafetyAlerts(alerts);
+            setCheckedPlan(formData.plan);
+            if (alerts.some(alert => alert.blocking)) {
+                setAlertsAcknowledged(false);
+                setSaveMessage({ type: 'error', text: 'Kế hoạch điều trị có cảnh báo an toàn thuốc cần xem xét trước khi lưu' });
+                return false;
+            }
+            return true;
+        } catch (error) {
+            console.error('Error checking plan safety:', error);
+            setSaveMessage({
+                type: 'error',
+                text: error instanceof ApiClientError && error.statusCode > 0
+                    ? error.message || 'Không thể kiểm tra an toàn thuốc'
+                    : 'Không thể kiểm tra an toàn thuốc. Vui lòng thử lại.'
+            });
+            return false;
+        } finally {
+            setCheckingSafety(false);
+        }
+    };
+
+    // Transcript playback linked to SOAP sentences
+    const playerRef = useRef<TranscriptPlayerHandle>(null);
+    const [selectedSentence, setSelectedSentence] = useState<{ field: string; sentenceIndex: number } | null>(null);
+    const [linkedSegments, setLinkedSegments] = useState<number[]>([]);
+    const hasTranscript = segments.length > 0;
+    const soapEvidence = aiResults.soapEvidence;
+    const unsupportedCount = soapEvidence
+        ? Object.values(soapEvidence).flat().filter(statement => !statement.supported).length
+        : 0;
+
+    const handleSourceSelect = (field: string, sentenceIndex: number, segmentIndices: number[]) => {
+        setSelectedSentence({ field, sentenceIndex });
+        setLinkedSegments(segmentIndices);
+        playerRef.current?.seekToSegment(segmentIndices[0]);
+    };
+
+    const renderSourceLinks = (field: SoapField) => (hasTranscript || soapEvidence) && formData[field] && (
+        <div className="-mt-2">
+            <p className="text-xs font-semibold text-slate-500 mb-1">
+                Nguồn trong hội thoại {hasTranscript ? '(rê chuột để xem, nhấn để nghe lại)' : '(rê chuột để xem)'}
+            </p>
+            <SoapSourceLinks
+                field={field}
+                text={formData[field]}
+                segments={segments}
+                statements={soapEvidence?.[field]}
+                selected={selectedSentence}
+                onSelect={handleSourceSelect}
+            />
+        </div>
     );
 
     // Update form data when field changes
-    const handleFieldChange = (field: keyof MedicalRecordData, value: string) => {
+    const handleFieldChange = (field: SoapField, value: string) => {
         setFormData(prev => ({ ...prev, [field]: value }));
     };
 
-    // Handle ICD code selection change from picker
-    const handleIcdCodesChange = (codes: string[]) => {
-        setSelectedIcdCodes(codes);
-        setFormData(prev => ({ ...prev, icdCodes: codes }));
+    // Plan = prescription items + advice, regenerated whenever either changes
+    const handlePrescriptionChange = (items: PrescriptionItem[]) => {
+        setFormData(prev => ({ ...prev, prescriptionItems: items, plan: formatPlan(items, advice) }));
+    };
+
+    const handleAdviceChange = (value: string) => {
+        setAdvice(value);
+        setFormData(prev => ({ ...prev, plan: formatPlan(prev.prescriptionItems, value) }));
+    };
+
+    // Handle diagnosis changes from the picker (codes, main disease, certainty, labels)
+    const handleDiagnosesChange = (diagnoses: Diagnosis[]) => {
+        setFormData(prev => ({ ...prev, diagnoses }));
     };
 
     // Magic Fill: Accept all AI suggestions
     const handleMagicFill = () => {
+        setAdvice(aiAdvice);
         setFormData({
             subjective: aiResults.soap.subjective || '',
             objective: aiResults.soap.objective || '',
             assessment: aiResults.soap.assessment || '',
-            plan: aiResults.soap.plan || '',
-            icdCodes: aiResults.icdCodes?.map(item => item.code) || [],
+            plan: formatPlan(aiPrescription, aiAdvice),
+            diagnoses: aiDiagnoses,
+            prescriptionItems: aiPrescription,
         });
-        setSelectedIcdCodes(aiResults.icdCodes?.map(item => item.code) || []);
         setSaveMessage({ type: 'success', text: '✨ Đã áp dụng toàn bộ gợi ý AI!' });
     };
 
@@ -377,7 +648,7 @@ export default function MedicalRecordReview({
         const handleKeyDown = (e: KeyboardEvent) => {
             if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
                 e.preventDefault();
-                if (!isSaving && formData.assessment && formData.icdCodes.length > 0) {
+                if (!isSaving && formData.assessment && hasPrimaryDiagnosis(formData.diagnoses)) {
                     handleFinalSave();
                 }
             }
@@ -393,26 +664,18 @@ export default function MedicalRecordReview({
         setSaveMessage(null);
 
         try {
-            const response = await fetch('/api/medical-record/save', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
+            await apiClient.saveMedicalRecord({
+                body: {
                     sessionId,
                     ...formData,
                     status: 'draft',
-                }),
+                },
             });
 
-            const result = await response.json();
-
-            if (result.success) {
-                setSaveMessage({ type: 'success', text: 'Bệnh án nháp đã được lưu' });
-                onSave(formData, false);
-            } else {
-                setSaveMessage({ type: 'error', text: result.message || 'Không thể lưu bệnh án' });
-            }
+            setSaveMessage({ type: 'success', text: 'Bệnh án nháp đã được lưu' });
+            onSave(formData, false);
         } catch (error) {
-            setSaveMessage({ type: 'error', text: 'Lỗi kết nối. Vui lòng thử lại.' });
+            setSaveMessage({ type: 'error', text: saveErrorText(error) });
             console.error('Error saving draft:', error);
         } finally {
             setIsSaving(false);
@@ -422,47 +685,61 @@ export default function MedicalRecordReview({
     // Final save
     const handleFinalSave = async () => {
         // Validation
-        if (!formData.assessment || formData.icdCodes.length === 0) {
+        if (!formData.assessment || !hasPrimaryDiagnosis(formData.diagnoses)) {
+            setSaveMessage({
+                type: 'error',
+                text: 'Chẩn đoán và mã ICD-10 bệnh chính là bắt buộc khi lưu bệnh án chính thức'
+            });
+            return;
+        }
+
+        if (diagnosisErrors.length > 0) {
+            setSaveMessage({
+                type: 'error',
+                text: `Chẩn đoán chưa hợp lệ: ${diagnosisErrors.map(issue => issue.message).join('; ')}`
+            });
+            return;
+        }
+
+        if (prescriptionErrors.length > 0) {
             setSaveMessage({
                 type: 'error',
-                text: 'Chẩn đoán và mã ICD-10 là bắt buộc khi lưu bệnh án chính thức'
+                text: `Đơn thuốc chưa hợp lệ: ${prescriptionErrors.map(issue => issue.message).join('; ')}`
             });
             return;
         }
 
+        if (!(await ensurePlanChecked())) {
+            return;
+        }
+
         setIsSaving(true);
         setSaveMessage(null);
 
         try {
             // Save medical record
-            const response = await fetch('/api/medical-record/save', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
+            await apiClient.saveMedicalRecord({
+                body: {
                     sessionId,
                     ...formData,
                     status: 'final',
-                }),
+                    safetyAcknowledged: alertsAcknowledged,
+                },
             });
 
-            const result = await response.json();
-
-            if (result.success) {
-                setSaveMessage({
-                    type: 'success',
-                    text: 'Bệnh án đã được lưu và đồng bộ với HIS'
-                });
-                onSave(formData, true);
+            setSaveMessage({
+                type: 'success',
+                text: 'Bệnh án đã được lưu và đồng bộ với HIS'
+            });
+            setIsFinalized(true);
+            onSave({ ...formData, safetyAcknowledged: alertsAcknowledged }, true);
 
-                // Trigger comparison after successful save
-                if (onComparison) {
-                    onComparison();
-                }
-            } else {
-                setSaveMessage({ type: 'error', text: result.message || 'Không thể lưu bệnh án' });
+            // Trigger comparison after successful save
+            if (onComparison) {
+                onComparison();
             }
         } catch (error) {
-            setSaveMessage({ type: 'error', text: 'Lỗi kết nối. Vui lòng thử lại.' });
+            setSaveMessage({ type: 'error', text: saveErrorText(error) });
             console.error('Error saving final record:', error);
         } finally {
             setIsSaving(false);
@@ -491,6 +768,7 @@ export default function MedicalRecordReview({
                         readOnly={readOnly}
                         className={readOnly ? 'bg-slate-50 cursor-not-allowed' : ''}
                     />
+                    {renderSourceLinks('subjective')}
 
                     <Textarea
                         label="Sinh hiệu & Khám lâm sàng (Objective)"
@@ -502,6 +780,7 @@ export default function MedicalRecordReview({
                         readOnly={readOnly}
                         className={readOnly ? 'bg-slate-50 cursor-not-allowed' : ''}
                     />
+                    {renderSourceLinks('objective')}
                 </div>
             ),
         },
@@ -526,39 +805,24 @@ export default function MedicalRecordReview({
                         readOnly={readOnly}
                         className={readOnly ? 'bg-slate-50 cursor-not-allowed' : ''}
                     />
+                    {renderSourceLinks('assessment')}
 
                     {/* ICD-10 Code Display or Picker */}
                     <div>
                         <label className="block mb-3 text-sm font-semibold text-slate-700">
-                            Mã ICD-10
-                            {!readOnly && selectedIcdCodes.length === 0 && (
+                            Mã ICD-10 (bệnh chính, bệnh kèm theo)
+                            {!readOnly && !hasPrimaryDiagnosis(formData.diagnoses) && (
                                 <span className="ml-2 text-red-600 text-xs">* Bắt buộc</span>
                             )}
                         </label>
 
                         {readOnly ? (
-                            // Read-only: just display the codes
-                            <div className="flex flex-wrap gap-2">
-                                {selectedIcdCodes.map((code) => {
-                                    const codeInfo = aiResults.icdCodes?.find(c => c.code === code);
-                                    return (
-                                        <span
-                                            key={code}
-                                            className="inline-flex items-center gap-2 px-3 py-1.5 bg-sky-100 text-sky-800 rounded-full text-sm border border-sky-200"
-                                        >
-                                            <span className="font-mono font-semibold">{code}</span>
-                                            {codeInfo?.description && (
-                                                <span className="text-sky-600">{codeInfo.description}</span>
-                                            )}
-                                        </span>
-                                    );
-                                })}
-                            </div>
+                            <DiagnosisList diagnoses={formData.diagnoses} readOnly />
                         ) : (
                             <ICD10Picker
-                                selectedCodes={selectedIcdCodes}
+                                diagnoses={formData.diagnoses}
                                 suggestedCodes={aiResults.icdCodes}
-                                onChange={handleIcdCodesChange}
+                                onChange={handleDiagnosesChange}
                                 maxSelections={10}
                             />
                         )}
@@ -576,20 +840,48 @@ export default function MedicalRecordReview({
             ),
             content: (
                 <div className="space-y-5">
+                    <div>
+                        <label className="block mb-3 text-sm font-semibold text-slate-700">
+                            Đơn thuốc
+                            {formData.prescriptionItems.length > 0 && (
+                                <span className="ml-2 text-xs font-normal text-slate-500">
+                                    {formData.prescriptionItems.length} thuốc
+                                </span>
+                            )}
+                        </label>
+                        <PrescriptionEditor
+                            items={formData.prescriptionItems}
+                            onChange={handlePrescriptionChange}
+                            issues={prescriptionIssues}
+                            readOnly={readOnly}
+                        />
+                    </div>
+
                     <Textarea
-                        label="Kế hoạch điều trị (Plan)"
-                        placeholder="Thuốc, liệu pháp, lời khuyên..."
-                        value={formData.plan}
-                        onChange={(e) => handleFieldChange('plan', e.target.value)}
-                        rows={6}
-                        helperText="Chi tiết về thuốc, liều dùng, tái khám và lời khuyên cho bệnh nhân"
+                        label={formData.prescriptionItems.length > 0 ? 'Dặn dò & theo dõi' : 'Kế hoạch điều trị (Plan)'}
+                        placeholder="Chế độ ăn, nghỉ ngơi, tái khám, xét nghiệm..."
+                        value={advice}
+                        onChange={(e) => handleAdviceChange(e.target.value)}
+                        rows={4}
+                        helperText="Lời khuyên không dùng thuốc và lịch tái khám - thuốc được nhập ở đơn thuốc phía trên"
                         readOnly={readOnly}
                         className={readOnly ? 'bg-slate-50 cursor-not-allowed' : ''}
                     />
 
+                    {/* Plan text saved to the record (generated) */}
+                    {formData.prescriptionItems.length > 0 && (
+                        <div>
+                            <p className="text-xs font-semibold text-slate-500 mb-1">Kế hoạch điều trị (tự động sinh từ đơn thuốc)</p>
+                            <pre className="p-3 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 whitespace-pre-wrap font-sans">
+                                {formData.plan}
+                            </pre>
+                        </div>
+                    )}
+                    {renderSourceLinks('plan')}
+
                     {/* AI Medical Advice (Read-only) - Enhanced Display */}
                     {aiResults.medicalAdvice && (
-                        <AIAdviceDisplay advice={aiResults.medicalAdvice} />
+                        <AIAdviceDisplay advice={aiResults.medicalAdvice} citations={aiResults.citations} />
                     )}
                 </div>
             ),
@@ -598,6 +890,39 @@ export default function MedicalRecordReview({
 
     return (
         <Card className="mt-6">
+            {/* Recorded conversation - click a segment or a SOAP sentence to play it */}
+            {hasTranscript && (
+                <div className="px-6 pt-6">
+                    <h4 className="text-sm font-bold text-slate-700 mb-3">🎧 Hội thoại gốc</h4>
+                    <TranscriptPlayer
+                        ref={playerRef}
+                        segments={segments}
+                        audioUrl={audioUrl}
+                        highlightedIndices={linkedSegments}
+                        maxHeightClass="max-h-64"
+                    />
+                </div>
+            )}
+
+            {safetyAlerts.length > 0 && (
+                <SafetyAlertsPanel
+                    alerts={safetyAlerts}
+                    acknowledged={alertsAcknowledged}
+                    onAcknowledge={setAlertsAcknowledged}
+                    checking={checkingSafety}
+                />
+            )}
+
+            {/* Statements the scribe could not trace back to the conversation */}
+            {unsupportedCount > 0 && (
+                <div className="mx-6 mt-6 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-2 text-sm text-amber-800">
+                    <AlertCircle className="w-5 h-5 shrink-0" />
+                    <span>
+                        {unsupportedCount} nhận định không tìm thấy căn cứ trong hội thoại (gạch chân lượn sóng) - có thể do AI suy diễn, vui lòng kiểm tra lại trước khi lưu.
+                    </span>
+                </div>
+            )}
+
             {/* Tabs for SOAP sections */}
             <Tabs tabs={tabs} defaultTab="examination" />
 
@@ -623,6 +948,14 @@ export default function MedicalRecordReview({
                 </div>
             )}
 
+            {/* Prescription / visit summary to hand to the patient */}
+            {!readOnly && isFinalized && (
+                <>
+                    <VisitDocumentLinks sessionId={sessionId} className="mx-6 mb-4" />
+                    <PatientInstructionsPanel sessionId={sessionId} className="mx-6 mb-4" />
+                </>
+            )}
+
             {/* Action Buttons */}
             <div className="flex justify-end items-center gap-4 px-6 pb-6">
                 {readOnly ? (
@@ -630,6 +963,8 @@ export default function MedicalRecordReview({
                     <Button
                         variant="primary"
                         onClick={onProceed}
+                        disabled={blockedBySafety}
+                        title={blockedBySafety ? 'Xác nhận đã xem xét cảnh báo an toàn thuốc để tiếp tục' : undefined}
                         className="px-8 py-3 text-lg font-semibold flex items-center gap-2"
                     >
                         Tiếp theo
@@ -652,7 +987,7 @@ export default function MedicalRecordReview({
                         <Button
                             variant="primary"
                             onClick={handleFinalSave}
-                            disabled={isSaving || !formData.assessment || formData.icdCodes.length === 0}
+                            disabled={isSaving || checkingSafety || !formData.assessment || !hasPrimaryDiagnosis(formData.diagnoses) || diagnosisErrors.length > 0 || prescriptionErrors.length > 0}
                             className="px-8 py-3 text-lg font-semibold relative"
                         >
                             {isSaving ? (
@@ -5,7 +5,8 @@ import { useForm } from 'react-hook-form';
 import { X } from 'lucide-react';
 import Button from './ui/Button';
 import { useToast } from './ui';
-import { apiClient } from '@/lib/api-client';
+import { apiClient, ApiClientError } from '@/lib/api-client';
+import type { DuplicatePatientsBody } from '@/lib/contracts/patient';
 
 interface PatientFormData {
     name: string;
@@ -26,44 +27,45 @@ interface PatientFormModalProps {
 
 export default function PatientFormModal({ onClose, onPatientCreated }: PatientFormModalProps) {
     const [loading, setLoading] = useState(false);
-    const [duplicates, setDuplicates] = useState<any[]>([]);
+    const [duplicates, setDuplicates] = useState<DuplicatePatientsBody['duplicates']>([]);
     const [showDuplicateWarning, setShowDuplicateWarning] = useState(false);
 
     const { register, handleSubmit, formState: { errors }, reset } = useForm<PatientFormData>();
     const toast = useToast();
 
-    const onSubmit = async (data: PatientFormData, force: boolean = false) => {
+    const onSubmit = async ({ phoneNumber, ...data }: PatientFormData, force: boolean = false) => {
         setLoading(true);
         try {
             // Migrated to backend API
-            const result = await apiClient.post('/patient/create', {
-                body: JSON.stringify({
-                    patientData: data,
+            const result = await apiClient.createPatient({
+                body: {
+                    patientData: { ...data, phone: phoneNumber },
                     force
-                })
+                }
             });
 
-            if (result.success) {
-                console.log('Patient created:', result.patient);
-                onPatientCreated(result.patient.id);
-                reset();
-                onClose();
-            } else if (result.error === 'POSSIBLE_DUPLICATE') {
+            console.log('Patient created:', result.patient);
+            onPatientCreated(result.patient.id);
+            reset();
+            onClose();
+        } catch (error) {
+            const body = error instanceof ApiClientError ? error.body as DuplicatePatientsBody | undefined : undefined;
+            if (body?.error === 'POSSIBLE_DUPLICATE') {
                 // Show duplicate warning
-                setDuplicates(result.duplicates || []);
+                setDuplicates(body.duplicates || []);
                 setShowDuplicateWarning(true);
-            } else {
-                toast.error('Lỗi: ' + result.error);
+                return;
             }
-        } catch (error) {
             console.error('Error creating patient:', error);
-            toast.error('Không thể tạo bệnh nhân. Vui lòng thử lại.');
+            toast.error(error instanceof ApiClientError && error.statusCode === 400
+                ? 'Lỗi: ' + error.message
+                : 'Không thể tạo bệnh nhân. Vui lòng thử lại.');
         } finally {
             setLoading(false);
         }
     };
 
-    const handleUseExisting = (patient: any) => {
+    const handleUseExisting = (patient: DuplicatePatientsBody['duplicates'][number]) => {
         onPatientCreated(patient.id);
         setShowDuplicateWarning(false);
         reset();
@@ -94,7 +96,7 @@ export default function PatientFormModal({ onClose, onPatientCreated }: PatientF
                                         <div>
                                             <div className="font-bold text-lg">{patient.displayId} - {patient.name}</div>
                                             <div className="text-sm text-slate-600 mt-1">
-                                                SĐT: {patient.phoneNumber || 'N/A'} | Ngày sinh: {patient.birthDate || 'N/A'}
+                                                SĐT: {patient.phone || 'N/A'} | Ngày sinh: {patient.birthDate || 'N/A'}
                                             </div>
                                         </div>
                                         <Button onClick={() => handleUseExisting(patient)}>
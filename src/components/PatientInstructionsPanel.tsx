@@ -0,0 +1,320 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, FileText, HeartHandshake, Loader2, Save, Sparkles } from 'lucide-react';
+import { Badge, Button, useToast } from './ui';
+import { apiClient } from '@/lib/api-client';
+import { getApiUrl } from '@/lib/api-config';
+import {
+    READING_LEVELS,
+    type PatientInstructions,
+    type PatientInstructionsStatus,
+    type ReadingLevel,
+} from '@/lib/instructions/types';
+
+interface PatientInstructionsPanelProps {
+    sessionId: string;
+    className?: string;
+}
+
+// Editor state - list sections are edited as one item per line
+interface InstructionsForm {
+    diagnosis: string;
+    medications: { drugName: string; instructions: string }[];
+    selfCare: string;
+    warningSigns: string;
+    followUp: string;
+}
+
+const EMPTY_FORM: InstructionsForm = {
+    diagnosis: '',
+    medications: [],
+    selfCare: '',
+    warningSigns: '',
+    followUp: '',
+};
+
+function toForm(instructions: PatientInstructions): InstructionsForm {
+    return {
+        diagnosis: instructions.content.diagnosis,
+        medications: instructions.content.medications,
+        selfCare: instructions.content.selfCare.join('\n'),
+        warningSigns: instructions.content.warningSigns.join('\n'),
+        followUp: instructions.content.followUp,
+    };
+}
+
+const textareaClass = 'w-full px-3 py-2 text-sm text-slate-900 bg-white border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-offset-1 focus:border-sky-500 focus:ring-sky-500 disabled:bg-slate-50';
+
+/**
+ * Patient instructions (hướng dẫn cho bệnh nhân): AI draft at a chosen reading level,
+ * edited by the doctor, then approved - only approved instructions can be printed
+ */
+export default function PatientInstructionsPanel({ sessionId, className = '' }: PatientInstructionsPanelProps) {
+    const toast = useToast();
+    const [readingLevel, setReadingLevel] = useState<ReadingLevel>('standard');
+    const [form, setForm] = useState<InstructionsForm | null>(null);
+    const [status, setStatus] = useState<PatientInstructionsStatus>('draft');
+    const [isLoading, setIsLoading] = useState(true);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        const fetchInstructions = async () => {
+            try {
+                const result = await apiClient.getSessionInstructions({ path: { sessionId } });
+                if (result.success && result.data) {
+                    setForm(toForm(result.data));
+                    setReadingLevel(result.data.readingLevel);
+                    setStatus(result.data.status);
+                }
+            } catch (error) {
+                console.error('Error fetching patient instructions:', error);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchInstructions();
+    }, [sessionId]);
+
+    // Any edit after approval needs a new approval
+    const updateForm = (patch: Partial<InstructionsForm>) => {
+        setForm(prev => ({ ...(prev || EMPTY_FORM), ...patch }));
+        setStatus('draft');
+    };
+
+    const updateMedication = (index: number, instructions: string) => {
+        if (!form) return;
+        updateForm({
+            medications: form.medications.map((med, idx) => (idx === index ? { ...med, instructions } : med)),
+        });
+    };
+
+    const handleGenerate = async () => {
+        setIsGenerating(true);
+        try {
+            const result = await apiClient.generateSessionInstructions({
+                path: { sessionId },
+                body: { readingLevel },
+            });
+            if (result.success) {
+                setForm(toForm(result.data));
+                setStatus(result.data.status);
+                toast.success(result.message || 'Đã tạo bản nháp hướng dẫn');
+            } else {
+                toast.error('Không thể tạo hướng dẫn: ' + (result.message || 'Lỗi không xác định'));
+            }
+        } catch (error) {
+            console.error('Error generating patient instructions:', error);
+            toast.error(error instanceof Error ? error.message : 'Lỗi kết nối. Vui lòng thử lại.');
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const handleSave = async (nextStatus: PatientInstructionsStatus) => {
+        if (!form) return;
+
+        setIsSaving(true);
+        try {
+            const result = await apiClient.saveSessionInstructions({
+                path: { sessionId },
+                body: { readingLevel, content: { ...form }, status: nextStatus },
+            });
+            if (result.success) {
+                setForm(toForm(result.data));
+                setStatus(result.data.status);
+                toast.success(result.message || 'Đã lưu hướng dẫn');
+            } else {
+                toast.error('Không thể lưu hướng dẫn: ' + (result.message || 'Lỗi không xác định'));
+            }
+        } catch (error) {
+            console.error('Error saving patient instructions:', error);
+            toast.error(error instanceof Error ? error.message : 'Lỗi kết nối. Vui lòng thử lại.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const documentUrl = (format: 'html' | 'pdf') =>
+        getApiUrl(`/session/${sessionId}/documents/instructions?format=${format}`);
+
+    const isBusy = isGenerating || isSaving;
+
+    return (
+        <div className={`rounded-xl border border-slate-200 bg-white p-4 space-y-4 ${className}`}>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="flex items-center gap-2 font-semibold text-slate-900">
+                    <HeartHandshake className="w-5 h-5 text-teal-600" />
+                    Hướng dẫn cho bệnh nhân
+                </h3>
+                {form && (
+                    <Badge variant={status === 'approved' ? 'success' : 'warning'} size="sm" dot>
+                        {status === 'approved' ? 'Đã duyệt' : 'Bản nháp - chưa duyệt'}
+                    </Badge>
+                )}
+            </div>
+
+            {/* Reading level */}
+            <div className="flex flex-wrap items-end gap-3">
+                <div className="flex flex-wrap gap-2">
+                    {READING_LEVELS.map(level => (
+                        <button
+                            key={level.value}
+                            type="button"
+                            onClick={() => setReadingLevel(level.value)}
+                            title={level.description}
+                            className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${readingLevel === level.value
+                                ? 'border-teal-500 bg-teal-50 text-teal-700 font-semibold'
+                                : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                        >
+                            {level.label}
+                        </button>
+                    ))}
+                </div>
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={handleGenerate}
+                    disabled={isSaving || isLoading}
+                    isLoading={isGenerating}
+                >
+                    {!isGenerating && <Sparkles className="w-4 h-4" />}
+                    {form ? 'Tạo lại bằng AI' : 'Tạo hướng dẫn bằng AI'}
+                </Button>
+            </div>
+            <p className="text-xs text-slate-500">
+                {READING_LEVELS.find(level => level.value === readingLevel)?.description}
+            </p>
+
+            {isLoading && (
+                <div className="flex items-center gap-2 text-sm text-slate-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Đang tải...
+                </div>
+            )}
+
+            {form && (
+                <div className="space-y-3">
+                    <label className="block">
+                        <span className="block text-sm font-semibold text-slate-700 mb-1">Bệnh của bạn</span>
+                        <textarea
+                            rows={3}
+                            className={textareaClass}
+                            value={form.diagnosis}
+                            onChange={e => updateForm({ diagnosis: e.target.value })}
+                            disabled={isBusy}
+                        />
+                    </label>
+
+                    {form.medications.length > 0 && (
+                        <div className="space-y-2">
+                            <span className="block text-sm font-semibold text-slate-700">Cách dùng thuốc</span>
+                            {form.medications.map((med, idx) => (
+                                <label key={`${med.drugName}-${idx}`} className="block">
+                                    <span className="block text-xs font-semibold text-slate-600 mb-1">{med.drugName}</span>
+                                    <textarea
+                                        rows={2}
+                                        className={textareaClass}
+                                        value={med.instructions}
+                                        onChange={e => updateMedication(idx, e.target.value)}
+                                        disabled={isBusy}
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                    )}
+
+                    <label className="block">
+                        <span className="block text-sm font-semibold text-slate-700 mb-1">
+                            Chăm sóc tại nhà <span className="font-normal text-slate-500">(mỗi dòng một ý)</span>
+                        </span>
+                        <textarea
+                            rows={4}
+                            className={textareaClass}
+                            value={form.selfCare}
+                            onChange={e => updateForm({ selfCare: e.target.value })}
+                            disabled={isBusy}
+                        />
+                    </label>
+
+                    <label className="block">
+                        <span className="block text-sm font-semibold text-red-700 mb-1">
+                            Dấu hiệu cần quay lại khám ngay <span className="font-normal text-slate-500">(mỗi dòng một ý)</span>
+                        </span>
+                        <textarea
+                            rows={4}
+                            className={textareaClass}
+                            value={form.warningSigns}
+                            onChange={e => updateForm({ warningSigns: e.target.value })}
+                            disabled={isBusy}
+                        />
+                    </label>
+
+                    <label className="block">
+                        <span className="block text-sm font-semibold text-slate-700 mb-1">Tái khám</span>
+                        <textarea
+                            rows={2}
+                            className={textareaClass}
+                            value={form.followUp}
+                            onChange={e => updateForm({ followUp: e.target.value })}
+                            disabled={isBusy}
+                        />
+                    </label>
+
+                    <div className="flex flex-wrap items-center justify-between gap-3 pt-1">
+                        {status === 'approved' ? (
+                            <span className="inline-flex items-center rounded-lg border border-slate-200 bg-white text-sm overflow-hidden">
+                                <a
+                                    href={documentUrl('html')}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="flex items-center gap-1.5 px-3 py-1.5 text-slate-700 hover:bg-sky-50"
+                                    title="In hướng dẫn cho bệnh nhân"
+                                >
+                                    <FileText className="w-4 h-4 text-sky-600" />
+                                    In hướng dẫn
+                                </a>
+                                <a
+                                    href={documentUrl('pdf')}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="px-2.5 py-1.5 border-l border-slate-200 text-xs font-semibold text-slate-500 hover:bg-sky-50"
+                                    title="Tải hướng dẫn (PDF)"
+                                >
+                                    PDF
+                                </a>
+                            </span>
+                        ) : (
+                            <span className="text-xs text-slate-500">Chỉ in được sau khi bác sĩ duyệt</span>
+                        )}
+                        <div className="flex gap-2">
+                            <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleSave('draft')}
+                                disabled={isBusy}
+                            >
+                                <Save className="w-4 h-4" />
+                                Lưu nháp
+                            </Button>
+                            <Button
+                                type="button"
+                                variant="success"
+                                size="sm"
+                                onClick={() => handleSave('approved')}
+                                disabled={isBusy || status === 'approved'}
+                            >
+                                <CheckCircle className="w-4 h-4" />
+                                Duyệt & đính kèm
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -7,10 +7,10 @@ import { apiClient } from '@/lib/api-client';
 
 interface Patient {
     id: string;
-    displayId: string;
+    displayId: string | null;
     name: string;
     birthDate: string | null;
-    phoneNumber: string | null;
+    phone: string | null;
     totalVisits: number;
     lastVisitDate: string | null;
 }
@@ -48,13 +48,10 @@ export default function PatientSearchModal({ onClose, onPatientSelect }: Patient
         setLoading(true);
         try {
             // Migrated to backend API
-            const data = await apiClient.get('/patients', {
+            const data = await apiClient.listPatients({
                 params: { q: query }
             });
-
-            if (data.patients) {
-                setPatients(data.patients);
-            }
+            setPatients(data.patients);
         } catch (error) {
             console.error('Error searching patients:', error);
         } finally {
@@ -63,7 +60,7 @@ export default function PatientSearchModal({ onClose, onPatientSelect }: Patient
     };
 
     const handleSelectPatient = (patient: Patient) => {
-        onPatientSelect(patient.id, patient.displayId);
+        onPatientSelect(patient.id, patient.displayId || '');
         onClose();
     };
 
@@ -188,10 +185,10 @@ function PatientCard({
                                 </span>
                             </div>
                             <div className="flex items-center gap-4 text-sm text-slate-600 mt-1">
-                                {patient.phoneNumber && (
+                                {patient.phone && (
                                     <span className="flex items-center gap-1">
                                         <Phone className="w-3.5 h-3.5" />
-                                        {patient.phoneNumber}
+                                        {patient.phone}
                                     </span>
                                 )}
                                 {age && (
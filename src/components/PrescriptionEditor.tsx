@@ -0,0 +1,186 @@
+'use client';
+
+import React from 'react';
+import { AlertCircle, AlertTriangle, Pill, Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui';
+import {
+    EMPTY_PRESCRIPTION_ITEM,
+    type PrescriptionField,
+    type PrescriptionIssue,
+    type PrescriptionItem,
+} from '@/lib/prescription/types';
+
+interface PrescriptionEditorProps {
+    items: PrescriptionItem[];
+    onChange?: (items: PrescriptionItem[]) => void;  // Not needed in read-only mode
+    issues?: PrescriptionIssue[];
+    readOnly?: boolean;
+}
+
+// Editable columns - drugName is the card title
+const FIELDS: { field: Exclude<PrescriptionField, 'drugName'>; label: string; placeholder: string; wide?: boolean }[] = [
+    { field: 'activeIngredient', label: 'Hoạt chất', placeholder: 'Amoxicillin' },
+    { field: 'strength', label: 'Hàm lượng', placeholder: '500mg' },
+    { field: 'form', label: 'Dạng bào chế', placeholder: 'Viên nang' },
+    { field: 'route', label: 'Đường dùng', placeholder: 'Uống' },
+    { field: 'dose', label: 'Liều mỗi lần', placeholder: '1 viên' },
+    { field: 'frequency', label: 'Số lần', placeholder: '3 lần/ngày' },
+    { field: 'duration', label: 'Thời gian', placeholder: '7 ngày' },
+    { field: 'quantity', label: 'Số lượng', placeholder: '21' },
+    { field: 'instructions', label: 'Cách dùng', placeholder: 'Uống sau ăn', wide: true },
+];
+
+const inputClass = (hasError: boolean) =>
+    `w-full px-3 py-2 text-sm text-slate-900 bg-white border rounded-lg focus:outline-none focus:ring-2 focus:ring-offset-1 ${hasError
+        ? 'border-red-300 focus:border-red-500 focus:ring-red-500'
+        : 'border-slate-300 focus:border-sky-500 focus:ring-sky-500'}`;
+
+function IssueList({ issues }: { issues: PrescriptionIssue[] }) {
+    if (issues.length === 0) return null;
+
+    return (
+        <ul className="space-y-1">
+            {issues.map((issue, i) => (
+                <li
+                    key={i}
+                    className={`flex items-start gap-1.5 text-xs ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}
+                >
+                    {issue.severity === 'error'
+                        ? <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                        : <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />}
+                    {issue.message}
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+/**
+ * Structured prescription (đơn thuốc) - one card per drug
+ * The free-text plan is generated from these items by the parent
+ */
+export default function PrescriptionEditor({ items, onChange, issues = [], readOnly = false }: PrescriptionEditorProps) {
+    const updateItem = (index: number, field: PrescriptionField, raw: string) => {
+        const value = field === 'quantity'
+            ? (raw.trim() === '' ? null : parseInt(raw, 10))
+            : field === 'drugName' ? raw : (raw === '' ? null : raw);
+
+        onChange?.(items.map((item, i) => i === index
+            ? { ...item, [field]: typeof value === 'number' && isNaN(value) ? null : value }
+            : item));
+    };
+
+    const addItem = () => onChange?.([...items, { ...EMPTY_PRESCRIPTION_ITEM }]);
+    const removeItem = (index: number) => onChange?.(items.filter((_, i) => i !== index));
+
+    const hasError = (index: number, field: PrescriptionField) =>
+        issues.some(issue => issue.index === index && issue.field === field && issue.severity === 'error');
+
+    if (readOnly) {
+        return items.length === 0 ? (
+            <p className="text-sm text-slate-500 italic">Không kê thuốc</p>
+        ) : (
+            <div className="overflow-x-auto border border-slate-200 rounded-lg">
+                <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-slate-600">
+                        <tr>
+                            <th className="px-3 py-2 text-left font-semibold">#</th>
+                            <th className="px-3 py-2 text-left font-semibold">Thuốc</th>
+                            <th className="px-3 py-2 text-left font-semibold">Liều dùng</th>
+                            <th className="px-3 py-2 text-left font-semibold">Thời gian</th>
+                            <th className="px-3 py-2 text-right font-semibold">SL</th>
+                            <th className="px-3 py-2 text-left font-semibold">Cách dùng</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {items.map((item, i) => (
+                            <tr key={i}>
+                                <td className="px-3 py-2 text-slate-500">{i + 1}</td>
+                                <td className="px-3 py-2">
+                                    <div className="font-semibold text-slate-800">
+                                        {item.drugName} {item.strength}
+                                    </div>
+                                    {(item.activeIngredient || item.form) && (
+                                        <div className="text-xs text-slate-500">
+                                            {[item.activeIngredient, item.form].filter(Boolean).join(' - ')}
+                                        </div>
+                                    )}
+                                </td>
+                                <td className="px-3 py-2 text-slate-700">
+                                    {[item.route, item.dose, item.frequency].filter(Boolean).join(', ') || '—'}
+                                </td>
+                                <td className="px-3 py-2 text-slate-700">{item.duration || '—'}</td>
+                                <td className="px-3 py-2 text-right text-slate-700">{item.quantity ?? '—'}</td>
+                                <td className="px-3 py-2 text-slate-700">{item.instructions || '—'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            {items.map((item, index) => {
+                const itemIssues = issues.filter(issue => issue.index === index);
+                return (
+                    <div
+                        key={index}
+                        className={`p-4 border rounded-xl space-y-3 ${itemIssues.some(issue => issue.severity === 'error') ? 'border-red-200 bg-red-50/40' : 'border-slate-200 bg-white'}`}
+                    >
+                        <div className="flex items-center gap-3">
+                            <span className="shrink-0 w-7 h-7 flex items-center justify-center rounded-full bg-sky-100 text-sky-700 text-sm font-bold">
+                                {index + 1}
+                            </span>
+                            <input
+                                value={item.drugName}
+                                onChange={(e) => updateItem(index, 'drugName', e.target.value)}
+                                placeholder="Tên thuốc"
+                                className={`${inputClass(hasError(index, 'drugName'))} font-semibold`}
+                            />
+                            <button
+                                type="button"
+                                onClick={() => removeItem(index)}
+                                className="shrink-0 p-2 text-slate-400 hover:text-red-600 rounded-lg hover:bg-red-50"
+                                title="Xóa thuốc"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            {FIELDS.map(({ field, label, placeholder, wide }) => (
+                                <label key={field} className={wide ? 'col-span-2 md:col-span-4' : ''}>
+                                    <span className="block mb-1 text-xs font-semibold text-slate-600">{label}</span>
+                                    <input
+                                        type={field === 'quantity' ? 'number' : 'text'}
+                                        min={field === 'quantity' ? 1 : undefined}
+                                        value={item[field] ?? ''}
+                                        onChange={(e) => updateItem(index, field, e.target.value)}
+                                        placeholder={placeholder}
+                                        className={inputClass(hasError(index, field))}
+                                    />
+                                </label>
+                            ))}
+                        </div>
+
+                        <IssueList issues={itemIssues} />
+                    </div>
+                );
+            })}
+
+            {items.length === 0 && (
+                <div className="flex items-center gap-2 p-4 border border-dashed border-slate-300 rounded-xl text-sm text-slate-500">
+                    <Pill className="w-4 h-4" />
+                    Chưa có thuốc trong đơn
+                </div>
+            )}
+
+            <Button type="button" variant="secondary" onClick={addItem} className="flex items-center gap-2 px-4 py-2 text-sm">
+                <Plus className="w-4 h-4" />
+                Thêm thuốc
+            </Button>
+        </div>
+    );
+}
@@ -2,10 +2,12 @@
 
 import React, { useState } from 'react';
 import { Card, Input, Button } from './ui';
-import { Session } from '@/lib/services/sessionService';
+import { apiClient, ApiClientError } from '@/lib/api-client';
+import type { Session } from '@/lib/services/sessionService';
+import type { Jsonified } from '@/lib/contracts';
 
 interface SessionInitFormProps {
-    onSessionCreated: (session: Session) => void;
+    onSessionCreated: (session: Jsonified<Session>) => void;
 }
 
 export default function SessionInitForm({ onSessionCreated }: SessionInitFormProps) {
@@ -39,12 +41,8 @@ export default function SessionInitForm({ onSessionCreated }: SessionInitFormPro
         setError('');
 
         try {
-            const response = await fetch('/api/session/create', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
+            const result = await apiClient.createSession({
+                body: {
                     patientName: formData.patientName,
                     patientInfo: {
                         age: formData.age ? parseInt(formData.age) : undefined,
@@ -52,18 +50,13 @@ export default function SessionInitForm({ onSessionCreated }: SessionInitFormPro
                         address: formData.address || undefined,
                     },
                     medicalHistory: formData.medicalHistory || undefined,
-                }),
+                },
             });
-
-            const result = await response.json();
-
-            if (result.success) {
-                onSessionCreated(result.data);
-            } else {
-                setError(result.message || 'Không thể tạo phiên khám');
-            }
+            onSessionCreated(result.data);
         } catch (err) {
-            setError('Lỗi kết nối. Vui lòng thử lại.');
+            setError(err instanceof ApiClientError && err.statusCode > 0
+                ? err.message || 'Không thể tạo phiên khám'
+                : 'Lỗi kết nối. Vui lòng thử lại.');
             console.error('Error creating session:', err);
         } finally {
             setIsLoading(false);
@@ -0,0 +1,124 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { AlertTriangle, Link2 } from 'lucide-react';
+import { linkSentencesToSegments, type SentenceLink } from '@/lib/stt/segmentLinks';
+import type { ProcessedSegment } from '@/lib/stt/types';
+import type { SoapStatement } from '@/lib/agents/state';
+import { formatTimestamp, getRoleStyle } from './TranscriptPlayer';
+
+interface SoapSourceLinksProps {
+    field: string;  // SOAP section key, used to identify the selected sentence
+    text: string;
+    segments: ProcessedSegment[];
+    statements?: SoapStatement[];  // Evidence reported by the scribe agent
+    selected?: { field: string; sentenceIndex: number } | null;
+    onSelect: (field: string, sentenceIndex: number, segmentIndices: number[]) => void;
+    className?: string;
+}
+
+// Highlight the quoted span inside the utterance (best effort, case-insensitive)
+function renderWithQuotes(text: string, quotes: string[]) {
+    const lower = text.toLowerCase();
+    const match = quotes
+        .map(quote => ({ quote, at: lower.indexOf(quote.toLowerCase()) }))
+        .find(m => m.quote && m.at >= 0);
+    if (!match) return text;
+
+    return (
+        <>
+            {text.slice(0, match.at)}
+            <mark className="bg-amber-200 rounded px-0.5">{text.slice(match.at, match.at + match.quote.length)}</mark>
+            {text.slice(match.at + match.quote.length)}
+        </>
+    );
+}
+
+// Source utterances shown on hover
+function EvidencePopover({ link, segments }: { link: SentenceLink; segments: ProcessedSegment[] }) {
+    const utterances = link.segmentIndices.filter(i => segments[i]);
+
+    return (
+        <div className="hidden group-hover:block absolute left-0 top-full mt-1 z-20 w-96 max-w-[90vw] p-3 bg-white border border-slate-200 rounded-xl shadow-xl space-y-2">
+            <p className="text-xs font-semibold text-slate-500">Căn cứ trong hội thoại</p>
+            {utterances.length > 0 ? utterances.map(i => {
+                const seg = segments[i];
+                const style = getRoleStyle(seg.role);
+                return (
+                    <div key={i} className={`p-2 rounded-lg border-l-4 ${style.borderColor} ${style.bgColor}`}>
+                        <div className={`text-xs font-bold ${style.textColor}`}>
+                            {style.label}
+                            {seg.end > 0 && <span className="ml-2 font-mono font-normal text-slate-400">{formatTimestamp(seg.start)}</span>}
+                        </div>
+                        <div className="text-sm text-slate-800">{renderWithQuotes(seg.clean_text, link.quotes)}</div>
+                    </div>
+                );
+            }) : link.quotes.map((quote, i) => (
+                <div key={i} className="p-2 rounded-lg bg-slate-50 text-sm text-slate-800 italic">“{quote}”</div>
+            ))}
+        </div>
+    );
+}
+
+/**
+ * SOAP section rendered sentence by sentence - each sentence links back to the
+ * transcript segments it was derived from (hover to read them, click to play them)
+ */
+export default function SoapSourceLinks({
+    field,
+    text,
+    segments,
+    statements,
+    selected,
+    onSelect,
+    className = '',
+}: SoapSourceLinksProps) {
+    const links = useMemo(() => linkSentencesToSegments(text, segments, statements), [text, segments, statements]);
+
+    if (links.length === 0) return null;
+
+    return (
+        <div className={`space-y-1 ${className}`}>
+            {links.map((link, idx) => {
+                const isSelected = selected?.field === field && selected.sentenceIndex === idx;
+                const hasSource = link.segmentIndices.length > 0 || link.quotes.length > 0;
+                const playable = link.segmentIndices.some(i => segments[i]);
+                const unsupported = link.supported === false;
+
+                return (
+                    <div
+                        key={idx}
+                        onClick={playable ? () => onSelect(field, idx, link.segmentIndices) : undefined}
+                        className={`relative group flex items-start justify-between gap-3 px-2 py-1 rounded-lg text-sm transition-colors ${playable ? 'cursor-pointer hover:bg-sky-50' : ''} ${isSelected ? 'bg-amber-50 ring-1 ring-amber-300' : ''}`}
+                    >
+                        <span className={unsupported ? 'text-slate-700 underline decoration-wavy decoration-amber-500' : 'text-slate-700'}>
+                            {link.sentence}
+                        </span>
+                        {link.fromPatientRecord ? (
+                            <span className="shrink-0 text-xs font-medium text-teal-600" title="Lấy từ hồ sơ bệnh nhân (HIS), không phải từ hội thoại">
+                                📋 Hồ sơ
+                            </span>
+                        ) : unsupported ? (
+                            <span className="flex items-center gap-1 shrink-0 text-xs font-medium text-amber-600" title="AI không dẫn được câu nói nào trong hội thoại cho nhận định này - có thể là thông tin bịa (hallucination)">
+                                <AlertTriangle className="w-3 h-3" />
+                                Không có căn cứ
+                            </span>
+                        ) : hasSource ? (
+                            <span className="flex items-center gap-1 shrink-0 text-xs font-mono text-sky-600">
+                                <Link2 className="w-3 h-3" />
+                                {link.segmentIndices
+                                    .map(i => segments[i]?.end > 0 ? formatTimestamp(segments[i].start) : `#${i + 1}`)
+                                    .join(', ')}
+                            </span>
+                        ) : (
+                            <span className="shrink-0 text-xs text-slate-400" title="Không tìm thấy câu tương ứng trong hội thoại">
+                                —
+                            </span>
+                        )}
+                        {hasSource && <EvidencePopover link={link} segments={segments} />}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
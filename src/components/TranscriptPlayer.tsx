@@ -0,0 +1,149 @@
+'use client';
+
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import type { ProcessedSegment } from '@/lib/stt/types';
+
+export const ROLE_STYLES: Record<string, { bgColor: string; borderColor: string; textColor: string; label: string }> = {
+    'Bác sĩ': { bgColor: 'bg-sky-50', borderColor: 'border-sky-400', textColor: 'text-sky-700', label: '👨‍⚕️ Bác sĩ' },
+    'Bệnh nhân': { bgColor: 'bg-teal-50', borderColor: 'border-teal-400', textColor: 'text-teal-700', label: '🧑 Bệnh nhân' },
+    'Người nhà': { bgColor: 'bg-amber-50', borderColor: 'border-amber-400', textColor: 'text-amber-700', label: '👪 Người nhà' },
+    'Điều dưỡng': { bgColor: 'bg-violet-50', borderColor: 'border-violet-400', textColor: 'text-violet-700', label: '🩺 Điều dưỡng' },
+    'Phiên dịch': { bgColor: 'bg-emerald-50', borderColor: 'border-emerald-400', textColor: 'text-emerald-700', label: '🌐 Phiên dịch' },
+    'Ghi chú': { bgColor: 'bg-slate-50', borderColor: 'border-slate-400', textColor: 'text-slate-700', label: '📝 Ghi chú' },
+    'Người nói': { bgColor: 'bg-slate-50', borderColor: 'border-slate-300', textColor: 'text-slate-500', label: '❔ Người nói' },
+};
+
+export function getRoleStyle(role: string) {
+    return ROLE_STYLES[role] || ROLE_STYLES['Người nói'];
+}
+
+export function formatTimestamp(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const minutes = Math.floor(total / 60).toString().padStart(2, '0');
+    const secs = (total % 60).toString().padStart(2, '0');
+    return `${minutes}:${secs}`;
+}
+
+interface TranscriptPlayerProps {
+    segments: ProcessedSegment[];
+    audioUrl?: string | null;
+    highlightedIndices?: number[];  // Segments linked to the selected SOAP sentence
+    maxHeightClass?: string;
+}
+
+export interface TranscriptPlayerHandle {
+    // Seek to a segment and play it (also scrolls it into view)
+    seekToSegment: (index: number) => void;
+}
+
+/**
+ * Recorded visit playback - the segment being spoken is highlighted as the audio plays,
+ * clicking a segment seeks the audio to it
+ */
+const TranscriptPlayer = forwardRef<TranscriptPlayerHandle, TranscriptPlayerProps>(function TranscriptPlayer(
+    { segments, audioUrl, highlightedIndices = [], maxHeightClass = 'max-h-96' },
+    ref
+) {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const listRef = useRef<HTMLDivElement>(null);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [playing, setPlaying] = useState(false);
+    const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+    const playbackIndex = playing || currentTime > 0
+        ? segments.findIndex(seg => seg.end > 0 && currentTime >= seg.start && currentTime < seg.end)
+        : -1;
+    const activeIndex = playbackIndex >= 0 ? playbackIndex : selectedIndex ?? -1;
+
+    const scrollToSegment = useCallback((index: number) => {
+        const element = listRef.current?.querySelector<HTMLElement>(`[data-segment-index="${index}"]`);
+        element?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }, []);
+
+    const seekToSegment = (index: number) => {
+        const seg = segments[index];
+        if (!seg) return;
+
+        setSelectedIndex(index);
+        scrollToSegment(index);
+
+        // Segments without timing (manual entry) can only be highlighted
+        const audio = audioRef.current;
+        if (audio && seg.end > 0) {
+            audio.currentTime = seg.start;
+            setCurrentTime(seg.start);
+            audio.play().catch(() => {
+                // Autoplay may be blocked until the user interacts with the page
+            });
+        }
+    };
+
+    useImperativeHandle(ref, () => ({ seekToSegment }));
+
+    // Keep the segment being played visible
+    useEffect(() => {
+        if (playing && playbackIndex >= 0) {
+            scrollToSegment(playbackIndex);
+        }
+    }, [playing, playbackIndex, scrollToSegment]);
+
+    // Bring the first linked segment into view when a SOAP sentence is selected
+    const firstHighlighted = highlightedIndices[0];
+    useEffect(() => {
+        if (firstHighlighted !== undefined) {
+            scrollToSegment(firstHighlighted);
+        }
+    }, [firstHighlighted, scrollToSegment]);
+
+    return (
+        <div className="space-y-4">
+            {audioUrl ? (
+                <audio
+                    ref={audioRef}
+                    controls
+                    preload="metadata"
+                    src={audioUrl}
+                    className="w-full"
+                    onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                    onPlay={() => setPlaying(true)}
+                    onPause={() => setPlaying(false)}
+                />
+            ) : (
+                <p className="text-sm text-slate-400">Không có file ghi âm cho phiên khám này</p>
+            )}
+
+            <div ref={listRef} className={`space-y-2 ${maxHeightClass} overflow-y-auto`}>
+                {segments.map((seg, idx) => {
+                    const style = getRoleStyle(seg.role);
+                    const active = idx === activeIndex;
+                    const linked = highlightedIndices.includes(idx);
+
+                    return (
+                        <div
+                            key={idx}
+                            data-segment-index={idx}
+                            onClick={() => seekToSegment(idx)}
+                            title={seg.end > 0 && audioUrl ? `Phát từ ${formatTimestamp(seg.start)}` : undefined}
+                            className={`p-3 rounded-xl border-l-4 ${style.borderColor} ${style.bgColor} cursor-pointer transition-all hover:shadow-sm ${active ? 'ring-2 ring-sky-400 shadow-md' : linked ? 'ring-2 ring-amber-300' : ''}`}
+                        >
+                            <div className={`text-xs font-bold mb-1 ${style.textColor}`}>
+                                {style.label}
+                                {seg.end > 0 && (
+                                    <span className="ml-2 font-mono font-normal text-slate-400">{formatTimestamp(seg.start)}</span>
+                                )}
+                                {seg.edited && (
+                                    <span className="ml-2 font-normal text-amber-600" title={`Bản gốc (STT): ${seg.raw_text}`}>
+                                        đã sửa
+                                    </span>
+                                )}
+                            </div>
+                            <div className="text-sm text-slate-800 leading-relaxed whitespace-pre-wrap">{seg.clean_text}</div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+});
+
+export default TranscriptPlayer;
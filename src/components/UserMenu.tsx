@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { BookOpen, Library, LogOut, UserCircle } from 'lucide-react';
+import { useAuth } from './AuthProvider';
+import { ROLE_LABELS } from '@/lib/auth/types';
+
+/**
+ * Signed-in user, admin shortcuts and logout
+ */
+export default function UserMenu() {
+    const { user, can, logout } = useAuth();
+    if (!user) return null;
+
+    return (
+        <div className="flex items-center gap-2">
+            {can('admin:manage') && (
+                <>
+                    <Link
+                        href="/admin/knowledge"
+                        title="Kho phác đồ"
+                        className="p-2 text-slate-500 hover:text-sky-700 hover:bg-sky-50 rounded-lg transition"
+                    >
+                        <Library className="w-5 h-5" />
+                    </Link>
+                    <Link
+                        href="/admin/lexicon"
+                        title="Từ điển Speech-to-Text"
+                        className="p-2 text-slate-500 hover:text-sky-700 hover:bg-sky-50 rounded-lg transition"
+                    >
+                        <BookOpen className="w-5 h-5" />
+                    </Link>
+                </>
+            )}
+            <div className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-200 rounded-xl">
+                <UserCircle className="w-6 h-6 text-slate-400" />
+                <div className="leading-tight">
+                    <div className="text-sm font-semibold text-slate-800">{user.name}</div>
+                    <div className="text-xs text-slate-500">{ROLE_LABELS[user.role]}</div>
+                </div>
+            </div>
+            <button
+                type="button"
+                onClick={logout}
+                title="Đăng xuất"
+                className="p-2 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition"
+            >
+                <LogOut className="w-5 h-5" />
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { FileText, Printer } from 'lucide-react';
+import { getApiUrl } from '@/lib/api-config';
+import type { VisitDocumentKind } from '@/lib/documents/types';
+
+interface VisitDocumentLinksProps {
+    sessionId: string;
+    className?: string;
+}
+
+const DOCUMENTS: { kind: VisitDocumentKind; label: string }[] = [
+    { kind: 'prescription', label: 'Đơn thuốc' },
+    { kind: 'summary', label: 'Tóm tắt lần khám' },
+];
+
+/**
+ * Links to the printable documents of a visit (HTML to print from the browser, PDF to download / send)
+ */
+export default function VisitDocumentLinks({ sessionId, className = '' }: VisitDocumentLinksProps) {
+    const documentUrl = (kind: VisitDocumentKind, format: 'html' | 'pdf') =>
+        getApiUrl(`/session/${sessionId}/documents/${kind}?format=${format}`);
+
+    return (
+        <div className={`flex flex-wrap items-center gap-3 ${className}`}>
+            <span className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                <Printer className="w-4 h-4" />
+                Tài liệu cho bệnh nhân:
+            </span>
+            {DOCUMENTS.map(({ kind, label }) => (
+                <span key={kind} className="inline-flex items-center rounded-lg border border-slate-200 bg-white text-sm overflow-hidden">
+                    <a
+                        href={documentUrl(kind, 'html')}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-slate-700 hover:bg-sky-50"
+                        title={`In ${label.toLowerCase()}`}
+                    >
+                        <FileText className="w-4 h-4 text-sky-600" />
+                        {label}
+                    </a>
+                    <a
+                        href={documentUrl(kind, 'pdf')}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="px-2.5 py-1.5 border-l border-slate-200 text-xs font-semibold text-slate-500 hover:bg-sky-50"
+                        title={`Tải ${label.toLowerCase()} (PDF)`}
+                    >
+                        PDF
+                    </a>
+                </span>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,13 @@
+/**
+ * Runs once when the server starts - refuse to start without a usable AUTH_SECRET
+ * instead of failing every request later
+ */
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+    const { authConfigError } = await import('./lib/auth/session');
+    const error = authConfigError();
+    if (error) {
+        throw new Error(`Invalid authentication configuration: ${error}`);
+    }
+}
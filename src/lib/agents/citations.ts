@@ -0,0 +1,101 @@
+import type { Document } from "@langchain/core/documents";
+import type { KnowledgeChunkMetadata } from "../rag/vectorIndex";
+import type { Citation } from "./state";
+
+/**
+ * Citations for the expert agent
+ * Retrieved chunks are numbered in the prompt ([1], [2]...) and the model cites them inline;
+ * the post-check keeps only markers that point to a retrieved chunk and renumbers them in order of use
+ */
+
+// [1] / [1, 3] / [2; 4] - one or two digits, so years such as [2020] are left alone
+const CITATION_MARKER = /\[(\d{1,2}(?:\s*[,;]\s*\d{1,2})*)\]/g;
+
+/**
+ * Advice text split around citation markers: "A [1, 2]." → ["A ", [1, 2], "."] (used to render footnote links)
+ */
+export function splitCitationMarkers(text: string): (string | number[])[] {
+    const parts: (string | number[])[] = [];
+    let last = 0;
+
+    for (const match of text.matchAll(CITATION_MARKER)) {
+        if (match.index > last) parts.push(text.slice(last, match.index));
+        parts.push(match[1].split(/[,;]/).map(value => Number(value.trim())));
+        last = match.index + match[0].length;
+    }
+    if (last < text.length) parts.push(text.slice(last));
+    return parts;
+}
+
+/**
+ * Retrieved chunks → citation candidates, numbered from 1 in retrieval order
+ */
+export function citationsFromDocuments(docs: Document[]): Citation[] {
+    return docs.map((doc, idx) => {
+        const metadata = doc.metadata as KnowledgeChunkMetadata;
+        const section = metadata.section || [];
+        const headingPath = section.join(" > ");
+
+        // Section chunks start with their heading path - the footnote shows it separately
+        const text = headingPath && doc.pageContent.startsWith(headingPath)
+            ? doc.pageContent.slice(headingPath.length).trim()
+            : doc.pageContent.trim();
+
+        return {
+            id: idx + 1,
+            chunkId: doc.id || `${metadata.source}#${metadata.chunk}`,
+            source: metadata.source,
+            title: section[0] || metadata.source.replace(/\.md$/, ""),
+            section: section.slice(1),
+            text,
+        };
+    });
+}
+
+/**
+ * Numbered context for the prompt:
+ * [1] PHÁC ĐỒ ... > 4. Điều trị (Plan) > A. Nguyên tắc
+ * <excerpt>
+ */
+export function formatCitationContext(citations: Citation[]): string {
+    return citations
+        .map(citation => `[${citation.id}] ${[citation.title, ...citation.section].join(" > ")}\n${citation.text}`)
+        .join("\n---\n");
+}
+
+/**
+ * Post-check of the advice: markers not matching a retrieved chunk are dropped,
+ * the remaining ones are renumbered 1..n in order of first use, uncited chunks are left out
+ */
+export function validateCitations(
+    advice: string,
+    candidates: Citation[]
+): { advice: string; citations: Citation[]; dropped: number[] } {
+    const byId = new Map(candidates.map(citation => [citation.id, citation]));
+    const renumbered = new Map<number, number>();
+    const dropped = new Set<number>();
+
+    const text = advice.replace(CITATION_MARKER, (_, group: string) => {
+        const ids: number[] = [];
+        for (const value of group.split(/[,;]/)) {
+            const id = Number(value.trim());
+            if (!byId.has(id)) {
+                dropped.add(id);
+                continue;
+            }
+            if (!renumbered.has(id)) renumbered.set(id, renumbered.size + 1);
+            const newId = renumbered.get(id)!;
+            if (!ids.includes(newId)) ids.push(newId);
+        }
+        return ids.length > 0 ? `[${ids.sort((x, y) => x - y).join(", ")}]` : "";
+    });
+
+    const citations = [...renumbered.entries()].map(([id, newId]) => ({ ...byId.get(id)!, id: newId }));
+
+    return {
+        // Removing a marker can leave a space before punctuation
+        advice: dropped.size > 0 ? text.replace(/[ \t]+([.,;:!?])/g, "$1").replace(/[ \t]{2,}/g, " ") : text,
+        citations,
+        dropped: [...dropped],
+    };
+}
@@ -1,4 +1,4 @@
-import { getMedicalVectorStore } from "@/lib/rag/vectorStore";
+import { getEmbeddingProvider } from "@/lib/rag/embeddings";
 import { groq, GROQ_MODEL_STANDARD } from "./models";
 
 export interface SoapNote {
@@ -37,14 +37,14 @@ function cosineSimilarity(vecA: number[], vecB: number[]): number {
 }
 
 /**
- * Calculate semantic similarity between two texts using Google Embeddings
+ * Calculate semantic similarity between two texts (embeddings from EMBEDDING_PROVIDER)
  */
 async function calculateTextSimilarity(text1: string, text2: string): Promise<number> {
     if (!text1 || !text2) return 0;
     if (text1 === text2) return 100;
 
     try {
-        const embeddings = getMedicalVectorStore().embeddings;
+        const embeddings = getEmbeddingProvider().embeddings;
         const [embedding1, embedding2] = await embeddings.embedDocuments([text1, text2]);
         const similarity = cosineSimilarity(embedding1, embedding2);
         return Math.max(0, Math.min(100, similarity * 100)); // 0-100%
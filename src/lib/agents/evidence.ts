@@ -0,0 +1,131 @@
+import type { EvidenceRef, SoapEvidence, SoapNote, SoapSection, SoapStatement, TranscriptLine } from "./state";
+
+/**
+ * Evidence linking for the scribe agent
+ * Every SOAP statement carries the transcript segments it was derived from;
+ * references are validated here so the UI can trust them (or flag the statement)
+ */
+
+export const SOAP_SECTIONS: SoapSection[] = ["subjective", "objective", "assessment", "plan"];
+
+export function emptySoapEvidence(): SoapEvidence {
+    return { subjective: [], objective: [], assessment: [], plan: [] };
+}
+
+// Lowercase, NFC, punctuation stripped - quotes are compared on words only
+function normalizeForMatch(text: string): string {
+    return text
+        .normalize("NFC")
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s]/gu, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+/**
+ * Transcript lines for a plain-text transcript (manual entry, older clients)
+ * "Bác sĩ: ..." prefixes are kept as the role
+ */
+export function transcriptLinesFromText(transcript: string): TranscriptLine[] {
+    return transcript
+        .split("\n")
+        .map(line => line.trim())
+        .filter(Boolean)
+        .map((line, index) => {
+            const match = line.match(/^([^:]{2,20}):\s+(.+)$/);
+            return match
+                ? { index, role: match[1], text: match[2] }
+                : { index, role: "", text: line };
+        });
+}
+
+/**
+ * Numbered transcript for the scribe prompt: "[3] Bệnh nhân: ..."
+ */
+export function formatNumberedTranscript(lines: TranscriptLine[]): string {
+    return lines
+        .filter(line => line.text.trim())
+        .map(line => `[${line.index}] ${line.role ? `${line.role}: ` : ""}${line.text.trim()}`)
+        .join("\n");
+}
+
+function parseEvidenceRef(raw: unknown): { segment: number; quote: string } | null {
+    if (typeof raw === "number") return { segment: raw, quote: "" };
+    if (raw && typeof raw === "object") {
+        const ref = raw as Record<string, unknown>;
+        const segment = Number(ref.segment ?? ref.index);
+        if (!Number.isInteger(segment)) return null;
+        return { segment, quote: typeof ref.quote === "string" ? ref.quote : "" };
+    }
+    return null;
+}
+
+/**
+ * Validate one evidence reference against the transcript:
+ * - the segment index must exist
+ * - the quoted span (if any) must appear in the transcript; a quote found in
+ *   another segment is re-pointed there instead of being dropped
+ */
+function validateRef(ref: { segment: number; quote: string }, lines: TranscriptLine[]): EvidenceRef | null {
+    const quote = normalizeForMatch(ref.quote);
+    const cited = lines.find(line => line.index === ref.segment);
+
+    if (!quote) {
+        return cited && cited.text.trim() ? { segment: ref.segment, quote: "" } : null;
+    }
+    if (cited && normalizeForMatch(cited.text).includes(quote)) {
+        return { segment: ref.segment, quote: ref.quote.trim() };
+    }
+
+    const actual = lines.find(line => normalizeForMatch(line.text).includes(quote));
+    return actual ? { segment: actual.index, quote: ref.quote.trim() } : null;
+}
+
+function parseStatement(raw: unknown, lines: TranscriptLine[]): SoapStatement | null {
+    const item = typeof raw === "string" ? { text: raw } : (raw as Record<string, unknown> | null);
+    const text = typeof item?.text === "string" ? item.text.trim() : "";
+    if (!text) return null;
+
+    const refs = Array.isArray(item?.evidence) ? item.evidence : [];
+    const evidence: EvidenceRef[] = [];
+    for (const rawRef of refs) {
+        const parsed = parseEvidenceRef(rawRef);
+        const valid = parsed && validateRef(parsed, lines);
+        if (valid && !evidence.some(e => e.segment === valid.segment && e.quote === valid.quote)) {
+            evidence.push(valid);
+        }
+    }
+
+    return { text, evidence, supported: evidence.length > 0 };
+}
+
+/**
+ * Parse and validate the scribe output against the transcript
+ * Accepts a section as a list of statements or (older prompt) a plain string
+ */
+export function validateSoapEvidence(raw: unknown, lines: TranscriptLine[]): SoapEvidence {
+    const result = emptySoapEvidence();
+    const sections = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+
+    for (const section of SOAP_SECTIONS) {
+        const value = sections[section];
+        const items = Array.isArray(value) ? value : typeof value === "string" && value.trim() ? [value] : [];
+        result[section] = items
+            .map(item => parseStatement(item, lines))
+            .filter((statement): statement is SoapStatement => statement !== null);
+    }
+
+    return result;
+}
+
+/**
+ * Free-text SOAP (one statement per line) for the downstream agents and the record form
+ */
+export function soapFromEvidence(evidence: SoapEvidence): SoapNote {
+    return {
+        subjective: evidence.subjective.map(s => s.text).join("\n"),
+        objective: evidence.objective.map(s => s.text).join("\n"),
+        assessment: evidence.assessment.map(s => s.text).join("\n"),
+        plan: evidence.plan.map(s => s.text).join("\n"),
+    };
+}
@@ -1,6 +1,7 @@
 import { StateGraph, END, START } from "@langchain/langgraph";
-import { AgentState } from "./state";
-import { scribeNode, icdNode, expertNode } from "./nodes";
+import { AgentState, Citation, IcdSuggestion, PatientContext, PrescribedMedication, SafetyAlert, SoapEvidence, TranscriptLine } from "./state";
+import { scribeNode, icdNode, expertNode, safetyNode } from "./nodes";
+import { emptySoapEvidence } from "./evidence";
 
 // Define the State Channel Reducers
 const graphState = {
@@ -8,18 +9,54 @@ const graphState = {
         value: (x: string, y: string) => y ?? x,
         default: () => ""
     },
+    segments: {
+        value: (x: TranscriptLine[], y: TranscriptLine[]) => y ?? x,
+        default: () => []
+    },
+    patientContext: {
+        value: (x: PatientContext | null, y: PatientContext | null) => y ?? x,
+        default: () => null
+    },
     soap: {
         value: (x: any, y: any) => y ? { ...x, ...y } : x,
         default: () => ({ subjective: "", objective: "", assessment: "", plan: "" }),
     },
+    soapEvidence: {
+        value: (x: SoapEvidence, y: SoapEvidence) => y ?? x,
+        default: () => emptySoapEvidence()
+    },
+    medications: {
+        value: (x: PrescribedMedication[], y: PrescribedMedication[]) => y ?? x,
+        default: () => []
+    },
+    planAdvice: {
+        value: (x: string, y: string) => y ?? x,
+        default: () => ""
+    },
+    safetyAlerts: {
+        value: (x: SafetyAlert[], y: SafetyAlert[]) => y ?? x,
+        default: () => []
+    },
     icdCodes: {
         value: (x: string[], y: string[]) => y ?? x,
         default: () => []
     },
+    icdSuggestions: {
+        value: (x: IcdSuggestion[], y: IcdSuggestion[]) => y ?? x,
+        default: () => []
+    },
+    icdError: {
+        value: (x: string | null, y: string | null) => y ?? x,
+        default: () => null
+    },
     medicalAdvice: {
         value: (x: string, y: string) => y ?? x,
         default: () => ""
     },
+    citations: {
+        value: (x: Citation[], y: Citation[]) => y ?? x,
+        default: () => []
+    },
     references: {
         value: (x: string[], y: string[]) => y ?? x,
         default: () => []
@@ -32,19 +69,23 @@ const workflow = new StateGraph<AgentState>({
 })
     .addNode("scribe", scribeNode)
     .addNode("icd", icdNode)
-    .addNode("expert", expertNode);
+    .addNode("expert", expertNode)
+    .addNode("safety", safetyNode);
 
 // Define Flow
 // START -> scribe
 workflow.addEdge(START, "scribe");
 
-// scribe -> icd & expert
+// scribe -> icd & safety
 workflow.addEdge("scribe", "icd");
-workflow.addEdge("scribe", "expert");
+workflow.addEdge("scribe", "safety");
+
+// icd -> expert (the suggested ICD codes are part of the retrieval query)
+workflow.addEdge("icd", "expert");
 
 // End
-workflow.addEdge("icd", END);
 workflow.addEdge("expert", END);
+workflow.addEdge("safety", END);
 
 // Compile
 export const medicalAgentGraph = workflow.compile();
@@ -0,0 +1,98 @@
+import { foldDiacritics } from "../rag/keywordIndex";
+import { normalizeIcd10Code } from "../icd10/types";
+import type { Icd10Candidate } from "../services/icd10Service";
+import type { IcdSuggestion, SoapNote } from "./state";
+
+/**
+ * ICD-10 coding grounded in the catalogue
+ * Candidate codes are retrieved from the catalogue with the SOAP note and listed in the prompt;
+ * the post-check keeps only listed codes (with the catalogue name) and a single primary diagnosis
+ */
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Candidate list for the prompt:
+ * - K29.7: Viêm dạ dày, không đặc hiệu (Gastritis, unspecified)
+ */
+export function formatIcdCandidates(candidates: Icd10Candidate[]): string {
+    return candidates
+        .map(candidate => `- ${candidate.code}: ${candidate.nameVi}${candidate.nameEn ? ` (${candidate.nameEn})` : ""}`)
+        .join("\n");
+}
+
+// 0.85 / "0.85" / 85 → 0.85 (missing → 0.5)
+function parseConfidence(value: unknown): number {
+    const number = typeof value === "number" ? value : Number(value);
+    if (!Number.isFinite(number)) return 0.5;
+    return Math.min(Math.max(number > 1 ? number / 100 : number, 0), 1);
+}
+
+function asText(value: unknown): string {
+    return typeof value === "string" ? value.trim() : "";
+}
+
+// Case, diacritics and spacing are ignored - the model often drops accents when quoting
+function normalizeForMatch(text: string): string {
+    return foldDiacritics(text).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Post-check of the model output {"codes": [{ code, type, confidence, evidence, rationale }]}
+ * - codes not in the candidate list are dropped (any valid code is kept when there are no candidates,
+ *   i.e. the catalogue has not been imported)
+ * - evidence is cleared when the quoted phrase is not in the note
+ * - exactly one primary: the most confident code marked primary, or the most confident code
+ * Sorted primary first, then by confidence
+ */
+export function validateIcdSuggestions(
+    raw: unknown,
+    candidates: Icd10Candidate[],
+    soap: SoapNote
+): { suggestions: IcdSuggestion[]; dropped: string[] } {
+    const items = Array.isArray(raw) ? raw : [];
+    const byCode = new Map(candidates.map(candidate => [candidate.code, candidate]));
+    const note = normalizeForMatch([soap.assessment, soap.subjective, soap.objective].join("\n"));
+    const dropped: string[] = [];
+    const suggestions = new Map<string, IcdSuggestion>();
+
+    for (const item of items) {
+        // Older prompt format: "K29.7 - Viêm dạ dày"
+        const entry = typeof item === "string" ? { code: item.split(" - ")[0], description: item.split(" - ").slice(1).join(" - ") } : item;
+        if (!entry || typeof entry !== "object") continue;
+
+        const code = normalizeIcd10Code(asText(entry.code));
+        const candidate = code ? byCode.get(code) : undefined;
+        if (!code || (candidates.length > 0 && !candidate)) {
+            dropped.push(asText(entry.code) || String(entry.code));
+            continue;
+        }
+        if (suggestions.has(code)) continue;
+
+        const evidence = asText(entry.evidence);
+        suggestions.set(code, {
+            code,
+            description: candidate?.nameVi || asText(entry.description),
+            confidence: parseConfidence(entry.confidence),
+            type: entry.type === "primary" ? "primary" : "secondary",
+            evidence: evidence && note.includes(normalizeForMatch(evidence)) ? evidence : "",
+            rationale: asText(entry.rationale),
+        });
+    }
+
+    const byConfidence = [...suggestions.values()].sort((a, b) => b.confidence - a.confidence);
+    const primary = byConfidence.find(suggestion => suggestion.type === "primary") || byConfidence[0];
+
+    return {
+        suggestions: byConfidence
+            .map(suggestion => ({ ...suggestion, type: suggestion === primary ? "primary" as const : "secondary" as const }))
+            .sort((a, b) => Number(b.type === "primary") - Number(a.type === "primary"))
+            .slice(0, MAX_SUGGESTIONS),
+        dropped,
+    };
+}
+
+// "K29.7 - Viêm dạ dày, không đặc hiệu" - the string form kept in icdCodes
+export function formatIcdSuggestion(suggestion: IcdSuggestion): string {
+    return suggestion.description ? `${suggestion.code} - ${suggestion.description}` : suggestion.code;
+}
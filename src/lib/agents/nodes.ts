@@ -1,24 +1,48 @@
 import { AgentState } from "./state";
 import { getMedicalVectorStore } from "../rag/vectorStore";
-import { Document } from "@langchain/core/documents";
+import { buildRetrievalQuery } from "../rag/query";
+import { findIcd10Candidates, getIcd10CatalogueSize, type Icd10Candidate } from "../services/icd10Service";
 import { groq, GROQ_MODEL_STANDARD, GROQ_MODEL_EXPERT } from "./models";
+import {
+    SOAP_SECTIONS,
+    emptySoapEvidence,
+    formatNumberedTranscript,
+    soapFromEvidence,
+    transcriptLinesFromText,
+    validateSoapEvidence
+} from "./evidence";
+import { formatAllergies, formatHistoryForCoding, formatPatientContext, vitalSignsStatement } from "./patientContext";
+import { checkPlanSafety, safetyCheckFailedAlert } from "./safety";
+import { citationsFromDocuments, formatCitationContext, validateCitations } from "./citations";
+import { formatIcdCandidates, formatIcdSuggestion, validateIcdSuggestions } from "./icdCoding";
 
 // --- 1. SCRIBE AGENT ---
 export async function scribeNode(state: AgentState): Promise<Partial<AgentState>> {
     console.log("Scribe Agent working (Groq GPT-OSS-120B)...");
 
+    const lines = state.segments?.length ? state.segments : transcriptLinesFromText(state.transcript);
+
     const prompt = `Bạn là thư ký y khoa chuyên nghiệp.
 Nhiệm vụ: Chuyển transcript hội thoại thành bệnh án chuẩn SOAP tiếng Việt.
 
-Transcript:
-"${state.transcript}"
+Hồ sơ bệnh nhân (chỉ để tham khảo, giúp hiểu đúng hội thoại):
+${formatPatientContext(state.patientContext)}
+
+Transcript (mỗi câu nói có số thứ tự [n]):
+${formatNumberedTranscript(lines)}
+
+Sinh hiệu đã đo được hệ thống tự điền vào Objective - không lặp lại.
+Mỗi mục SOAP là danh sách các nhận định ngắn. Mỗi nhận định PHẢI kèm căn cứ:
+- "segment": số thứ tự [n] của câu nói chứa thông tin
+- "quote": trích NGUYÊN VĂN một cụm từ trong câu nói đó
+Không được thêm thông tin không có trong transcript. Nhận định suy luận (chẩn đoán, kế hoạch) vẫn trích các câu nói làm cơ sở.
 
 Yêu cầu output JSON format:
 {
-    "subjective": "Tóm tắt triệu chứng cơ năng, bệnh sử...",
-    "objective": "Tóm tắt triệu chứng thực thể, dấu hiệu sinh tồn (nếu có)...",
-    "assessment": "Chẩn đoán sơ bộ...",
-    "plan": "Kế hoạch điều trị, thuốc, dặn dò..."
+    "subjective": [{ "text": "Đau thượng vị 3 ngày", "evidence": [{ "segment": 2, "quote": "đau bụng trên rốn ba ngày nay" }] }],
+    "objective": [{ "text": "Triệu chứng thực thể, dấu hiệu sinh tồn (nếu có)", "evidence": [...] }],
+    "assessment": [{ "text": "Chẩn đoán sơ bộ", "evidence": [...] }],
+    "plan": [{ "text": "Thuốc, dặn dò, tái khám", "evidence": [...] }]
 }
 Chỉ trả về JSON hợp lệ, không có text khác.`;
 
@@ -30,11 +54,27 @@ Chỉ trả về JSON hợp lệ, không có text khác.`;
             response_format: { type: "json_object" }
         });
 
-        const soap = JSON.parse(completion.choices[0]?.message?.content || "{}");
-        return { soap };
+        const raw = JSON.parse(completion.choices[0]?.message?.content || "{}");
+        const soapEvidence = validateSoapEvidence(raw, lines);
+
+        // Pre-fill Objective with the vitals measured before the visit
+        const vitals = vitalSignsStatement(state.patientContext);
+        if (vitals) {
+            soapEvidence.objective.unshift(vitals);
+        }
+
+        const unsupported = SOAP_SECTIONS.flatMap(section => soapEvidence[section]).filter(s => !s.supported).length;
+        if (unsupported > 0) {
+            console.warn(`Scribe Agent: ${unsupported} statement(s) without valid evidence`);
+        }
+
+        return { soap: soapFromEvidence(soapEvidence), soapEvidence };
     } catch (e) {
         console.error("Scribe Agent Error:", e);
-        return { soap: { subjective: "", objective: "", assessment: "", plan: "Error generating SOAP note" } };
+        return {
+            soap: { subjective: "", objective: "", assessment: "", plan: "Error generating SOAP note" },
+            soapEvidence: emptySoapEvidence()
+        };
     }
 }
 
@@ -42,15 +82,51 @@ Chỉ trả về JSON hợp lệ, không có text khác.`;
 export async function icdNode(state: AgentState): Promise<Partial<AgentState>> {
     console.log("ICD-10 Agent working (Groq GPT-OSS-120B)...");
 
+    // 1. Candidate codes from the catalogue (keyword search on the note and the previous visit's codes)
+    // A database error only costs the grounding: the model then codes without candidates
+    let candidates: Icd10Candidate[] = [];
+    let catalogueLoaded = false;
+    try {
+        candidates = await findIcd10Candidates([
+            state.soap.assessment,
+            state.soap.subjective,
+            state.patientContext?.previousVisit?.icdCodes.join("\n") || "",
+        ]);
+        catalogueLoaded = candidates.length > 0 || await getIcd10CatalogueSize() > 0;
+    } catch (e) {
+        console.error("ICD-10 Agent: catalogue search failed, coding without candidates:", e);
+    }
+    if (catalogueLoaded && candidates.length === 0) {
+        console.warn("ICD-10 Agent: no catalogue code matches the note");
+        return { icdCodes: [], icdSuggestions: [] };
+    }
+
+    // Without an imported catalogue the model codes freely (the codes are still checked on save)
+    const task = catalogueLoaded
+        ? `Danh sách mã ICD-10 ứng viên (lấy từ danh mục):
+${formatIcdCandidates(candidates)}
+
+Nhiệm vụ: Chọn 1-5 mã phù hợp nhất CHỈ trong danh sách ứng viên ở trên, không tự tạo mã khác.`
+        : `Nhiệm vụ: Tìm 1-5 mã ICD-10 phù hợp nhất (ưu tiên mã chi tiết, ví dụ K29.7 thay vì K29).`;
+
     const prompt = `Bạn là chuyên gia về mã hóa bệnh lý ICD-10.
 Chẩn đoán: "${state.soap.assessment}"
 Triệu chứng: "${state.soap.subjective}"
-
-Nhiệm vụ: Tìm mã ICD-10 phù hợp nhất (ưu tiên mã chi tiết).
-Trả về kết quả dưới dạng JSON Object với key "codes" là danh sách các mã.
+Khám: "${state.soap.objective}"
+${formatHistoryForCoding(state.patientContext)}
+
+${task}
+- Đúng 1 mã là bệnh chính ("primary"), các mã còn lại là bệnh kèm theo ("secondary").
+- "confidence": độ tin cậy từ 0 đến 1.
+- "evidence": trích nguyên văn cụm từ trong chẩn đoán / triệu chứng / khám làm căn cứ cho mã.
+- "rationale": lý do ngắn gọn (1 câu).
+Trả về kết quả dưới dạng JSON Object với key "codes".
 Ví dụ:
 {
-    "codes": ["K29.7 - Viêm dạ dày", "R10.1 - Đau vùng thượng vị"]
+    "codes": [
+        { "code": "K29.7", "description": "Viêm dạ dày, không đặc hiệu", "type": "primary", "confidence": 0.85, "evidence": "đau thượng vị sau ăn", "rationale": "Chẩn đoán viêm dạ dày, chưa có nội soi xác định thể bệnh" },
+        { "code": "R10.1", "description": "Đau khu trú vùng bụng trên", "type": "secondary", "confidence": 0.4, "evidence": "đau vùng thượng vị", "rationale": "Triệu chứng chính của lần khám" }
+    ]
 }`;
 
     try {
@@ -67,12 +143,18 @@ Ví dụ:
         const parsed = JSON.parse(content);
         // Normalize output
         const codes = Array.isArray(parsed) ? parsed : (parsed.codes || parsed.icd_codes || []);
-        const finalCodes = Array.isArray(codes) ? codes.map(c => String(c)) : [];
 
-        return { icdCodes: finalCodes };
+        // 2. Post-check: only candidate codes, catalogue names, one primary diagnosis
+        const { suggestions, dropped } = validateIcdSuggestions(codes, candidates, state.soap);
+        if (dropped.length > 0) console.warn("ICD-10 Agent: dropped codes not in the candidate list:", dropped);
+
+        return {
+            icdCodes: suggestions.map(formatIcdSuggestion),
+            icdSuggestions: suggestions,
+        };
     } catch (e) {
         console.error("ICD-10 Agent Error:", e);
-        return { icdCodes: ["Error retrieving ICD codes"] };
+        return { icdCodes: [], icdSuggestions: [], icdError: "Không gợi ý được mã ICD-10 - vui lòng chọn mã thủ công" };
     }
 }
 
@@ -84,20 +166,29 @@ export async function expertNode(state: AgentState): Promise<Partial<AgentState>
     const medicalVectorStore = getMedicalVectorStore();
     await medicalVectorStore.initialize();
 
-    // 2. Retrieve relevant docs based on Subjective
-    const retriever = medicalVectorStore.getRetriever();
-    const docs = await retriever.invoke(state.soap.subjective);
+    // 2. Retrieve relevant docs (hybrid vector + keyword, reranked) from Assessment + ICD codes and Subjective
+    const docs = await medicalVectorStore.search(buildRetrievalQuery(state.soap, state.icdCodes), { k: 3 });
 
-    const context = docs.map((d: Document) => d.pageContent).join("\n---\n");
-    const references = docs.map((d: Document) => (d.metadata.source || "Unknown Source").replace(".md", ""));
+    // Numbered excerpts - the advice cites them as [n]
+    const candidates = citationsFromDocuments(docs);
+    const context = formatCitationContext(candidates);
+
+    // Allergies must be checked against every drug suggested or already planned
+    const allergies = formatAllergies(state.patientContext);
+    const allergyWarning = allergies
+        ? `\n⚠️ BỆNH NHÂN DỊ ỨNG: ${allergies}. TUYỆT ĐỐI không gợi ý thuốc thuộc nhóm này; cảnh báo rõ ràng nếu Plan có thuốc liên quan.\n`
+        : "";
 
     // 3. Ask LLM with Context
     const prompt = `Bạn là chuyên gia y tế cố vấn. TẤT CẢ PHẢN HỒI PHẢI BẰNG TIẾNG VIỆT.
 Dựa vào Y VĂN ĐƯỢC CUNG CẤP dưới đây, hãy đưa ra nhận xét và gợi ý điều trị.
 
-Y VĂN (Context):
+Y VĂN (Context) - mỗi đoạn có số thứ tự [n]:
 ${context}
 
+HỒ SƠ BỆNH NHÂN:
+${formatPatientContext(state.patientContext)}
+${allergyWarning}
 BỆNH ÁN (SOAP):
 S: ${state.soap.subjective}
 O: ${state.soap.objective}
@@ -107,10 +198,12 @@ P (hiện tại): ${state.soap.plan}
 YÊU CẦU (PHẢI TRẢ LỜI BẰNG TIẾNG VIỆT):
 - Đưa ra lời khuyên ngắn gọn cho bác sĩ điều trị.
 - Cảnh báo nếu phác đồ hiện tại (Plan) có gì sai sót hoặc không phù hợp so với Y VĂN.
+- Cảnh báo dị ứng thuốc và tương tác với thuốc bệnh nhân đang dùng (theo HỒ SƠ BỆNH NHÂN).
 - Gợi ý xét nghiệm/chẩn đoán hình ảnh cần làm thêm (nếu cần).
 - Gợi ý điều trị và quản lý bệnh nhân.
 - Khi nào cần can thiệp chuyên khoa.
-- TRÍCH DẪN từ y văn (nếu có).
+- TRÍCH DẪN: đặt số [n] của đoạn Y VĂN ngay sau câu dựa trên đoạn đó, ví dụ "Diệt H. pylori bằng phác đồ 4 thuốc có Bismuth [2]".
+  Chỉ dùng số có trong Y VĂN ở trên; không trích dẫn tài liệu khác; câu không dựa trên Y VĂN thì không đánh số.
 
 LƯU Ý QUAN TRỌNG: 
 - KHÔNG dùng tiếng Anh. 
@@ -122,8 +215,35 @@ LƯU Ý QUAN TRỌNG:
         temperature: 0.2
     });
 
+    // Post-check: drop markers that do not point to a retrieved excerpt
+    const { advice, citations, dropped } = validateCitations(completion.choices[0]?.message?.content || "", candidates);
+    if (dropped.length > 0) {
+        console.warn(`Medical Expert Agent: dropped citation(s) not in the retrieved context: ${dropped.join(", ")}`);
+    }
+
     return {
-        medicalAdvice: completion.choices[0]?.message?.content || "",
-        references
+        medicalAdvice: advice,
+        citations,
+        references: [...new Set(citations.map(citation => citation.title))]
     };
 }
+
+// --- 4. SAFETY AGENT (drug–allergy / drug–drug) ---
+export async function safetyNode(state: AgentState): Promise<Partial<AgentState>> {
+    console.log("Safety Agent checking plan medications...");
+
+    try {
+        const { medications, advice, alerts } = await checkPlanSafety(state.soap.plan, state.patientContext);
+        if (alerts.length > 0) {
+            console.warn(`Safety Agent: ${alerts.length} alert(s)`, alerts.map(a => `${a.severity}: ${a.drugs.join(" + ")}`));
+        }
+        return { medications, planAdvice: advice, safetyAlerts: alerts };
+    } catch (e) {
+        console.error("Safety Agent Error:", e);
+        return {
+            medications: [],
+            planAdvice: state.soap.plan,
+            safetyAlerts: [safetyCheckFailedAlert("Không thể chạy kiểm tra an toàn thuốc cho kế hoạch điều trị. Vui lòng tự rà soát dị ứng và tương tác thuốc.")]
+        };
+    }
+}
@@ -0,0 +1,82 @@
+import type { PatientContext, SoapStatement, VitalSigns } from "./state";
+
+/**
+ * Patient context blocks for the agent prompts
+ */
+
+const VITAL_LABELS: Record<keyof VitalSigns, string> = {
+    bloodPressure: "Huyết áp",
+    heartRate: "Mạch",
+    temperature: "Nhiệt độ",
+    weight: "Cân nặng",
+    height: "Chiều cao",
+};
+
+export function formatVitalSigns(vitals: VitalSigns | null): string {
+    if (!vitals) return "";
+    return (Object.keys(VITAL_LABELS) as (keyof VitalSigns)[])
+        .filter(key => vitals[key])
+        .map(key => `${VITAL_LABELS[key]} ${vitals[key]}`)
+        .join(", ");
+}
+
+export function formatAllergies(context: PatientContext | null): string {
+    return context?.allergies.length ? context.allergies.join(", ") : "";
+}
+
+/**
+ * Full context block (scribe / expert prompts)
+ */
+export function formatPatientContext(context: PatientContext | null): string {
+    if (!context) return "Không có thông tin hồ sơ bệnh nhân.";
+
+    const { demographics } = context;
+    const lines = [
+        `- Bệnh nhân: ${[
+            demographics.gender,
+            demographics.age !== null ? `${demographics.age} tuổi` : null,
+            demographics.bloodType ? `nhóm máu ${demographics.bloodType}` : null,
+        ].filter(Boolean).join(", ") || "không rõ"}`,
+        `- Tiền sử: ${context.medicalHistory || "không ghi nhận"}`,
+        `- Dị ứng: ${formatAllergies(context) || "không ghi nhận"}`,
+        `- Thuốc đang dùng: ${context.currentMedications.join("; ") || "không ghi nhận"}`,
+        `- Sinh hiệu (HIS): ${formatVitalSigns(context.vitalSigns) || "chưa đo"}`,
+    ];
+
+    if (context.previousVisit) {
+        const { date, soap, icdCodes } = context.previousVisit;
+        lines.push(
+            `- Lần khám trước (${date}): Chẩn đoán: ${soap.assessment || "không rõ"}` +
+            `${icdCodes.length ? ` [${icdCodes.join(", ")}]` : ""}. Điều trị: ${soap.plan || "không rõ"}`
+        );
+    }
+
+    return lines.join("\n");
+}
+
+/**
+ * Short history line for the ICD agent (comorbidities worth coding)
+ */
+export function formatHistoryForCoding(context: PatientContext | null): string {
+    if (!context) return "";
+    return [
+        context.medicalHistory ? `Tiền sử: "${context.medicalHistory}"` : "",
+        context.previousVisit?.icdCodes.length ? `Mã ICD lần khám trước: ${context.previousVisit.icdCodes.join(", ")}` : "",
+    ].filter(Boolean).join("\n");
+}
+
+/**
+ * Objective statement pre-filled from the measured vitals
+ * Not said in the conversation, so it is marked as coming from the patient record
+ */
+export function vitalSignsStatement(context: PatientContext | null): SoapStatement | null {
+    const vitals = formatVitalSigns(context?.vitalSigns || null);
+    if (!vitals) return null;
+
+    return {
+        text: `Sinh hiệu: ${vitals}`,
+        evidence: [],
+        supported: true,
+        source: "patient_context",
+    };
+}
@@ -0,0 +1,115 @@
+import { groq, GROQ_MODEL_STANDARD } from "./models";
+import { formatPrescriptionItem } from "../prescription/prescription";
+import type { PrescriptionItem } from "../prescription/types";
+import {
+    parseInstructionsContent,
+    type PatientInstructionsContent,
+    type ReadingLevel,
+} from "../instructions/types";
+import type { PatientContext } from "./state";
+
+/**
+ * Patient instructions generator
+ * Unlike the expert node (advice for the doctor), this rewrites the FINALIZED record for the patient.
+ * It must not add treatment: the prescription items are authoritative, the doctor reviews the result.
+ */
+
+export interface PatientInstructionsInput {
+    assessment: string;
+    icdCodes: string[];
+    advice: string;                   // Plan without the prescription block
+    prescriptionItems: PrescriptionItem[];
+    patientContext: PatientContext | null;
+}
+
+const READING_LEVEL_GUIDE: Record<ReadingLevel, string> = {
+    simple: "Viết cho người đọc ở trình độ tiểu học: câu rất ngắn (dưới 15 từ), KHÔNG dùng thuật ngữ y khoa, dùng từ ngữ đời thường (ví dụ \"uống thuốc sau khi ăn cơm xong\").",
+    standard: "Viết bằng ngôn ngữ phổ thông, câu ngắn gọn; nếu phải dùng thuật ngữ y khoa thì giải thích ngay trong ngoặc.",
+    detailed: "Viết rõ ràng, có thể giải thích thêm nguyên nhân và cơ chế bệnh ở mức người không chuyên hiểu được; vẫn tránh thuật ngữ không cần thiết.",
+};
+
+// Same word after removing case / diacritics - matches the LLM's drug names back to the prescription
+function fold(text: string): string {
+    return text
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/đ/gi, "d")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, " ")
+        .trim();
+}
+
+/**
+ * Keep exactly one medication entry per prescribed drug, in prescription order
+ * (drops drugs the model invented, falls back to the prescription wording for missing ones)
+ */
+export function alignMedicationInstructions(
+    content: PatientInstructionsContent,
+    items: PrescriptionItem[]
+): PatientInstructionsContent {
+    const medications = items
+        .filter(item => item.drugName.trim())
+        .map(item => {
+            const name = fold(item.drugName);
+            const match = content.medications.find(med => {
+                const medName = fold(med.drugName);
+                return medName && (medName.includes(name) || name.includes(medName));
+            });
+            return {
+                drugName: [item.drugName, item.strength].filter(Boolean).join(" "),
+                instructions: match?.instructions || formatPrescriptionItem(item),
+            };
+        });
+
+    return { ...content, medications };
+}
+
+export async function generatePatientInstructions(
+    input: PatientInstructionsInput,
+    readingLevel: ReadingLevel
+): Promise<PatientInstructionsContent> {
+    const prescription = input.prescriptionItems
+        .filter(item => item.drugName.trim())
+        .map((item, idx) => `${idx + 1}. ${formatPrescriptionItem(item)}`)
+        .join("\n") || "(không kê thuốc)";
+
+    const demographics = input.patientContext?.demographics;
+    const allergies = input.patientContext?.allergies.join(", ");
+
+    const prompt = `Bạn là bác sĩ đang viết HƯỚNG DẪN RA VỀ cho bệnh nhân, bằng tiếng Việt dễ hiểu.
+Chỉ dùng thông tin trong bệnh án dưới đây. KHÔNG thêm thuốc, KHÔNG đổi liều, KHÔNG thêm chẩn đoán mới.
+
+MỨC ĐỘ DỄ ĐỌC: ${READING_LEVEL_GUIDE[readingLevel]}
+
+BỆNH NHÂN: ${demographics ? [demographics.age !== null ? `${demographics.age} tuổi` : "", demographics.gender || ""].filter(Boolean).join(", ") || "không rõ" : "không rõ"}${allergies ? `\nDỊ ỨNG: ${allergies}` : ""}
+
+CHẨN ĐOÁN: ${input.assessment || "(chưa ghi)"}${input.icdCodes.length > 0 ? ` (ICD-10: ${input.icdCodes.join(", ")})` : ""}
+
+ĐƠN THUỐC:
+${prescription}
+
+LỜI DẶN CỦA BÁC SĨ:
+${input.advice || "(không có)"}
+
+Trả về JSON:
+{
+    "diagnosis": "giải thích bệnh là gì, vì sao bị, có nguy hiểm không (2-4 câu)",
+    "medications": [
+        { "drugName": "tên thuốc như trong đơn", "instructions": "uống khi nào, bao nhiêu, trong bao lâu, lưu ý (ví dụ không tự ý ngưng kháng sinh)" }
+    ],
+    "selfCare": ["việc nên làm / nên tránh tại nhà"],
+    "warningSigns": ["dấu hiệu cần quay lại khám NGAY hoặc đến cấp cứu"],
+    "followUp": "khi nào tái khám (theo lời dặn của bác sĩ; nếu không có thì ghi 'Tái khám khi có dấu hiệu bất thường')"
+}
+Mỗi thuốc trong đơn đúng một mục trong "medications". Chỉ trả về JSON hợp lệ.`;
+
+    const completion = await groq.chat.completions.create({
+        messages: [{ role: "user", content: prompt }],
+        model: GROQ_MODEL_STANDARD,
+        temperature: 0.3,
+        response_format: { type: "json_object" }
+    });
+
+    const content = parseInstructionsContent(JSON.parse(completion.choices[0]?.message?.content || "{}"));
+    return alignMedicationInstructions(content, input.prescriptionItems);
+}
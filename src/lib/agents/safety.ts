@@ -0,0 +1,399 @@
+import fs from "fs/promises";
+import path from "path";
+import { groq, GROQ_MODEL_STANDARD } from "./models";
+import type { PatientContext, PrescribedMedication, SafetyAlert, SafetySeverity } from "./state";
+
+/**
+ * Drug safety checks: plan medications vs. patient allergies and current medications
+ * Rules are a local, reviewable JSON file (data/drug_safety/rules.json) - the LLM only
+ * extracts the medication list, it never decides whether a combination is safe
+ */
+
+const RULES_PATH = path.join(process.cwd(), "data", "drug_safety", "rules.json");
+
+// ============= Rule Set =============
+
+interface DrugEntry {
+    id: string;
+    name: string;
+    aliases: string[];
+    classes: string[];
+}
+
+interface AllergyRule {
+    allergen: string;
+    aliases: string[];
+    classes: string[];
+    severity: SafetySeverity;
+    rationale: string;
+    crossReactivity?: { class: string; severity: SafetySeverity; rationale: string }[];
+}
+
+interface InteractionRule {
+    a: string;  // drug id or class
+    b: string;
+    severity: SafetySeverity;
+    rationale: string;
+}
+
+export interface SafetyRules {
+    version: string;
+    drugs: DrugEntry[];
+    allergyRules: AllergyRule[];
+    interactions: InteractionRule[];
+}
+
+let _rules: SafetyRules | null = null;
+
+export async function loadSafetyRules(): Promise<SafetyRules> {
+    if (!_rules) {
+        _rules = JSON.parse(await fs.readFile(RULES_PATH, "utf-8")) as SafetyRules;
+    }
+    return _rules;
+}
+
+const SEVERITY_RANK: Record<SafetySeverity, number> = { contraindicated: 3, major: 2, moderate: 1, minor: 0 };
+
+export function isBlockingSeverity(severity: SafetySeverity): boolean {
+    return SEVERITY_RANK[severity] >= SEVERITY_RANK.major;
+}
+
+/**
+ * Blocking alert for a check that could not run (rule file unreadable, extraction failed)
+ * A failed check must never look like "no interactions"
+ */
+export function safetyCheckFailedAlert(rationale: string): SafetyAlert {
+    return { type: "check_failed", severity: "major", drugs: [], rationale, blocking: true };
+}
+
+// ============= Matching =============
+
+// Lowercase, no diacritics ("Pênicilin" → "penicilin") - drug names are spelled many ways in Vietnamese notes
+function fold(text: string): string {
+    return text
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/đ/gi, "d")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, " ")
+        .trim();
+}
+
+function containsTerm(haystack: string, term: string): boolean {
+    const folded = fold(term);
+    return folded.length > 2 && ` ${haystack} `.includes(` ${folded} `);
+}
+
+function drugTerms(drug: DrugEntry): string[] {
+    return [drug.name, drug.id.replace(/_/g, " "), ...drug.aliases];
+}
+
+/**
+ * Rule entry for a medication name (brand, generic or Vietnamese spelling)
+ */
+export function findDrug(rules: SafetyRules, name: string): DrugEntry | null {
+    const folded = fold(name);
+    if (!folded) return null;
+
+    // Longest term first: "amoxicillin clavulanate" before "amoxicillin"
+    let best: { drug: DrugEntry; length: number } | null = null;
+    for (const drug of rules.drugs) {
+        for (const term of drugTerms(drug)) {
+            if (containsTerm(folded, term) && (!best || term.length > best.length)) {
+                best = { drug, length: term.length };
+            }
+        }
+    }
+    return best?.drug || null;
+}
+
+/**
+ * Attach rule ids to the extracted medications
+ * When extraction found nothing (LLM failure), known drug names are matched in the plan text instead
+ */
+export function resolveMedications(
+    rules: SafetyRules,
+    extracted: PrescribedMedication[],
+    planText: string
+): PrescribedMedication[] {
+    const medications = extracted.map(med => ({
+        ...med,
+        drugId: (findDrug(rules, med.genericName || "") || findDrug(rules, med.name))?.id || null,
+    }));
+
+    if (medications.length > 0) return medications;
+
+    const foldedPlan = fold(planText);
+    for (const drug of rules.drugs) {
+        if (drugTerms(drug).some(term => containsTerm(foldedPlan, term))) {
+            medications.push({
+                name: drug.name,
+                genericName: drug.name,
+                strength: null,
+                form: null,
+                dose: null,
+                route: null,
+                frequency: null,
+                duration: null,
+                quantity: null,
+                instructions: null,
+                drugId: drug.id,
+            });
+        }
+    }
+
+    return medications;
+}
+
+// ============= Checks =============
+
+function drugMatches(drug: DrugEntry, idOrClass: string): boolean {
+    return drug.id === idOrClass || drug.classes.includes(idOrClass);
+}
+
+function checkAllergies(rules: SafetyRules, drugs: DrugEntry[], allergies: string[]): SafetyAlert[] {
+    const alerts: SafetyAlert[] = [];
+
+    for (const allergy of allergies) {
+        const foldedAllergy = fold(allergy);
+        const rule = rules.allergyRules.find(r =>
+            [r.allergen, ...r.aliases].some(term => containsTerm(foldedAllergy, term))
+        );
+        // Allergy recorded as a specific drug ("dị ứng Augmentin")
+        const allergenDrug = rule ? null : findDrug(rules, allergy);
+
+        for (const drug of drugs) {
+            if (rule && rule.classes.some(c => drug.classes.includes(c))) {
+                alerts.push({ type: "drug_allergy", severity: rule.severity, drugs: [drug.name], allergen: allergy, rationale: rule.rationale, blocking: false });
+                continue;
+            }
+
+            const cross = rule?.crossReactivity?.find(c => drug.classes.includes(c.class));
+            if (cross) {
+                alerts.push({ type: "drug_allergy", severity: cross.severity, drugs: [drug.name], allergen: allergy, rationale: cross.rationale, blocking: false });
+                continue;
+            }
+
+            if (allergenDrug && (allergenDrug.id === drug.id || allergenDrug.classes.some(c => drug.classes.includes(c)))) {
+                alerts.push({
+                    type: "drug_allergy",
+                    severity: "contraindicated",
+                    drugs: [drug.name],
+                    allergen: allergy,
+                    rationale: `Bệnh nhân dị ứng ${allergenDrug.name} - ${drug.name} ${allergenDrug.id === drug.id ? "là cùng thuốc" : "cùng nhóm thuốc"}.`,
+                    blocking: false,
+                });
+            }
+        }
+    }
+
+    return alerts;
+}
+
+function checkInteractions(rules: SafetyRules, prescribed: DrugEntry[], current: DrugEntry[]): SafetyAlert[] {
+    const alerts: SafetyAlert[] = [];
+    const seen = new Set<string>();
+
+    // New drug vs. new drug, and new drug vs. what the patient already takes
+    const pairs: [DrugEntry, DrugEntry][] = [];
+    prescribed.forEach((drug, i) => {
+        prescribed.slice(i + 1).forEach(other => pairs.push([drug, other]));
+        current.forEach(other => pairs.push([drug, other]));
+    });
+
+    for (const [x, y] of pairs) {
+        if (x.id === y.id) continue;
+        const key = [x.id, y.id].sort().join("|");
+        if (seen.has(key)) continue;
+
+        const matches = rules.interactions.filter(rule =>
+            (drugMatches(x, rule.a) && drugMatches(y, rule.b)) || (drugMatches(x, rule.b) && drugMatches(y, rule.a))
+        );
+        if (matches.length === 0) continue;
+
+        seen.add(key);
+        const worst = matches.reduce((a, b) => SEVERITY_RANK[b.severity] > SEVERITY_RANK[a.severity] ? b : a);
+        alerts.push({ type: "drug_drug", severity: worst.severity, drugs: [x.name, y.name], rationale: worst.rationale, blocking: false });
+    }
+
+    return alerts;
+}
+
+/**
+ * All alerts for the prescribed medications, most severe first
+ */
+export function checkMedicationSafety(
+    rules: SafetyRules,
+    medications: PrescribedMedication[],
+    context: PatientContext | null
+): SafetyAlert[] {
+    const byId = (id: string | null) => rules.drugs.find(drug => drug.id === id);
+    const prescribed = medications.map(med => byId(med.drugId)).filter((d): d is DrugEntry => !!d);
+    const current = (context?.currentMedications || [])
+        .map(name => findDrug(rules, name))
+        .filter((d): d is DrugEntry => !!d && !prescribed.some(p => p.id === d.id));
+
+    return [
+        ...checkAllergies(rules, prescribed, context?.allergies || []),
+        ...checkInteractions(rules, prescribed, current),
+    ]
+        .map(alert => ({ ...alert, blocking: isBlockingSeverity(alert.severity) }))
+        .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+}
+
+// ============= Extraction =============
+
+function asText(value: unknown): string | null {
+    return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function asQuantity(value: unknown): number | null {
+    const n = typeof value === "number" ? value : typeof value === "string" ? parseInt(value, 10) : NaN;
+    return Number.isFinite(n) && n > 0 ? Math.round(n) : null;
+}
+
+export interface ExtractedPlan {
+    medications: PrescribedMedication[];
+    advice: string;  // Everything in the plan that is not a prescribed drug
+}
+
+/**
+ * Structured prescription from the free-text plan (LLM extraction)
+ */
+export async function extractMedications(plan: string): Promise<ExtractedPlan> {
+    if (!plan.trim()) return { medications: [], advice: "" };
+
+    const prompt = `Trích xuất danh sách thuốc được KÊ ĐƠN trong kế hoạch điều trị dưới đây.
+Không đưa vào thuốc bệnh nhân đã ngưng hoặc thuốc chỉ được nhắc đến để tránh.
+
+Kế hoạch điều trị:
+"${plan}"
+
+Trả về JSON:
+{
+    "medications": [
+        {
+            "name": "tên thuốc như trong văn bản",
+            "genericName": "hoạt chất (tiếng Anh)",
+            "strength": "500mg",
+            "form": "viên nang",
+            "dose": "1 viên",
+            "route": "uống",
+            "frequency": "3 lần/ngày",
+            "duration": "7 ngày",
+            "quantity": 21,
+            "instructions": "uống sau ăn"
+        }
+    ],
+    "advice": "phần còn lại của kế hoạch KHÔNG phải thuốc (dặn dò, chế độ ăn, tái khám, xét nghiệm...)"
+}
+Trường không có thông tin để null. "quantity" là tổng số đơn vị cấp phát (số nguyên). Chỉ trả về JSON hợp lệ.`;
+
+    const completion = await groq.chat.completions.create({
+        messages: [{ role: "user", content: prompt }],
+        model: GROQ_MODEL_STANDARD,
+        temperature: 0,
+        response_format: { type: "json_object" }
+    });
+
+    const parsed = JSON.parse(completion.choices[0]?.message?.content || "{}");
+    const items: unknown[] = Array.isArray(parsed.medications) ? parsed.medications : [];
+
+    const medications = items
+        .map(item => (item && typeof item === "object" ? item : {}) as Record<string, unknown>)
+        .filter(item => asText(item.name))
+        .map(item => ({
+            name: asText(item.name)!,
+            genericName: asText(item.genericName),
+            strength: asText(item.strength),
+            form: asText(item.form),
+            dose: asText(item.dose),
+            route: asText(item.route),
+            frequency: asText(item.frequency),
+            duration: asText(item.duration),
+            quantity: asQuantity(item.quantity),
+            instructions: asText(item.instructions),
+            drugId: null,
+        }));
+
+    return { medications, advice: asText(parsed.advice) || "" };
+}
+
+/**
+ * Check an already structured prescription (edited in the review screen)
+ */
+export async function checkPrescribedSafety(
+    prescribed: PrescribedMedication[],
+    advice: string,
+    context: PatientContext | null
+): Promise<{ medications: PrescribedMedication[]; advice: string; alerts: SafetyAlert[] }> {
+    const rules = await loadSafetyRules();
+    const medications = resolveMedications(rules, prescribed, "");
+    return { medications, advice, alerts: checkMedicationSafety(rules, medications, context) };
+}
+
+/**
+ * Extract + check a plan
+ * When extraction fails the whole plan is kept as advice so nothing is lost
+ */
+export async function checkPlanSafety(
+    plan: string,
+    context: PatientContext | null
+): Promise<{ medications: PrescribedMedication[]; advice: string; alerts: SafetyAlert[] }> {
+    const rules = await loadSafetyRules();
+
+    let extracted: ExtractedPlan = { medications: [], advice: plan };
+    let extractionFailed = false;
+    try {
+        extracted = await extractMedications(plan);
+    } catch (error) {
+        console.error("Medication extraction error:", error);
+        extractionFailed = true;
+    }
+
+    // Without extraction only drugs named in the rule file are found in the plan text
+    const medications = resolveMedications(rules, extracted.medications, plan);
+    const alerts = checkMedicationSafety(rules, medications, context);
+    if (extractionFailed) {
+        alerts.unshift(safetyCheckFailedAlert("Không trích xuất được danh sách thuốc từ kế hoạch điều trị - chỉ các thuốc có trong bộ quy tắc được kiểm tra. Vui lòng tự rà soát dị ứng và tương tác thuốc."));
+    }
+
+    return {
+        medications,
+        advice: extracted.medications.length > 0 ? extracted.advice : plan,
+        alerts,
+    };
+}
+
+/**
+ * Check a record before it is saved: structured prescription when there is one, otherwise the plan text
+ * Never throws - a check that cannot run returns a blocking check_failed alert
+ */
+export async function checkRecordSafety(
+    plan: string,
+    prescribed: PrescribedMedication[],
+    context: PatientContext | null
+): Promise<{ medications: PrescribedMedication[]; advice: string; alerts: SafetyAlert[] }> {
+    try {
+        return prescribed.length > 0
+            ? await checkPrescribedSafety(prescribed, plan, context)
+            : await checkPlanSafety(plan, context);
+    } catch (error) {
+        console.error("Drug safety check error:", error);
+        return {
+            medications: prescribed,
+            advice: plan,
+            alerts: [safetyCheckFailedAlert("Không thể chạy kiểm tra an toàn thuốc (lỗi bộ quy tắc hoặc dịch vụ). Vui lòng tự rà soát dị ứng và tương tác thuốc.")],
+        };
+    }
+}
+
+/**
+ * Final save of a plan that still has blocking alerts the doctor has not acknowledged
+ */
+export class UnacknowledgedSafetyAlertsError extends Error {
+    constructor(public readonly alerts: SafetyAlert[]) {
+        super(`Kế hoạch điều trị có ${alerts.length} cảnh báo an toàn thuốc cần xác nhận đã xem xét trước khi lưu bệnh án chính thức`);
+        this.name = "UnacknowledgedSafetyAlertsError";
+    }
+}
@@ -5,15 +5,121 @@ export interface SoapNote {
     plan: string;
 }
 
+export type SoapSection = keyof SoapNote;
+
+// One utterance of the transcript, referenced by its position in the list
+export interface TranscriptLine {
+    index: number;
+    role: string;
+    text: string;
+}
+
+export interface EvidenceRef {
+    segment: number;
+    quote: string;
+}
+
+// One statement of the SOAP note with the utterances supporting it
+export interface SoapStatement {
+    text: string;
+    evidence: EvidenceRef[];
+    supported: boolean;  // false = no valid evidence, possible hallucination
+    source?: 'transcript' | 'patient_context';  // patient_context = taken from the record, not the conversation
+}
+
+export type SoapEvidence = Record<SoapSection, SoapStatement[]>;
+
+export interface VitalSigns {
+    bloodPressure?: string;
+    heartRate?: string;
+    temperature?: string;
+    weight?: string;
+    height?: string;
+}
+
+// What is already known about the patient before this visit (booking, patient record, HIS)
+export interface PatientContext {
+    demographics: {
+        name: string;
+        age: number | null;
+        gender: string | null;
+        bloodType: string | null;
+    };
+    medicalHistory: string | null;
+    allergies: string[];
+    currentMedications: string[];
+    vitalSigns: VitalSigns | null;
+    previousVisit: {
+        date: string;
+        soap: SoapNote;
+        icdCodes: string[];
+    } | null;
+}
+
+// Drug extracted from the plan (drugId = entry of the local safety rule set, null if unknown)
+export interface PrescribedMedication {
+    name: string;
+    genericName: string | null;
+    strength: string | null;
+    form: string | null;
+    dose: string | null;
+    route: string | null;
+    frequency: string | null;
+    duration: string | null;
+    quantity: number | null;
+    instructions: string | null;
+    drugId: string | null;
+}
+
+export type SafetySeverity = 'contraindicated' | 'major' | 'moderate' | 'minor';
+
+export interface SafetyAlert {
+    type: 'drug_allergy' | 'drug_drug' | 'check_failed';  // check_failed: the plan could not be checked (blocking)
+    severity: SafetySeverity;
+    drugs: string[];
+    allergen?: string;
+    rationale: string;
+    blocking: boolean;  // must be acknowledged before the record is finalized
+}
+
+// ICD-10 code chosen by the coding agent among the catalogue candidates
+export interface IcdSuggestion {
+    code: string;           // "K29.7"
+    description: string;    // Vietnamese name from the catalogue
+    confidence: number;     // 0..1, as estimated by the model
+    type: 'primary' | 'secondary';  // Exactly one primary (bệnh chính) when there are suggestions
+    evidence: string;       // Phrase of the SOAP note supporting the code ("" when the quoted phrase is not in the note)
+    rationale: string;      // Short reason shown to the doctor
+}
+
+// Protocol excerpt cited in the medical advice as [id]
+export interface Citation {
+    id: number;             // Marker number in the advice text (1..n, in order of first use)
+    chunkId: string;        // "<source>#<position>" in the vector index
+    source: string;         // Protocol file, e.g. "viem_da_day.md"
+    title: string;          // Protocol title (first heading)
+    section: string[];      // Heading path below the title, e.g. ["4. Điều trị (Plan)", "A. Nguyên tắc"]
+    text: string;           // Excerpt shown when the footnote is opened
+}
+
 export interface AgentState {
     // Input
     transcript: string;
+    segments: TranscriptLine[];
+    patientContext: PatientContext | null;
 
     // Intermediate State
     soap: SoapNote;
+    soapEvidence: SoapEvidence;
 
     // Outputs
-    icdCodes: string[];
-    medicalAdvice: string;
-    references: string[];
+    medications: PrescribedMedication[];
+    planAdvice: string;  // Non-drug part of the plan (dặn dò, tái khám...)
+    safetyAlerts: SafetyAlert[];
+    icdCodes: string[];     // "K29.7 - Viêm dạ dày, không đặc hiệu", primary first
+    icdSuggestions: IcdSuggestion[];
+    icdError: string | null;  // Coding failed - icdCodes is empty, the doctor codes manually
+    medicalAdvice: string;  // Cites protocol excerpts as [n] - every marker has a matching citation
+    citations: Citation[];
+    references: string[];   // Cited protocol titles
 }
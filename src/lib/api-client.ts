@@ -9,7 +9,9 @@
  * - Automatic JSON parsing
  */
 
+import type { z } from 'zod';
 import { getApiUrl } from './api-config';
+import { apiContracts, apiErrorBody, type ApiContract, type ApiContracts, type Jsonified, type ResponseType, type ValidationIssue } from './contracts';
 
 /**
  * Custom error class for API errors
@@ -18,7 +20,9 @@ export class ApiClientError extends Error {
     constructor(
         public statusCode: number,
         message: string,
-        public error?: string
+        public error?: string,
+        public issues?: ValidationIssue[],  // 400 'Validation error': invalid fields by path
+        public body?: unknown               // Whole error body (e.g. duplicates of a 409)
     ) {
         super(message);
         this.name = 'ApiClientError';
@@ -29,7 +33,7 @@ export class ApiClientError extends Error {
  * HTTP request options with query parameters support
  */
 export interface RequestOptions extends RequestInit {
-    params?: Record<string, string | number | boolean>;
+    params?: Record<string, string | number | boolean | null | undefined>;
 }
 
 /**
@@ -38,19 +42,32 @@ export interface RequestOptions extends RequestInit {
  * @example
  * buildQueryString({ page: 1, limit: 10 }) => "?page=1&limit=10"
  */
-function buildQueryString(params: Record<string, string | number | boolean>): string {
+function buildQueryString(params: NonNullable<RequestOptions['params']>): string {
     const searchParams = new URLSearchParams();
     Object.entries(params).forEach(([key, value]) => {
+        if (value === undefined || value === null) return;
         searchParams.append(key, String(value));
     });
     const queryString = searchParams.toString();
     return queryString ? `?${queryString}` : '';
 }
 
+function toApiClientError(status: number, data: unknown, fallback: string): ApiClientError {
+    const parsed = apiErrorBody.safeParse(data);
+    const body = parsed.success ? parsed.data : {};
+    return new ApiClientError(
+        status,
+        body.message || body.error || fallback,
+        body.error,
+        body.issues,
+        data
+    );
+}
+
 /**
  * Base request function - wraps fetch() with error handling
  */
-async function request<T = any>(
+async function request<T = unknown>(
     endpoint: string,
     options: RequestOptions = {}
 ): Promise<T> {
@@ -80,10 +97,7 @@ async function request<T = any>(
         const data = isJson ? await response.json() : await response.text();
 
         // Handle errors
-        if (!response.ok) {
-            const errorMessage = data?.message || data?.error || 'An error occurred';
-            throw new ApiClientError(response.status, errorMessage, data?.error);
-        }
+        if (!response.ok) throw toApiClientError(response.status, data, 'An error occurred');
 
         return data;
     } catch (error) {
@@ -97,23 +111,23 @@ async function request<T = any>(
 
 // HTTP Method Helpers
 
-export async function get<T = any>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+export async function get<T = unknown>(endpoint: string, options: RequestOptions = {}): Promise<T> {
     return request<T>(endpoint, { ...options, method: 'GET' });
 }
 
-export async function post<T = any>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+export async function post<T = unknown>(endpoint: string, options: RequestOptions = {}): Promise<T> {
     return request<T>(endpoint, { ...options, method: 'POST' });
 }
 
-export async function put<T = any>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+export async function put<T = unknown>(endpoint: string, options: RequestOptions = {}): Promise<T> {
     return request<T>(endpoint, { ...options, method: 'PUT' });
 }
 
-export async function patch<T = any>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+export async function patch<T = unknown>(endpoint: string, options: RequestOptions = {}): Promise<T> {
     return request<T>(endpoint, { ...options, method: 'PATCH' });
 }
 
-export async function del<T = any>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+export async function del<T = unknown>(endpoint: string, options: RequestOptions = {}): Promise<T> {
     return request<T>(endpoint, { ...options, method: 'DELETE' });
 }
 
@@ -121,7 +135,7 @@ export async function del<T = any>(endpoint: string, options: RequestOptions = {
  * POST with FormData (for file uploads)
  * Note: Don't set Content-Type - browser sets it automatically with boundary
  */
-export async function postFormData<T = any>(
+export async function postFormData<T = unknown>(
     endpoint: string,
     formData: FormData,
     options: RequestOptions = {}
@@ -138,9 +152,7 @@ export async function postFormData<T = any>(
         });
 
         const data = await response.json();
-        if (!response.ok) {
-            throw new ApiClientError(response.status, data?.message || 'Upload failed');
-        }
+        if (!response.ok) throw toApiClientError(response.status, data, 'Upload failed');
         return data;
     } catch (error) {
         if (error instanceof ApiClientError) throw error;
@@ -148,12 +160,96 @@ export async function postFormData<T = any>(
     }
 }
 
+// Typed methods generated from the API contracts (src/lib/contracts)
+
+// Nothing to pass ({} without tripping no-empty-object-type)
+type NoArgs = Record<never, never>;
+
+type PathParamNames<P extends string> =
+    P extends `${string}:${infer Name}/${infer Rest}` ? Name | PathParamNames<Rest>
+    : P extends `${string}:${infer Name}` ? Name
+    : never;
+
+type PathArgs<C extends ApiContract> = [PathParamNames<C['path']>] extends [never]
+    ? NoArgs
+    : { path: Record<PathParamNames<C['path']>, string> };
+
+type QueryArgs<C extends ApiContract> = C extends { query: infer Q extends z.ZodTypeAny }
+    ? NoArgs extends z.input<Q> ? { params?: z.input<Q> } : { params: z.input<Q> }
+    : NoArgs;
+
+// JSON body, or the fields of a multipart form (files as Blob / File, objects sent as JSON)
+type BodyArgs<C extends ApiContract> = C extends { body: infer B extends z.ZodTypeAny }
+    ? NoArgs extends z.input<B> ? { body?: z.input<B> } : { body: z.input<B> }
+    : C extends { form: infer F extends z.ZodTypeAny }
+        ? { body: z.input<F> }
+        : NoArgs;
+
+export type ContractArgs<C extends ApiContract> = PathArgs<C> & QueryArgs<C> & BodyArgs<C>;
+
+export type ContractResponse<C extends ApiContract> = C['response'] extends ResponseType<infer T> ? Jsonified<T> : never;
+
+export type ContractMethod<C extends ApiContract> = NoArgs extends ContractArgs<C>
+    ? (args?: ContractArgs<C>, options?: RequestOptions) => Promise<ContractResponse<C>>
+    : (args: ContractArgs<C>, options?: RequestOptions) => Promise<ContractResponse<C>>;
+
+interface CallArgs {
+    path?: Record<string, string>;
+    params?: RequestOptions['params'];
+    body?: unknown;
+}
+
+function toFormData(fields: Record<string, unknown>): FormData {
+    const formData = new FormData();
+    Object.entries(fields).forEach(([key, value]) => {
+        if (value === undefined || value === null) return;
+        if (value instanceof Blob) formData.append(key, value);
+        else formData.append(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+    });
+    return formData;
+}
+
+/**
+ * Call a route by its contract - ":name" segments are filled from args.path
+ */
+export async function callContract<C extends ApiContract>(
+    contract: C,
+    args: CallArgs = {},
+    options: RequestOptions = {}
+): Promise<ContractResponse<C>> {
+    const endpoint = contract.path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(args.path?.[name] ?? ''));
+
+    if (contract.form) {
+        return postFormData(endpoint, toFormData((args.body ?? {}) as Record<string, unknown>), options);
+    }
+    return request(endpoint, {
+        ...options,
+        method: contract.method,
+        params: args.params,
+        body: args.body === undefined ? undefined : JSON.stringify(args.body),
+    });
+}
+
+type ContractMethods = { [Name in keyof ApiContracts]: ContractMethod<ApiContracts[Name]> };
+
+const contractMethods = Object.fromEntries(
+    Object.entries(apiContracts).map(([name, contract]) => [
+        name,
+        (args?: CallArgs, options?: RequestOptions) => callContract(contract, args, options),
+    ])
+) as ContractMethods;
+
 /**
  * Main API Client Export
  * Use this in your components
  * 
  * @example
  * ```typescript
+ * // Typed route (request validated by the same schema on the server)
+ * const { data: record } = await apiClient.saveMedicalRecord({
+ *   body: { sessionId, diagnoses, status: 'draft' }
+ * });
+ *
  * // GET request
  * const patients = await apiClient.get('/patient', { 
  *   params: { page: 1, limit: 10 } 
@@ -165,9 +261,7 @@ export async function postFormData<T = any>(
  * });
  * 
  * // File upload
- * const formData = new FormData();
- * formData.append('file', audioFile);
- * const result = await apiClient.postFormData('/stt', formData);
+ * const result = await apiClient.transcribeAudio({ body: { file: audioFile } });
  * ```
  */
 export const apiClient = {
@@ -177,23 +271,5 @@ export const apiClient = {
     patch,
     delete: del,
     postFormData,
-
-    // Legacy specific methods (kept for backward compatibility)
-    async analyze(transcript: string) {
-        return post('/analyze', {
-            body: JSON.stringify({ transcript }),
-        });
-    },
-
-    async transcribeAudio(audioFile: File) {
-        const formData = new FormData();
-        formData.append('audio', audioFile);
-        return postFormData('/stt', formData);
-    },
-
-    async submitComparison(aiResults: any, doctorResults: any) {
-        return post('/comparison', {
-            body: JSON.stringify({ aiResults, doctorResults }),
-        });
-    },
-};
\ No newline at end of file
+    ...contractMethods,
+};
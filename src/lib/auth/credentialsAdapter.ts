@@ -0,0 +1,17 @@
+import { getUserByEmail } from '../services/userService';
+import { verifyPassword } from './password';
+import { toAuthUser, type AuthAdapter, type AuthUser } from './types';
+
+/**
+ * Email + password checked against users.password (hashPassword format)
+ */
+export class CredentialsAuthAdapter implements AuthAdapter {
+    readonly name = 'credentials';
+
+    async authenticate(email: string, password: string): Promise<AuthUser | null> {
+        const user = await getUserByEmail(email);
+        if (!user?.password) return null;
+        if (!(await verifyPassword(password, user.password))) return null;
+        return toAuthUser(user);
+    }
+}
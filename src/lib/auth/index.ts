@@ -0,0 +1,38 @@
+import { CredentialsAuthAdapter } from './credentialsAdapter';
+import { SupabaseAuthAdapter } from './supabaseAdapter';
+import type { AuthAdapter } from './types';
+
+/**
+ * Login backend selection (environment variables):
+ * - AUTH_PROVIDER: 'credentials' (default, users.password) | 'supabase' (Supabase Auth)
+ * - NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY for the supabase adapter
+ * Session cookie settings: see ./session
+ */
+
+// Lazy initialization to avoid build-time errors when env vars are not set
+let _authAdapter: AuthAdapter | null = null;
+
+export function createAuthAdapter(name: string): AuthAdapter {
+    switch (name) {
+        case 'credentials':
+            return new CredentialsAuthAdapter();
+        case 'supabase': {
+            const { NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY } = process.env;
+            if (!NEXT_PUBLIC_SUPABASE_URL || !NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+                throw new Error('Supabase auth requires NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY');
+            }
+            return new SupabaseAuthAdapter(NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY);
+        }
+        default:
+            throw new Error(`Unknown auth provider "${name}" (expected 'credentials' or 'supabase')`);
+    }
+}
+
+export function getAuthAdapter(): AuthAdapter {
+    if (!_authAdapter) {
+        _authAdapter = createAuthAdapter(process.env.AUTH_PROVIDER || 'credentials');
+    }
+    return _authAdapter;
+}
+
+export type { AuthAdapter, AuthUser, Role } from './types';
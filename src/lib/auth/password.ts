@@ -0,0 +1,37 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+/**
+ * Password hashing for users.password (credentials adapter)
+ * Stored as "scrypt$N$r$p$<salt>$<hash>" (base64) so the cost can be raised without breaking old hashes
+ */
+
+const COST = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        scrypt(password, salt, KEY_LENGTH, { ...options, maxmem: 256 * options.N! * options.r! }, (error, key) => {
+            if (error) reject(error);
+            else resolve(key);
+        });
+    });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(SALT_BYTES);
+    const key = await deriveKey(password, salt, COST);
+    return ['scrypt', COST.N, COST.r, COST.p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * False for a wrong password and for hashes in another format (e.g. bcrypt from the booking app)
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [algorithm, N, r, p, salt, hash] = stored.split('$');
+    if (algorithm !== 'scrypt' || !salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'base64');
+    const key = await deriveKey(password, Buffer.from(salt, 'base64'), { N: Number(N), r: Number(r), p: Number(p) });
+    return key.length === expected.length && timingSafeEqual(key, expected);
+}
@@ -0,0 +1,125 @@
+import type { HttpMethod } from '../contracts/common';
+import type { Role } from './types';
+
+/**
+ * Role-based access control (pure - used by the proxy, the route handlers and the UI)
+ * Routes require a permission, roles grant permissions - the UI hides what can(permission) refuses
+ */
+
+export const PERMISSIONS = [
+    'patients:view',        // Dashboard, patient search, booking list
+    'patients:create',
+    'patients:delete',
+    'bookings:delete',
+    'records:view',         // Sessions, medical records, transcripts, documents
+    'examination:conduct',  // Recording, AI analysis, saving records, HIS sync
+    'sessions:delete',
+    'lexicon:suggest',      // STT corrections from the transcript view
+    'admin:manage',         // Knowledge base, lexicon, maintenance
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+    patient: [],            // Patients use the booking app - no access here
+    staff: ['patients:view', 'patients:create', 'bookings:delete'],
+    doctor: ['patients:view', 'patients:create', 'records:view', 'examination:conduct', 'lexicon:suggest'],
+    admin: PERMISSIONS,
+};
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+    return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Roles without any permission cannot sign in
+export function canSignIn(role: Role): boolean {
+    return ROLE_PERMISSIONS[role].length > 0;
+}
+
+// ============= Routes =============
+
+/**
+ * ":name" matches one segment, a trailing "/*" the path itself and everything below it
+ * permission null: any signed-in user
+ */
+export interface RoutePermission {
+    path: string;
+    methods?: HttpMethod[];     // All methods when missing
+    permission: Permission | null;
+}
+
+// Reachable without a session
+export const PUBLIC_PATHS = ['/login', '/api/auth/login', '/api/auth/logout'];
+
+// First match wins - API routes without a rule are admin only
+export const ROUTE_PERMISSIONS: RoutePermission[] = [
+    // Pages
+    { path: '/admin/*', permission: 'admin:manage' },
+    { path: '/examination', permission: 'examination:conduct' },
+    { path: '/session/:sessionId', permission: 'records:view' },
+    { path: '/booking/:bookingId/record', permission: 'records:view' },
+    { path: '/patient/:displayId/history', permission: 'records:view' },
+    { path: '/dashboard', permission: 'patients:view' },
+
+    // Auth
+    { path: '/api/auth/session', permission: null },
+
+    // Admin
+    { path: '/api/admin/lexicon', methods: ['POST'], permission: 'lexicon:suggest' },
+    { path: '/api/admin/*', permission: 'admin:manage' },
+
+    // Patients & bookings
+    { path: '/api/dashboard/stats', permission: 'patients:view' },
+    { path: '/api/patients', permission: 'patients:view' },
+    { path: '/api/patient/create', permission: 'patients:create' },
+    { path: '/api/patient/:patientId/sessions', permission: 'records:view' },
+    { path: '/api/patient/:patientId', methods: ['DELETE'], permission: 'patients:delete' },
+    { path: '/api/patient/:patientId', permission: 'patients:view' },
+    { path: '/api/booking/:bookingId/record', permission: 'records:view' },
+    { path: '/api/booking/:bookingId', methods: ['DELETE'], permission: 'bookings:delete' },
+    { path: '/api/booking/:bookingId', permission: 'patients:view' },
+
+    // Sessions & records
+    { path: '/api/session/:sessionId', methods: ['DELETE'], permission: 'sessions:delete' },
+    { path: '/api/session/*', methods: ['GET'], permission: 'records:view' },
+    { path: '/api/session/*', permission: 'examination:conduct' },
+    { path: '/api/comparison/session/:sessionId', permission: 'records:view' },
+    { path: '/api/comparison/*', permission: 'examination:conduct' },
+    { path: '/api/icd10/*', permission: 'records:view' },
+    { path: '/api/analyze', permission: 'examination:conduct' },
+    { path: '/api/medical-record/*', permission: 'examination:conduct' },
+    { path: '/api/safety/*', permission: 'examination:conduct' },
+    { path: '/api/stt/*', permission: 'examination:conduct' },
+    { path: '/api/his/*', permission: 'examination:conduct' },
+];
+
+const patternCache = new Map<string, RegExp>();
+
+function toPattern(path: string): RegExp {
+    let pattern = patternCache.get(path);
+    if (!pattern) {
+        const wildcard = path.endsWith('/*');
+        const source = (wildcard ? path.slice(0, -2) : path)
+            .split('/')
+            .map(segment => segment.startsWith(':') ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join('/');
+        pattern = new RegExp(`^${source}${wildcard ? '(?:/.*)?' : ''}/?$`);
+        patternCache.set(path, pattern);
+    }
+    return pattern;
+}
+
+export function isPublicPath(pathname: string): boolean {
+    return PUBLIC_PATHS.some(path => toPattern(path).test(pathname));
+}
+
+/**
+ * Permission needed for a request (null: signed in is enough)
+ */
+export function routePermission(pathname: string, method: string): Permission | null {
+    const rule = ROUTE_PERMISSIONS.find(item =>
+        (!item.methods || item.methods.includes(method.toUpperCase() as HttpMethod)) && toPattern(item.path).test(pathname)
+    );
+    if (rule) return rule.permission;
+    return pathname === '/api' || pathname.startsWith('/api/') ? 'admin:manage' : null;
+}
@@ -0,0 +1,95 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import { isRole, type AuthUser } from './types';
+
+/**
+ * Session cookie: "<payload>.<signature>" (base64url JSON + HMAC-SHA256 with AUTH_SECRET)
+ * Stateless - the role is read at login, so role changes apply from the next login
+ *
+ * Environment variables:
+ * - AUTH_SECRET: signing key, at least 32 characters (required)
+ * - AUTH_SESSION_HOURS: session lifetime (default 12 - one clinic shift)
+ */
+export const SESSION_COOKIE = 'mea_session';
+
+const SESSION_HOURS = parseInt(process.env.AUTH_SESSION_HOURS || '12', 10);
+
+interface SessionPayload {
+    sub: string;
+    email: string;
+    name: string;
+    role: string;
+    exp: number;    // Unix seconds
+}
+
+/**
+ * Configuration problem that makes sessions unusable (null when AUTH_SECRET is fine)
+ * Checked at server startup (src/instrumentation.ts) and by the proxy
+ */
+export function authConfigError(): string | null {
+    const secret = process.env.AUTH_SECRET;
+    return !secret || secret.length < 32
+        ? 'AUTH_SECRET must be set to at least 32 characters (openssl rand -base64 48)'
+        : null;
+}
+
+function getSecret(): string {
+    const error = authConfigError();
+    if (error) throw new Error(error);
+    return process.env.AUTH_SECRET as string;
+}
+
+function sign(payload: string): string {
+    return createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+export function createSessionToken(user: AuthUser): string {
+    const payload: SessionPayload = {
+        sub: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        exp: Math.floor(Date.now() / 1000) + SESSION_HOURS * 3600,
+    };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * User of a session cookie (null when missing, tampered with or expired)
+ */
+export function verifySessionToken(token: string | undefined): AuthUser | null {
+    if (!token) return null;
+    const [encoded, signature] = token.split('.');
+    if (!encoded || !signature) return null;
+
+    const expected = Buffer.from(sign(encoded));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    try {
+        const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8')) as SessionPayload;
+        if (!payload.exp || payload.exp * 1000 <= Date.now() || !isRole(payload.role)) return null;
+        return { id: payload.sub, email: payload.email, name: payload.name, role: payload.role };
+    } catch {
+        return null;
+    }
+}
+
+export function sessionCookieOptions() {
+    return {
+        httpOnly: true,
+        sameSite: 'lax' as const,
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        maxAge: SESSION_HOURS * 3600,
+    };
+}
+
+/**
+ * Signed-in user of the current request (route handlers / server components)
+ */
+export async function getSessionUser(): Promise<AuthUser | null> {
+    const cookieStore = await cookies();
+    return verifySessionToken(cookieStore.get(SESSION_COOKIE)?.value);
+}
@@ -0,0 +1,32 @@
+import { createClient } from '@supabase/supabase-js';
+import { getUserByEmail } from '../services/userService';
+import { toAuthUser, type AuthAdapter, type AuthUser } from './types';
+
+/**
+ * Password checked by Supabase Auth - role and profile still come from the users table (matched by email)
+ * The Supabase session is only used for the check; the app keeps its own session cookie
+ */
+export class SupabaseAuthAdapter implements AuthAdapter {
+    readonly name = 'supabase';
+
+    constructor(private readonly url: string, private readonly anonKey: string) { }
+
+    async authenticate(email: string, password: string): Promise<AuthUser | null> {
+        // One client per login - the client keeps the signed-in session in memory
+        const client = createClient(this.url, this.anonKey, {
+            auth: { persistSession: false, autoRefreshToken: false },
+        });
+
+        const { data, error } = await client.auth.signInWithPassword({ email, password });
+        if (error) {
+            // 400: invalid login credentials / email not confirmed
+            if (error.status === 400) return null;
+            throw error;
+        }
+
+        await client.auth.signOut({ scope: 'local' });
+
+        const user = data.user.email ? await getUserByEmail(data.user.email) : null;
+        return user ? toAuthUser(user) : null;
+    }
+}
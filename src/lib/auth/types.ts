@@ -0,0 +1,44 @@
+/**
+ * Authentication types (shared by the server, the proxy and the UI)
+ */
+
+// users.role values
+export const ROLES = ['patient', 'doctor', 'staff', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+    patient: 'Bệnh nhân',
+    doctor: 'Bác sĩ',
+    staff: 'Nhân viên',
+    admin: 'Quản trị viên',
+};
+
+/**
+ * Signed-in user, as kept in the session cookie
+ */
+export interface AuthUser {
+    id: string;
+    email: string;
+    name: string;
+    role: Role;
+}
+
+/**
+ * Checks a login against a credential store
+ * Returns null when the email / password pair is wrong or the account is not in the users table
+ */
+export interface AuthAdapter {
+    readonly name: string;
+
+    authenticate(email: string, password: string): Promise<AuthUser | null>;
+}
+
+export function isRole(value: unknown): value is Role {
+    return ROLES.includes(value as Role);
+}
+
+// users row → AuthUser (null for a role this app does not know)
+export function toAuthUser(user: { id: string; email: string; name: string; role: string }): AuthUser | null {
+    if (!isRole(user.role)) return null;
+    return { id: user.id, email: user.email, name: user.name, role: user.role };
+}
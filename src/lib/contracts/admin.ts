@@ -0,0 +1,207 @@
+import { z } from 'zod';
+import { parseKnowledgeTags, type KnowledgeChunkPreview, type KnowledgeDocument } from '../knowledge/types';
+import type { LexiconEntry } from '../services/lexiconService';
+import type { VectorIndexReport, VectorIndexSyncStats } from '../rag/vectorIndex';
+import type { VectorStoreSyncResult } from '../rag/vectorStore';
+import { defineContract, optionalText, requiredText, responseOf, successOf } from './common';
+
+// ============= STT lexicon =============
+
+const lexiconKind = z.enum(['correction', 'term'], {
+    errorMap: () => ({ message: 'Loại mục từ phải là "correction" hoặc "term"' }),
+});
+
+export const listLexiconQuery = z.object({
+    kind: lexiconKind.optional(),
+});
+
+export const listLexicon = defineContract({
+    method: 'GET',
+    path: '/admin/lexicon',
+    query: listLexiconQuery,
+    response: successOf<LexiconEntry[]>(),
+});
+
+/**
+ * misheard → correct rule or whitelisted term
+ * Also sent by the transcript view when a doctor corrects a word (source: 'transcript')
+ */
+export const createLexiconEntryBody = z
+    .object({
+        kind: lexiconKind,
+        misheard: z.string().trim().nullish(),
+        correct: requiredText('Từ đúng là bắt buộc'),
+        note: z.string().nullish(),
+        source: z.enum(['admin', 'transcript']).optional(),
+        sourceSessionId: z.string().nullish(),
+    })
+    .superRefine((body, ctx) => {
+        if (body.kind !== 'correction') return;
+
+        if (!body.misheard) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Từ bị nghe nhầm là bắt buộc', path: ['misheard'] });
+        } else if (body.misheard.toLowerCase() === body.correct.toLowerCase()) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Từ bị nghe nhầm và từ đúng giống nhau', path: ['misheard'] });
+        }
+    });
+
+export const createLexiconEntry = defineContract({
+    method: 'POST',
+    path: '/admin/lexicon',
+    body: createLexiconEntryBody,
+    response: successOf<LexiconEntry>(),
+});
+
+export const updateLexiconEntryBody = z.object({
+    misheard: z.string().trim().nullish().transform(value => value === undefined ? undefined : value || null),
+    correct: z.string().trim().min(1, 'Từ đúng không được để trống').optional(),
+    note: z.string().nullish().transform(value => value === undefined ? undefined : value || null),
+    isActive: z.boolean().optional(),
+});
+
+export const updateLexiconEntry = defineContract({
+    method: 'PATCH',
+    path: '/admin/lexicon/:entryId',
+    body: updateLexiconEntryBody,
+    response: successOf<LexiconEntry>(),
+});
+
+export const deleteLexiconEntry = defineContract({
+    method: 'DELETE',
+    path: '/admin/lexicon/:entryId',
+    response: responseOf<{ success: true; message: string }>(),
+});
+
+// ============= Knowledge base =============
+
+/**
+ * Tags ({ specialty, icdChapters, effectiveDate, issuingBody }) - icdChapters as a list or "IX,X"
+ */
+export const knowledgeTagsField = z
+    .record(z.unknown(), { invalid_type_error: 'tags phải là một object' })
+    .transform((raw, ctx) => {
+        const tags = parseKnowledgeTags(raw);
+        if (typeof tags === 'string') {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: tags });
+            return z.NEVER;
+        }
+        return tags;
+    });
+
+const knowledgeFile = z
+    .instanceof(File, { message: 'Không có file phác đồ' })
+    .refine(file => file.size > 0, 'Không có file phác đồ');
+
+export const listKnowledge = defineContract({
+    method: 'GET',
+    path: '/admin/knowledge',
+    response: successOf<KnowledgeDocument[]>(),
+});
+
+// Markdown / PDF / DOCX (converted to markdown) - indexed on the next re-index
+export const uploadKnowledgeForm = z
+    .object({
+        file: knowledgeFile,
+        title: optionalText(),        // Defaults to the first heading / file name
+        specialty: optionalText(),
+        icdChapters: optionalText(),  // "IX,X"
+        effectiveDate: optionalText(),
+        issuingBody: optionalText(),
+    })
+    .transform(({ file, title, ...tags }, ctx) => {
+        const parsed = parseKnowledgeTags(tags);
+        if (typeof parsed === 'string') {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: parsed });
+            return z.NEVER;
+        }
+        return { file, title, tags: parsed };
+    });
+
+export const uploadKnowledge = defineContract({
+    method: 'POST',
+    path: '/admin/knowledge',
+    form: uploadKnowledgeForm,
+    response: successOf<KnowledgeDocument>(),
+});
+
+export type KnowledgePreview = { markdown: string; chunks: KnowledgeChunkPreview[] };
+
+// Preview how a file will be converted and chunked (nothing is stored)
+export const previewKnowledge = defineContract({
+    method: 'POST',
+    path: '/admin/knowledge/preview',
+    form: z.object({ file: knowledgeFile }),
+    response: successOf<KnowledgePreview>(),
+});
+
+// Same preview for markdown typed in the editor
+export const previewKnowledgeMarkdown = defineContract({
+    method: 'POST',
+    path: '/admin/knowledge/preview',
+    body: z.object({ content: requiredText('Nội dung phác đồ là bắt buộc') }),
+    response: successOf<KnowledgePreview>(),
+});
+
+export const getKnowledgeDocument = defineContract({
+    method: 'GET',
+    path: '/admin/knowledge/:documentId',
+    response: successOf<KnowledgeDocument & { content: string }>(),
+});
+
+export const updateKnowledgeDocumentBody = z.object({
+    title: z.string().refine(value => Boolean(value.trim()), 'Tên phác đồ không được để trống').optional(),
+    content: z.string().refine(value => Boolean(value.trim()), 'Nội dung phác đồ không được để trống').optional(),
+    tags: knowledgeTagsField.optional(),
+    isActive: z.boolean().optional(),
+});
+
+export const updateKnowledgeDocument = defineContract({
+    method: 'PATCH',
+    path: '/admin/knowledge/:documentId',
+    body: updateKnowledgeDocumentBody,
+    response: successOf<KnowledgeDocument>(),
+});
+
+export const deleteKnowledgeDocument = defineContract({
+    method: 'DELETE',
+    path: '/admin/knowledge/:documentId',
+    response: responseOf<{ success: true; message: string }>(),
+});
+
+export const getKnowledgeIndex = defineContract({
+    method: 'GET',
+    path: '/admin/knowledge/index',
+    response: successOf<VectorIndexReport & { model: string; store: string }>(),
+});
+
+// rebuild re-embeds everything (after changing the embedding model)
+export const reindexKnowledge = defineContract({
+    method: 'POST',
+    path: '/admin/knowledge/index',
+    body: z.object({ rebuild: z.boolean().optional() }).default({}),
+    response: successOf<{
+        files: number;
+        model: string;
+        stats: VectorIndexSyncStats;
+        store: { name: string } & VectorStoreSyncResult['store'];
+    }>(),
+});
+
+// ============= Maintenance =============
+
+export const purgeExpiredAudio = defineContract({
+    method: 'POST',
+    path: '/admin/audio-retention',
+    response: responseOf<{ success: true; message: string; purged: number; retentionDays: number }>(),
+});
+
+export const updateDisplayIds = defineContract({
+    method: 'GET',
+    path: '/admin/update-display-ids',
+    response: responseOf<{
+        success: true;
+        message: string;
+        updated: number;
+        patients?: { id: string; name: string; email: string; displayId: string }[];
+    }>(),
+});
@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import type { AgentState } from '../agents/state';
+import type { ComparisonResult } from '../agents/comparison';
+import type { ComparisonRecord } from '../db/schema';
+import type { ContextSegment, SpeakerProfile, STTChunkResponse, STTResponse } from '../stt/types';
+import { defineContract, formFile, formJson, requiredText, responseOf, successOf } from './common';
+
+// ============= AI analysis =============
+
+export type AnalysisResult = Pick<AgentState,
+    | 'soap'
+    | 'soapEvidence'
+    | 'medications'
+    | 'planAdvice'
+    | 'safetyAlerts'
+    | 'icdCodes'
+    | 'icdSuggestions'
+    | 'icdError'
+    | 'medicalAdvice'
+    | 'citations'
+    | 'references'
+>;
+
+export const analyzeTranscript = defineContract({
+    method: 'POST',
+    path: '/analyze',
+    body: z.object({
+        transcript: requiredText('Transcript là bắt buộc'),
+        // Positions in the client's transcript list (evidence links point back to them)
+        segments: z.array(
+            z.object({ role: z.string(), text: z.string() }),
+            { invalid_type_error: 'segments phải là một mảng' }
+        ).optional(),
+        sessionId: z.string().nullish(),
+    }),
+    response: successOf<AnalysisResult>(),
+});
+
+// ============= Matching engine =============
+
+const soapNote = z.object({
+    subjective: z.string().default(''),
+    objective: z.string().default(''),
+    assessment: z.string().default(''),
+    plan: z.string().default(''),
+}, { required_error: 'soap là bắt buộc', invalid_type_error: 'soap là bắt buộc' });
+
+// Extra fields (medicalAdvice, citations, treatment...) are stored with the comparison as sent
+function comparedResults(name: string) {
+    return z.object({
+        soap: soapNote,
+        icdCodes: z.array(z.string()),
+    }, { required_error: `${name} là bắt buộc`, invalid_type_error: `${name} là bắt buộc` }).passthrough();
+}
+
+export const submitComparison = defineContract({
+    method: 'POST',
+    path: '/comparison/submit',
+    body: z.object({
+        sessionId: z.string().nullish(),
+        medicalRecordId: z.string().nullish(),
+        aiResults: comparedResults('aiResults'),
+        doctorResults: comparedResults('doctorResults'),
+    }),
+    response: responseOf<{ success: true; comparisonId: string; matchScore: number; analysis: ComparisonResult }>(),
+});
+
+export const getSessionComparison = defineContract({
+    method: 'GET',
+    path: '/comparison/session/:sessionId',
+    response: responseOf<{ success: true; comparison: ComparisonRecord | null }>(),
+});
+
+// ============= Transcription =============
+
+// Whole recording in one request
+export const transcribeAudio = defineContract({
+    method: 'POST',
+    path: '/stt',
+    form: z.object({ file: formFile('Không có file audio') }),
+    response: responseOf<STTResponse>(),
+});
+
+export interface SttStatus {
+    status: 'ok' | 'degraded';
+    services: {
+        stt: {
+            provider: string;
+            model: string;
+            reachable: boolean;
+            details?: string;
+            supportsSegments: boolean;
+            supportsWordTimestamps: boolean;
+        };
+        diarization: { provider: string; reachable: boolean; details?: string };
+        llm_role_detection: string;
+        medical_fixer: string;
+    };
+    note: string;
+}
+
+export const checkSttHealth = defineContract({
+    method: 'GET',
+    path: '/stt',
+    response: responseOf<SttStatus>(),
+});
+
+
+// Số câu ngữ cảnh tối đa gửi kèm cho LLM role detection
+const MAX_CONTEXT_SEGMENTS = 8;
+
+function parseContext(raw: unknown): ContextSegment[] {
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .filter(c => c && typeof c.role === 'string' && typeof c.text === 'string')
+        .slice(-MAX_CONTEXT_SEGMENTS);
+}
+
+function parseSpeakers(raw: unknown): SpeakerProfile[] {
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .filter(s => s && typeof s.id === 'string' && typeof s.role === 'string')
+        .map(s => ({
+            id: s.id,
+            role: s.role,
+            embedding: Array.isArray(s.embedding) ? s.embedding.map(Number) : undefined,
+        }));
+}
+
+/**
+ * One audio chunk recorded during the visit
+ * - chunkIndex: thứ tự chunk (0, 1, 2...)
+ * - offset: thời điểm bắt đầu chunk tính từ đầu buổi ghi âm (giây)
+ * - context / speakers: các câu trước đó và người nói đã biết từ các chunk trước (JSON)
+ */
+export const transcribeChunk = defineContract({
+    method: 'POST',
+    path: '/stt/stream',
+    form: z.object({
+        file: formFile('Không có file audio'),
+        chunkIndex: z.coerce.number({ invalid_type_error: 'chunkIndex không hợp lệ' }).int('chunkIndex không hợp lệ').min(0, 'chunkIndex không hợp lệ'),
+        offset: z.coerce.number({ invalid_type_error: 'offset không hợp lệ' }).min(0, 'offset không hợp lệ').default(0),
+        context: formJson(parseContext),
+        speakers: formJson(parseSpeakers),
+    }),
+    response: responseOf<STTChunkResponse>(),
+});
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import type { AuthUser } from '../auth/types';
+import { defineContract, requiredText, responseOf, successOf } from './common';
+
+// ============= Authentication =============
+
+export const loginBody = z.object({
+    email: requiredText('Email là bắt buộc').pipe(z.string().email('Email không hợp lệ')),
+    password: z.string({ required_error: 'Mật khẩu là bắt buộc' }).min(1, 'Mật khẩu là bắt buộc'),
+});
+
+// Sets the session cookie - 401 for a wrong email / password, 403 for accounts without access (patients)
+export const login = defineContract({
+    method: 'POST',
+    path: '/auth/login',
+    body: loginBody,
+    response: successOf<AuthUser>(),
+});
+
+export const logout = defineContract({
+    method: 'POST',
+    path: '/auth/logout',
+    response: responseOf<{ success: true; message: string }>(),
+});
+
+// Current user - 401 when signed out or the session expired
+export const getAuthSession = defineContract({
+    method: 'GET',
+    path: '/auth/session',
+    response: successOf<AuthUser>(),
+});
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import type { BookingDetail } from '../services/bookingService';
+import type { BookingSummary, DashboardStats } from '../services/dashboardService';
+import type { getMedicalRecordByBookingId } from '../services/sessionService';
+import { defineContract, queryInt, responseOf, successOf } from './common';
+
+// ============= Dashboard =============
+
+export const dashboardStatsQuery = z.object({
+    page: queryInt(1, 1, 10_000),
+    limit: queryInt(50, 1, 200),
+});
+
+export const getDashboardStats = defineContract({
+    method: 'GET',
+    path: '/dashboard/stats',
+    query: dashboardStatsQuery,
+    response: responseOf<{
+        success: true;
+        stats: DashboardStats;
+        bookings: BookingSummary[];
+        patients: BookingSummary[];     // Same list - kept for backwards compatibility
+        pagination: { page: number; limit: number };
+    }>(),
+});
+
+// ============= Bookings =============
+
+export const getBooking = defineContract({
+    method: 'GET',
+    path: '/booking/:bookingId',
+    response: successOf<BookingDetail>(),
+});
+
+export const deleteBooking = defineContract({
+    method: 'DELETE',
+    path: '/booking/:bookingId',
+    response: responseOf<{ success: true; message: string }>(),
+});
+
+export type BookingRecord = NonNullable<Awaited<ReturnType<typeof getMedicalRecordByBookingId>>>;
+
+export const getBookingRecord = defineContract({
+    method: 'GET',
+    path: '/booking/:bookingId/record',
+    response: successOf<BookingRecord>(),
+});
@@ -0,0 +1,170 @@
+import { z } from 'zod';
+
+/**
+ * API contracts - request schemas and response types shared by the route handlers and apiClient
+ * Routes validate requests with the schemas (src/lib/contracts/server.ts), apiClient derives typed methods from them
+ */
+
+// ============= Envelopes =============
+
+export interface ApiSuccess<T> {
+    success: true;
+    message?: string;
+    data: T;
+}
+
+/**
+ * One invalid field - path is the dotted field path ("patientData.name", "diagnoses.0.icdCode"), '' for the whole body
+ */
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+export interface ApiErrorBody {
+    success: false;
+    error: string;                  // 'Validation error' | 'Unauthorized' | 'Forbidden' | 'Not found' | 'Conflict' | 'Internal server error'
+    message: string;
+    issues?: ValidationIssue[];     // 400 only
+    details?: string;               // 500 only
+}
+
+/**
+ * Error body as read by apiClient - only the fields it uses, anything else (HTML error page, proxy text) fails the parse
+ */
+export const apiErrorBody = z.object({
+    error: z.string().optional(),
+    message: z.string().optional(),
+    issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+});
+
+/**
+ * What the client receives for a server type - dates travel as ISO strings
+ */
+export type Jsonified<T> =
+    T extends Date ? string
+    : T extends (infer Item)[] ? Jsonified<Item>[]
+    : T extends object ? { [Key in keyof T]: Jsonified<T[Key]> }
+    : T;
+
+// ============= Contract definition =============
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface ApiContract {
+    method: HttpMethod;
+    path: string;                   // Relative to /api like apiClient endpoints, ":name" for route params
+    query?: z.ZodTypeAny;           // Search params
+    body?: z.ZodTypeAny;            // JSON body
+    form?: z.ZodTypeAny;            // multipart/form-data fields (files as File)
+    response: ResponseType<unknown>; // Success body (type only) - error bodies are ApiErrorBody
+}
+
+export function defineContract<const C extends ApiContract>(contract: C): C {
+    return contract;
+}
+
+/**
+ * Response bodies are built by our own handlers from typed services, so a contract only carries their type -
+ * there is no schema and apiClient does not validate them at runtime (only error bodies, with apiErrorBody)
+ */
+declare const responseTypeBrand: unique symbol;
+
+export interface ResponseType<T> {
+    readonly [responseTypeBrand]: T;
+}
+
+export function responseOf<T>(): ResponseType<T> {
+    return {} as ResponseType<T>;
+}
+
+export function successOf<T>() {
+    return responseOf<ApiSuccess<T>>();
+}
+
+// ============= Validation issues =============
+
+export function toValidationIssues(error: z.ZodError): ValidationIssue[] {
+    return error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+// "status: Status phải là "draft" hoặc "final"; patientData.name: Tên bệnh nhân là bắt buộc"
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+    return issues.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('; ');
+}
+
+// ============= Field helpers =============
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: string): boolean {
+    return UUID_PATTERN.test(value);
+}
+
+/**
+ * Route param holding a row id (sessionId, patientId...)
+ */
+export function uuidParam(name: string) {
+    return z.string().regex(UUID_PATTERN, `${name} không hợp lệ`);
+}
+
+/**
+ * Required non-blank text (trimmed)
+ */
+export function requiredText(message: string) {
+    return z.string({ required_error: message, invalid_type_error: message }).trim().min(1, message);
+}
+
+/**
+ * List normalised item by item by a domain parser right after (parseDiagnoses, parsePrescriptionItems)
+ * Lists stored as sent use z.array with an item schema instead
+ */
+export function listOf<T>(message: string) {
+    return z.custom<T[]>(Array.isArray, message);
+}
+
+/**
+ * Optional text field (null from older clients counts as missing)
+ */
+export function optionalText() {
+    return z.string().nullish().transform(value => value ?? undefined);
+}
+
+/**
+ * Search param flag: "1" / "true" (apiClient sends booleans as "true")
+ */
+export function queryFlag() {
+    return z.union([z.boolean(), z.string()])
+        .optional()
+        .transform(value => value === true || value === '1' || value === 'true');
+}
+
+/**
+ * Search param integer within bounds; missing → defaultValue
+ */
+export function queryInt(defaultValue: number, min: number, max: number) {
+    return z.coerce.number().int().min(min).max(max).optional().transform(value => value ?? defaultValue);
+}
+
+/**
+ * Upload field (FormData entry) - an empty file counts as missing
+ */
+export function formFile(message: string) {
+    return z.instanceof(Blob, { message }).refine(file => file.size > 0, message);
+}
+
+/**
+ * FormData field holding JSON (apiClient stringifies objects) - unreadable JSON is treated as missing
+ */
+export function formJson<T>(parse: (value: unknown) => T) {
+    return z.union([z.string(), z.custom<T>(value => typeof value === 'object')])
+        .optional()
+        .transform(value => {
+            if (typeof value !== 'string') return parse(value);
+            try {
+                return parse(value ? JSON.parse(value) : undefined);
+            } catch {
+                return parse(undefined);
+            }
+        });
+}
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import type { Diagnosis } from '../diagnosis/types';
+import type { HISCurrentSessionResponse, HISUpdateResponse } from '../integrations/hisClient';
+import { defineContract, listOf, queryFlag, requiredText, responseOf } from './common';
+
+// ============= Mock HIS =============
+
+export const getHisCurrentSession = defineContract({
+    method: 'GET',
+    path: '/his/current-session',
+    query: z.object({ context: queryFlag() }),  // Include medical history and context
+    response: responseOf<HISCurrentSessionResponse>(),
+});
+
+export const updateHisVisitBody = z.object({
+    subjective: z.string().default(''),
+    objective: z.string().default(''),
+    assessment: requiredText('assessment là bắt buộc'),
+    plan: z.string().default(''),
+    icdCodes: z.array(z.string(), { required_error: 'icdCodes là bắt buộc' }).min(1, 'icdCodes là bắt buộc'),
+    diagnoses: listOf<Diagnosis>('diagnoses phải là một danh sách chẩn đoán').optional(),
+});
+
+export const updateHisVisit = defineContract({
+    method: 'POST',
+    path: '/his/update/:visitId',
+    body: updateHisVisitBody,
+    response: responseOf<HISUpdateResponse>(),
+});
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import type { Icd10Code } from '../icd10/types';
+import { defineContract, queryFlag, successOf } from './common';
+
+// ============= ICD-10 catalogue =============
+
+/**
+ * Code prefix ("K29", "k297") or name, with or without diacritics
+ * billable leaves out categories that must be coded in more detail
+ */
+export const searchIcd10Query = z.object({
+    q: z.string().trim().max(100, 'Từ khóa tìm kiếm tối đa 100 ký tự').default(''),
+    limit: z.coerce.number().int().positive('limit phải lớn hơn 0').optional(),
+    billable: queryFlag(),
+});
+
+export const searchIcd10 = defineContract({
+    method: 'GET',
+    path: '/icd10/search',
+    query: searchIcd10Query,
+    response: successOf<Icd10Code[]>(),
+});
+
+// codes=K29.7,I10 - unknown codes are left out of the answer
+export const lookupIcd10Query = z.object({
+    codes: z.string()
+        .default('')
+        .transform(value => value.split(',').map(code => code.trim()).filter(Boolean))
+        .refine(codes => codes.length <= 50, 'Tối đa 50 mã ICD-10 mỗi lần tra cứu'),
+});
+
+export const lookupIcd10 = defineContract({
+    method: 'GET',
+    path: '/icd10/lookup',
+    query: lookupIcd10Query,
+    response: successOf<Icd10Code[]>(),
+});
@@ -0,0 +1,87 @@
+import * as admin from './admin';
+import * as analysis from './analysis';
+import * as auth from './auth';
+import * as booking from './booking';
+import * as his from './his';
+import * as icd10 from './icd10';
+import * as medicalRecord from './medicalRecord';
+import * as patient from './patient';
+import * as session from './session';
+
+export * from './common';
+
+/**
+ * Every JSON route of /api by name - apiClient gets one typed method per entry
+ * File responses (audio stream, printable documents) only validate their inputs, see session.ts
+ */
+export const apiContracts = {
+    // Authentication
+    login: auth.login,
+    logout: auth.logout,
+    getAuthSession: auth.getAuthSession,
+
+    // Medical record
+    saveMedicalRecord: medicalRecord.saveMedicalRecord,
+    updateMedicalRecord: medicalRecord.updateMedicalRecord,
+    checkSafety: medicalRecord.checkSafety,
+
+    // Session
+    createSession: session.createSession,
+    getSession: session.getSession,
+    deleteSession: session.deleteSession,
+    getSessionTranscript: session.getSessionTranscript,
+    saveSessionTranscript: session.saveSessionTranscript,
+    uploadSessionAudio: session.uploadSessionAudio,
+    getSessionInstructions: session.getSessionInstructions,
+    generateSessionInstructions: session.generateSessionInstructions,
+    saveSessionInstructions: session.saveSessionInstructions,
+
+    // AI analysis, comparison, live transcription
+    analyzeTranscript: analysis.analyzeTranscript,
+    submitComparison: analysis.submitComparison,
+    getSessionComparison: analysis.getSessionComparison,
+    transcribeAudio: analysis.transcribeAudio,
+    transcribeChunk: analysis.transcribeChunk,
+    checkSttHealth: analysis.checkSttHealth,
+
+    // Patients
+    createPatient: patient.createPatient,
+    getPatient: patient.getPatient,
+    deletePatient: patient.deletePatient,
+    getPatientSessions: patient.getPatientSessions,
+    listPatients: patient.listPatients,
+
+    // ICD-10
+    searchIcd10: icd10.searchIcd10,
+    lookupIcd10: icd10.lookupIcd10,
+
+    // Dashboard & bookings
+    getDashboardStats: booking.getDashboardStats,
+    getBooking: booking.getBooking,
+    deleteBooking: booking.deleteBooking,
+    getBookingRecord: booking.getBookingRecord,
+
+    // Admin
+    listLexicon: admin.listLexicon,
+    createLexiconEntry: admin.createLexiconEntry,
+    updateLexiconEntry: admin.updateLexiconEntry,
+    deleteLexiconEntry: admin.deleteLexiconEntry,
+    listKnowledge: admin.listKnowledge,
+    uploadKnowledge: admin.uploadKnowledge,
+    previewKnowledge: admin.previewKnowledge,
+    previewKnowledgeMarkdown: admin.previewKnowledgeMarkdown,
+    getKnowledgeDocument: admin.getKnowledgeDocument,
+    updateKnowledgeDocument: admin.updateKnowledgeDocument,
+    deleteKnowledgeDocument: admin.deleteKnowledgeDocument,
+    getKnowledgeIndex: admin.getKnowledgeIndex,
+    reindexKnowledge: admin.reindexKnowledge,
+    purgeExpiredAudio: admin.purgeExpiredAudio,
+    updateDisplayIds: admin.updateDisplayIds,
+
+    // Mock HIS
+    getHisCurrentSession: his.getHisCurrentSession,
+    updateHisVisit: his.updateHisVisit,
+};
+
+export type ApiContracts = typeof apiContracts;
+export type ApiContractName = keyof ApiContracts;
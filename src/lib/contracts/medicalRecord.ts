@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import { parseDiagnoses, validateDiagnoses } from '../diagnosis/diagnosis';
+import { parsePrescriptionItems, validatePrescription } from '../prescription/prescription';
+import type { Diagnosis } from '../diagnosis/types';
+import type { PrescriptionItem } from '../prescription/types';
+import type { PrescribedMedication, SafetyAlert } from '../agents/state';
+import type { MedicalRecord } from '../services/sessionService';
+import { defineContract, listOf, optionalText, requiredText, successOf } from './common';
+
+// ============= Fields =============
+
+/**
+ * Structured diagnoses - errors of validateDiagnoses are reported per diagnosis ("diagnoses.1")
+ */
+export const diagnosesField = listOf<Diagnosis>('diagnoses phải là một danh sách chẩn đoán')
+    .transform(value => parseDiagnoses(value) ?? [])
+    .superRefine((diagnoses, ctx) => {
+        for (const issue of validateDiagnoses(diagnoses)) {
+            if (issue.severity !== 'error') continue;
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: issue.message,
+                path: issue.index === null ? [] : [issue.index],
+            });
+        }
+    });
+
+export const prescriptionItemsField = listOf<PrescriptionItem>('prescriptionItems phải là một danh sách thuốc')
+    .transform(value => parsePrescriptionItems(value) ?? []);
+
+const soapFields = {
+    subjective: optionalText(),
+    objective: optionalText(),
+    assessment: optionalText(),
+    plan: optionalText(),
+};
+
+// ============= Save / update =============
+
+export const saveMedicalRecordBody = z
+    .object({
+        sessionId: requiredText('Session ID là bắt buộc'),
+        ...soapFields,
+        diagnoses: diagnosesField.optional(),              // Older clients only send icdCodes
+        icdCodes: z.array(z.string()).optional(),
+        prescriptionItems: prescriptionItemsField.optional(), // Older clients only send the plan text
+        status: z.enum(['draft', 'final'], {
+            errorMap: () => ({ message: 'Status phải là "draft" hoặc "final"' }),
+        }),
+        safetyAcknowledged: z.boolean().optional(),        // Final records: blocking drug safety alerts were reviewed
+    })
+    .superRefine((body, ctx) => {
+        // For final records, ensure critical fields are present
+        if (body.status !== 'final') return;
+
+        const hasDiagnosis = body.diagnoses !== undefined
+            ? body.diagnoses.some(diagnosis => diagnosis.role === 'primary')
+            : Boolean(body.icdCodes && body.icdCodes.length > 0);
+        if (!body.assessment || !hasDiagnosis) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: 'Chẩn đoán và mã ICD-10 bệnh chính là bắt buộc khi lưu bệnh án chính thức',
+                path: body.assessment ? ['diagnoses'] : ['assessment'],
+            });
+        }
+
+        for (const issue of validatePrescription(body.prescriptionItems || [])) {
+            if (issue.severity !== 'error') continue;
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: issue.message,
+                path: ['prescriptionItems', issue.index, ...(issue.field ? [issue.field] : [])],
+            });
+        }
+    });
+
+export const updateMedicalRecordBody = z.object({
+    sessionId: requiredText('Session ID hoặc Medical Record ID là bắt buộc'),
+    medicalRecordId: z.string().optional(),
+    updates: z.object(
+        {
+            ...soapFields,
+            diagnoses: diagnosesField.optional(),          // icdCodes from older clients are converted by the service
+            icdCodes: z.array(z.string()).optional(),
+            status: z.enum(['draft', 'final']).optional(),
+        },
+        { required_error: 'Updates object là bắt buộc', invalid_type_error: 'Updates object là bắt buộc' }
+    ),
+    safetyAcknowledged: z.boolean().optional(),
+});
+
+export const saveMedicalRecord = defineContract({
+    method: 'POST',
+    path: '/medical-record/save',
+    body: saveMedicalRecordBody,
+    response: successOf<MedicalRecord>(),
+});
+
+export const updateMedicalRecord = defineContract({
+    method: 'PATCH',
+    path: '/medical-record/update',
+    body: updateMedicalRecordBody,
+    response: successOf<MedicalRecord>(),
+});
+
+// ============= Drug safety =============
+
+export interface SafetyCheckResult {
+    medications: PrescribedMedication[];
+    advice: string;
+    alerts: SafetyAlert[];
+}
+
+export const checkSafety = defineContract({
+    method: 'POST',
+    path: '/safety/check',
+    body: z.object({
+        plan: z.string({
+            required_error: 'Kế hoạch điều trị (plan) là bắt buộc',
+            invalid_type_error: 'Kế hoạch điều trị (plan) là bắt buộc',
+        }),
+        sessionId: z.string().nullish(),
+        // Checked directly when sent (no LLM extraction)
+        prescriptionItems: prescriptionItemsField.optional(),
+    }),
+    response: successOf<SafetyCheckResult>(),
+});
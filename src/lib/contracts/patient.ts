@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import type { ExaminationSession, MedicalRecord } from '../db/schema-session';
+import type { PatientSearchResult, PublicUser } from '../services/userService';
+import { defineContract, optionalText, queryInt, requiredText, responseOf } from './common';
+
+// Patient routes answer with "patient" / "patients" instead of "data" (kept for backwards compatibility)
+
+// ============= Patients =============
+
+export const createPatientBody = z.object({
+    patientData: z.object({
+        name: requiredText('Tên bệnh nhân là bắt buộc'),
+        email: z.string().trim().default(''),
+        phone: optionalText(),
+        birthDate: optionalText(),
+        gender: optionalText(),
+        address: optionalText(),
+        medicalHistory: optionalText(),
+        allergies: optionalText(),
+        bloodType: optionalText(),
+        externalPatientId: optionalText(),
+    }, { required_error: 'patientData là bắt buộc', invalid_type_error: 'patientData là bắt buộc' }),
+    force: z.boolean().optional(),   // Bypass the duplicate check
+});
+
+/**
+ * 409 body when similar patients exist (ApiClientError.body) - resend with force: true to create anyway
+ */
+export interface DuplicatePatientsBody {
+    success: false;
+    error: 'POSSIBLE_DUPLICATE';
+    duplicates: PublicUser[];
+}
+
+export const createPatient = defineContract({
+    method: 'POST',
+    path: '/patient/create',
+    body: createPatientBody,
+    response: responseOf<{ success: true; patient: PublicUser }>(),
+});
+
+export const getPatient = defineContract({
+    method: 'GET',
+    path: '/patient/:patientId',
+    response: responseOf<{ success: true; patient: PublicUser }>(),
+});
+
+export const deletePatient = defineContract({
+    method: 'DELETE',
+    path: '/patient/:patientId',
+    response: responseOf<{ success: true; message: string }>(),
+});
+
+export const getPatientSessions = defineContract({
+    method: 'GET',
+    path: '/patient/:patientId/sessions',
+    response: responseOf<{
+        success: true;
+        sessions: (ExaminationSession & { medicalRecord: MedicalRecord | null })[];
+        total: number;
+    }>(),
+});
+
+// q (or search): name, phone or display ID - without it every patient is listed
+export const listPatientsQuery = z.object({
+    q: optionalText(),
+    search: optionalText(),
+    page: queryInt(1, 1, 10_000),
+    limit: queryInt(20, 1, 100),
+});
+
+export const listPatients = defineContract({
+    method: 'GET',
+    path: '/patients',
+    query: listPatientsQuery,
+    response: responseOf<{ patients: PatientSearchResult[]; total: number; pages?: number }>(),
+});
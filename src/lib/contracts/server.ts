@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { formatValidationIssues, toValidationIssues, uuidParam, type ValidationIssue } from './common';
+
+/**
+ * Request validation for route handlers (server only)
+ * Every invalid input answers 400 { success: false, error: 'Validation error', message, issues: [{ path, message }] }
+ * Access errors answer 401 / 403 { success: false, error: 'Unauthorized' | 'Forbidden', message }
+ */
+
+export type Parsed<T> = { success: true; data: T } | { success: false; response: NextResponse };
+
+export function validationErrorResponse(issues: ValidationIssue[]) {
+    return NextResponse.json(
+        {
+            success: false,
+            error: 'Validation error',
+            message: formatValidationIssues(issues),
+            issues
+        },
+        { status: 400 }
+    );
+}
+
+/**
+ * 400 for a check that needs the database or a service (unknown ICD-10 codes, unreadable upload...)
+ */
+export function validationError(message: string, path: string = '') {
+    return validationErrorResponse([{ path, message }]);
+}
+
+export function parseWith<S extends z.ZodTypeAny>(schema: S, value: unknown): Parsed<z.output<S>> {
+    const result = schema.safeParse(value);
+    return result.success
+        ? { success: true, data: result.data }
+        : { success: false, response: validationErrorResponse(toValidationIssues(result.error)) };
+}
+
+/**
+ * JSON body - an empty body is read as undefined so schemas with a default accept it
+ */
+export async function parseJsonBody<S extends z.ZodTypeAny>(request: NextRequest, schema: S): Promise<Parsed<z.output<S>>> {
+    const text = await request.text();
+    if (!text.trim()) return parseWith(schema, undefined);
+
+    let body: unknown;
+    try {
+        body = JSON.parse(text);
+    } catch {
+        return { success: false, response: validationError('Body phải là JSON hợp lệ') };
+    }
+    return parseWith(schema, body);
+}
+
+export function parseQuery<S extends z.ZodTypeAny>(request: NextRequest, schema: S): Parsed<z.output<S>> {
+    return parseWith(schema, Object.fromEntries(request.nextUrl.searchParams));
+}
+
+/**
+ * Dynamic route segments holding row ids - a non-uuid answers 400 instead of failing the query in Postgres (500)
+ */
+export async function parseIdParams<K extends string>(
+    params: Promise<Record<K, string>>,
+    ...names: K[]
+): Promise<Parsed<Record<K, string>>> {
+    const schema = z.object(Object.fromEntries(names.map(name => [name, uuidParam(name)])));
+    return parseWith(schema, await params) as Parsed<Record<K, string>>;
+}
+
+/**
+ * multipart/form-data - files stay File, other fields are strings
+ */
+export async function parseFormData<S extends z.ZodTypeAny>(request: NextRequest, schema: S): Promise<Parsed<z.output<S>>> {
+    let formData: FormData;
+    try {
+        formData = await request.formData();
+    } catch {
+        return { success: false, response: validationError('Body phải là multipart/form-data') };
+    }
+    return parseWith(schema, Object.fromEntries(formData));
+}
+
+// ============= Access errors =============
+
+// 401 - no session or it expired (also a wrong login)
+export function unauthorizedResponse(message: string = 'Vui lòng đăng nhập') {
+    return NextResponse.json({ success: false, error: 'Unauthorized', message }, { status: 401 });
+}
+
+// 403 - signed in, but the role does not have the permission
+export function forbiddenResponse(message: string = 'Bạn không có quyền thực hiện thao tác này') {
+    return NextResponse.json({ success: false, error: 'Forbidden', message }, { status: 403 });
+}
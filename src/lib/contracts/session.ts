@@ -0,0 +1,228 @@
+import { z } from 'zod';
+import { isReadingLevel, parseInstructionsContent, READING_LEVELS, type PatientInstructions, type ReadingLevel } from '../instructions/types';
+import { VISIT_DOCUMENT_KINDS, type VisitDocumentKind } from '../documents/types';
+import type { Diagnosis } from '../diagnosis/types';
+import type { PrescriptionItem } from '../prescription/types';
+import type { ProcessedSegment, SpeakerProfile } from '../stt/types';
+import type { MedicalRecord, Session } from '../services/sessionService';
+import type { AudioRecording, SessionTranscript } from '../services/recordingService';
+import type { PublicUser } from '../services/userService';
+import {
+    defineContract,
+    formFile,
+    optionalText,
+    queryFlag,
+    requiredText,
+    responseOf,
+    successOf,
+    uuidParam,
+} from './common';
+
+// ============= Session =============
+
+/**
+ * bookingId (primary), patientId (legacy) or patientName + patientInfo (old form - the patient is created first)
+ */
+export const createSessionBody = z
+    .object({
+        bookingId: optionalText(),
+        patientId: optionalText(),
+        patientName: optionalText(),
+        chiefComplaint: optionalText(),
+        visitId: optionalText(),
+        medicalHistory: optionalText(),
+        patientInfo: z.object({
+            age: z.number().int('Tuổi phải là số nguyên').min(0, 'Tuổi không hợp lệ').max(150, 'Tuổi không hợp lệ').optional(),
+            gender: optionalText(),
+            address: optionalText(),
+            phoneNumber: optionalText(),
+        }).optional(),
+    })
+    .refine(
+        body => Boolean(body.bookingId || body.patientId || body.patientName),
+        'Mã booking, tên bệnh nhân hoặc mã bệnh nhân là bắt buộc'
+    );
+
+// The old form flow also returns the patient it created
+export type CreatedSession = Session & {
+    patientName?: string;
+    patientDisplayId?: PublicUser['displayId'];
+    patient?: PublicUser;
+};
+
+export const createSession = defineContract({
+    method: 'POST',
+    path: '/session/create',
+    body: createSessionBody,
+    response: successOf<CreatedSession>(),
+});
+
+export interface SessionDetail {
+    session: Session;
+    medicalRecord: MedicalRecord | null;
+    prescriptionItems: PrescriptionItem[];
+    diagnoses: Diagnosis[];
+}
+
+export const getSession = defineContract({
+    method: 'GET',
+    path: '/session/:sessionId',
+    response: successOf<SessionDetail>(),
+});
+
+export const deleteSession = defineContract({
+    method: 'DELETE',
+    path: '/session/:sessionId',
+    response: responseOf<{ success: true; message: string }>(),
+});
+
+// ============= Transcript & audio =============
+
+export type AudioMetadata = Pick<AudioRecording, 'id' | 'mimeType' | 'sizeBytes' | 'durationSeconds' | 'expiresAt'>;
+
+export const getSessionTranscript = defineContract({
+    method: 'GET',
+    path: '/session/:sessionId/transcript',
+    response: successOf<{
+        transcript: SessionTranscript | null;
+        audio: (AudioMetadata & Pick<AudioRecording, 'createdAt'>) | null;
+    }>(),
+});
+
+const processedSegment: z.ZodType<ProcessedSegment> = z.object({
+    start: z.number().nonnegative(),
+    end: z.number().nonnegative(),
+    speaker: z.string(),
+    role: z.string(),
+    raw_text: z.string(),
+    clean_text: z.string(),
+    correction_status: z.enum(['unchanged', 'corrected', 'rejected']).optional(),
+    corrections: z.array(z.object({
+        from: z.string(),
+        to: z.string(),
+        tokenIndex: z.number().int().nonnegative(),
+    })).optional(),
+    edited: z.boolean().optional(),
+});
+
+const speakerProfile: z.ZodType<SpeakerProfile> = z.object({
+    id: requiredText('speaker id là bắt buộc'),
+    role: z.string(),
+    embedding: z.array(z.number()).optional(),
+});
+
+// Segments after edits + original STT segments (kept for audit)
+export const saveSessionTranscriptBody = z.object({
+    segments: z.array(processedSegment, { required_error: 'segments phải là một mảng', invalid_type_error: 'segments phải là một mảng' }),
+    originalSegments: z.array(processedSegment, { invalid_type_error: 'originalSegments phải là một mảng' }).optional(),
+    speakers: z.array(speakerProfile, { invalid_type_error: 'speakers phải là một mảng' }).optional(),
+    rawText: z.string().optional(),
+});
+
+export const saveSessionTranscript = defineContract({
+    method: 'PUT',
+    path: '/session/:sessionId/transcript',
+    body: saveSessionTranscriptBody,
+    response: successOf<SessionTranscript>(),
+});
+
+// Recordings are served back from our own origin - only audio types, never text/html or image/svg+xml
+const AUDIO_MIME_TYPES = ['audio/webm', 'audio/ogg', 'audio/mp4', 'audio/mpeg', 'audio/wav', 'audio/x-wav'];
+
+/**
+ * Allowed audio type without parameters ("audio/webm;codecs=opus" → "audio/webm"), null for anything else
+ */
+export function audioMimeType(type: string): string | null {
+    const base = type.split(';')[0].trim().toLowerCase();
+    return AUDIO_MIME_TYPES.includes(base) ? base : null;
+}
+
+/**
+ * File extension for an audio type - STT providers detect the container from the file name
+ * MediaRecorder records webm (Chrome, Firefox) or mp4 (Safari), so an unknown type is taken as webm
+ */
+export function audioFileExtension(mimeType: string): string {
+    if (mimeType.includes('ogg')) return 'ogg';
+    if (mimeType.includes('mp4') || mimeType.includes('m4a')) return 'm4a';
+    if (mimeType.includes('mpeg')) return 'mp3';
+    if (mimeType.includes('wav')) return 'wav';
+    return 'webm';
+}
+
+export const uploadSessionAudio = defineContract({
+    method: 'POST',
+    path: '/session/:sessionId/audio',
+    form: z.object({
+        file: formFile('Không có file audio').refine(
+            file => audioMimeType(file.type) !== null,
+            `File ghi âm phải có định dạng ${AUDIO_MIME_TYPES.join(', ')}`
+        ),
+        duration: z.coerce.number().nonnegative('duration không hợp lệ').optional(),  // Recording length in seconds
+    }),
+    response: successOf<AudioMetadata>(),
+});
+
+// ============= Patient instructions =============
+
+const READING_LEVEL_ERROR = `readingLevel phải là một trong: ${READING_LEVELS.map(level => level.value).join(', ')}`;
+
+const readingLevelField = z.custom<ReadingLevel>(isReadingLevel, READING_LEVEL_ERROR);
+
+export const getSessionInstructions = defineContract({
+    method: 'GET',
+    path: '/session/:sessionId/instructions',
+    response: successOf<PatientInstructions | null>(),   // null if none yet
+});
+
+export const generateSessionInstructions = defineContract({
+    method: 'POST',
+    path: '/session/:sessionId/instructions',
+    body: z.object({ readingLevel: readingLevelField.default('standard') }).default({}),
+    response: successOf<PatientInstructions>(),
+});
+
+export const saveSessionInstructionsBody = z
+    .object({
+        readingLevel: readingLevelField,
+        status: z.enum(['draft', 'approved'], {
+            errorMap: () => ({ message: 'status phải là "draft" hoặc "approved"' }),
+        }),
+        content: z.record(z.unknown(), {
+            required_error: 'content là bắt buộc',
+            invalid_type_error: 'content là bắt buộc',
+        }),
+    })
+    .transform(body => ({ ...body, content: parseInstructionsContent(body.content) }))
+    .superRefine((body, ctx) => {
+        if (body.status === 'approved' && (!body.content.diagnosis || body.content.warningSigns.length === 0)) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: 'Hướng dẫn cần có phần giải thích bệnh và dấu hiệu cần tái khám ngay trước khi duyệt',
+                path: ['content'],
+            });
+        }
+    });
+
+export const saveSessionInstructions = defineContract({
+    method: 'PUT',
+    path: '/session/:sessionId/instructions',
+    body: saveSessionInstructionsBody,
+    response: successOf<PatientInstructions>(),
+});
+
+// ============= Printable documents =============
+
+/**
+ * GET /api/session/:sessionId/documents/:kind returns the file itself, so it has no apiClient method
+ */
+export const visitDocumentParams = z.object({
+    sessionId: uuidParam('sessionId'),
+    kind: z.enum(VISIT_DOCUMENT_KINDS as [VisitDocumentKind, ...VisitDocumentKind[]], {
+        errorMap: () => ({ message: `Loại tài liệu phải là một trong: ${VISIT_DOCUMENT_KINDS.join(', ')}` }),
+    }),
+});
+
+export const visitDocumentQuery = z.object({
+    format: z.enum(['html', 'pdf'], { errorMap: () => ({ message: 'format phải là "html" hoặc "pdf"' }) }).default('html'),
+    download: queryFlag(),
+});
@@ -7,6 +7,13 @@ import * as usersSchema from './schema-users';
 import * as bookingSchema from './schema-booking';
 import * as sessionSchema from './schema-session';
 import * as comparisonSchema from './schema';
+import * as lexiconSchema from './schema-lexicon';
+import * as transcriptSchema from './schema-transcript';
+import * as prescriptionSchema from './schema-prescription';
+import * as diagnosisSchema from './schema-diagnosis';
+import * as instructionsSchema from './schema-instructions';
+import * as knowledgeSchema from './schema-knowledge';
+import * as icd10Schema from './schema-icd10';
 
 // Supabase client for authentication and storage features
 // Only initialize if environment variables are present (prevents build errors)
@@ -30,14 +37,28 @@ export const db = client ? drizzle(client, {
         ...bookingSchema,
         ...sessionSchema,
         ...comparisonSchema,
+        ...lexiconSchema,
+        ...transcriptSchema,
+        ...prescriptionSchema,
+        ...diagnosisSchema,
+        ...instructionsSchema,
+        ...knowledgeSchema,
+        ...icd10Schema,
     }
 }) : null as any;
 
 // Export all schemas for type reference
-export { usersSchema, bookingSchema, sessionSchema, comparisonSchema };
+export { usersSchema, bookingSchema, sessionSchema, comparisonSchema, lexiconSchema, transcriptSchema, prescriptionSchema, diagnosisSchema, instructionsSchema, knowledgeSchema, icd10Schema };
 
 // Export specific tables for convenience
 export { users } from './schema-users';
 export { clinics, services, clinic_services, bookings } from './schema-booking';
 export { examinationSessions, medicalRecords } from './schema-session';
 export { comparisonRecords } from './schema';
+export { sttLexiconEntries } from './schema-lexicon';
+export { sessionTranscripts, sessionAudioRecordings } from './schema-transcript';
+export { prescriptionItems } from './schema-prescription';
+export { medicalRecordDiagnoses } from './schema-diagnosis';
+export { patientInstructions } from './schema-instructions';
+export { knowledgeChunks, knowledgeDocuments } from './schema-knowledge';
+export { icd10Blocks, icd10Codes, icd10Imports } from './schema-icd10';
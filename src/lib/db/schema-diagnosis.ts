@@ -0,0 +1,38 @@
+import { pgTable, uuid, varchar, text, integer, timestamp, uniqueIndex } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { medicalRecords } from './schema-session';
+
+/**
+ * Medical Record Diagnoses Table
+ * Chẩn đoán có cấu trúc của bệnh án - one bệnh chính (primary) and the bệnh kèm theo (secondary)
+ * medicalRecords.icdCodes / diagnosis are generated from these rows
+ */
+export const medicalRecordDiagnoses = pgTable('medical_record_diagnoses', {
+    // Primary Key
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    // Foreign Key
+    medicalRecordId: uuid('medical_record_id')
+        .references(() => medicalRecords.id, { onDelete: 'cascade' })
+        .notNull(),
+
+    // Order in the record (the primary diagnosis comes first)
+    position: integer('position').notNull().default(0),
+
+    role: varchar('role', { length: 20 }).notNull(),                           // primary | secondary
+    icdCode: varchar('icd_code', { length: 10 }).notNull(),                   // K29.7
+    label: text('label').notNull(),                                           // Tên bệnh as written by the doctor
+    certainty: varchar('certainty', { length: 20 }).notNull().default('confirmed'), // confirmed | suspected | rule_out
+
+    // Timestamps
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+    uniqueIndex('medical_record_diagnoses_code_idx').on(table.medicalRecordId, table.icdCode),
+    // At most one bệnh chính per record
+    uniqueIndex('medical_record_diagnoses_primary_idx').on(table.medicalRecordId).where(sql`role = 'primary'`),
+]);
+
+// Type exports
+export type MedicalRecordDiagnosisRow = typeof medicalRecordDiagnoses.$inferSelect;
+export type NewMedicalRecordDiagnosisRow = typeof medicalRecordDiagnoses.$inferInsert;
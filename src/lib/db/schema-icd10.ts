@@ -0,0 +1,53 @@
+import { pgTable, uuid, varchar, text, boolean, integer, timestamp, index } from 'drizzle-orm/pg-core';
+
+/**
+ * ICD-10 catalogue (Bộ Y tế Vietnamese edition)
+ * Loaded with scripts/icd10-import.ts - read-only for the app
+ * - icd10_blocks: nhóm bệnh, e.g. "K20-K31 Bệnh thực quản, dạ dày và tá tràng"
+ * - icd10_codes: loại (K29) and mã bệnh (K29.7); only codes without children are billable
+ */
+export const icd10Blocks = pgTable('icd10_blocks', {
+    code: varchar('code', { length: 10 }).primaryKey(),        // "K20-K31"
+    nameVi: text('name_vi').notNull(),
+    nameEn: text('name_en'),
+    chapter: varchar('chapter', { length: 5 }).notNull(),       // "XI"
+
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const icd10Codes = pgTable('icd10_codes', {
+    code: varchar('code', { length: 10 }).primaryKey(),        // "K29.7"
+    nameVi: text('name_vi').notNull(),
+    nameEn: text('name_en'),
+    chapter: varchar('chapter', { length: 5 }).notNull(),
+    block: varchar('block', { length: 10 }),
+    parentCode: varchar('parent_code', { length: 10 }),       // "K29"
+    billable: boolean('billable').notNull().default(true),
+
+    // Code + names without diacritics, lower case ("k29.7 viem da day, khong dac hieu ...") - searched with ILIKE
+    searchText: text('search_text').notNull(),
+
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+    index('icd10_codes_search_idx').using('gin', table.searchText.op('gin_trgm_ops')),
+    index('icd10_codes_parent_idx').on(table.parentCode),
+]);
+
+/**
+ * One row per run of scripts/icd10-import.ts
+ * complete: the file was the full catalogue (--replace) - until then codes missing from the table
+ * may still be valid, so validation falls back to the code format for them
+ */
+export const icd10Imports = pgTable('icd10_imports', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    source: text('source').notNull(),                          // File name
+    codes: integer('codes').notNull(),
+    complete: boolean('complete').notNull(),
+
+    importedAt: timestamp('imported_at').defaultNow().notNull(),
+});
+
+// Type exports
+export type Icd10BlockRow = typeof icd10Blocks.$inferSelect;
+export type Icd10CodeRow = typeof icd10Codes.$inferSelect;
+export type NewIcd10CodeRow = typeof icd10Codes.$inferInsert;
@@ -0,0 +1,36 @@
+import { pgTable, uuid, varchar, jsonb, timestamp } from 'drizzle-orm/pg-core';
+import { medicalRecords } from './schema-session';
+
+/**
+ * Patient Instructions Table
+ * Hướng dẫn cho bệnh nhân (ngôn ngữ dễ hiểu) đính kèm bệnh án - một bản cho mỗi bệnh án
+ * Only approved instructions are printed / exported
+ */
+export const patientInstructions = pgTable('patient_instructions', {
+    // Primary Key
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    // Foreign Key (one instructions document per medical record)
+    medicalRecordId: uuid('medical_record_id')
+        .references(() => medicalRecords.id, { onDelete: 'cascade' })
+        .notNull()
+        .unique(),
+
+    readingLevel: varchar('reading_level', { length: 20 }).notNull().default('standard'), // simple | standard | detailed
+
+    // Content shown to the patient (edited by the doctor) and the original AI draft (audit)
+    content: jsonb('content').notNull(),
+    generatedContent: jsonb('generated_content'),
+
+    // Review: draft | approved
+    status: varchar('status', { length: 20 }).notNull().default('draft'),
+    approvedAt: timestamp('approved_at'),
+
+    // Timestamps
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Type exports
+export type PatientInstructionsRow = typeof patientInstructions.$inferSelect;
+export type NewPatientInstructionsRow = typeof patientInstructions.$inferInsert;
@@ -0,0 +1,78 @@
+import { pgTable, uuid, varchar, text, integer, jsonb, boolean, date, timestamp, vector, index } from 'drizzle-orm/pg-core';
+
+// Size of the vector column - must match the embedding model (text-embedding-004: 768)
+// Changing it needs a new migration and a rebuild of the index
+export const KNOWLEDGE_EMBEDDING_DIMENSIONS = 768;
+
+/**
+ * Knowledge Chunks Table
+ * Đoạn phác đồ / y văn đã embedding cho RAG (pgvector)
+ * Mirrors data/vector_store/db.json - rows are upserted by chunk_id when their content hash changes
+ */
+export const knowledgeChunks = pgTable('knowledge_chunks', {
+    // Primary Key
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    // "<source>#<position>" - stable id from the vector index
+    chunkId: varchar('chunk_id', { length: 255 }).notNull().unique(),
+
+    // Metadata filters
+    source: varchar('source', { length: 255 }).notNull(),   // Protocol file, e.g. "tang_huyet_ap.md"
+    specialty: varchar('specialty', { length: 100 }),       // e.g. "tim-mach"
+    version: varchar('version', { length: 50 }),            // Protocol version, e.g. "2023"
+    position: integer('position').notNull(),
+
+    content: text('content').notNull(),
+    contentHash: varchar('content_hash', { length: 64 }).notNull(),
+    metadata: jsonb('metadata'),
+
+    // "<provider>/<name>@<version> (<dimensions>d)" - vectors of different models are never mixed
+    embeddingModel: varchar('embedding_model', { length: 255 }).notNull(),
+    embedding: vector('embedding', { dimensions: KNOWLEDGE_EMBEDDING_DIMENSIONS }).notNull(),
+
+    // Timestamps
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+    index('knowledge_chunks_embedding_idx').using('hnsw', table.embedding.op('vector_cosine_ops')),
+    index('knowledge_chunks_source_idx').on(table.source),
+    index('knowledge_chunks_specialty_idx').on(table.specialty),
+]);
+
+/**
+ * Knowledge Documents Table
+ * Phác đồ do quản trị viên tải lên (markdown / PDF / DOCX đã chuyển sang markdown)
+ * Indexed together with the built-in files of data/knowledge_base/protocols
+ */
+export const knowledgeDocuments = pgTable('knowledge_documents', {
+    // Primary Key
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    // Name in the vector index and in references, e.g. "hen-phe-quan.md"
+    source: varchar('source', { length: 255 }).notNull().unique(),
+    title: varchar('title', { length: 255 }).notNull(),
+
+    // Upload: 'markdown' | 'pdf' | 'docx'
+    format: varchar('format', { length: 20 }).notNull(),
+    originalFilename: varchar('original_filename', { length: 255 }),
+    content: text('content').notNull(),  // Markdown that gets chunked
+
+    // Tags
+    specialty: varchar('specialty', { length: 100 }),
+    icdChapters: jsonb('icd_chapters').$type<string[]>().notNull().default([]),
+    effectiveDate: date('effective_date'),
+    issuingBody: varchar('issuing_body', { length: 255 }),
+
+    // Inactive documents are dropped from the index on the next re-index
+    isActive: boolean('is_active').notNull().default(true),
+
+    // Timestamps
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Type exports
+export type KnowledgeChunkRow = typeof knowledgeChunks.$inferSelect;
+export type NewKnowledgeChunkRow = typeof knowledgeChunks.$inferInsert;
+export type KnowledgeDocumentRow = typeof knowledgeDocuments.$inferSelect;
+export type NewKnowledgeDocumentRow = typeof knowledgeDocuments.$inferInsert;
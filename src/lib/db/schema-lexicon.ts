@@ -0,0 +1,36 @@
+import { pgTable, uuid, varchar, text, boolean, timestamp } from 'drizzle-orm/pg-core';
+import { examinationSessions } from './schema-session';
+
+/**
+ * STT Lexicon Table
+ * Từ điển riêng của phòng khám dùng để hiệu chỉnh transcript
+ * - correction: cụm từ Whisper hay nghe nhầm → cụm từ đúng (thay thế trực tiếp trước khi gọi LLM)
+ * - term: tên thuốc / thuật ngữ đúng cần giữ nguyên (whitelist + gợi ý cho Whisper)
+ */
+export const sttLexiconEntries = pgTable('stt_lexicon_entries', {
+    // Primary Key
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    // Entry type: 'correction' | 'term'
+    kind: varchar('kind', { length: 20 }).notNull().default('correction'),
+
+    misheard: text('misheard'),      // Chỉ dùng cho 'correction' - VD: "đau thượng vịt"
+    correct: text('correct').notNull(), // VD: "đau thượng vị", "Esomeprazole"
+    note: text('note'),
+
+    // Where the entry came from: 'admin' | 'transcript'
+    source: varchar('source', { length: 20 }).notNull().default('admin'),
+    // Session whose transcript correction created this entry (audit)
+    sourceSessionId: uuid('source_session_id')
+        .references(() => examinationSessions.id, { onDelete: 'set null' }),
+
+    isActive: boolean('is_active').notNull().default(true),
+
+    // Timestamps
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Type exports
+export type SttLexiconEntry = typeof sttLexiconEntries.$inferSelect;
+export type NewSttLexiconEntry = typeof sttLexiconEntries.$inferInsert;
@@ -0,0 +1,42 @@
+import { pgTable, uuid, varchar, text, integer, timestamp } from 'drizzle-orm/pg-core';
+import { medicalRecords } from './schema-session';
+
+/**
+ * Prescription Items Table
+ * Đơn thuốc có cấu trúc của bệnh án - mỗi dòng là một thuốc
+ * medicalRecords.prescription / plan are generated from these rows
+ */
+export const prescriptionItems = pgTable('prescription_items', {
+    // Primary Key
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    // Foreign Key
+    medicalRecordId: uuid('medical_record_id')
+        .references(() => medicalRecords.id, { onDelete: 'cascade' })
+        .notNull(),
+
+    // Order in the prescription
+    position: integer('position').notNull().default(0),
+
+    // Drug
+    drugName: varchar('drug_name', { length: 255 }).notNull(),       // Tên thuốc (biệt dược hoặc hoạt chất)
+    activeIngredient: varchar('active_ingredient', { length: 255 }), // Hoạt chất - dùng kiểm tra trùng
+    strength: varchar('strength', { length: 100 }),                  // Hàm lượng: 500mg
+    form: varchar('form', { length: 100 }),                          // Dạng bào chế: viên nén, gói...
+
+    // Posology
+    dose: varchar('dose', { length: 100 }),             // Liều mỗi lần: 1 viên
+    frequency: varchar('frequency', { length: 100 }),   // 2 lần/ngày
+    duration: varchar('duration', { length: 100 }),     // 7 ngày
+    route: varchar('route', { length: 50 }),            // Uống, tiêm...
+    quantity: integer('quantity'),                      // Tổng số lượng cấp (theo đơn vị dạng bào chế)
+    instructions: text('instructions'),                 // Uống sau ăn...
+
+    // Timestamps
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Type exports
+export type PrescriptionItemRow = typeof prescriptionItems.$inferSelect;
+export type NewPrescriptionItemRow = typeof prescriptionItems.$inferInsert;
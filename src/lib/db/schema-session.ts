@@ -59,11 +59,11 @@ export const medicalRecords = pgTable('medical_records', {
     assessment: text('assessment'), // Chẩn đoán
     plan: text('plan'),             // Kế hoạch điều trị
 
-    // ICD-10 Codes (MEA)
-    icdCodes: jsonb('icd_codes'), // Array of ICD codes: ["K29.7", "I10"]
+    // ICD-10 Codes (MEA) - generated from medical_record_diagnoses: main disease first, rule-outs left out
+    icdCodes: jsonb('icd_codes').$type<string[]>(), // ["K29.7", "I10"]
 
     // Additional fields from Booking (may overlap with SOAP)
-    diagnosis: text('diagnosis'),     // May overlap with assessment
+    diagnosis: text('diagnosis'),     // Bệnh chính / bệnh kèm theo, generated from medical_record_diagnoses
     prescription: text('prescription'), // May overlap with plan
 
     // Record Status
@@ -0,0 +1,69 @@
+import { pgTable, uuid, varchar, text, integer, real, timestamp, jsonb } from 'drizzle-orm/pg-core';
+import { examinationSessions } from './schema-session';
+
+/**
+ * Session Transcripts Table
+ * Lưu hội thoại (STT) của mỗi phiên khám - một transcript cho mỗi phiên
+ */
+export const sessionTranscripts = pgTable('session_transcripts', {
+    // Primary Key
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    // Foreign Key (one transcript per session)
+    sessionId: uuid('session_id')
+        .references(() => examinationSessions.id, { onDelete: 'cascade' })
+        .notNull()
+        .unique(),
+
+    // Segments after the doctor's edits - ProcessedSegment[] (start, end, speaker, role, raw_text, clean_text...)
+    segments: jsonb('segments').notNull(),
+    // STT output before any manual edit (audit)
+    originalSegments: jsonb('original_segments'),
+    // Speaker clusters - SpeakerProfile[] (embeddings stripped)
+    speakers: jsonb('speakers'),
+    rawText: text('raw_text'),
+
+    // Processing metadata
+    sttProvider: varchar('stt_provider', { length: 50 }),
+    sttModel: varchar('stt_model', { length: 100 }),
+    diarizationProvider: varchar('diarization_provider', { length: 50 }),
+    durationSeconds: real('duration_seconds'),
+
+    // Timestamps
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+/**
+ * Session Audio Recordings Table
+ * Metadata của file ghi âm - nội dung file nằm trong storage (local FS hoặc S3-compatible)
+ */
+export const sessionAudioRecordings = pgTable('session_audio_recordings', {
+    // Primary Key
+    id: uuid('id').primaryKey().defaultRandom(),
+
+    // Foreign Key
+    sessionId: uuid('session_id')
+        .references(() => examinationSessions.id, { onDelete: 'cascade' })
+        .notNull(),
+
+    // Storage location
+    storageBackend: varchar('storage_backend', { length: 20 }).notNull(), // 'local' | 's3'
+    storageKey: text('storage_key').notNull(),
+
+    mimeType: varchar('mime_type', { length: 100 }).notNull(),
+    sizeBytes: integer('size_bytes').notNull(),
+    durationSeconds: real('duration_seconds'),
+
+    // Retention - file is purged after this date (null = keep forever)
+    expiresAt: timestamp('expires_at'),
+
+    // Timestamps
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Type exports
+export type SessionTranscript = typeof sessionTranscripts.$inferSelect;
+export type NewSessionTranscript = typeof sessionTranscripts.$inferInsert;
+export type SessionAudioRecording = typeof sessionAudioRecordings.$inferSelect;
+export type NewSessionAudioRecording = typeof sessionAudioRecordings.$inferInsert;
@@ -11,7 +11,7 @@ export const comparisonRecords = pgTable('comparison_records', {
     timestamp: timestamp('timestamp').defaultNow().notNull(),
 
     // AI Results (Stored as JSONB)
-    // Contains: soap, icdCodes, medicalAdvice, references
+    // Contains: soap, icdCodes, medicalAdvice, citations
     aiResults: jsonb('ai_results').notNull(),
 
     // Doctor's Results (Stored as JSONB)
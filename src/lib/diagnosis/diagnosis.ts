@@ -0,0 +1,192 @@
+import { normalizeIcd10Code } from '../icd10/types';
+import {
+    DIAGNOSIS_CERTAINTIES,
+    DIAGNOSIS_CERTAINTY_LABELS,
+    DIAGNOSIS_ROLE_LABELS,
+    type Diagnosis,
+    type DiagnosisCertainty,
+    type DiagnosisIssue,
+} from './types';
+
+/**
+ * Diagnosis helpers (pure - used on both client and server)
+ */
+
+function asText(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+}
+
+// "k297" → "K29.7"; anything that does not look like a code is kept as typed so validation can report it
+function toIcdCode(value: unknown): string {
+    const text = asText(value);
+    return normalizeIcd10Code(text) || text.toUpperCase();
+}
+
+// Legacy icdCodes entries: "K29.7" or "K29.7 - Viêm dạ dày"
+function splitCodeLabel(value: string): { code: string; label: string } {
+    const [code, ...label] = value.split(' - ');
+    return { code: code.trim(), label: label.join(' - ').trim() };
+}
+
+/**
+ * Diagnoses from an untrusted request body (null when it is not a list)
+ * A list of legacy strings is read like icdCodes; otherwise the roles are kept as sent - see validateDiagnoses
+ */
+export function parseDiagnoses(raw: unknown): Diagnosis[] | null {
+    if (!Array.isArray(raw)) return null;
+    if (raw.length > 0 && raw.every(value => typeof value === 'string')) return diagnosesFromIcdCodes(raw);
+
+    return raw.map(value => {
+        if (typeof value === 'string') {
+            const { code, label } = splitCodeLabel(value);
+            return { role: 'secondary' as const, icdCode: toIcdCode(code), label, certainty: 'confirmed' as const };
+        }
+
+        const item = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+        return {
+            role: item.role === 'primary' ? 'primary' as const : 'secondary' as const,
+            icdCode: toIcdCode(item.icdCode ?? item.code),
+            label: asText(item.label ?? item.description),
+            certainty: DIAGNOSIS_CERTAINTIES.includes(item.certainty as DiagnosisCertainty)
+                ? item.certainty as DiagnosisCertainty
+                : 'confirmed',
+        };
+    });
+}
+
+/**
+ * Primary first, comorbidities in the order the doctor added them
+ */
+export function orderDiagnoses(diagnoses: Diagnosis[]): Diagnosis[] {
+    return [...diagnoses].sort((a, b) => Number(b.role === 'primary') - Number(a.role === 'primary'));
+}
+
+/**
+ * Make the diagnosis at index the main disease (the previous one becomes a comorbidity)
+ */
+export function setPrimaryDiagnosis(diagnoses: Diagnosis[], index: number): Diagnosis[] {
+    return orderDiagnoses(diagnoses.map((diagnosis, idx) => ({
+        ...diagnosis,
+        role: idx === index ? 'primary' : 'secondary',
+    })));
+}
+
+/**
+ * Keeps exactly one primary when the list was built without one (legacy codes, removed primary):
+ * the first diagnosis that is not a rule-out
+ */
+export function ensurePrimaryDiagnosis(diagnoses: Diagnosis[]): Diagnosis[] {
+    if (diagnoses.length === 0 || diagnoses.some(diagnosis => diagnosis.role === 'primary')) return diagnoses;
+
+    const index = diagnoses.findIndex(diagnosis => diagnosis.certainty !== 'rule_out');
+    return setPrimaryDiagnosis(diagnoses, index === -1 ? 0 : index);
+}
+
+/**
+ * Diagnoses from the legacy icdCodes list - the first code was the main disease
+ */
+export function diagnosesFromIcdCodes(codes: string[]): Diagnosis[] {
+    const seen = new Set<string>();
+    const diagnoses: Diagnosis[] = [];
+
+    for (const value of codes) {
+        const { code, label } = splitCodeLabel(String(value));
+        const icdCode = toIcdCode(code);
+        if (!icdCode || seen.has(icdCode)) continue;
+        seen.add(icdCode);
+        diagnoses.push({ role: diagnoses.length === 0 ? 'primary' : 'secondary', icdCode, label, certainty: 'confirmed' });
+    }
+    return diagnoses;
+}
+
+/**
+ * Diagnoses from the ICD-10 agent suggestions (its primary code becomes the main disease)
+ */
+export function diagnosesFromSuggestions(
+    suggestions: { code: string; description: string; type?: 'primary' | 'secondary' }[]
+): Diagnosis[] {
+    const diagnoses = new Map<string, Diagnosis>();
+    for (const item of suggestions) {
+        const icdCode = toIcdCode(item.code);
+        if (!icdCode || diagnoses.has(icdCode)) continue;
+        diagnoses.set(icdCode, {
+            role: item.type === 'primary' && ![...diagnoses.values()].some(existing => existing.role === 'primary') ? 'primary' : 'secondary',
+            icdCode,
+            label: item.description.trim(),
+            certainty: 'confirmed',
+        });
+    }
+    return ensurePrimaryDiagnosis(orderDiagnoses([...diagnoses.values()]));
+}
+
+/**
+ * Check the diagnoses before saving
+ * - every diagnosis needs an ICD-10 code, at most once (errors)
+ * - exactly one main disease, which cannot be a rule-out (errors)
+ * - missing label (warning - the catalogue name is used)
+ */
+export function validateDiagnoses(diagnoses: Diagnosis[]): DiagnosisIssue[] {
+    const issues: DiagnosisIssue[] = [];
+    const seen = new Set<string>();
+
+    diagnoses.forEach((diagnosis, index) => {
+        if (!diagnosis.icdCode) {
+            issues.push({ index, severity: 'error', message: `Chẩn đoán ${index + 1}: thiếu mã ICD-10` });
+            return;
+        }
+        if (seen.has(diagnosis.icdCode)) {
+            issues.push({ index, severity: 'error', message: `${diagnosis.icdCode} được ghi nhiều lần` });
+        }
+        seen.add(diagnosis.icdCode);
+
+        if (!diagnosis.label) {
+            issues.push({ index, severity: 'warning', message: `${diagnosis.icdCode}: chưa ghi tên bệnh` });
+        }
+        if (diagnosis.role === 'primary' && diagnosis.certainty === 'rule_out') {
+            issues.push({ index, severity: 'error', message: `${diagnosis.icdCode}: bệnh chính không thể là chẩn đoán loại trừ` });
+        }
+    });
+
+    const primaries = diagnoses.filter(diagnosis => diagnosis.role === 'primary').length;
+    if (diagnoses.length > 0 && primaries === 0) {
+        issues.push({ index: null, severity: 'error', message: 'Chưa chọn bệnh chính' });
+    } else if (primaries > 1) {
+        issues.push({ index: null, severity: 'error', message: 'Chỉ được chọn một bệnh chính' });
+    }
+
+    return issues;
+}
+
+/**
+ * Codes kept in medicalRecords.icdCodes and sent to HIS - main disease first, rule-outs left out
+ */
+export function icdCodesFromDiagnoses(diagnoses: Diagnosis[]): string[] {
+    return [...new Set(orderDiagnoses(diagnoses)
+        .filter(diagnosis => diagnosis.certainty !== 'rule_out' && diagnosis.icdCode)
+        .map(diagnosis => diagnosis.icdCode))];
+}
+
+/**
+ * "K29.7 - Viêm dạ dày (nghi ngờ)"
+ */
+export function formatDiagnosis(diagnosis: Diagnosis): string {
+    const certainty = diagnosis.certainty === 'confirmed'
+        ? ''
+        : ` (${DIAGNOSIS_CERTAINTY_LABELS[diagnosis.certainty].toLowerCase()})`;
+    return `${diagnosis.icdCode}${diagnosis.label ? ` - ${diagnosis.label}` : ''}${certainty}`;
+}
+
+/**
+ * Diagnosis text (stored in medicalRecords.diagnosis):
+ * Bệnh chính: K29.7 - Viêm dạ dày
+ * Bệnh kèm theo: I10 - Tăng huyết áp; E11.9 - Đái tháo đường type 2 (nghi ngờ)
+ */
+export function formatDiagnoses(diagnoses: Diagnosis[]): string {
+    const primary = diagnoses.filter(diagnosis => diagnosis.role === 'primary').map(formatDiagnosis);
+    const secondary = diagnoses.filter(diagnosis => diagnosis.role === 'secondary').map(formatDiagnosis);
+
+    return [
+        primary.length > 0 ? `${DIAGNOSIS_ROLE_LABELS.primary}: ${primary.join('; ')}` : '',
+        secondary.length > 0 ? `${DIAGNOSIS_ROLE_LABELS.secondary}: ${secondary.join('; ')}` : '',
+    ].filter(Boolean).join('\n');
+}
@@ -0,0 +1,36 @@
+/**
+ * Structured diagnoses (chẩn đoán) of a medical record - one ICD-10 code per diagnosis
+ * Insurance forms need the main disease (bệnh chính) apart from the comorbidities (bệnh kèm theo)
+ * Shared by the ICD-10 picker (client), the save API and the diagnosis service
+ */
+export type DiagnosisRole = 'primary' | 'secondary';
+
+export type DiagnosisCertainty = 'confirmed' | 'suspected' | 'rule_out';
+
+export interface Diagnosis {
+    role: DiagnosisRole;
+    icdCode: string;                // "K29.7"
+    label: string;                  // Tên bệnh as written by the doctor (defaults to the catalogue name)
+    certainty: DiagnosisCertainty;
+}
+
+export interface DiagnosisIssue {
+    index: number | null;           // null for list-level problems (no primary...)
+    severity: 'error' | 'warning';  // errors block the final save
+    message: string;
+}
+
+export const DIAGNOSIS_ROLES: DiagnosisRole[] = ['primary', 'secondary'];
+
+export const DIAGNOSIS_CERTAINTIES: DiagnosisCertainty[] = ['confirmed', 'suspected', 'rule_out'];
+
+export const DIAGNOSIS_ROLE_LABELS: Record<DiagnosisRole, string> = {
+    primary: 'Bệnh chính',
+    secondary: 'Bệnh kèm theo',
+};
+
+export const DIAGNOSIS_CERTAINTY_LABELS: Record<DiagnosisCertainty, string> = {
+    confirmed: 'Xác định',
+    suspected: 'Nghi ngờ',
+    rule_out: 'Loại trừ',
+};
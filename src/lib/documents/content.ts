@@ -0,0 +1,127 @@
+import QRCode from 'qrcode';
+import type { PrescriptionItem } from '../prescription/types';
+import { formatDiagnoses } from '../diagnosis/diagnosis';
+import type { PatientInstructionsContent } from '../instructions/types';
+import type { VisitDocumentData, VisitDocumentKind } from './types';
+
+/**
+ * Text content shared by the HTML and PDF renderers - both layouts print exactly the same wording
+ */
+
+export const DOCUMENT_TITLES: Record<VisitDocumentKind, string> = {
+    prescription: 'ĐƠN THUỐC',
+    summary: 'TÓM TẮT LẦN KHÁM',
+    instructions: 'HƯỚNG DẪN CHO BỆNH NHÂN',
+};
+
+// "Ngày 18 tháng 10 năm 2026" (signature line of Vietnamese medical documents)
+export function formatDocumentDate(date: Date): string {
+    const d = new Date(date);
+    return `Ngày ${String(d.getDate()).padStart(2, '0')} tháng ${String(d.getMonth() + 1).padStart(2, '0')} năm ${d.getFullYear()}`;
+}
+
+export function formatGender(gender: string | null): string {
+    if (!gender) return '';
+    const map: Record<string, string> = { male: 'Nam', female: 'Nữ', other: 'Khác' };
+    return map[gender.toLowerCase()] || gender;
+}
+
+export function clinicContactLine(clinic: VisitDocumentData['clinic']): string {
+    return [clinic.phone && `ĐT: ${clinic.phone}`, clinic.email && `Email: ${clinic.email}`].filter(Boolean).join(' - ');
+}
+
+export function patientAgeGender(patient: VisitDocumentData['patient']): string {
+    return [patient.age !== null ? `${patient.age} tuổi` : '', formatGender(patient.gender)].filter(Boolean).join(' - ');
+}
+
+export function diagnosisLine(record: VisitDocumentData['record']): string {
+    // "Bệnh chính: K29.7 - Viêm dạ dày; Bệnh kèm theo: I10 - Tăng huyết áp"
+    if (record.diagnoses.length > 0) return formatDiagnoses(record.diagnoses).replace(/\n/g, '; ');
+
+    const icd = record.icdCodes.length > 0 ? ` (${record.icdCodes.join(', ')})` : '';
+    return `${record.assessment.replace(/\s*\n\s*/g, '; ') || 'Chưa ghi nhận'}${icd}`;
+}
+
+// ============= Prescription =============
+
+export interface PrescriptionLine {
+    name: string;      // Augmentin 625mg
+    detail: string;    // Amoxicillin/Clavulanate - viên nén
+    quantity: string;  // SL: 14 viên nén
+    usage: string;     // Uống 1 viên x 2 lần/ngày x 7 ngày. Uống sau ăn
+}
+
+export function prescriptionLine(item: PrescriptionItem): PrescriptionLine {
+    const route = item.route ? item.route.charAt(0).toUpperCase() + item.route.slice(1) : '';
+    const posology = [item.dose, item.frequency, item.duration].filter(Boolean).join(' x ');
+
+    return {
+        name: [item.drugName, item.strength].filter(Boolean).join(' '),
+        detail: [item.activeIngredient !== item.drugName ? item.activeIngredient : null, item.form].filter(Boolean).join(' - '),
+        quantity: item.quantity !== null ? `SL: ${item.quantity}${item.form ? ` ${item.form.toLowerCase()}` : ''}` : '',
+        usage: [[route, posology].filter(Boolean).join(' '), item.instructions].filter(Boolean).join('. '),
+    };
+}
+
+// ============= Visit Summary =============
+
+export interface SummarySection {
+    heading: string;
+    body: string;
+}
+
+/**
+ * Plain-language sections of the visit summary, in the order the patient reads them
+ */
+export function summarySections(data: VisitDocumentData): SummarySection[] {
+    return [
+        { heading: 'Lý do bạn đến khám', body: data.visit.chiefComplaint || data.record.subjective },
+        { heading: 'Bác sĩ ghi nhận', body: data.record.objective },
+        { heading: 'Chẩn đoán', body: diagnosisLine(data.record) },
+        { heading: 'Lời dặn của bác sĩ', body: data.record.advice },
+    ].filter(section => section.body.trim());
+}
+
+// ============= Patient Instructions =============
+
+export interface InstructionSection {
+    heading: string;
+    body?: string;
+    items?: string[];
+}
+
+/**
+ * Sections of the approved patient instructions (empty sections are skipped)
+ */
+export function instructionSections(content: PatientInstructionsContent): InstructionSection[] {
+    const sections: InstructionSection[] = [
+        { heading: 'Bệnh của bạn', body: content.diagnosis },
+        { heading: 'Cách dùng thuốc', items: content.medications.map(med => `${med.drugName}: ${med.instructions}`) },
+        { heading: 'Chăm sóc tại nhà', items: content.selfCare },
+        { heading: 'Quay lại khám NGAY nếu có một trong các dấu hiệu sau', items: content.warningSigns },
+        { heading: 'Tái khám', body: content.followUp },
+    ];
+    return sections.filter(section => section.body?.trim() || section.items?.length);
+}
+
+// ============= QR Code =============
+
+/**
+ * QR content for the booking: BOOKING_QR_URL with "{displayId}" (e.g. a lookup page), or the bare displayId
+ */
+export function bookingQrContent(booking: VisitDocumentData['booking']): string | null {
+    if (!booking?.displayId) return null;
+
+    const template = process.env.BOOKING_QR_URL;
+    return template
+        ? template.replace('{displayId}', encodeURIComponent(booking.displayId))
+        : booking.displayId;
+}
+
+export async function qrSvg(content: string): Promise<string> {
+    return QRCode.toString(content, { type: 'svg', margin: 1, errorCorrectionLevel: 'M' });
+}
+
+export async function qrPng(content: string): Promise<Buffer> {
+    return QRCode.toBuffer(content, { type: 'png', margin: 1, width: 240, errorCorrectionLevel: 'M' });
+}
@@ -0,0 +1,187 @@
+import {
+    DOCUMENT_TITLES,
+    bookingQrContent,
+    clinicContactLine,
+    diagnosisLine,
+    formatDocumentDate,
+    instructionSections,
+    patientAgeGender,
+    prescriptionLine,
+    qrSvg,
+    summarySections,
+} from './content';
+import type { VisitDocumentData, VisitDocumentKind } from './types';
+
+/**
+ * Standalone HTML documents (inline CSS, A5 print layout) - open in a tab and print
+ */
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+// Escaped text with line breaks kept
+function multiline(text: string): string {
+    return escapeHtml(text).replace(/\n/g, '<br>');
+}
+
+const STYLES = `
+    @page { size: A5; margin: 12mm; }
+    * { box-sizing: border-box; }
+    body { font-family: "Times New Roman", "DejaVu Serif", serif; font-size: 13px; color: #111; margin: 0; padding: 16px; }
+    .page { max-width: 148mm; margin: 0 auto; }
+    .header { display: flex; justify-content: space-between; align-items: flex-start; gap: 12px; border-bottom: 1px solid #333; padding-bottom: 8px; }
+    .clinic-name { font-size: 15px; font-weight: bold; text-transform: uppercase; }
+    .clinic-meta { font-size: 11px; color: #444; }
+    .qr { text-align: center; font-size: 10px; color: #444; }
+    .qr svg { width: 72px; height: 72px; display: block; margin: 0 auto; }
+    h1 { text-align: center; font-size: 20px; margin: 14px 0 10px; letter-spacing: 1px; }
+    .row { margin: 3px 0; }
+    .label { font-weight: bold; }
+    .items { margin: 10px 0; padding: 0; list-style: none; }
+    .items li { margin-bottom: 8px; }
+    .item-head { display: flex; justify-content: space-between; gap: 8px; font-weight: bold; }
+    .item-detail { font-size: 11px; color: #444; }
+    .item-usage { font-style: italic; }
+    .section { margin-top: 10px; }
+    .section h2 { font-size: 14px; margin: 0 0 4px; }
+    .signature { display: flex; justify-content: flex-end; margin-top: 18px; }
+    .signature-box { text-align: center; min-width: 55%; }
+    .signature-space { height: 56px; }
+    .note { margin-top: 14px; font-size: 11px; color: #444; }
+    .draft { color: #b45309; text-align: center; font-weight: bold; }
+    .no-print { text-align: right; margin-bottom: 8px; }
+    .no-print button { font-size: 13px; padding: 6px 14px; cursor: pointer; }
+    @media print { body { padding: 0; } .no-print { display: none; } }
+`;
+
+async function renderHeader(data: VisitDocumentData): Promise<string> {
+    const qrContent = bookingQrContent(data.booking);
+    const qr = qrContent
+        ? `<div class="qr">${await qrSvg(qrContent)}${escapeHtml(data.booking?.displayId || '')}</div>`
+        : '';
+
+    return `
+        <div class="header">
+            <div>
+                <div class="clinic-name">${escapeHtml(data.clinic.name)}</div>
+                ${data.clinic.description ? `<div class="clinic-meta">${escapeHtml(data.clinic.description)}</div>` : ''}
+                ${clinicContactLine(data.clinic) ? `<div class="clinic-meta">${escapeHtml(clinicContactLine(data.clinic))}</div>` : ''}
+            </div>
+            ${qr}
+        </div>`;
+}
+
+function renderPatient(data: VisitDocumentData): string {
+    const { patient } = data;
+    return `
+        <div class="row"><span class="label">Họ tên:</span> ${escapeHtml(patient.name.toUpperCase())}${patientAgeGender(patient) ? ` &nbsp; ${escapeHtml(patientAgeGender(patient))}` : ''}</div>
+        ${patient.address ? `<div class="row"><span class="label">Địa chỉ:</span> ${escapeHtml(patient.address)}</div>` : ''}
+        ${patient.phone ? `<div class="row"><span class="label">Điện thoại:</span> ${escapeHtml(patient.phone)}</div>` : ''}
+        ${patient.allergies ? `<div class="row"><span class="label">Dị ứng:</span> ${escapeHtml(patient.allergies)}</div>` : ''}`;
+}
+
+function renderSignature(data: VisitDocumentData): string {
+    return `
+        <div class="signature">
+            <div class="signature-box">
+                <div><i>${formatDocumentDate(data.visit.date)}</i></div>
+                <div class="label">Bác sĩ khám bệnh</div>
+                <div><i>(Ký, ghi rõ họ tên)</i></div>
+                <div class="signature-space"></div>
+                <div class="label">${escapeHtml(data.doctor?.name || '')}</div>
+            </div>
+        </div>`;
+}
+
+function renderPrescriptionBody(data: VisitDocumentData): string {
+    const items = data.prescriptionItems.map(prescriptionLine);
+
+    return `
+        <div class="row"><span class="label">Chẩn đoán:</span> ${escapeHtml(diagnosisLine(data.record))}</div>
+        <ul class="items">
+            ${items.length > 0 ? items.map((line, idx) => `
+                <li>
+                    <div class="item-head"><span>${idx + 1}. ${escapeHtml(line.name)}</span><span>${escapeHtml(line.quantity)}</span></div>
+                    ${line.detail ? `<div class="item-detail">${escapeHtml(line.detail)}</div>` : ''}
+                    ${line.usage ? `<div class="item-usage">${escapeHtml(line.usage)}</div>` : ''}
+                </li>`).join('') : '<li><i>Không kê thuốc</i></li>'}
+        </ul>
+        ${data.record.advice ? `<div class="section"><span class="label">Lời dặn:</span><br>${multiline(data.record.advice)}</div>` : ''}
+        ${renderSignature(data)}
+        <div class="note">Khám lại xin mang theo đơn này.</div>`;
+}
+
+function renderSummaryBody(data: VisitDocumentData): string {
+    const items = data.prescriptionItems.map(prescriptionLine);
+
+    return `
+        <div class="row"><span class="label">Lần khám thứ:</span> ${data.visit.visitNumber}</div>
+        ${summarySections(data).map(section => `
+            <div class="section">
+                <h2>${escapeHtml(section.heading)}</h2>
+                <div>${multiline(section.body)}</div>
+            </div>`).join('')}
+        ${items.length > 0 ? `
+            <div class="section">
+                <h2>Thuốc cần dùng</h2>
+                <ul class="items">
+                    ${items.map((line, idx) => `
+                        <li>
+                            <div class="item-head"><span>${idx + 1}. ${escapeHtml(line.name)}</span></div>
+                            ${line.usage ? `<div class="item-usage">${escapeHtml(line.usage)}</div>` : ''}
+                        </li>`).join('')}
+                </ul>
+            </div>` : ''}
+        ${renderSignature(data)}`;
+}
+
+function renderInstructionsBody(data: VisitDocumentData): string {
+    const sections = data.instructions ? instructionSections(data.instructions) : [];
+
+    return `
+        ${sections.map(section => `
+            <div class="section">
+                <h2>${escapeHtml(section.heading)}</h2>
+                ${section.body ? `<div>${multiline(section.body)}</div>` : ''}
+                ${section.items ? `<ul>${section.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : ''}
+            </div>`).join('')}
+        ${renderSignature(data)}`;
+}
+
+const BODY_RENDERERS: Record<VisitDocumentKind, (data: VisitDocumentData) => string> = {
+    prescription: renderPrescriptionBody,
+    summary: renderSummaryBody,
+    instructions: renderInstructionsBody,
+};
+
+/**
+ * Full HTML page for a visit document
+ */
+export async function renderVisitDocumentHtml(kind: VisitDocumentKind, data: VisitDocumentData): Promise<string> {
+    const title = DOCUMENT_TITLES[kind];
+
+    return `<!DOCTYPE html>
+<html lang="vi">
+<head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(`${title} - ${data.patient.name}`)}</title>
+    <style>${STYLES}</style>
+</head>
+<body>
+    <div class="page">
+        <div class="no-print"><button onclick="window.print()">In tài liệu</button></div>
+        ${await renderHeader(data)}
+        <h1>${title}</h1>
+        ${data.record.status === 'draft' ? '<div class="draft">BẢN NHÁP - bệnh án chưa được lưu chính thức</div>' : ''}
+        ${renderPatient(data)}
+        ${BODY_RENDERERS[kind](data)}
+    </div>
+</body>
+</html>`;
+}
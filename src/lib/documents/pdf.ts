@@ -0,0 +1,203 @@
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import {
+    DOCUMENT_TITLES,
+    bookingQrContent,
+    clinicContactLine,
+    diagnosisLine,
+    formatDocumentDate,
+    instructionSections,
+    patientAgeGender,
+    prescriptionLine,
+    qrPng,
+    summarySections,
+} from './content';
+import type { VisitDocumentData, VisitDocumentKind } from './types';
+
+/**
+ * PDF documents (A5) rendered with pdfkit
+ * The built-in PDF fonts have no Vietnamese glyphs, so a Unicode TTF is embedded:
+ * DejaVu from the dejavu-fonts-ttf package, or PDF_FONT_DIR (folder with DejaVuSerif.ttf / DejaVuSerif-Bold.ttf)
+ */
+
+const FONT_DIR = process.env.PDF_FONT_DIR || path.join(process.cwd(), 'node_modules', 'dejavu-fonts-ttf', 'ttf');
+const FONT_REGULAR = 'DejaVuSerif.ttf';
+const FONT_BOLD = 'DejaVuSerif-Bold.ttf';
+const FONT_ITALIC = 'DejaVuSerif-Italic.ttf';
+
+const MARGIN = 34;
+const QR_SIZE = 64;
+
+type Doc = InstanceType<typeof PDFDocument>;
+
+function contentWidth(doc: Doc): number {
+    return doc.page.width - MARGIN * 2;
+}
+
+function label(doc: Doc, name: string, value: string) {
+    doc.font('bold').text(`${name} `, { continued: true }).font('regular').text(value);
+}
+
+async function drawHeader(doc: Doc, data: VisitDocumentData) {
+    const top = doc.y;
+    const qrContent = bookingQrContent(data.booking);
+    const textWidth = contentWidth(doc) - (qrContent ? QR_SIZE + 10 : 0);
+
+    doc.font('bold').fontSize(12).text(data.clinic.name.toUpperCase(), MARGIN, top, { width: textWidth });
+    doc.font('regular').fontSize(8.5).fillColor('#444');
+    if (data.clinic.description) doc.text(data.clinic.description, { width: textWidth });
+    if (clinicContactLine(data.clinic)) doc.text(clinicContactLine(data.clinic), { width: textWidth });
+    doc.fillColor('black');
+
+    let bottom = doc.y;
+    if (qrContent) {
+        const x = doc.page.width - MARGIN - QR_SIZE;
+        doc.image(await qrPng(qrContent), x, top, { width: QR_SIZE, height: QR_SIZE });
+        doc.fontSize(7).fillColor('#444')
+            .text(data.booking?.displayId || '', x - 10, top + QR_SIZE + 1, { width: QR_SIZE + 20, align: 'center' })
+            .fillColor('black');
+        bottom = Math.max(bottom, doc.y);
+    }
+
+    doc.moveTo(MARGIN, bottom + 4).lineTo(doc.page.width - MARGIN, bottom + 4).lineWidth(0.5).stroke();
+    doc.x = MARGIN;
+    doc.y = bottom + 12;
+}
+
+function drawPatient(doc: Doc, data: VisitDocumentData) {
+    const { patient } = data;
+    doc.fontSize(10);
+    label(doc, 'Họ tên:', [patient.name.toUpperCase(), patientAgeGender(patient)].filter(Boolean).join('    '));
+    if (patient.address) label(doc, 'Địa chỉ:', patient.address);
+    if (patient.phone) label(doc, 'Điện thoại:', patient.phone);
+    if (patient.allergies) label(doc, 'Dị ứng:', patient.allergies);
+}
+
+function drawSignature(doc: Doc, data: VisitDocumentData) {
+    const width = contentWidth(doc) * 0.55;
+    const x = doc.page.width - MARGIN - width;
+
+    // Keep the whole block on one page
+    if (doc.y + 110 > doc.page.height - MARGIN) doc.addPage();
+
+    doc.moveDown(1.2);
+    const y = doc.y;
+    doc.fontSize(10)
+        .font('italic').text(formatDocumentDate(data.visit.date), x, y, { width, align: 'center' })
+        .font('bold').text('Bác sĩ khám bệnh', { width, align: 'center' })
+        .font('italic').fontSize(9).text('(Ký, ghi rõ họ tên)', { width, align: 'center' })
+        .moveDown(3.5)
+        .font('bold').fontSize(10).text(data.doctor?.name || ' ', { width, align: 'center' });
+    doc.x = MARGIN;
+}
+
+function drawPrescription(doc: Doc, data: VisitDocumentData) {
+    const width = contentWidth(doc);
+
+    doc.fontSize(10);
+    label(doc, 'Chẩn đoán:', diagnosisLine(data.record));
+    doc.moveDown(0.6);
+
+    const lines = data.prescriptionItems.map(prescriptionLine);
+    if (lines.length === 0) {
+        doc.font('italic').text('Không kê thuốc');
+    }
+    lines.forEach((line, idx) => {
+        const y = doc.y;
+        doc.font('bold').fontSize(10).text(`${idx + 1}. ${line.name}`, MARGIN, y, { width: width - 90 });
+        const nameBottom = doc.y;
+        if (line.quantity) {
+            doc.text(line.quantity, MARGIN + width - 90, y, { width: 90, align: 'right' });
+        }
+        doc.x = MARGIN;
+        doc.y = Math.max(nameBottom, doc.y);
+        if (line.detail) doc.font('regular').fontSize(8.5).fillColor('#444').text(line.detail, { indent: 12 }).fillColor('black');
+        if (line.usage) doc.font('italic').fontSize(9.5).text(line.usage, { indent: 12 });
+        doc.moveDown(0.4);
+    });
+
+    if (data.record.advice) {
+        doc.moveDown(0.4).fontSize(10).font('bold').text('Lời dặn:').font('regular').text(data.record.advice);
+    }
+
+    drawSignature(doc, data);
+    doc.moveDown(1).font('italic').fontSize(8.5).fillColor('#444').text('Khám lại xin mang theo đơn này.').fillColor('black');
+}
+
+function drawSummary(doc: Doc, data: VisitDocumentData) {
+    doc.fontSize(10);
+    label(doc, 'Lần khám thứ:', String(data.visit.visitNumber));
+
+    for (const section of summarySections(data)) {
+        doc.moveDown(0.6).font('bold').fontSize(11).text(section.heading);
+        doc.font('regular').fontSize(10).text(section.body);
+    }
+
+    const lines = data.prescriptionItems.map(prescriptionLine);
+    if (lines.length > 0) {
+        doc.moveDown(0.6).font('bold').fontSize(11).text('Thuốc cần dùng');
+        lines.forEach((line, idx) => {
+            doc.font('bold').fontSize(10).text(`${idx + 1}. ${line.name}`);
+            if (line.usage) doc.font('italic').fontSize(9.5).text(line.usage, { indent: 12 });
+        });
+    }
+
+    drawSignature(doc, data);
+}
+
+function drawInstructions(doc: Doc, data: VisitDocumentData) {
+    const sections = data.instructions ? instructionSections(data.instructions) : [];
+
+    for (const section of sections) {
+        doc.moveDown(0.6).font('bold').fontSize(11).text(section.heading);
+        doc.font('regular').fontSize(10);
+        if (section.body) doc.text(section.body);
+        if (section.items) doc.list(section.items, { bulletRadius: 1.5, textIndent: 10, indent: 6 });
+    }
+
+    drawSignature(doc, data);
+}
+
+const BODY_DRAWERS: Record<VisitDocumentKind, (doc: Doc, data: VisitDocumentData) => void> = {
+    prescription: drawPrescription,
+    summary: drawSummary,
+    instructions: drawInstructions,
+};
+
+/**
+ * PDF bytes of a visit document
+ */
+export async function renderVisitDocumentPdf(kind: VisitDocumentKind, data: VisitDocumentData): Promise<Buffer> {
+    const doc = new PDFDocument({
+        size: 'A5',
+        margin: MARGIN,
+        info: { Title: `${DOCUMENT_TITLES[kind]} - ${data.patient.name}`, Author: data.clinic.name },
+    });
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+    });
+
+    doc.registerFont('regular', path.join(FONT_DIR, FONT_REGULAR));
+    doc.registerFont('bold', path.join(FONT_DIR, FONT_BOLD));
+    doc.registerFont('italic', path.join(FONT_DIR, FONT_ITALIC));
+
+    await drawHeader(doc, data);
+    doc.font('bold').fontSize(16).text(DOCUMENT_TITLES[kind], { align: 'center' }).moveDown(0.5);
+    if (data.record.status === 'draft') {
+        doc.font('bold').fontSize(9).fillColor('#b45309')
+            .text('BẢN NHÁP - bệnh án chưa được lưu chính thức', { align: 'center' })
+            .fillColor('black').moveDown(0.4);
+    }
+
+    drawPatient(doc, data);
+    doc.moveDown(0.4);
+
+    BODY_DRAWERS[kind](doc, data);
+
+    doc.end();
+    return done;
+}
@@ -0,0 +1,54 @@
+import type { PrescriptionItem } from '../prescription/types';
+import type { PatientInstructionsContent } from '../instructions/types';
+import type { Diagnosis } from '../diagnosis/types';
+
+/**
+ * Printable documents handed to the patient after the visit
+ * - prescription: đơn thuốc (Vietnamese outpatient prescription layout)
+ * - summary: tóm tắt lần khám, written for the patient
+ * - instructions: hướng dẫn cho bệnh nhân (only once the doctor approved them)
+ */
+export type VisitDocumentKind = 'prescription' | 'summary' | 'instructions';
+export type VisitDocumentFormat = 'html' | 'pdf';
+
+export const VISIT_DOCUMENT_KINDS: VisitDocumentKind[] = ['prescription', 'summary', 'instructions'];
+
+export interface VisitDocumentData {
+    clinic: {
+        name: string;
+        phone: string | null;
+        email: string | null;
+        description: string | null;
+    };
+    patient: {
+        name: string;
+        displayId: string | null;
+        age: number | null;
+        gender: string | null;
+        phone: string | null;
+        address: string | null;
+        allergies: string | null;
+    };
+    booking: {
+        id: string;
+        displayId: string | null;
+    } | null;
+    visit: {
+        sessionId: string;
+        visitNumber: number;
+        chiefComplaint: string | null;
+        date: Date;           // Ngày khám (record creation / last update)
+    };
+    record: {
+        subjective: string;
+        objective: string;
+        assessment: string;
+        icdCodes: string[];
+        diagnoses: Diagnosis[];  // Bệnh chính / bệnh kèm theo - printed instead of the assessment when present
+        advice: string;       // Lời dặn - plan without the prescription block
+        status: 'draft' | 'final';
+    };
+    prescriptionItems: PrescriptionItem[];
+    instructions: PatientInstructionsContent | null;  // Approved patient instructions
+    doctor: { name: string } | null;
+}
@@ -0,0 +1,205 @@
+import { foldDiacritics } from '../rag/keywordIndex';
+import { icd10ChapterOf, icd10InRange, normalizeIcd10Code, type Icd10Block, type Icd10Code } from './types';
+
+/**
+ * Reading the ICD-10 catalogue files for the import script
+ * - JSON: { blocks: [{ code, nameVi, nameEn }], codes: [{ code, nameVi, nameEn }] } (data/icd10/seed.json)
+ * - CSV: export of the Bộ Y tế catalogue, one row per code - columns are matched by header name (HEADER_ALIASES)
+ * Chapters, blocks, parents and billable flags are derived here, so both formats give the same rows
+ */
+
+interface RawEntry {
+    code: string;
+    nameVi: string;
+    nameEn?: string | null;
+}
+
+export interface Icd10Catalogue {
+    blocks: Icd10Block[];
+    codes: Icd10Code[];
+    skipped: string[];              // Rows that could not be read (reason included)
+}
+
+function text(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+// "K29.7" → "K29", "K29.70" → "K29.7", "K29" → null
+function parentOf(code: string): string | null {
+    if (!code.includes('.')) return null;
+    const [category, detail] = code.split('.');
+    return detail.length > 1 ? `${category}.${detail.slice(0, -1)}` : category;
+}
+
+/**
+ * Normalizes the raw entries and derives chapter, block, parent and billable flag.
+ * Later duplicates win (the CSV repeats the category on every row of its codes)
+ */
+export function buildIcd10Catalogue(rawBlocks: RawEntry[], rawCodes: RawEntry[]): Icd10Catalogue {
+    const skipped: string[] = [];
+
+    const blocks = new Map<string, Icd10Block>();
+    for (const raw of rawBlocks) {
+        const range = raw.code.trim().toUpperCase().replace(/\s+/g, '').replace(/[–—]/g, '-');
+        const chapter = icd10ChapterOf(range);
+        if (!/^[A-Z]\d{2}(-[A-Z]\d{2})?$/.test(range) || !chapter) {
+            skipped.push(`Nhóm "${raw.code}": mã nhóm không hợp lệ`);
+            continue;
+        }
+        if (!text(raw.nameVi)) {
+            skipped.push(`Nhóm "${range}": thiếu tên tiếng Việt`);
+            continue;
+        }
+        blocks.set(range, { code: range, nameVi: raw.nameVi.trim(), nameEn: text(raw.nameEn), chapter });
+    }
+
+    const entries = new Map<string, RawEntry>();
+    for (const raw of rawCodes) {
+        const code = normalizeIcd10Code(raw.code);
+        if (!code || !icd10ChapterOf(code)) {
+            skipped.push(`Mã "${raw.code}": không phải mã ICD-10`);
+            continue;
+        }
+        if (!text(raw.nameVi)) {
+            skipped.push(`Mã "${code}": thiếu tên tiếng Việt`);
+            continue;
+        }
+        entries.set(code, { code, nameVi: raw.nameVi.trim(), nameEn: text(raw.nameEn) });
+    }
+
+    const parents = new Set([...entries.keys()].map(parentOf).filter((code): code is string => code !== null));
+    const blockList = [...blocks.values()];
+
+    const codes = [...entries.values()]
+        .sort((a, b) => a.code.localeCompare(b.code))
+        .map(entry => ({
+            code: entry.code,
+            nameVi: entry.nameVi,
+            nameEn: entry.nameEn ?? null,
+            chapter: icd10ChapterOf(entry.code)!,
+            block: blockList.find(block => icd10InRange(entry.code, block.code))?.code ?? null,
+            parentCode: parentOf(entry.code),
+            billable: !parents.has(entry.code),
+        }));
+
+    return {
+        blocks: blockList.sort((a, b) => a.code.localeCompare(b.code)),
+        codes,
+        skipped,
+    };
+}
+
+/**
+ * data/icd10/*.json
+ */
+export function parseIcd10Json(content: string): Icd10Catalogue {
+    const data = JSON.parse(content);
+    const list = (value: unknown): RawEntry[] => (Array.isArray(value) ? value : [])
+        .filter(item => item && typeof item.code === 'string')
+        .map(item => ({ code: item.code, nameVi: typeof item.nameVi === 'string' ? item.nameVi : '', nameEn: text(item.nameEn) }));
+
+    return buildIcd10Catalogue(list(data.blocks), list(data.codes));
+}
+
+// ============= CSV =============
+
+// Column roles → accepted header names (after diacritics folding, lower case, punctuation removed)
+const HEADER_ALIASES = {
+    code: ['ma benh', 'ma icd', 'ma icd10', 'code'],
+    nameVi: ['ten benh', 'ten tieng viet', 'ten benh tieng viet', 'name vi'],
+    nameEn: ['disease name', 'ten tieng anh', 'ten benh tieng anh', 'name en', 'name'],
+    categoryCode: ['ma loai'],
+    categoryNameVi: ['ten loai', 'ten loai tieng viet'],
+    categoryNameEn: ['type name', 'ten loai tieng anh'],
+    blockCode: ['ma nhom', 'ma nhom chinh'],
+    blockNameVi: ['ten nhom', 'ten nhom chinh', 'ten nhom tieng viet'],
+    blockNameEn: ['group name', 'main group name', 'ten nhom tieng anh'],
+};
+
+type ColumnRole = keyof typeof HEADER_ALIASES;
+
+function normalizeHeader(value: string): string {
+    return foldDiacritics(value).replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF; the delimiter (, ; or tab) is taken from the header line
+ */
+export function parseCsvRows(content: string): string[][] {
+    const input = content.replace(/^\uFEFF/, '');
+    const header = input.slice(0, input.indexOf('\n') === -1 ? undefined : input.indexOf('\n'));
+    const delimiter = [';', '\t', ','].reduce((best, candidate) =>
+        header.split(candidate).length > header.split(best).length ? candidate : best, ',');
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            if (row.some(value => value.trim())) rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    row.push(field);
+    if (row.some(value => value.trim())) rows.push(row);
+    return rows;
+}
+
+/**
+ * CSV export of the Bộ Y tế catalogue. Required columns: "Mã bệnh" and "Tên bệnh";
+ * "Mã loại" / "Tên loại" and "Mã nhóm" / "Tên nhóm" add the categories and blocks when present
+ */
+export function parseIcd10Csv(content: string): Icd10Catalogue {
+    const [header, ...rows] = parseCsvRows(content);
+    if (!header) throw new Error('File CSV trống');
+
+    const headers = header.map(normalizeHeader);
+    const columns = {} as Record<ColumnRole, number>;
+    for (const [role, aliases] of Object.entries(HEADER_ALIASES) as [ColumnRole, string[]][]) {
+        columns[role] = headers.findIndex(name => aliases.includes(name));
+    }
+
+    if (columns.code === -1 || columns.nameVi === -1) {
+        throw new Error(`Không tìm thấy cột "Mã bệnh" / "Tên bệnh" trong file CSV (các cột: ${header.join(', ')})`);
+    }
+
+    const cell = (row: string[], role: ColumnRole) => columns[role] === -1 ? '' : (row[columns[role]] || '').trim();
+
+    const blocks: RawEntry[] = [];
+    const codes: RawEntry[] = [];
+    for (const row of rows) {
+        if (cell(row, 'blockCode')) {
+            blocks.push({ code: cell(row, 'blockCode'), nameVi: cell(row, 'blockNameVi'), nameEn: cell(row, 'blockNameEn') });
+        }
+        if (cell(row, 'categoryCode')) {
+            codes.push({ code: cell(row, 'categoryCode'), nameVi: cell(row, 'categoryNameVi'), nameEn: cell(row, 'categoryNameEn') });
+        }
+        if (cell(row, 'code')) {
+            codes.push({ code: cell(row, 'code'), nameVi: cell(row, 'nameVi'), nameEn: cell(row, 'nameEn') });
+        }
+    }
+
+    return buildIcd10Catalogue(blocks, codes);
+}
@@ -0,0 +1,89 @@
+/**
+ * ICD-10 catalogue (Bộ Y tế Vietnamese edition)
+ * Shared by the picker (client), the search / lookup API, the import script and the save validation
+ * - Category: 3 characters, e.g. "K29" (loại)
+ * - Subcategory: with a dot, e.g. "K29.7" (mã bệnh)
+ * Only codes without more detailed children are billable - "K29" must be coded as K29.0...K29.9
+ */
+
+export interface Icd10Block {
+    code: string;                   // Range, e.g. "K20-K31" (nhóm)
+    nameVi: string;
+    nameEn: string | null;
+    chapter: string;
+}
+
+export interface Icd10Code {
+    code: string;                   // "K29.7"
+    nameVi: string;                 // "Viêm dạ dày, không đặc hiệu"
+    nameEn: string | null;
+    chapter: string;                // "XI"
+    block: string | null;           // "K20-K31"
+    parentCode: string | null;      // "K29" (null for categories)
+    billable: boolean;
+}
+
+export const ICD10_SEARCH_LIMIT = 20;
+
+// ICD-10 chapters (WHO)
+export const ICD10_CHAPTERS: { chapter: string; range: string; title: string }[] = [
+    { chapter: 'I', range: 'A00-B99', title: 'Bệnh nhiễm trùng và ký sinh trùng' },
+    { chapter: 'II', range: 'C00-D48', title: 'Khối u' },
+    { chapter: 'III', range: 'D50-D89', title: 'Bệnh máu, cơ quan tạo máu và miễn dịch' },
+    { chapter: 'IV', range: 'E00-E90', title: 'Bệnh nội tiết, dinh dưỡng và chuyển hóa' },
+    { chapter: 'V', range: 'F00-F99', title: 'Rối loạn tâm thần và hành vi' },
+    { chapter: 'VI', range: 'G00-G99', title: 'Bệnh hệ thần kinh' },
+    { chapter: 'VII', range: 'H00-H59', title: 'Bệnh mắt và phần phụ' },
+    { chapter: 'VIII', range: 'H60-H95', title: 'Bệnh tai và xương chũm' },
+    { chapter: 'IX', range: 'I00-I99', title: 'Bệnh hệ tuần hoàn' },
+    { chapter: 'X', range: 'J00-J99', title: 'Bệnh hệ hô hấp' },
+    { chapter: 'XI', range: 'K00-K93', title: 'Bệnh hệ tiêu hóa' },
+    { chapter: 'XII', range: 'L00-L99', title: 'Bệnh da và mô dưới da' },
+    { chapter: 'XIII', range: 'M00-M99', title: 'Bệnh hệ cơ xương khớp và mô liên kết' },
+    { chapter: 'XIV', range: 'N00-N99', title: 'Bệnh hệ sinh dục - tiết niệu' },
+    { chapter: 'XV', range: 'O00-O99', title: 'Thai nghén, sinh đẻ và hậu sản' },
+    { chapter: 'XVI', range: 'P00-P96', title: 'Bệnh lý xuất phát trong thời kỳ chu sinh' },
+    { chapter: 'XVII', range: 'Q00-Q99', title: 'Dị tật bẩm sinh và bất thường nhiễm sắc thể' },
+    { chapter: 'XVIII', range: 'R00-R99', title: 'Triệu chứng, dấu hiệu và phát hiện bất thường' },
+    { chapter: 'XIX', range: 'S00-T98', title: 'Vết thương, ngộ độc và hậu quả của nguyên nhân bên ngoài' },
+    { chapter: 'XX', range: 'V01-Y98', title: 'Nguyên nhân bên ngoài của bệnh tật và tử vong' },
+    { chapter: 'XXI', range: 'Z00-Z99', title: 'Yếu tố ảnh hưởng đến tình trạng sức khỏe' },
+    { chapter: 'XXII', range: 'U00-U85', title: 'Mã dùng cho mục đích đặc biệt' },
+];
+
+export function isIcd10Chapter(value: unknown): value is string {
+    return ICD10_CHAPTERS.some(item => item.chapter === value);
+}
+
+// "K29.7" → "K29" → 1129 (letter and category in one comparable number)
+function icdCategoryNumber(code: string): number | null {
+    const match = code.trim().toUpperCase().match(/^([A-Z])(\d{2})/);
+    return match ? (match[1].charCodeAt(0) - 64) * 100 + Number(match[2]) : null;
+}
+
+/**
+ * Whether the category of a code falls in a range, e.g. ("K29.7", "K20-K31") → true
+ */
+export function icd10InRange(code: string, range: string): boolean {
+    const value = icdCategoryNumber(code);
+    const [from, to] = range.split('-').map(icdCategoryNumber);
+    return value !== null && from !== null && (value >= from && value <= (to ?? from));
+}
+
+/**
+ * Chapter of an ICD-10 code, e.g. "I10" → "IX" (null when the code is not recognised)
+ */
+export function icd10ChapterOf(code: string): string | null {
+    const chapter = ICD10_CHAPTERS.find(item => icd10InRange(code, item.range));
+    return chapter?.chapter || null;
+}
+
+/**
+ * Canonical form of a code typed by a user or returned by the LLM:
+ * "k297" / "K29.7 " / "A17.0†" / "G01*" → "K29.7" / "A17.0" / "G01" (null when it is not an ICD-10 code)
+ */
+export function normalizeIcd10Code(value: string): string | null {
+    const match = value.trim().toUpperCase().replace(/[\s\u2020*+]/g, '').match(/^([A-Z]\d{2})(?:\.?(\d{1,2}))?\.?$/);
+    if (!match) return null;
+    return match[2] ? `${match[1]}.${match[2]}` : match[1];
+}
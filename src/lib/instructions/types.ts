@@ -0,0 +1,75 @@
+/**
+ * Patient instructions (hướng dẫn cho bệnh nhân) - plain-language version of the finalized plan
+ * Generated by AI, edited and approved by the doctor before it is printed / exported
+ */
+
+export type ReadingLevel = 'simple' | 'standard' | 'detailed';
+
+export const READING_LEVELS: { value: ReadingLevel; label: string; description: string }[] = [
+    { value: 'simple', label: 'Dễ hiểu', description: 'Câu ngắn, không thuật ngữ - cho người cao tuổi, trẻ em, người ít đọc' },
+    { value: 'standard', label: 'Phổ thông', description: 'Ngôn ngữ đời thường, giải thích ngắn các từ chuyên môn' },
+    { value: 'detailed', label: 'Chi tiết', description: 'Giải thích đầy đủ hơn cho người muốn hiểu rõ bệnh' },
+];
+
+export interface MedicationInstruction {
+    drugName: string;
+    instructions: string;  // Cách dùng bằng lời thường: khi nào uống, uống bao nhiêu, lưu ý
+}
+
+export interface PatientInstructionsContent {
+    diagnosis: string;            // Bệnh của bạn là gì
+    medications: MedicationInstruction[];
+    selfCare: string[];           // Chăm sóc tại nhà
+    warningSigns: string[];       // Dấu hiệu cần quay lại khám ngay
+    followUp: string;             // Tái khám
+}
+
+export type PatientInstructionsStatus = 'draft' | 'approved';
+
+export interface PatientInstructions {
+    readingLevel: ReadingLevel;
+    content: PatientInstructionsContent;
+    status: PatientInstructionsStatus;
+    approvedAt: string | null;
+    updatedAt: string | null;
+}
+
+export const EMPTY_INSTRUCTIONS_CONTENT: PatientInstructionsContent = {
+    diagnosis: '',
+    medications: [],
+    selfCare: [],
+    warningSigns: [],
+    followUp: '',
+};
+
+export function isReadingLevel(value: unknown): value is ReadingLevel {
+    return READING_LEVELS.some(level => level.value === value);
+}
+
+function asText(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+}
+
+function asList(value: unknown): string[] {
+    if (typeof value === 'string') return value.split('\n').map(line => line.replace(/^[-•*]\s*/, '').trim()).filter(Boolean);
+    return Array.isArray(value) ? value.map(asText).filter(Boolean) : [];
+}
+
+/**
+ * Instructions content from an untrusted source (LLM output or request body)
+ */
+export function parseInstructionsContent(raw: unknown): PatientInstructionsContent {
+    const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const medications = Array.isArray(value.medications) ? value.medications : [];
+
+    return {
+        diagnosis: asText(value.diagnosis),
+        medications: medications
+            .map(item => (item && typeof item === 'object' ? item : {}) as Record<string, unknown>)
+            .map(item => ({ drugName: asText(item.drugName), instructions: asText(item.instructions) }))
+            .filter(item => item.drugName),
+        selfCare: asList(value.selfCare),
+        warningSigns: asList(value.warningSigns),
+        followUp: asText(value.followUp),
+    };
+}
@@ -1,3 +1,5 @@
+import type { Diagnosis } from '../diagnosis/types';
+
 const HIS_BASE_URL = process.env.HIS_API_URL || '/api/his';
 
 interface HISCurrentSessionResponse {
@@ -35,6 +37,7 @@ interface MedicalPayload {
     assessment: string;
     plan: string;
     icdCodes: string[];
+    diagnoses?: Diagnosis[];    // Bệnh chính / bệnh kèm theo with certainty
 }
 
 interface HISUpdateResponse {
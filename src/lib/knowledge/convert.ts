@@ -0,0 +1,125 @@
+import path from 'path';
+import mammoth from 'mammoth';
+import { extractText, getDocumentProxy } from 'unpdf';
+import { KNOWLEDGE_UPLOAD_EXTENSIONS, MAX_KNOWLEDGE_UPLOAD_BYTES, type KnowledgeDocumentFormat } from './types';
+
+/**
+ * Uploaded protocol → markdown (what gets chunked and embedded)
+ * - markdown: kept as is
+ * - docx: headings, lists and tables kept (mammoth HTML → markdown)
+ * - pdf: text layer only, one block per page (scanned PDFs have no text and are rejected)
+ */
+
+export function knowledgeFormatFromFilename(filename: string): KnowledgeDocumentFormat | null {
+    return KNOWLEDGE_UPLOAD_EXTENSIONS[path.extname(filename).toLowerCase()] || null;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, name: string) => ENTITIES[name])
+        .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)));
+}
+
+function inlineText(html: string): string {
+    return decodeEntities(
+        html
+            .replace(/<br\s*\/?>/gi, ' ')
+            .replace(/<\/?(strong|b)>/gi, '**')
+            .replace(/<\/?(em|i)>/gi, '_')
+            .replace(/<[^>]+>/g, '')
+    ).replace(/\*\*\s*\*\*/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The small HTML subset mammoth produces → markdown
+ */
+export function htmlToMarkdown(html: string): string {
+    const blocks: string[] = [];
+    const pattern = /<(h[1-6]|p|li|tr)[^>]*>([\s\S]*?)<\/\1>/gi;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(html)) !== null) {
+        const tag = match[1].toLowerCase();
+        if (tag === 'tr') {
+            const cells = [...match[2].matchAll(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/gi)].map(cell => inlineText(cell[1]));
+            if (cells.some(Boolean)) blocks.push(`| ${cells.join(' | ')} |`);
+            continue;
+        }
+
+        const text = inlineText(match[2]);
+        if (!text) continue;
+        if (tag.startsWith('h')) blocks.push(`${'#'.repeat(Number(tag[1]))} ${text.replace(/\*\*/g, '')}`);
+        else if (tag === 'li') blocks.push(`- ${text}`);
+        else blocks.push(text);
+    }
+
+    // Blank line between blocks, except inside lists and tables
+    return blocks.reduce((markdown, block, idx) => {
+        if (idx === 0) return block;
+        const previous = blocks[idx - 1];
+        const sameGroup = (block.startsWith('- ') && previous.startsWith('- '))
+            || (block.startsWith('|') && previous.startsWith('|'));
+        return `${markdown}${sameGroup ? '\n' : '\n\n'}${block}`;
+    }, '');
+}
+
+async function pdfToMarkdown(buffer: Buffer): Promise<string> {
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+    const { text } = await extractText(pdf, { mergePages: false });
+    return text
+        .map(page => page.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim())
+        .filter(Boolean)
+        .join('\n\n');
+}
+
+export async function convertToMarkdown(buffer: Buffer, format: KnowledgeDocumentFormat): Promise<string> {
+    switch (format) {
+        case 'markdown':
+            return buffer.toString('utf-8').replace(/^\uFEFF/, '').trim();
+        case 'docx': {
+            const { value } = await mammoth.convertToHtml({ buffer });
+            return htmlToMarkdown(value);
+        }
+        case 'pdf':
+            return pdfToMarkdown(buffer);
+    }
+}
+
+/**
+ * Uploaded file → markdown, or an error message to show (wrong type, too large, unreadable, no text)
+ */
+export async function convertKnowledgeUpload(
+    filename: string,
+    buffer: Buffer
+): Promise<{ format: KnowledgeDocumentFormat; markdown: string } | string> {
+    const format = knowledgeFormatFromFilename(filename);
+    if (!format) {
+        return `Chỉ hỗ trợ file ${Object.keys(KNOWLEDGE_UPLOAD_EXTENSIONS).join(', ')}`;
+    }
+    if (buffer.length > MAX_KNOWLEDGE_UPLOAD_BYTES) {
+        return `File vượt quá ${MAX_KNOWLEDGE_UPLOAD_BYTES / 1024 / 1024} MB`;
+    }
+
+    let markdown: string;
+    try {
+        markdown = await convertToMarkdown(buffer, format);
+    } catch (error) {
+        console.warn(`Could not convert ${filename}:`, error instanceof Error ? error.message : error);
+        return 'Không đọc được nội dung file (file hỏng hoặc sai định dạng)';
+    }
+
+    if (!markdown.trim()) {
+        return 'File không có nội dung văn bản (PDF scan cần OCR trước khi tải lên)';
+    }
+    return { format, markdown };
+}
+
+/**
+ * Title of a protocol: first markdown heading, else the file name without extension
+ */
+export function titleFromMarkdown(markdown: string, filename: string): string {
+    const heading = markdown.match(/^#{1,3}\s+(.+)$/m);
+    return (heading?.[1] || path.basename(filename, path.extname(filename))).trim().slice(0, 255);
+}
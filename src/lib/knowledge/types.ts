@@ -0,0 +1,80 @@
+import { isIcd10Chapter } from '../icd10/types';
+
+/**
+ * Knowledge base documents (phác đồ điều trị) used by RAG
+ * - Built-in protocols: markdown files in data/knowledge_base/protocols (read-only, shipped with the app)
+ * - Uploaded protocols: markdown / PDF / DOCX converted to markdown, stored in knowledge_documents
+ */
+
+export type KnowledgeDocumentFormat = 'markdown' | 'pdf' | 'docx';
+
+export const KNOWLEDGE_UPLOAD_EXTENSIONS: Record<string, KnowledgeDocumentFormat> = {
+    '.md': 'markdown',
+    '.markdown': 'markdown',
+    '.pdf': 'pdf',
+    '.docx': 'docx',
+};
+
+export const MAX_KNOWLEDGE_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export interface KnowledgeDocumentTags {
+    specialty: string | null;       // Chuyên khoa, e.g. "tim-mach"
+    icdChapters: string[];          // ICD-10 chapters, e.g. ["IX"]
+    effectiveDate: string | null;   // Ngày hiệu lực (YYYY-MM-DD) - used as the protocol version
+    issuingBody: string | null;     // Cơ quan ban hành, e.g. "Bộ Y tế"
+}
+
+export interface KnowledgeDocument extends KnowledgeDocumentTags {
+    id: string;                     // uuid, or the file name for built-in protocols
+    source: string;                 // Name in the vector index / references, e.g. "hen-phe-quan.md"
+    title: string;
+    format: KnowledgeDocumentFormat;
+    originalFilename: string | null;
+    builtIn: boolean;
+    isActive: boolean;
+    size: number;                   // Characters of markdown
+    createdAt: string | null;
+    updatedAt: string | null;
+}
+
+export interface KnowledgeChunkPreview {
+    position: number;
+    text: string;
+    section: string[];              // Heading path of the chunk
+    length: number;
+}
+
+function asText(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Tags from an untrusted source (form fields / JSON body)
+ * Returns an error message instead when a value is invalid
+ */
+export function parseKnowledgeTags(raw: Record<string, unknown>): KnowledgeDocumentTags | string {
+    const chapters = Array.isArray(raw.icdChapters)
+        ? raw.icdChapters
+        : typeof raw.icdChapters === 'string'
+            ? raw.icdChapters.split(',').map(item => item.trim()).filter(Boolean)
+            : [];
+    const invalidChapter = chapters.find(chapter => !isIcd10Chapter(chapter));
+    if (invalidChapter !== undefined) {
+        return `Chương ICD-10 không hợp lệ: ${invalidChapter}`;
+    }
+
+    const effectiveDate = asText(raw.effectiveDate);
+    // Round trip rejects impossible dates such as 2024-02-30
+    if (effectiveDate && (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate)
+        || isNaN(Date.parse(effectiveDate))
+        || new Date(effectiveDate).toISOString().slice(0, 10) !== effectiveDate)) {
+        return 'Ngày hiệu lực phải có dạng YYYY-MM-DD';
+    }
+
+    return {
+        specialty: asText(raw.specialty),
+        icdChapters: [...new Set(chapters as string[])],
+        effectiveDate,
+        issuingBody: asText(raw.issuingBody),
+    };
+}
@@ -0,0 +1,185 @@
+import type { PrescribedMedication } from '../agents/state';
+import type { PrescriptionIssue, PrescriptionItem } from './types';
+
+/**
+ * Prescription helpers (pure - used on both client and server)
+ */
+
+function blank(value: string | null | undefined): boolean {
+    return !value || !value.trim();
+}
+
+// Active ingredients of an item: "Amoxicillin/Clavulanate" → ["amoxicillin", "clavulanate"]
+function ingredients(item: PrescriptionItem): string[] {
+    return (item.activeIngredient || item.drugName)
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/đ/gi, 'd')
+        .toLowerCase()
+        .split(/[/+,;]| và | and /)
+        .map(part => part.replace(/\d+(?:[.,]\d+)?\s*(?:mg|g|mcg|µg|ml|ui|iu|%)\b/g, '').replace(/[^a-z0-9 ]/g, '').trim())
+        .filter(Boolean);
+}
+
+function asText(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Prescription items from an untrusted request body (null when it is not a list)
+ */
+export function parsePrescriptionItems(raw: unknown): PrescriptionItem[] | null {
+    if (!Array.isArray(raw)) return null;
+
+    return raw.map(value => {
+        const item = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+        const quantity = typeof item.quantity === 'number' ? item.quantity : parseInt(String(item.quantity ?? ''), 10);
+        return {
+            drugName: asText(item.drugName) || '',
+            activeIngredient: asText(item.activeIngredient),
+            strength: asText(item.strength),
+            form: asText(item.form),
+            dose: asText(item.dose),
+            frequency: asText(item.frequency),
+            duration: asText(item.duration),
+            route: asText(item.route),
+            quantity: Number.isFinite(quantity) ? Math.round(quantity) : null,
+            instructions: asText(item.instructions),
+        };
+    });
+}
+
+/**
+ * Check the prescription before saving
+ * - drug name and duration are required (errors)
+ * - the same active ingredient must not be prescribed twice (error)
+ * - missing dose / frequency, non-positive quantity (warnings / errors)
+ */
+export function validatePrescription(items: PrescriptionItem[]): PrescriptionIssue[] {
+    const issues: PrescriptionIssue[] = [];
+    const seen = new Map<string, number>();
+
+    items.forEach((item, index) => {
+        if (blank(item.drugName)) {
+            issues.push({ index, field: 'drugName', severity: 'error', message: 'Thiếu tên thuốc' });
+            return;
+        }
+
+        if (blank(item.duration)) {
+            issues.push({ index, field: 'duration', severity: 'error', message: `${item.drugName}: thiếu thời gian dùng` });
+        }
+        if (blank(item.dose)) {
+            issues.push({ index, field: 'dose', severity: 'warning', message: `${item.drugName}: thiếu liều mỗi lần` });
+        }
+        if (blank(item.frequency)) {
+            issues.push({ index, field: 'frequency', severity: 'warning', message: `${item.drugName}: thiếu số lần dùng` });
+        }
+        if (item.quantity !== null && item.quantity <= 0) {
+            issues.push({ index, field: 'quantity', severity: 'error', message: `${item.drugName}: số lượng phải lớn hơn 0` });
+        }
+
+        for (const ingredient of ingredients(item)) {
+            const first = seen.get(ingredient);
+            if (first !== undefined && first !== index) {
+                issues.push({
+                    index,
+                    field: 'activeIngredient',
+                    severity: 'error',
+                    message: `${item.drugName}: trùng hoạt chất "${ingredient}" với thuốc số ${first + 1} (${items[first].drugName})`,
+                });
+            } else {
+                seen.set(ingredient, index);
+            }
+        }
+    });
+
+    return issues;
+}
+
+/**
+ * One prescription line: "Amoxicillin 500mg (viên nang) - Uống 1 viên x 3 lần/ngày x 7 ngày. SL: 21. Uống sau ăn"
+ */
+export function formatPrescriptionItem(item: PrescriptionItem): string {
+    const name = [item.drugName.trim(), item.strength?.trim()].filter(Boolean).join(' ');
+    const posology = [
+        item.route ? item.route.charAt(0).toUpperCase() + item.route.slice(1) : null,
+        [item.dose, item.frequency, item.duration].filter(v => !blank(v)).join(' x '),
+    ].filter(v => !blank(v)).join(' ');
+
+    return [
+        `${name}${item.form ? ` (${item.form})` : ''}${posology ? ` - ${posology}` : ''}`,
+        item.quantity !== null ? `SL: ${item.quantity}` : null,
+        item.instructions?.trim() || null,
+    ].filter(Boolean).join('. ');
+}
+
+/**
+ * Numbered prescription text (stored in medicalRecords.prescription)
+ */
+export function formatPrescription(items: PrescriptionItem[]): string {
+    return items
+        .filter(item => !blank(item.drugName))
+        .map((item, idx) => `${idx + 1}. ${formatPrescriptionItem(item)}`)
+        .join('\n');
+}
+
+/**
+ * Free-text plan regenerated from the structured items + the non-drug advice
+ */
+export function formatPlan(items: PrescriptionItem[], advice: string): string {
+    const prescription = formatPrescription(items);
+    if (!prescription) return advice.trim();
+
+    return [`Đơn thuốc:\n${prescription}`, advice.trim() ? `Dặn dò:\n${advice.trim()}` : '']
+        .filter(Boolean)
+        .join('\n\n');
+}
+
+/**
+ * Items in the shape the safety checker expects (drug ids are resolved by the checker)
+ */
+export function medicationsFromPrescription(items: PrescriptionItem[]): PrescribedMedication[] {
+    return items
+        .filter(item => !blank(item.drugName))
+        .map(item => ({
+            name: item.drugName.trim(),
+            genericName: item.activeIngredient,
+            strength: item.strength,
+            form: item.form,
+            dose: item.dose,
+            route: item.route,
+            frequency: item.frequency,
+            duration: item.duration,
+            quantity: item.quantity,
+            instructions: item.instructions,
+            drugId: null,
+        }));
+}
+
+/**
+ * Advice part of a plan generated by formatPlan (the whole plan when it has no prescription block)
+ */
+export function adviceFromPlan(plan: string): string {
+    if (!plan.startsWith('Đơn thuốc:')) return plan.trim();
+
+    const at = plan.indexOf('\n\nDặn dò:\n');
+    return at >= 0 ? plan.slice(at + '\n\nDặn dò:\n'.length).trim() : '';
+}
+
+/**
+ * Prescription items from the medications extracted by the safety agent
+ */
+export function prescriptionFromMedications(medications: PrescribedMedication[]): PrescriptionItem[] {
+    return medications.map(med => ({
+        drugName: med.name,
+        activeIngredient: med.genericName,
+        strength: med.strength,
+        form: med.form,
+        dose: med.dose,
+        frequency: med.frequency,
+        duration: med.duration,
+        route: med.route,
+        quantity: med.quantity,
+        instructions: med.instructions,
+    }));
+}
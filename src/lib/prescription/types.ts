@@ -0,0 +1,38 @@
+/**
+ * Structured prescription (đơn thuốc) - one item per drug
+ * Shared by the review editor (client), the save API and the prescription service
+ */
+export interface PrescriptionItem {
+    drugName: string;
+    activeIngredient: string | null;
+    strength: string | null;    // 500mg
+    form: string | null;        // viên nén, viên nang, gói...
+    dose: string | null;        // 1 viên / lần
+    frequency: string | null;   // 2 lần/ngày
+    duration: string | null;    // 7 ngày
+    route: string | null;       // uống, tiêm...
+    quantity: number | null;    // tổng số lượng cấp
+    instructions: string | null; // uống sau ăn...
+}
+
+export type PrescriptionField = keyof PrescriptionItem;
+
+export interface PrescriptionIssue {
+    index: number;
+    field: PrescriptionField | null;
+    severity: 'error' | 'warning';  // errors block the final save
+    message: string;
+}
+
+export const EMPTY_PRESCRIPTION_ITEM: PrescriptionItem = {
+    drugName: '',
+    activeIngredient: null,
+    strength: null,
+    form: null,
+    dose: null,
+    frequency: null,
+    duration: null,
+    route: 'uống',
+    quantity: null,
+    instructions: null,
+};
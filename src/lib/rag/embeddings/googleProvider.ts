@@ -0,0 +1,24 @@
+import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
+import type { EmbeddingModelInfo } from "../vectorIndex";
+import type { EmbeddingProvider } from "./types";
+
+/**
+ * Google Generative AI embeddings (text-embedding-004, 768 dimensions) - needs GOOGLE_API_KEY
+ */
+export class GoogleEmbeddingProvider implements EmbeddingProvider {
+    readonly name = "google";
+    readonly model: EmbeddingModelInfo;
+    readonly embeddings: GoogleGenerativeAIEmbeddings;
+
+    constructor(options: { model: string; version: string }) {
+        if (!process.env.GOOGLE_API_KEY) {
+            throw new Error("Missing GOOGLE_API_KEY environment variable (or set EMBEDDING_PROVIDER=local)");
+        }
+
+        this.model = { provider: "google-genai", name: options.model, version: options.version, dimensions: null };
+        this.embeddings = new GoogleGenerativeAIEmbeddings({
+            modelName: options.model,
+            apiKey: process.env.GOOGLE_API_KEY,
+        });
+    }
+}
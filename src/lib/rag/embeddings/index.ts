@@ -0,0 +1,48 @@
+import type { DataType } from "@huggingface/transformers";
+import { GoogleEmbeddingProvider } from "./googleProvider";
+import { LocalEmbeddingProvider } from "./localProvider";
+import type { EmbeddingProvider } from "./types";
+
+/**
+ * Embedding provider selection (environment variables):
+ * - EMBEDDING_PROVIDER: 'google' (default, needs GOOGLE_API_KEY) | 'local' (ONNX on CPU, offline)
+ * - EMBEDDING_MODEL: model name (default text-embedding-004 / Xenova/paraphrase-multilingual-mpnet-base-v2)
+ * - EMBEDDING_MODEL_VERSION: bump when the model behind the same name changes (default 1)
+ * - LOCAL_EMBEDDING_DTYPE: quantization of the local model (default q8)
+ * - LOCAL_EMBEDDING_MODEL_DIR: folder with pre-downloaded models - disables downloads (offline / CI)
+ * - LOCAL_EMBEDDING_CACHE_DIR: download cache (default ./storage/models)
+ */
+
+// Lazy initialization to avoid build-time errors when env vars are not set
+let _provider: EmbeddingProvider | null = null;
+
+export function createEmbeddingProvider(name: string = process.env.EMBEDDING_PROVIDER || "google"): EmbeddingProvider {
+    const version = process.env.EMBEDDING_MODEL_VERSION || "1";
+
+    switch (name) {
+        case "google":
+            return new GoogleEmbeddingProvider({
+                model: process.env.EMBEDDING_MODEL || "text-embedding-004",
+                version,
+            });
+        case "local":
+            return new LocalEmbeddingProvider({
+                model: process.env.EMBEDDING_MODEL || "Xenova/paraphrase-multilingual-mpnet-base-v2",
+                version,
+                dtype: (process.env.LOCAL_EMBEDDING_DTYPE || "q8") as DataType,
+                modelDir: process.env.LOCAL_EMBEDDING_MODEL_DIR,
+                cacheDir: process.env.LOCAL_EMBEDDING_CACHE_DIR || "./storage/models",
+            });
+        default:
+            throw new Error(`Unknown EMBEDDING_PROVIDER "${name}" (expected 'google' or 'local')`);
+    }
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+    if (!_provider) {
+        _provider = createEmbeddingProvider();
+    }
+    return _provider;
+}
+
+export type { EmbeddingProvider } from "./types";
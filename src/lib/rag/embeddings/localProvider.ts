@@ -0,0 +1,70 @@
+import { Embeddings } from "@langchain/core/embeddings";
+import type { DataType, FeatureExtractionPipeline } from "@huggingface/transformers";
+import type { EmbeddingModelInfo } from "../vectorIndex";
+import { loadTransformers, type LocalModelOptions } from "../transformers";
+import type { EmbeddingProvider } from "./types";
+
+// Texts per forward pass - keeps memory bounded on small CPU instances
+const BATCH_SIZE = 16;
+
+export interface LocalEmbeddingOptions extends LocalModelOptions {
+    model: string;              // Hugging Face id, e.g. Xenova/paraphrase-multilingual-mpnet-base-v2
+    version: string;
+    dtype: DataType;            // q8 (default, quantized) | fp32 ...
+}
+
+/**
+ * Sentence embeddings computed in-process with ONNX Runtime (transformers.js), mean pooling + L2 normalization
+ * The runtime is imported lazily so deployments using the Google provider never load it
+ */
+class LocalOnnxEmbeddings extends Embeddings {
+    private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+    constructor(private options: LocalEmbeddingOptions) {
+        super({});
+    }
+
+    private getExtractor(): Promise<FeatureExtractionPipeline> {
+        if (!this.extractor) {
+            this.extractor = (async () => {
+                const { pipeline } = await loadTransformers(this.options);
+                return pipeline("feature-extraction", this.options.model, { dtype: this.options.dtype });
+            })();
+            // Allow a retry after a failed download / load
+            this.extractor.catch(() => { this.extractor = null; });
+        }
+        return this.extractor;
+    }
+
+    async embedDocuments(texts: string[]): Promise<number[][]> {
+        const extractor = await this.getExtractor();
+        const vectors: number[][] = [];
+
+        for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+            const output = await extractor(texts.slice(i, i + BATCH_SIZE), { pooling: "mean", normalize: true });
+            vectors.push(...(output.tolist() as number[][]));
+        }
+        return vectors;
+    }
+
+    async embedQuery(text: string): Promise<number[]> {
+        const [vector] = await this.embedDocuments([text]);
+        return vector;
+    }
+}
+
+/**
+ * Local multilingual model on CPU - works offline (with LOCAL_EMBEDDING_MODEL_DIR) and in CI, no API key
+ * Default model has 768 dimensions, same as knowledge_chunks.embedding
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+    readonly name = "local";
+    readonly model: EmbeddingModelInfo;
+    readonly embeddings: Embeddings;
+
+    constructor(options: LocalEmbeddingOptions) {
+        // Quantization changes the vectors, so it is part of the model identity
+        this.model = { provider: "onnx", name: options.model, version: `${options.version}-${options.dtype}`, dimensions: null };
+        this.embeddings = new LocalOnnxEmbeddings(options);
+    }
+}
@@ -0,0 +1,13 @@
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import type { EmbeddingModelInfo } from "../vectorIndex";
+
+/**
+ * Embedding provider used by RAG (vector index) and the AI-vs-doctor comparison
+ * Each backend (Google API, local ONNX model...) implements this interface
+ */
+export interface EmbeddingProvider {
+    readonly name: string;
+    // Identity stored with the vectors - indexes built with another model are refused
+    readonly model: EmbeddingModelInfo;
+    readonly embeddings: EmbeddingsInterface;
+}
@@ -0,0 +1,136 @@
+import type { IndexedChunk } from "./vectorIndex";
+import { matchesFilter } from "./stores/filter";
+import type { VectorSearchFilter, VectorSearchResult } from "./stores/types";
+
+/**
+ * BM25 keyword index over the chunks of the vector index (and the ICD-10 catalogue)
+ * Catches exact terms embeddings tend to blur: drug names, doses, ICD codes, abbreviations (THA, PPI)
+ */
+
+// BM25 parameters (usual defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// Function words that carry no meaning for retrieval (after diacritics folding).
+// Words that fold onto medical terms are left out on purpose: "da" (dạ dày), "cung" (tử cung), "trong" (nghiêm trọng)
+const STOPWORDS = new Set([
+    "va", "cua", "la", "cac", "nhung", "duoc", "cho", "voi", "khi", "thi", "mot", "nay", "hoac", "theo", "nhu", "se",
+]);
+
+/**
+ * "Đau thượng vị" → "dau thuong vi" - patients and doctors often type without diacritics
+ */
+export function foldDiacritics(text: string): string {
+    return text
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/đ/g, "d")
+        .replace(/Đ/g, "D")
+        .toLowerCase();
+}
+
+/**
+ * Vietnamese words are written as separate syllables ("huyết áp"), so adjacent syllables of the same phrase
+ * are also indexed as one term ("huyet_ap"); ICD codes keep their dot and also index their category ("k29.7" → "k29")
+ */
+export function tokenize(text: string): string[] {
+    const tokens: string[] = [];
+
+    for (const phrase of foldDiacritics(text).split(/[,;:!?()[\]\n]|\.(?!\d)/)) {
+        const syllables = phrase.match(/[a-z0-9]+(?:\.\d+)?/g) || [];
+
+        syllables.forEach((syllable, idx) => {
+            if (!STOPWORDS.has(syllable)) tokens.push(syllable);
+
+            const category = syllable.match(/^([a-z]\d{2})\.\d+$/);
+            if (category) tokens.push(category[1]);
+
+            const next = syllables[idx + 1];
+            if (next && !(STOPWORDS.has(syllable) && STOPWORDS.has(next))) tokens.push(`${syllable}_${next}`);
+        });
+    }
+    return tokens;
+}
+
+interface Bm25Document<T> {
+    item: T;
+    termFrequencies: Map<string, number>;
+    length: number;
+}
+
+/**
+ * BM25 over any items with a text - used for the protocol chunks and the ICD-10 catalogue
+ */
+export class Bm25Index<T> {
+    private documents: Bm25Document<T>[] = [];
+    private documentFrequencies = new Map<string, number>();
+    private averageLength = 0;
+
+    constructor(entries: { text: string; item: T }[] = []) {
+        for (const entry of entries) {
+            const tokens = tokenize(entry.text);
+            const termFrequencies = new Map<string, number>();
+            for (const token of tokens) termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+            for (const term of termFrequencies.keys()) {
+                this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+            }
+
+            this.documents.push({ item: entry.item, termFrequencies, length: tokens.length });
+        }
+        this.averageLength = this.documents.reduce((total, doc) => total + doc.length, 0) / (this.documents.length || 1);
+    }
+
+    get size(): number {
+        return this.documents.length;
+    }
+
+    private idf(term: string): number {
+        const frequency = this.documentFrequencies.get(term) || 0;
+        return Math.log(1 + (this.documents.length - frequency + 0.5) / (frequency + 0.5));
+    }
+
+    /**
+     * Top-k items by BM25 score (items sharing no term with the query are not returned)
+     */
+    search(query: string, k: number, accept?: (item: T) => boolean): { item: T; score: number }[] {
+        const terms = [...new Set(tokenize(query))].filter(term => this.documentFrequencies.has(term));
+        if (terms.length === 0) return [];
+
+        const results: { item: T; score: number }[] = [];
+        for (const doc of this.documents) {
+            if (accept && !accept(doc.item)) continue;
+
+            let score = 0;
+            for (const term of terms) {
+                const frequency = doc.termFrequencies.get(term);
+                if (!frequency) continue;
+                const normalization = K1 * (1 - B + B * doc.length / this.averageLength);
+                score += this.idf(term) * (frequency * (K1 + 1)) / (frequency + normalization);
+            }
+            if (score > 0) results.push({ item: doc.item, score });
+        }
+
+        return results.sort((a, b) => b.score - a.score).slice(0, k);
+    }
+}
+
+/**
+ * Keyword side of the hybrid retrieval over the chunks of the vector index
+ */
+export class KeywordIndex {
+    private index: Bm25Index<IndexedChunk>;
+
+    constructor(chunks: IndexedChunk[] = []) {
+        this.index = new Bm25Index(chunks.map(chunk => ({ text: chunk.text, item: chunk })));
+    }
+
+    get size(): number {
+        return this.index.size;
+    }
+
+    search(query: string, k: number, filter?: VectorSearchFilter): VectorSearchResult[] {
+        return this.index
+            .search(query, k, filter ? chunk => matchesFilter(chunk.metadata, filter) : undefined)
+            .map(({ item, score }) => ({ id: item.id, text: item.text, metadata: item.metadata, score }));
+    }
+}
@@ -0,0 +1,34 @@
+import type { SoapNote } from "../agents/state";
+
+/**
+ * What the expert agent searches the knowledge base with
+ * - clinical: assessment + suggested ICD-10 codes with their descriptions (finds the right protocol)
+ * - symptoms: subjective (finds the matching sections when the assessment is vague)
+ * Empty parts are skipped; each text is searched separately and the results are fused
+ */
+export interface RetrievalQuery {
+    texts: string[];
+    icdCodes: string[];     // Bare codes, e.g. ["K29.7"] - used by the reranker to prefer protocols of the same chapter
+}
+
+// "K29.7 - Viêm dạ dày" → { code: "K29.7", description: "Viêm dạ dày" }
+export function parseIcdSuggestion(value: string): { code: string; description: string } | null {
+    const match = value.trim().match(/^([A-Z]\d{2}(?:\.\d{1,2})?)\b\s*[-–:]?\s*(.*)$/i);
+    return match ? { code: match[1].toUpperCase(), description: match[2].trim() } : null;
+}
+
+export function buildRetrievalQuery(soap: SoapNote, icdCodes: string[] = []): RetrievalQuery {
+    const suggestions = icdCodes
+        .map(parseIcdSuggestion)
+        .filter((item): item is { code: string; description: string } => item !== null);
+
+    const clinical = [
+        soap.assessment.trim(),
+        ...suggestions.map(({ code, description }) => description ? `${code} ${description}` : code),
+    ].filter(Boolean).join("\n");
+
+    return {
+        texts: [clinical, soap.subjective.trim()].filter(Boolean),
+        icdCodes: suggestions.map(({ code }) => code),
+    };
+}
@@ -0,0 +1,158 @@
+import type { DataType, PreTrainedModel, PreTrainedTokenizer } from "@huggingface/transformers";
+import { icd10ChapterOf } from "../icd10/types";
+import { tokenize } from "./keywordIndex";
+import type { RetrievalQuery } from "./query";
+import { loadTransformers, type LocalModelOptions } from "./transformers";
+import type { KnowledgeChunkMetadata } from "./vectorIndex";
+
+/**
+ * Second stage of hybrid retrieval: the fused vector + keyword candidates are re-scored and the best k kept
+ *
+ * Environment variables:
+ * - RERANKER: 'lexical' (default, no model) | 'cross-encoder' (local ONNX model on CPU) | 'none' (fused order)
+ * - RERANKER_MODEL: cross-encoder model (default Xenova/bge-reranker-base)
+ * - RERANKER_DTYPE: quantization of the cross-encoder (default q8)
+ * - LOCAL_EMBEDDING_MODEL_DIR / LOCAL_EMBEDDING_CACHE_DIR: shared with the local embedding model
+ */
+
+export interface RetrievalCandidate {
+    id: string;
+    text: string;
+    metadata: KnowledgeChunkMetadata;
+    fusedScore: number;             // Reciprocal rank fusion of every vector / keyword result list
+    vectorScore: number | null;     // Best cosine similarity (null = keyword match only)
+    keywordScore: number | null;    // Best BM25 score (null = vector match only)
+    score: number;                  // Final score after reranking
+}
+
+export interface Reranker {
+    readonly name: string;
+    rerank(query: RetrievalQuery, candidates: RetrievalCandidate[], k: number): Promise<RetrievalCandidate[]>;
+}
+
+function topK(candidates: RetrievalCandidate[], k: number): RetrievalCandidate[] {
+    return [...candidates].sort((a, b) => b.score - a.score).slice(0, k);
+}
+
+/**
+ * Keeps the fused order
+ */
+class FusionOrderReranker implements Reranker {
+    readonly name = "none";
+
+    async rerank(_query: RetrievalQuery, candidates: RetrievalCandidate[], k: number) {
+        return topK(candidates.map(candidate => ({ ...candidate, score: candidate.fusedScore })), k);
+    }
+}
+
+/**
+ * Cheap reranking without a model:
+ * fused rank + share of query terms present in the chunk + query terms in the section headings
+ * + protocol tagged with the ICD-10 chapter of a suggested code
+ */
+class LexicalReranker implements Reranker {
+    readonly name = "lexical";
+
+    async rerank(query: RetrievalQuery, candidates: RetrievalCandidate[], k: number) {
+        if (candidates.length === 0) return [];
+
+        const queryTerms = new Set(query.texts.flatMap(tokenize));
+        const chapters = new Set(query.icdCodes.map(icd10ChapterOf).filter(Boolean));
+        const maxFused = Math.max(...candidates.map(candidate => candidate.fusedScore));
+
+        return topK(candidates.map(candidate => {
+            const terms = new Set(tokenize(candidate.text));
+            const coverage = queryTerms.size > 0
+                ? [...queryTerms].filter(term => terms.has(term)).length / queryTerms.size
+                : 0;
+
+            // Headings below the document title, e.g. "Điều trị", "Triệu chứng lâm sàng"
+            const headingTerms = tokenize(candidate.metadata.section.slice(1).join(" ")).filter(term => !/^\d+$/.test(term));
+            const headingMatch = headingTerms.length > 0
+                ? headingTerms.filter(term => queryTerms.has(term)).length / headingTerms.length
+                : 0;
+
+            const chapterMatch = candidate.metadata.icdChapters.some(chapter => chapters.has(chapter)) ? 1 : 0;
+
+            return {
+                ...candidate,
+                score: 0.5 * candidate.fusedScore / maxFused + 0.25 * coverage + 0.1 * headingMatch + 0.15 * chapterMatch,
+            };
+        }), k);
+    }
+}
+
+interface CrossEncoderOptions extends LocalModelOptions {
+    model: string;
+    dtype: DataType;
+}
+
+/**
+ * Cross-encoder (query, chunk) relevance on CPU with transformers.js - slower, more precise
+ */
+class CrossEncoderReranker implements Reranker {
+    readonly name = "cross-encoder";
+    private loading: Promise<{ tokenizer: PreTrainedTokenizer; model: PreTrainedModel }> | null = null;
+
+    constructor(private options: CrossEncoderOptions) { }
+
+    private load() {
+        if (!this.loading) {
+            this.loading = (async () => {
+                const { AutoTokenizer, AutoModelForSequenceClassification } = await loadTransformers(this.options);
+                const [tokenizer, model] = await Promise.all([
+                    AutoTokenizer.from_pretrained(this.options.model),
+                    AutoModelForSequenceClassification.from_pretrained(this.options.model, { dtype: this.options.dtype }),
+                ]);
+                return { tokenizer, model };
+            })();
+            // Allow a retry after a failed download / load
+            this.loading.catch(() => { this.loading = null; });
+        }
+        return this.loading;
+    }
+
+    async rerank(query: RetrievalQuery, candidates: RetrievalCandidate[], k: number) {
+        if (candidates.length === 0) return [];
+
+        const { tokenizer, model } = await this.load();
+        const queryText = query.texts.join("\n");
+        const inputs = tokenizer(candidates.map(() => queryText), {
+            text_pair: candidates.map(candidate => candidate.text),
+            padding: true,
+            truncation: true,
+        });
+        const { logits } = await model(inputs);
+        const scores = logits.sigmoid().tolist() as number[][];
+
+        return topK(candidates.map((candidate, idx) => ({ ...candidate, score: scores[idx][0] })), k);
+    }
+}
+
+// Lazy initialization - the cross-encoder is only loaded when selected
+let _reranker: Reranker | null = null;
+
+export function createReranker(name: string = process.env.RERANKER || "lexical"): Reranker {
+    switch (name) {
+        case "lexical":
+            return new LexicalReranker();
+        case "cross-encoder":
+            return new CrossEncoderReranker({
+                model: process.env.RERANKER_MODEL || "Xenova/bge-reranker-base",
+                dtype: (process.env.RERANKER_DTYPE || "q8") as DataType,
+                modelDir: process.env.LOCAL_EMBEDDING_MODEL_DIR,
+                cacheDir: process.env.LOCAL_EMBEDDING_CACHE_DIR || "./storage/models",
+            });
+        case "none":
+            return new FusionOrderReranker();
+        default:
+            throw new Error(`Unknown RERANKER "${name}" (expected 'lexical', 'cross-encoder' or 'none')`);
+    }
+}
+
+export function getReranker(): Reranker {
+    if (!_reranker) {
+        _reranker = createReranker();
+    }
+    return _reranker;
+}
@@ -0,0 +1,15 @@
+import type { KnowledgeChunkMetadata } from "../vectorIndex";
+import type { VectorSearchFilter } from "./types";
+
+/**
+ * In-memory equivalent of the SQL WHERE clause used by the pgvector store
+ */
+export function matchesFilter(metadata: KnowledgeChunkMetadata, filter: VectorSearchFilter): boolean {
+    if (filter.specialty && metadata.specialty !== filter.specialty) return false;
+    if (filter.version && metadata.version !== filter.version) return false;
+    if (filter.source) {
+        const sources = Array.isArray(filter.source) ? filter.source : [filter.source];
+        if (sources.length > 0 && !sources.includes(metadata.source)) return false;
+    }
+    return true;
+}
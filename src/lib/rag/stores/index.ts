@@ -0,0 +1,24 @@
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { MemoryKnowledgeStore } from "./memoryStore";
+import { PgVectorKnowledgeStore } from "./pgvectorStore";
+import type { VectorStore } from "./types";
+
+/**
+ * Vector store selection (environment variables):
+ * - VECTOR_STORE: 'memory' (default, in-process) | 'pgvector' (table knowledge_chunks, needs POSTGRES_URL)
+ */
+export function createVectorStore(
+    embeddings: EmbeddingsInterface,
+    name: string = process.env.VECTOR_STORE || "memory"
+): VectorStore {
+    switch (name) {
+        case "memory":
+            return new MemoryKnowledgeStore(embeddings);
+        case "pgvector":
+            return new PgVectorKnowledgeStore();
+        default:
+            throw new Error(`Unknown VECTOR_STORE "${name}" (expected 'memory' or 'pgvector')`);
+    }
+}
+
+export type { VectorStore, VectorSearchFilter, VectorSearchResult, VectorStoreLoadStats } from "./types";
@@ -0,0 +1,59 @@
+import { MemoryVectorStore } from "@langchain/classic/vectorstores/memory";
+import { Document } from "@langchain/core/documents";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { describeModel, VectorIndexError, type KnowledgeChunkMetadata, type VectorIndex } from "../vectorIndex";
+import { matchesFilter } from "./filter";
+import type { VectorSearchFilter, VectorSearchResult, VectorStore, VectorStoreLoadStats } from "./types";
+
+/**
+ * In-process store (LangChain MemoryVectorStore) - rebuilt from the index on every cold start
+ * Default for development and tests; lost per serverless instance
+ */
+export class MemoryKnowledgeStore implements VectorStore {
+    readonly name = "memory";
+    private store: MemoryVectorStore;
+    private model: string | null = null;
+
+    constructor(private embeddings: EmbeddingsInterface) {
+        this.store = new MemoryVectorStore(embeddings);
+    }
+
+    async load(index: VectorIndex, options: { rebuild?: boolean } = {}): Promise<VectorStoreLoadStats> {
+        const model = describeModel(index.model);
+        if (this.model && this.model !== model && !options.rebuild) {
+            throw new VectorIndexError(`Memory store holds ${this.model} vectors, refusing ${model}`);
+        }
+
+        const chunks = Object.values(index.files).flatMap(file => file.chunks);
+        const deleted = this.store.memoryVectors.length;
+
+        this.store = new MemoryVectorStore(this.embeddings);
+        if (chunks.length > 0) {
+            await this.store.addVectors(
+                chunks.map(chunk => chunk.embedding),
+                chunks.map(chunk => new Document({ id: chunk.id, pageContent: chunk.text, metadata: chunk.metadata }))
+            );
+        }
+        this.model = model;
+
+        return { upserted: chunks.length, deleted, unchanged: 0 };
+    }
+
+    async search(embedding: number[], k: number, filter?: VectorSearchFilter): Promise<VectorSearchResult[]> {
+        const results = await this.store.similaritySearchVectorWithScore(
+            embedding,
+            k,
+            filter ? (doc: Document) => matchesFilter(doc.metadata as KnowledgeChunkMetadata, filter) : undefined
+        );
+
+        return results.map(([doc, score]) => {
+            const metadata = doc.metadata as KnowledgeChunkMetadata;
+            return {
+                id: doc.id || `${metadata.source}#${metadata.chunk}`,
+                text: doc.pageContent,
+                metadata,
+                score,
+            };
+        });
+    }
+}
@@ -0,0 +1,171 @@
+import { and, cosineDistance, eq, inArray, sql, type SQL } from "drizzle-orm";
+import { db } from "../../db";
+import { knowledgeChunks, KNOWLEDGE_EMBEDDING_DIMENSIONS } from "../../db/schema-knowledge";
+import { describeModel, VectorIndexError, type IndexedChunk, type KnowledgeChunkMetadata, type VectorIndex } from "../vectorIndex";
+import type { VectorSearchFilter, VectorSearchResult, VectorStore, VectorStoreLoadStats } from "./types";
+
+// Rows per INSERT / DELETE statement
+const BATCH_SIZE = 100;
+
+function batches<T>(items: T[]): T[][] {
+    const result: T[][] = [];
+    for (let i = 0; i < items.length; i += BATCH_SIZE) result.push(items.slice(i, i + BATCH_SIZE));
+    return result;
+}
+
+// jsonb does not keep key order - compare values, not serialized text
+function sameMetadata(a: unknown, b: unknown): boolean {
+    const normalize = (value: unknown) => JSON.stringify(value, (_, item) =>
+        item && typeof item === "object" && !Array.isArray(item)
+            ? Object.fromEntries(Object.entries(item).sort(([x], [y]) => x.localeCompare(y)))
+            : item
+    );
+    return normalize(a) === normalize(b);
+}
+
+function toRow(chunk: IndexedChunk, embeddingModel: string) {
+    return {
+        chunkId: chunk.id,
+        source: chunk.metadata.source,
+        specialty: chunk.metadata.specialty,
+        version: chunk.metadata.version,
+        position: chunk.metadata.chunk,
+        content: chunk.text,
+        contentHash: chunk.hash,
+        metadata: chunk.metadata,
+        embeddingModel,
+        embedding: chunk.embedding,
+        updatedAt: new Date(),
+    };
+}
+
+/**
+ * Postgres + pgvector store (table knowledge_chunks, migration drizzle/0000_knowledge_chunks.sql)
+ * Shared by every server instance; load() only writes chunks whose content hash or metadata changed
+ */
+export class PgVectorKnowledgeStore implements VectorStore {
+    readonly name = "pgvector";
+    private model: string | null = null;
+
+    async load(index: VectorIndex, options: { rebuild?: boolean } = {}): Promise<VectorStoreLoadStats> {
+        if (!db) {
+            throw new VectorIndexError("VECTOR_STORE=pgvector requires POSTGRES_URL");
+        }
+        if (index.model.dimensions !== null && index.model.dimensions !== KNOWLEDGE_EMBEDDING_DIMENSIONS) {
+            throw new VectorIndexError(
+                `knowledge_chunks.embedding is vector(${KNOWLEDGE_EMBEDDING_DIMENSIONS}) but ${describeModel(index.model)} produces ${index.model.dimensions} dimensions`
+            );
+        }
+
+        const model = describeModel(index.model);
+        const chunks = Object.values(index.files).flatMap(file => file.chunks);
+
+        const existing: { chunkId: string; contentHash: string; metadata: unknown; embeddingModel: string }[] = await db
+            .select({
+                chunkId: knowledgeChunks.chunkId,
+                contentHash: knowledgeChunks.contentHash,
+                metadata: knowledgeChunks.metadata,
+                embeddingModel: knowledgeChunks.embeddingModel,
+            })
+            .from(knowledgeChunks);
+
+        const otherModel = existing.find(row => row.embeddingModel !== model);
+        if (otherModel && !options.rebuild) {
+            throw new VectorIndexError(
+                `knowledge_chunks holds ${otherModel.embeddingModel} vectors but the index is ${model}. ` +
+                `Rebuild it: npx tsx scripts/rag-index.ts rebuild`
+            );
+        }
+
+        const wanted = new Set(chunks.map(chunk => chunk.id));
+        const stored = new Map(existing.filter(row => row.embeddingModel === model).map(row => [row.chunkId, row]));
+        const stale = existing.filter(row => !wanted.has(row.chunkId) || row.embeddingModel !== model).map(row => row.chunkId);
+        const changed = chunks.filter(chunk => {
+            const row = stored.get(chunk.id);
+            return !row || row.contentHash !== chunk.hash || !sameMetadata(row.metadata, chunk.metadata);
+        });
+
+        if (stale.length > 0 || changed.length > 0) {
+            await db.transaction(async (tx: typeof db) => {
+                for (const ids of batches(stale)) {
+                    await tx.delete(knowledgeChunks).where(inArray(knowledgeChunks.chunkId, ids));
+                }
+                for (const rows of batches(changed)) {
+                    await tx
+                        .insert(knowledgeChunks)
+                        .values(rows.map(chunk => toRow(chunk, model)))
+                        .onConflictDoUpdate({
+                            target: knowledgeChunks.chunkId,
+                            set: {
+                                source: sql`excluded.source`,
+                                specialty: sql`excluded.specialty`,
+                                version: sql`excluded.version`,
+                                position: sql`excluded.position`,
+                                content: sql`excluded.content`,
+                                contentHash: sql`excluded.content_hash`,
+                                metadata: sql`excluded.metadata`,
+                                embeddingModel: sql`excluded.embedding_model`,
+                                embedding: sql`excluded.embedding`,
+                                updatedAt: sql`excluded.updated_at`,
+                            },
+                        });
+                }
+            });
+        }
+
+        this.model = model;
+        return { upserted: changed.length, deleted: stale.length, unchanged: chunks.length - changed.length };
+    }
+
+    async search(embedding: number[], k: number, filter: VectorSearchFilter = {}): Promise<VectorSearchResult[]> {
+        if (!this.model) throw new VectorIndexError("pgvector store not loaded");
+
+        const distance = cosineDistance(knowledgeChunks.embedding, embedding);
+        const conditions: SQL[] = [eq(knowledgeChunks.embeddingModel, this.model)];
+        if (filter.specialty) conditions.push(eq(knowledgeChunks.specialty, filter.specialty));
+        if (filter.version) conditions.push(eq(knowledgeChunks.version, filter.version));
+        if (filter.source) {
+            const sources = Array.isArray(filter.source) ? filter.source : [filter.source];
+            if (sources.length > 0) conditions.push(inArray(knowledgeChunks.source, sources));
+        }
+
+        const rows: {
+            chunkId: string;
+            content: string;
+            source: string;
+            position: number;
+            specialty: string | null;
+            version: string | null;
+            metadata: Partial<KnowledgeChunkMetadata> | null;
+            distance: number;
+        }[] = await db
+            .select({
+                chunkId: knowledgeChunks.chunkId,
+                content: knowledgeChunks.content,
+                source: knowledgeChunks.source,
+                position: knowledgeChunks.position,
+                specialty: knowledgeChunks.specialty,
+                version: knowledgeChunks.version,
+                metadata: knowledgeChunks.metadata,
+                distance: sql<number>`${distance}`,
+            })
+            .from(knowledgeChunks)
+            .where(and(...conditions))
+            .orderBy(distance)
+            .limit(k);
+
+        return rows.map(row => ({
+            id: row.chunkId,
+            text: row.content,
+            metadata: {
+                source: row.source,
+                chunk: row.position,
+                specialty: row.specialty,
+                version: row.version,
+                section: row.metadata?.section || [],
+                icdChapters: row.metadata?.icdChapters || [],
+            },
+            score: 1 - Number(row.distance),
+        }));
+    }
+}
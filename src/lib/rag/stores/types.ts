@@ -0,0 +1,38 @@
+import type { KnowledgeChunkMetadata, VectorIndex } from "../vectorIndex";
+
+/**
+ * Vector store backends behind MedicalVectorStore
+ * Both hold exactly the chunks of the persisted vector index (data/vector_store/db.json);
+ * the index does the embedding, the store only keeps vectors and answers similarity queries
+ */
+
+// Metadata filters - every given field must match
+export interface VectorSearchFilter {
+    specialty?: string;
+    source?: string | string[];     // Protocol file(s), e.g. "tang_huyet_ap.md"
+    version?: string;
+}
+
+export interface VectorSearchResult {
+    id: string;                     // "<source>#<position>"
+    text: string;
+    metadata: KnowledgeChunkMetadata;
+    score: number;                  // Cosine similarity (higher = closer)
+}
+
+export interface VectorStoreLoadStats {
+    upserted: number;
+    deleted: number;
+    unchanged: number;
+}
+
+export interface VectorStore {
+    readonly name: string;
+
+    /**
+     * Make the store mirror the index. Refuses vectors from another embedding model unless rebuild
+     */
+    load(index: VectorIndex, options?: { rebuild?: boolean }): Promise<VectorStoreLoadStats>;
+
+    search(embedding: number[], k: number, filter?: VectorSearchFilter): Promise<VectorSearchResult[]>;
+}
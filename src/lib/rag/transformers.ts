@@ -0,0 +1,19 @@
+/**
+ * Lazy loader for transformers.js (ONNX Runtime on CPU), shared by the local embedding model and the cross-encoder reranker
+ * Deployments that use neither never load the runtime
+ */
+
+export interface LocalModelOptions {
+    modelDir?: string;          // Pre-downloaded models (<modelDir>/<model id>/) - no network access at all
+    cacheDir?: string;          // Where downloaded models are cached
+}
+
+export async function loadTransformers(options: LocalModelOptions) {
+    const transformers = await import("@huggingface/transformers");
+    if (options.cacheDir) transformers.env.cacheDir = options.cacheDir;
+    if (options.modelDir) {
+        transformers.env.localModelPath = options.modelDir;
+        transformers.env.allowRemoteModels = false;
+    }
+    return transformers;
+}
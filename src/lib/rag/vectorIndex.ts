@@ -0,0 +1,423 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { RecursiveCharacterTextSplitter } from "@langchain/classic/text_splitter";
+
+/**
+ * Persistent vector index of the knowledge base (data/vector_store/db.json)
+ * - Every file and chunk carries a sha256 of its content: only changed files are re-chunked,
+ *   and only chunks whose text changed are re-embedded
+ * - The embedding model (provider, name, version, dimensions) is stored with the vectors;
+ *   vectors from a different model are never mixed into the same index
+ */
+
+// Bump when the JSON layout changes - older files must be rebuilt
+export const VECTOR_INDEX_FORMAT = 1;
+
+export interface EmbeddingModelInfo {
+    provider: string;
+    name: string;
+    version: string;            // Bump (EMBEDDING_MODEL_VERSION) when the provider changes the model behind the same name
+    dimensions: number | null;  // Known after the first embedding
+}
+
+/**
+ * - recursive: fixed-size windows over the whole file (indexes built before section chunking)
+ * - sections: one chunk per markdown section (split further only when longer than chunkSize),
+ *   prefixed with its heading path so the chunk makes sense on its own
+ */
+export interface ChunkingConfig {
+    strategy?: "recursive" | "sections";   // Missing = recursive
+    chunkSize: number;
+    chunkOverlap: number;
+}
+
+// Chunking used for the knowledge base (index and chunk previews)
+export const KNOWLEDGE_CHUNKING: ChunkingConfig = { strategy: "sections", chunkSize: 1000, chunkOverlap: 200 };
+
+// Metadata used as retrieval filters - specialty / version / icd_chapters come from the file's front matter
+export interface KnowledgeChunkMetadata {
+    source: string;
+    chunk: number;
+    specialty: string | null;
+    version: string | null;
+    section: string[];          // Heading path, e.g. ["PHÁC ĐỒ ĐIỀU TRỊ VIÊM LOÉT DẠ DÀY - TÁ TRÀNG", "4. Điều trị (Plan)", "A. Nguyên tắc"]
+    icdChapters: string[];      // ICD-10 chapters the protocol covers, e.g. ["XI"]
+}
+
+export interface KnowledgeChunkText {
+    text: string;
+    section: string[];
+}
+
+export interface IndexedChunk {
+    id: string;                 // "<source>#<position>"
+    hash: string;               // sha256 of text
+    text: string;
+    metadata: KnowledgeChunkMetadata;
+    embedding: number[];
+}
+
+export interface IndexedFile {
+    hash: string;               // sha256 of the whole file
+    indexedAt: string;
+    chunks: IndexedChunk[];
+}
+
+export interface VectorIndex {
+    format: number;
+    model: EmbeddingModelInfo;
+    chunking: ChunkingConfig;
+    updatedAt: string;
+    files: Record<string, IndexedFile>;
+}
+
+export interface KnowledgeSource {
+    source: string;             // File name, kept as metadata.source for references
+    content: string;            // Raw file, front matter included (hashed as a whole)
+}
+
+export interface VectorIndexSyncStats {
+    added: string[];
+    updated: string[];
+    removed: string[];
+    unchanged: string[];
+    embeddedChunks: number;
+    reusedChunks: number;
+}
+
+export interface VectorIndexReport {
+    ok: boolean;
+    problems: string[];
+}
+
+export class VectorIndexError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "VectorIndexError";
+    }
+}
+
+export class EmbeddingModelMismatchError extends VectorIndexError {
+    constructor(
+        public indexModel: EmbeddingModelInfo,
+        public currentModel: EmbeddingModelInfo
+    ) {
+        super(
+            `Vector index was built with ${describeModel(indexModel)} but the current model is ${describeModel(currentModel)}. ` +
+            `Rebuild it: npx tsx scripts/rag-index.ts rebuild`
+        );
+        this.name = "EmbeddingModelMismatchError";
+    }
+}
+
+export function describeModel(model: EmbeddingModelInfo): string {
+    return `${model.provider}/${model.name}@${model.version}${model.dimensions ? ` (${model.dimensions}d)` : ""}`;
+}
+
+export function hashContent(content: string): string {
+    return createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+// Dimensions only count once both sides know them
+function isSameModel(a: EmbeddingModelInfo, b: EmbeddingModelInfo): boolean {
+    return a.provider === b.provider
+        && a.name === b.name
+        && a.version === b.version
+        && (a.dimensions === null || b.dimensions === null || a.dimensions === b.dimensions);
+}
+
+export function assertSameModel(index: VectorIndex, model: EmbeddingModelInfo) {
+    if (!isSameModel(index.model, model)) {
+        throw new EmbeddingModelMismatchError(index.model, model);
+    }
+}
+
+// ============= Files =============
+
+/**
+ * Optional front matter of a protocol file:
+ *   ---
+ *   specialty: tim-mach
+ *   version: 2023
+ *   icd_chapters: IX
+ *   ---
+ */
+export function parseFrontMatter(content: string): { attributes: Record<string, string>; body: string } {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+    if (!match) return { attributes: {}, body: content };
+
+    const attributes: Record<string, string> = {};
+    for (const line of match[1].split(/\r?\n/)) {
+        const separator = line.indexOf(":");
+        if (separator <= 0) continue;
+        const value = line.slice(separator + 1).trim().replace(/^["']|["']$/g, "");
+        if (value) attributes[line.slice(0, separator).trim()] = value;
+    }
+    return { attributes, body: content.slice(match[0].length) };
+}
+
+/**
+ * Markdown files of the knowledge base, sorted by name
+ */
+export async function readKnowledgeSources(dir: string): Promise<KnowledgeSource[]> {
+    const files = (await fs.readdir(dir)).filter(file => file.endsWith(".md")).sort();
+
+    return Promise.all(files.map(async file => ({
+        source: file,
+        content: await fs.readFile(path.join(dir, file), "utf-8"),
+    })));
+}
+
+/**
+ * Read the persisted index - null when it does not exist yet
+ */
+export async function loadVectorIndex(filePath: string): Promise<VectorIndex | null> {
+    let raw: string;
+    try {
+        raw = await fs.readFile(filePath, "utf-8");
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+    }
+
+    let index: VectorIndex;
+    try {
+        index = JSON.parse(raw);
+    } catch {
+        throw new VectorIndexError(`Vector index ${filePath} is not valid JSON - rebuild it`);
+    }
+
+    if (index.format !== VECTOR_INDEX_FORMAT || !index.model || !index.files) {
+        throw new VectorIndexError(`Vector index ${filePath} has an unsupported format (${index.format}) - rebuild it`);
+    }
+    return index;
+}
+
+/**
+ * Write the index atomically (temp file + rename) so a crash never leaves a half-written file
+ */
+export async function saveVectorIndex(filePath: string, index: VectorIndex) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(index));
+    await fs.rename(tempPath, filePath);
+}
+
+// ============= Sync =============
+
+/**
+ * Markdown → sections with their heading path (headings inside code fences are ignored)
+ * Headings directly followed by a sub-heading only appear in the path of their children
+ */
+function markdownSections(markdown: string): KnowledgeChunkText[] {
+    const sections: KnowledgeChunkText[] = [];
+    const path: { level: number; title: string }[] = [];
+    let lines: string[] = [];
+    let inFence = false;
+
+    const flush = () => {
+        const text = lines.join("\n").trim();
+        if (text) sections.push({ text, section: path.map(heading => heading.title) });
+        lines = [];
+    };
+
+    for (const line of markdown.split(/\r?\n/)) {
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+        const heading = inFence ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+        if (!heading) {
+            lines.push(line);
+            continue;
+        }
+
+        flush();
+        const level = heading[1].length;
+        while (path.length > 0 && path[path.length - 1].level >= level) path.pop();
+        path.push({ level, title: heading[2].replace(/\*\*/g, "").trim() });
+    }
+    flush();
+
+    return sections;
+}
+
+/**
+ * Chunks of a knowledge file (front matter removed) - same split as the index, used for previews
+ */
+export async function splitKnowledgeContent(content: string, chunking: ChunkingConfig): Promise<KnowledgeChunkText[]> {
+    const { body } = parseFrontMatter(content);
+
+    if (chunking.strategy !== "sections") {
+        const texts = await new RecursiveCharacterTextSplitter(chunking).splitText(body);
+        return texts.map(text => ({ text, section: [] }));
+    }
+
+    const chunks: KnowledgeChunkText[] = [];
+    for (const { text, section } of markdownSections(body)) {
+        const prefix = section.length > 0 ? `${section.join(" > ")}\n\n` : "";
+        if (prefix.length + text.length <= chunking.chunkSize) {
+            chunks.push({ text: prefix + text, section });
+            continue;
+        }
+
+        // Long section: split the body, every part keeps the heading path
+        const splitter = new RecursiveCharacterTextSplitter({
+            chunkSize: Math.max(chunking.chunkSize - prefix.length, 200),
+            chunkOverlap: chunking.chunkOverlap,
+        });
+        for (const part of await splitter.splitText(text)) {
+            chunks.push({ text: prefix + part, section });
+        }
+    }
+    return chunks;
+}
+
+function sameChunking(a: ChunkingConfig, b: ChunkingConfig): boolean {
+    return (a.strategy || "recursive") === (b.strategy || "recursive")
+        && a.chunkSize === b.chunkSize
+        && a.chunkOverlap === b.chunkOverlap;
+}
+
+function describeChunking(chunking: ChunkingConfig): string {
+    return `${chunking.strategy || "recursive"} ${chunking.chunkSize}/${chunking.chunkOverlap}`;
+}
+
+/**
+ * Bring the index up to date with the knowledge base
+ * Unchanged files keep their vectors; changed files are re-chunked and only new chunk texts are embedded.
+ * Throws EmbeddingModelMismatchError when the existing index belongs to another model (unless rebuild)
+ */
+export async function syncVectorIndex(
+    existing: VectorIndex | null,
+    sources: KnowledgeSource[],
+    embeddings: EmbeddingsInterface,
+    model: EmbeddingModelInfo,
+    chunking: ChunkingConfig,
+    options: { rebuild?: boolean } = {}
+): Promise<{ index: VectorIndex; stats: VectorIndexSyncStats }> {
+    const base = options.rebuild ? null : existing;
+    if (base) assertSameModel(base, model);
+
+    const rechunkAll = base ? !sameChunking(base.chunking, chunking) : true;
+    const stats: VectorIndexSyncStats = { added: [], updated: [], removed: [], unchanged: [], embeddedChunks: 0, reusedChunks: 0 };
+
+    // Same text => same vector (same model), wherever the chunk was before
+    const knownEmbeddings = new Map<string, number[]>();
+    for (const file of Object.values(base?.files || {})) {
+        for (const chunk of file.chunks) knownEmbeddings.set(chunk.hash, chunk.embedding);
+    }
+
+    const files: Record<string, IndexedFile> = {};
+    const pending: IndexedChunk[] = [];
+
+    for (const { source, content } of sources) {
+        const hash = hashContent(content);
+        const previous = base?.files[source];
+
+        if (previous && previous.hash === hash && !rechunkAll) {
+            files[source] = previous;
+            stats.unchanged.push(source);
+            continue;
+        }
+        (previous ? stats.updated : stats.added).push(source);
+
+        const { attributes } = parseFrontMatter(content);
+        const icdChapters = (attributes.icd_chapters || "").split(",").map(chapter => chapter.trim()).filter(Boolean);
+        const texts = await splitKnowledgeContent(content, chunking);
+        const chunks = texts.map(({ text, section }, position) => {
+            const chunkHash = hashContent(text);
+            const chunk: IndexedChunk = {
+                id: `${source}#${position}`,
+                hash: chunkHash,
+                text,
+                metadata: {
+                    source,
+                    chunk: position,
+                    specialty: attributes.specialty || null,
+                    version: attributes.version || null,
+                    section,
+                    icdChapters,
+                },
+                embedding: knownEmbeddings.get(chunkHash) || [],
+            };
+            if (chunk.embedding.length > 0) stats.reusedChunks++;
+            else pending.push(chunk);
+            return chunk;
+        });
+
+        files[source] = { hash, indexedAt: new Date().toISOString(), chunks };
+    }
+
+    stats.removed = Object.keys(base?.files || {}).filter(source => !files[source]);
+
+    if (pending.length > 0) {
+        const vectors = await embeddings.embedDocuments(pending.map(chunk => chunk.text));
+        pending.forEach((chunk, idx) => { chunk.embedding = vectors[idx]; });
+        stats.embeddedChunks = pending.length;
+    }
+
+    // Every vector in the index must have the same size
+    const dimensions = new Set(Object.values(files).flatMap(file => file.chunks.map(chunk => chunk.embedding.length)));
+    if (dimensions.size > 1) {
+        throw new VectorIndexError(`Embeddings with different dimensions (${[...dimensions].join(", ")}) - rebuild the index`);
+    }
+    const [size] = [...dimensions];
+    const indexModel: EmbeddingModelInfo = { ...model, dimensions: size ?? base?.model.dimensions ?? model.dimensions };
+    if (base) assertSameModel(base, indexModel);
+
+    return {
+        index: {
+            format: VECTOR_INDEX_FORMAT,
+            model: indexModel,
+            chunking,
+            updatedAt: new Date().toISOString(),
+            files,
+        },
+        stats,
+    };
+}
+
+export function hasChanges(stats: VectorIndexSyncStats): boolean {
+    return stats.added.length + stats.updated.length + stats.removed.length > 0;
+}
+
+// ============= Verify =============
+
+/**
+ * Check the index against the knowledge base and the current model without embedding anything
+ */
+export function verifyVectorIndex(
+    index: VectorIndex,
+    sources: KnowledgeSource[],
+    model: EmbeddingModelInfo,
+    chunking: ChunkingConfig
+): VectorIndexReport {
+    const problems: string[] = [];
+
+    if (!isSameModel(index.model, model)) {
+        problems.push(`Model mismatch: index ${describeModel(index.model)}, current ${describeModel(model)}`);
+    }
+    if (!sameChunking(index.chunking, chunking)) {
+        problems.push(`Chunking changed: index ${describeChunking(index.chunking)}, current ${describeChunking(chunking)}`);
+    }
+
+    const sourceNames = new Set(sources.map(({ source }) => source));
+    for (const { source, content } of sources) {
+        const file = index.files[source];
+        if (!file) problems.push(`${source}: not indexed`);
+        else if (file.hash !== hashContent(content)) problems.push(`${source}: changed since it was indexed`);
+    }
+
+    for (const [source, file] of Object.entries(index.files)) {
+        if (!sourceNames.has(source)) problems.push(`${source}: indexed but no longer in the knowledge base`);
+
+        for (const chunk of file.chunks) {
+            if (chunk.hash !== hashContent(chunk.text)) problems.push(`${chunk.id}: content hash does not match`);
+            if (chunk.embedding.length !== index.model.dimensions) {
+                problems.push(`${chunk.id}: embedding has ${chunk.embedding.length} dimensions, expected ${index.model.dimensions}`);
+            }
+        }
+    }
+
+    return { ok: problems.length === 0, problems };
+}
@@ -1,107 +1,177 @@
-import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
-import { MemoryVectorStore } from '@langchain/classic/vectorstores/memory';
+import type { EmbeddingsInterface } from "@langchain/core/embeddings";
 import { Document } from "@langchain/core/documents";
-import { RecursiveCharacterTextSplitter } from "@langchain/classic/text_splitter";
-import fs from "fs/promises";
 import path from "path";
+import {
+    hasChanges,
+    KNOWLEDGE_CHUNKING,
+    loadVectorIndex,
+    saveVectorIndex,
+    syncVectorIndex,
+    verifyVectorIndex,
+    type EmbeddingModelInfo,
+    type VectorIndex,
+    type VectorIndexReport,
+    type VectorIndexSyncStats,
+} from "./vectorIndex";
+import {
+    createVectorStore,
+    type VectorSearchFilter,
+    type VectorSearchResult,
+    type VectorStore,
+    type VectorStoreLoadStats,
+} from "./stores";
+import { getEmbeddingProvider } from "./embeddings";
+import { KeywordIndex } from "./keywordIndex";
+import { getReranker, type Reranker, type RetrievalCandidate } from "./rerank";
+import type { RetrievalQuery } from "./query";
+import { getKnowledgeSources } from "../services/knowledgeBaseService";
 
 
 const VECTOR_STORE_PATH = path.join(process.cwd(), "data", "vector_store", "db.json");
-const KNOWLEDGE_BASE_PATH = path.join(process.cwd(), "data", "knowledge_base", "protocols");
 
-export class MedicalVectorStore {
-    private store: MemoryVectorStore | null = null;
-    public readonly embeddings: GoogleGenerativeAIEmbeddings;
+// Results taken from each vector / keyword list, and candidates passed to the reranker
+const CANDIDATES_PER_LIST = 20;
+// Reciprocal rank fusion: score = Σ 1 / (RRF_K + rank) - damps the weight of the very first ranks
+const RRF_K = 60;
 
-    constructor() {
-        if (!process.env.GOOGLE_API_KEY) {
-            throw new Error("Missing GOOGLE_API_KEY environment variable");
-        }
+export interface VectorStoreSyncResult {
+    index: VectorIndex;
+    stats: VectorIndexSyncStats;
+    store: VectorStoreLoadStats;
+}
 
-        this.embeddings = new GoogleGenerativeAIEmbeddings({
-            modelName: "text-embedding-004",
-            apiKey: process.env.GOOGLE_API_KEY,
-        });
+export class MedicalVectorStore {
+    private ready = false;
+    private initializing: Promise<VectorStoreSyncResult> | null = null;
+    public readonly embeddings: EmbeddingsInterface;
+    public readonly model: EmbeddingModelInfo;
+    public readonly store: VectorStore;
+    public readonly reranker: Reranker;
+    private keywordIndex = new KeywordIndex();
+
+    // Embeddings come from EMBEDDING_PROVIDER (Google API or local ONNX model), reranking from RERANKER
+    constructor() {
+        const provider = getEmbeddingProvider();
+        this.model = provider.model;
+        this.embeddings = provider.embeddings;
+        this.store = createVectorStore(this.embeddings);
+        this.reranker = getReranker();
     }
 
-    // Load vector store from disk or create new one
+    // Sync the persisted index (re-embedding only changed files) and load it into the vector store
     async initialize() {
-        if (this.store) return;
-
-        try {
-            // Try loading from file
-            const fileData = await fs.readFile(VECTOR_STORE_PATH, "utf-8");
-            const json = JSON.parse(fileData);
-
-            // Rehydrate MemoryVectorStore from JSON
-            this.store = await MemoryVectorStore.fromTexts(
-                json.texts,
-                json.metadatas,
-                this.embeddings
-            );
-            console.log(" Vector Store loaded from disk.");
-        } catch (error) {
-            console.log(" No existing vector store found. Creating new one...");
-            // Empty store
-            this.store = new MemoryVectorStore(this.embeddings);
-
-            // Seed data immediately if empty
-            await this.seed();
+        if (this.ready) return;
+        if (!this.initializing) {
+            this.initializing = this.syncIndex().finally(() => { this.initializing = null; });
         }
+        const { index, stats, store } = await this.initializing;
+        console.log(` Vector Store (${this.store.name}) ready: ${countChunks(index)} chunks (${stats.embeddedChunks} embedded, ${store.upserted} written).`);
     }
 
-    // Read markdown files, embed, and save to disk
-    async seed() {
-        console.log(" Seeding database from knowledge base...");
+    /**
+     * Update data/vector_store/db.json from the knowledge base (built-in files + active uploaded protocols),
+     * save it if anything changed, then mirror it into the vector store (memory or pgvector)
+     * Refuses (EmbeddingModelMismatchError) to mix vectors of another model unless rebuild
+     * Also called by the admin page after protocols are uploaded / edited (incremental re-index)
+     */
+    async syncIndex(options: { rebuild?: boolean } = {}): Promise<VectorStoreSyncResult> {
+        const existing = options.rebuild ? null : await loadVectorIndex(VECTOR_STORE_PATH);
+        const sources = await getKnowledgeSources();
+
+        const { index, stats } = await syncVectorIndex(existing, sources, this.embeddings, this.model, KNOWLEDGE_CHUNKING, options);
+        if (!existing || hasChanges(stats)) {
+            try {
+                await saveVectorIndex(VECTOR_STORE_PATH, index);
+            } catch (error) {
+                // Read-only deployments: the store is still loaded, the next start re-embeds the changes
+                console.warn(" Could not save the vector index:", error instanceof Error ? error.message : error);
+            }
+        }
+        if (sources.length === 0) {
+            console.warn(" No documents found in knowledge base.");
+        }
 
-        // Read all .md files
-        // Note: glob usage without importing might fail if not installed types, 
-        // trying simple fs.readdir for now to avoid extra deps
-        const files = await fs.readdir(KNOWLEDGE_BASE_PATH);
-        const docs: Document[] = [];
+        const store = await this.store.load(index, options);
+        this.keywordIndex = new KeywordIndex(Object.values(index.files).flatMap(file => file.chunks));
+        this.ready = true;
+        return { index, stats, store };
+    }
 
-        for (const file of files) {
-            if (!file.endsWith(".md")) continue;
+    // Compare the saved index with the knowledge base and current model (no embedding calls)
+    async verifyIndex(): Promise<VectorIndexReport> {
+        const index = await loadVectorIndex(VECTOR_STORE_PATH);
+        if (!index) return { ok: false, problems: [`No vector index at ${VECTOR_STORE_PATH}`] };
 
-            const filePath = path.join(KNOWLEDGE_BASE_PATH, file);
-            const content = await fs.readFile(filePath, "utf-8");
+        const sources = await getKnowledgeSources();
+        return verifyVectorIndex(index, sources, this.model, KNOWLEDGE_CHUNKING);
+    }
 
-            docs.push(new Document({
-                pageContent: content,
-                metadata: { source: file }
-            }));
+    /**
+     * Hybrid top-k: every query text is searched by vector similarity and BM25 keywords,
+     * the lists are fused (reciprocal rank fusion) and the candidates reranked
+     * Optionally restricted by specialty / protocol source / version
+     * metadata.score = reranker score, vectorScore = cosine similarity, keywordScore = BM25
+     */
+    async search(query: string | RetrievalQuery, options: { k?: number; filter?: VectorSearchFilter } = {}): Promise<Document[]> {
+        if (!this.ready) throw new Error("Vector Store not initialized");
+
+        const retrieval: RetrievalQuery = typeof query === "string" ? { texts: [query], icdCodes: [] } : query;
+        const texts = retrieval.texts.map(text => text.trim()).filter(Boolean);
+        if (texts.length === 0) return [];
+
+        const candidates = new Map<string, RetrievalCandidate>();
+        const fuse = (results: VectorSearchResult[], scoreKey: "vectorScore" | "keywordScore") => {
+            results.forEach((result, rank) => {
+                const candidate = candidates.get(result.id) || {
+                    id: result.id,
+                    text: result.text,
+                    metadata: result.metadata,
+                    fusedScore: 0,
+                    vectorScore: null,
+                    keywordScore: null,
+                    score: 0,
+                };
+                candidate.fusedScore += 1 / (RRF_K + rank + 1);
+                candidate[scoreKey] = Math.max(candidate[scoreKey] ?? -Infinity, result.score);
+                candidates.set(result.id, candidate);
+            });
+        };
+
+        for (const text of texts) {
+            const embedding = await this.embeddings.embedQuery(text);
+            fuse(await this.store.search(embedding, CANDIDATES_PER_LIST, options.filter), "vectorScore");
+            fuse(this.keywordIndex.search(text, CANDIDATES_PER_LIST, options.filter), "keywordScore");
         }
 
-        if (docs.length === 0) {
-            console.warn(" No documents found in knowledge base.");
-            return;
+        const fused = [...candidates.values()]
+            .sort((a, b) => b.fusedScore - a.fusedScore)
+            .slice(0, CANDIDATES_PER_LIST);
+        const k = options.k ?? 3;
+
+        let ranked: RetrievalCandidate[];
+        try {
+            ranked = await this.reranker.rerank({ ...retrieval, texts }, fused, k);
+        } catch (error) {
+            // A reranker model that cannot load must not break the advice - keep the fused order
+            console.warn(` Reranker (${this.reranker.name}) failed, using fused order:`, error instanceof Error ? error.message : error);
+            ranked = fused.slice(0, k).map(candidate => ({ ...candidate, score: candidate.fusedScore }));
         }
 
-        // Split text
-        const splitter = new RecursiveCharacterTextSplitter({
-            chunkSize: 1000,
-            chunkOverlap: 200,
-        });
-        const splitDocs = await splitter.splitDocuments(docs);
-
-        // Create store
-        this.store = await MemoryVectorStore.fromDocuments(splitDocs, this.embeddings);
-
-        // Save to disk (Custom serialization for MemoryVectorStore)
-        // MemoryVectorStore stores docs in `memoryVectors` property but it's private.
-        // Workaround: We can't easily serialize MemoryVectorStore without using its internal structure.
-        // Better way for this demo: Just use fromDocuments every time on startup (Fast enough for small data)
-        // OR: Use a simple compatible format.
-
-        // For this demo (small data), we will RE-INDEX on startup if file doesn't exist.
-        // This simplifies dependencies (no need for serialization logic)
-        console.log(` Database seeded with ${splitDocs.length} chunks.`);
+        return ranked.map(candidate => new Document({
+            id: candidate.id,
+            pageContent: candidate.text,
+            metadata: {
+                ...candidate.metadata,
+                score: candidate.score,
+                vectorScore: candidate.vectorScore,
+                keywordScore: candidate.keywordScore,
+            },
+        }));
     }
+}
 
-    getRetriever() {
-        if (!this.store) throw new Error("Vector Store not initialized");
-        return this.store.asRetriever({ k: 3 }); // Retrieve top 3 relevant chunks
-    }
+function countChunks(index: VectorIndex): number {
+    return Object.values(index.files).reduce((total, file) => total + file.chunks.length, 0);
 }
 
 // Singleton instance with lazy initialization
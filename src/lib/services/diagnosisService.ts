@@ -0,0 +1,70 @@
+import { db, medicalRecordDiagnoses } from '../db';
+import { asc, eq } from 'drizzle-orm';
+import { getIcd10Codes } from './icd10Service';
+import { ensurePrimaryDiagnosis, orderDiagnoses } from '../diagnosis/diagnosis';
+import type { Diagnosis, DiagnosisCertainty, DiagnosisRole } from '../diagnosis/types';
+
+// ============= Helpers =============
+
+function toDiagnosis(row: typeof medicalRecordDiagnoses.$inferSelect): Diagnosis {
+    return {
+        role: row.role as DiagnosisRole,
+        icdCode: row.icdCode,
+        label: row.label,
+        certainty: row.certainty as DiagnosisCertainty,
+    };
+}
+
+// ============= Diagnoses =============
+
+/**
+ * Structured diagnoses of a medical record, main disease first
+ */
+export async function getDiagnoses(medicalRecordId: string): Promise<Diagnosis[]> {
+    const rows = await db
+        .select()
+        .from(medicalRecordDiagnoses)
+        .where(eq(medicalRecordDiagnoses.medicalRecordId, medicalRecordId))
+        .orderBy(asc(medicalRecordDiagnoses.position));
+
+    // Records migrated from a list whose first entry was blank have no primary
+    return ensurePrimaryDiagnosis(rows.map(toDiagnosis));
+}
+
+/**
+ * Diagnoses without a label get the catalogue name of their code
+ */
+export async function withCatalogueLabels(diagnoses: Diagnosis[]): Promise<Diagnosis[]> {
+    const missing = diagnoses.filter(diagnosis => !diagnosis.label).map(diagnosis => diagnosis.icdCode);
+    if (missing.length === 0) return diagnoses;
+
+    const names = new Map((await getIcd10Codes(missing)).map(item => [item.code, item.nameVi]));
+    return diagnoses.map(diagnosis => diagnosis.label
+        ? diagnosis
+        : { ...diagnosis, label: names.get(diagnosis.icdCode) || '' });
+}
+
+/**
+ * Replace all diagnoses of a medical record
+ * The picker always sends the full list, so rows are rewritten rather than diffed
+ */
+export async function replaceDiagnoses(medicalRecordId: string, diagnoses: Diagnosis[]): Promise<Diagnosis[]> {
+    const rows = orderDiagnoses(diagnoses).map((diagnosis, position) => ({
+        medicalRecordId,
+        position,
+        role: diagnosis.role,
+        icdCode: diagnosis.icdCode,
+        label: diagnosis.label.trim(),
+        certainty: diagnosis.certainty,
+    }));
+
+    return db.transaction(async (tx: typeof db) => {
+        await tx.delete(medicalRecordDiagnoses).where(eq(medicalRecordDiagnoses.medicalRecordId, medicalRecordId));
+        if (rows.length === 0) return [];
+
+        const inserted = await tx.insert(medicalRecordDiagnoses).values(rows).returning();
+        return (inserted as (typeof medicalRecordDiagnoses.$inferSelect)[])
+            .sort((a, b) => a.position - b.position)
+            .map(toDiagnosis);
+    });
+}
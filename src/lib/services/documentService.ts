@@ -0,0 +1,123 @@
+import { db, bookings, clinics, users } from '../db';
+import { examinationSessions, medicalRecords } from '../db/schema-session';
+import { eq } from 'drizzle-orm';
+import { ageFromBirthDate } from './patientContextService';
+import { getPrescriptionItems } from './prescriptionService';
+import { getDiagnoses } from './diagnosisService';
+import { getPatientInstructions } from './patientInstructionsService';
+import { adviceFromPlan } from '../prescription/prescription';
+import { renderVisitDocumentHtml } from '../documents/html';
+import { renderVisitDocumentPdf } from '../documents/pdf';
+import type { VisitDocumentData, VisitDocumentFormat, VisitDocumentKind } from '../documents/types';
+
+// ============= Document Data =============
+
+/**
+ * Everything printed on the visit documents: clinic header, patient, record, prescription, doctor
+ * Returns null when the session has no medical record yet
+ */
+export async function getVisitDocumentData(sessionId: string): Promise<VisitDocumentData | null> {
+    const results = await db
+        .select({
+            session: examinationSessions,
+            record: medicalRecords,
+            booking: bookings,
+            clinic: clinics,
+            patient: users,
+        })
+        .from(examinationSessions)
+        .innerJoin(medicalRecords, eq(medicalRecords.sessionId, examinationSessions.id))
+        .leftJoin(bookings, eq(examinationSessions.bookingId, bookings.id))
+        .leftJoin(clinics, eq(bookings.clinicId, clinics.id))
+        .leftJoin(users, eq(examinationSessions.patientId, users.id))
+        .where(eq(examinationSessions.id, sessionId))
+        .limit(1);
+
+    if (!results[0]) return null;
+    const { session, record, booking, clinic, patient } = results[0];
+
+    // bookings.doctor_id has no FK - the doctor is a user with role "doctor"
+    const [doctor, prescriptionItems, diagnoses, instructions] = await Promise.all([
+        booking?.doctorId
+            ? db.select({ name: users.name }).from(users).where(eq(users.id, booking.doctorId)).limit(1)
+                .then((rows: { name: string }[]) => rows[0] || null)
+            : Promise.resolve(null),
+        getPrescriptionItems(record.id),
+        getDiagnoses(record.id),
+        getPatientInstructions(record.id),
+    ]);
+
+    return {
+        clinic: {
+            name: clinic?.name || process.env.CLINIC_NAME || 'Phòng khám',
+            phone: clinic?.phone || process.env.CLINIC_PHONE || null,
+            email: clinic?.email || null,
+            description: clinic?.description || process.env.CLINIC_ADDRESS || null,
+        },
+        patient: {
+            name: booking?.patientName || patient?.name || 'Không rõ',
+            displayId: patient?.displayId || null,
+            age: booking?.age ?? ageFromBirthDate(patient?.birthDate || null),
+            gender: booking?.gender || patient?.gender || null,
+            phone: booking?.patientPhone || patient?.phone || null,
+            address: booking?.address || patient?.address || null,
+            allergies: booking?.allergies || patient?.allergies || null,
+        },
+        booking: booking ? { id: booking.id, displayId: booking.displayId } : null,
+        visit: {
+            sessionId: session.id,
+            visitNumber: session.visitNumber,
+            chiefComplaint: session.chiefComplaint || booking?.symptoms || null,
+            date: record.updatedAt,
+        },
+        record: {
+            subjective: record.subjective || '',
+            objective: record.objective || '',
+            assessment: record.assessment || record.diagnosis || '',
+            icdCodes: Array.isArray(record.icdCodes) ? record.icdCodes.map(String) : [],
+            diagnoses,
+            advice: prescriptionItems.length > 0 ? adviceFromPlan(record.plan || '') : record.plan || '',
+            status: record.status as 'draft' | 'final',
+        },
+        prescriptionItems,
+        instructions: instructions?.status === 'approved' ? instructions.content : null,
+        doctor,
+    };
+}
+
+// ============= Rendering =============
+
+const FILE_PREFIXES: Record<VisitDocumentKind, string> = {
+    prescription: 'don-thuoc',
+    summary: 'tom-tat-kham',
+    instructions: 'huong-dan-benh-nhan',
+};
+
+/**
+ * Render a visit document for a session
+ * Returns null when there is nothing to print yet (no record, or instructions not approved)
+ */
+export async function renderVisitDocument(
+    sessionId: string,
+    kind: VisitDocumentKind,
+    format: VisitDocumentFormat
+): Promise<{ body: string | Buffer; contentType: string; filename: string } | null> {
+    const data = await getVisitDocumentData(sessionId);
+    if (!data || (kind === 'instructions' && !data.instructions)) return null;
+
+    const filename = `${FILE_PREFIXES[kind]}-${data.booking?.displayId || sessionId.slice(0, 8)}`;
+
+    if (format === 'pdf') {
+        return {
+            body: await renderVisitDocumentPdf(kind, data),
+            contentType: 'application/pdf',
+            filename: `${filename}.pdf`,
+        };
+    }
+
+    return {
+        body: await renderVisitDocumentHtml(kind, data),
+        contentType: 'text/html; charset=utf-8',
+        filename: `${filename}.html`,
+    };
+}
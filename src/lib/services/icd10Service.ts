@@ -0,0 +1,329 @@
+import { db, icd10Blocks, icd10Codes, icd10Imports } from '../db';
+import { and, asc, count, eq, ilike, inArray, max, notInArray, or, sql, type SQL } from 'drizzle-orm';
+import type { Icd10CodeRow } from '../db/schema-icd10';
+import { Bm25Index, foldDiacritics } from '../rag/keywordIndex';
+import type { Icd10Catalogue } from '../icd10/catalogue';
+import { ICD10_SEARCH_LIMIT, normalizeIcd10Code, type Icd10Code } from '../icd10/types';
+
+// ============= Types =============
+
+export interface Icd10SearchOptions {
+    limit?: number;
+    billableOnly?: boolean;
+}
+
+export interface Icd10ImportStats {
+    blocks: number;
+    codes: number;
+    deleted: number;                // Codes no longer in the file (replace mode only)
+    complete: boolean;              // A full catalogue has been imported (now or earlier)
+}
+
+export interface Icd10Candidate extends Icd10Code {
+    score: number;                  // Fused keyword rank over the query texts
+}
+
+export interface Icd10CodeCheck {
+    malformed: string[];                                // Not shaped like an ICD-10 code (checked even without a catalogue)
+    unknown: string[];                                  // Not in the catalogue
+    notBillable: { code: string; children: string[] }[]; // Categories that must be coded in more detail
+}
+
+/**
+ * Thrown by saveMedicalRecord - the routes answer 400 with the message
+ */
+export class InvalidIcd10CodesError extends Error {
+    constructor(public readonly check: Icd10CodeCheck) {
+        const problems = [
+            ...check.malformed.map(code => `"${code}" không phải mã ICD-10`),
+            ...check.unknown.map(code => `${code} không có trong danh mục ICD-10`),
+            ...check.notBillable.map(({ code, children }) =>
+                `${code} cần mã chi tiết hơn${children.length > 0 ? ` (${children.slice(0, 3).join(', ')}${children.length > 3 ? '...' : ''})` : ''}`),
+        ];
+        super(`Mã ICD-10 không hợp lệ: ${problems.join('; ')}`);
+        this.name = 'InvalidIcd10CodesError';
+    }
+}
+
+// Rows per INSERT statement
+const BATCH_SIZE = 500;
+
+// Candidates offered to the ICD-10 agent; lists of several query texts are fused like the protocol retrieval
+const CANDIDATE_LIMIT = 30;
+const RRF_K = 60;
+
+function toIcd10Code(row: Icd10CodeRow): Icd10Code {
+    return {
+        code: row.code,
+        nameVi: row.nameVi,
+        nameEn: row.nameEn,
+        chapter: row.chapter,
+        block: row.block,
+        parentCode: row.parentCode,
+        billable: row.billable,
+    };
+}
+
+// LIKE pattern for user input
+function escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+// ============= Search =============
+
+/**
+ * Diacritic-insensitive search on code and names
+ * - "k29" / "K29." / "k297" → codes starting with the (normalized) code
+ * - "viem da day" / "viêm dạ dày" → every word must appear in the code or names
+ * Ranking: exact code, code prefix, whole phrase, all words - then by code (a category before its children)
+ */
+export async function searchIcd10Codes(query: string, options: Icd10SearchOptions = {}): Promise<Icd10Code[]> {
+    const folded = foldDiacritics(query).trim().replace(/\s+/g, ' ');
+    if (!db || !folded) return [];
+
+    const limit = Math.min(Math.max(options.limit || ICD10_SEARCH_LIMIT, 1), 100);
+
+    // "K2", "K29", "K29.", "K29.7", "k297"
+    const codePrefix = /^[a-z]\d{0,2}(\.\d{0,2})?$/.test(folded) || /^[a-z]\d{3,4}$/.test(folded)
+        ? (normalizeIcd10Code(folded) || folded.replace(/\.$/, '')).toUpperCase()
+        : null;
+
+    const words = folded.split(' ');
+    const matches: SQL[] = [
+        and(...words.map(word => ilike(icd10Codes.searchText, `%${escapeLike(word)}%`)))!,
+    ];
+    if (codePrefix) matches.push(ilike(icd10Codes.code, `${escapeLike(codePrefix)}%`));
+
+    const conditions: SQL[] = [or(...matches)!];
+    if (options.billableOnly) conditions.push(eq(icd10Codes.billable, true));
+
+    const rank = sql`case
+        when ${icd10Codes.code} = ${codePrefix ?? ''} then 0
+        when ${icd10Codes.code} like ${codePrefix ? `${escapeLike(codePrefix)}%` : ''} then 1
+        when ${icd10Codes.searchText} like ${`%${escapeLike(folded)}%`} then 2
+        else 3 end`;
+
+    const rows: Icd10CodeRow[] = await db
+        .select()
+        .from(icd10Codes)
+        .where(and(...conditions))
+        .orderBy(rank, asc(icd10Codes.code))
+        .limit(limit);
+
+    return rows.map(toIcd10Code);
+}
+
+/**
+ * Catalogue entries for the given codes (unknown codes are left out), in the order given
+ */
+export async function getIcd10Codes(codes: string[]): Promise<Icd10Code[]> {
+    const normalized = [...new Set(codes.map(normalizeIcd10Code).filter((code): code is string => code !== null))];
+    if (!db || normalized.length === 0) return [];
+
+    const rows: Icd10CodeRow[] = await db
+        .select()
+        .from(icd10Codes)
+        .where(inArray(icd10Codes.code, normalized));
+
+    const byCode = new Map(rows.map(row => [row.code, toIcd10Code(row)]));
+    return normalized.map(code => byCode.get(code)).filter((item): item is Icd10Code => item !== undefined);
+}
+
+export async function getIcd10CatalogueSize(): Promise<number> {
+    if (!db) return 0;
+    const [row] = await db.select({ total: count() }).from(icd10Codes);
+    return Number(row?.total || 0);
+}
+
+/**
+ * True once a full catalogue has been imported (--replace) - the starter seed alone is partial
+ */
+export async function isIcd10CatalogueComplete(): Promise<boolean> {
+    if (!db) return false;
+    const [row] = await db
+        .select({ id: icd10Imports.id })
+        .from(icd10Imports)
+        .where(eq(icd10Imports.complete, true))
+        .limit(1);
+    return row !== undefined;
+}
+
+// ============= Candidates for the ICD-10 agent =============
+
+// BM25 over the billable codes, rebuilt when the catalogue changes (row count / last import)
+let candidateIndex: { version: string; index: Bm25Index<Icd10Code> } | null = null;
+
+async function getCandidateIndex(): Promise<Bm25Index<Icd10Code> | null> {
+    if (!db) return null;
+
+    const [state] = await db.select({ total: count(), updatedAt: max(icd10Codes.updatedAt) }).from(icd10Codes);
+    if (!state || Number(state.total) === 0) return null;
+
+    const version = `${state.total}:${String(state.updatedAt)}`;
+    if (candidateIndex?.version === version) return candidateIndex.index;
+
+    const rows: Icd10CodeRow[] = await db.select().from(icd10Codes);
+    const names = new Map(rows.map(row => [row.code, row.nameVi]));
+
+    // The category name adds context to terse subcodes ("Khác", "Không đặc hiệu")
+    const index = new Bm25Index(rows.filter(row => row.billable).map(row => ({
+        text: [row.code, row.nameVi, row.nameEn, row.parentCode ? names.get(row.parentCode) : null].filter(Boolean).join('\n'),
+        item: toIcd10Code(row),
+    })));
+
+    candidateIndex = { version, index };
+    return index;
+}
+
+/**
+ * Billable codes matching the clinical texts (assessment, subjective...) - the ICD-10 agent only chooses among these
+ * Empty when the catalogue has not been imported
+ */
+export async function findIcd10Candidates(texts: string[], limit: number = CANDIDATE_LIMIT): Promise<Icd10Candidate[]> {
+    const index = await getCandidateIndex();
+    if (!index) return [];
+
+    const candidates = new Map<string, Icd10Candidate>();
+    for (const text of texts.filter(value => value.trim())) {
+        index.search(text, limit).forEach(({ item }, rank) => {
+            const candidate = candidates.get(item.code) || { ...item, score: 0 };
+            candidate.score += 1 / (RRF_K + rank + 1);
+            candidates.set(item.code, candidate);
+        });
+    }
+
+    return [...candidates.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+// ============= Validation =============
+
+/**
+ * Normalizes the codes of a medical record and checks them against the catalogue
+ * Throws InvalidIcd10CodesError for malformed, unknown or non-billable codes.
+ * Before the catalogue is imported only the code format can be checked - well-formed codes are accepted with a warning.
+ * With a partial catalogue (only the seed) codes missing from it are not rejected either: they are format-checked only
+ */
+export async function validateIcd10Codes(codes: string[]): Promise<string[]> {
+    const malformed = codes.filter(code => !normalizeIcd10Code(code)).map(code => code.trim());
+    if (malformed.length > 0) {
+        throw new InvalidIcd10CodesError({ malformed: [...new Set(malformed)], unknown: [], notBillable: [] });
+    }
+
+    const normalized = codes.map(code => normalizeIcd10Code(code)!);
+    if (normalized.length === 0) return [];
+
+    if (!db || await getIcd10CatalogueSize() === 0) {
+        console.warn('ICD-10 catalogue is empty - only the code format was checked. Run "npx tsx scripts/icd10-import.ts" to enable code validation');
+        return [...new Set(normalized)];
+    }
+
+    const found = new Map((await getIcd10Codes(normalized)).map(item => [item.code, item]));
+    const complete = await isIcd10CatalogueComplete();
+    const check: Icd10CodeCheck = { malformed: [], unknown: [], notBillable: [] };
+    const unchecked: string[] = [];
+
+    for (const code of new Set(normalized)) {
+        const item = found.get(code);
+        if (!item) {
+            (complete ? check.unknown : unchecked).push(code);
+        } else if (!item.billable) {
+            const children: { code: string }[] = await db
+                .select({ code: icd10Codes.code })
+                .from(icd10Codes)
+                .where(eq(icd10Codes.parentCode, code))
+                .orderBy(asc(icd10Codes.code));
+            check.notBillable.push({ code, children: children.map(child => child.code) });
+        }
+    }
+
+    if (check.unknown.length > 0 || check.notBillable.length > 0) {
+        throw new InvalidIcd10CodesError(check);
+    }
+    if (unchecked.length > 0) {
+        console.warn(`ICD-10 catalogue is partial - ${unchecked.join(', ')} not in it, only the code format was checked. Import the full catalogue with --replace to enable code validation`);
+    }
+    return [...new Set(normalized)];
+}
+
+// ============= Import =============
+
+/**
+ * Upserts the catalogue; with replace, codes and blocks missing from the file are deleted
+ * (use replace with the full Bộ Y tế file, not with a partial one) and the catalogue is marked complete
+ */
+export async function importIcd10Catalogue(
+    catalogue: Icd10Catalogue,
+    options: { replace?: boolean; source?: string } = {}
+): Promise<Icd10ImportStats> {
+    if (!db) throw new Error('POSTGRES_URL is not configured');
+
+    const now = new Date();
+    let deleted = 0;
+
+    await db.transaction(async (tx: typeof db) => {
+        for (let i = 0; i < catalogue.blocks.length; i += BATCH_SIZE) {
+            await tx
+                .insert(icd10Blocks)
+                .values(catalogue.blocks.slice(i, i + BATCH_SIZE).map(block => ({ ...block, updatedAt: now })))
+                .onConflictDoUpdate({
+                    target: icd10Blocks.code,
+                    set: {
+                        nameVi: sql`excluded.name_vi`,
+                        nameEn: sql`excluded.name_en`,
+                        chapter: sql`excluded.chapter`,
+                        updatedAt: sql`excluded.updated_at`,
+                    },
+                });
+        }
+
+        for (let i = 0; i < catalogue.codes.length; i += BATCH_SIZE) {
+            await tx
+                .insert(icd10Codes)
+                .values(catalogue.codes.slice(i, i + BATCH_SIZE).map(item => ({
+                    ...item,
+                    searchText: foldDiacritics([item.code, item.nameVi, item.nameEn].filter(Boolean).join(' ')),
+                    updatedAt: now,
+                })))
+                .onConflictDoUpdate({
+                    target: icd10Codes.code,
+                    set: {
+                        nameVi: sql`excluded.name_vi`,
+                        nameEn: sql`excluded.name_en`,
+                        chapter: sql`excluded.chapter`,
+                        block: sql`excluded.block`,
+                        parentCode: sql`excluded.parent_code`,
+                        billable: sql`excluded.billable`,
+                        searchText: sql`excluded.search_text`,
+                        updatedAt: sql`excluded.updated_at`,
+                    },
+                });
+        }
+
+        if (options.replace) {
+            const removed: { code: string }[] = catalogue.codes.length > 0
+                ? await tx.delete(icd10Codes).where(notInArray(icd10Codes.code, catalogue.codes.map(item => item.code))).returning({ code: icd10Codes.code })
+                : await tx.delete(icd10Codes).returning({ code: icd10Codes.code });
+            deleted = removed.length;
+
+            if (catalogue.blocks.length > 0) {
+                await tx.delete(icd10Blocks).where(notInArray(icd10Blocks.code, catalogue.blocks.map(block => block.code)));
+            } else {
+                await tx.delete(icd10Blocks);
+            }
+        }
+
+        // A partial file can add children to a category imported earlier
+        await tx.execute(sql`update ${icd10Codes} set billable = not exists (
+            select 1 from ${icd10Codes} as child where child.parent_code = ${icd10Codes}.code
+        )`);
+
+        await tx.insert(icd10Imports).values({
+            source: options.source || 'unknown',
+            codes: catalogue.codes.length,
+            complete: !!options.replace,
+        });
+    });
+
+    const complete = await isIcd10CatalogueComplete();
+    return { blocks: catalogue.blocks.length, codes: catalogue.codes.length, deleted, complete };
+}
@@ -0,0 +1,256 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { db, knowledgeDocuments } from '../db';
+import { asc, eq } from 'drizzle-orm';
+import type { KnowledgeDocumentRow } from '../db/schema-knowledge';
+import { KNOWLEDGE_CHUNKING, splitKnowledgeContent, type KnowledgeSource } from '../rag/vectorIndex';
+import type {
+    KnowledgeChunkPreview,
+    KnowledgeDocument,
+    KnowledgeDocumentFormat,
+    KnowledgeDocumentTags,
+} from '../knowledge/types';
+
+// ============= Types =============
+
+export interface KnowledgeDocumentInput {
+    title: string;
+    format: KnowledgeDocumentFormat;
+    originalFilename?: string | null;
+    content: string;
+    tags: KnowledgeDocumentTags;
+}
+
+export interface KnowledgeDocumentPatch {
+    title?: string;
+    content?: string;
+    tags?: KnowledgeDocumentTags;
+    isActive?: boolean;
+}
+
+// Built-in protocols shipped with the app (read-only)
+const KNOWLEDGE_BASE_PATH = path.join(process.cwd(), 'data', 'knowledge_base', 'protocols');
+
+// "Phác đồ Hen phế quản" → "phac-do-hen-phe-quan"
+function slugify(text: string): string {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/đ/gi, 'd')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 80) || 'phac-do';
+}
+
+function toKnowledgeDocument(row: KnowledgeDocumentRow): KnowledgeDocument {
+    return {
+        id: row.id,
+        source: row.source,
+        title: row.title,
+        format: row.format as KnowledgeDocumentFormat,
+        originalFilename: row.originalFilename,
+        builtIn: false,
+        isActive: row.isActive,
+        size: row.content.length,
+        specialty: row.specialty,
+        icdChapters: row.icdChapters,
+        effectiveDate: row.effectiveDate,
+        issuingBody: row.issuingBody,
+        createdAt: row.createdAt.toISOString(),
+        updatedAt: row.updatedAt.toISOString(),
+    };
+}
+
+/**
+ * Markdown as indexed: tags are written as front matter so chunks carry specialty / version filters
+ * The effective date is the protocol version
+ */
+function withFrontMatter(row: KnowledgeDocumentRow): string {
+    const attributes: [string, string | null][] = [
+        ['title', row.title],
+        ['specialty', row.specialty],
+        ['version', row.effectiveDate],
+        ['icd_chapters', row.icdChapters.join(',') || null],
+        ['issuing_body', row.issuingBody],
+    ];
+    const lines = attributes
+        .filter((entry): entry is [string, string] => !!entry[1])
+        .map(([key, value]) => `${key}: ${value.replace(/\s+/g, ' ')}`);
+
+    return `---\n${lines.join('\n')}\n---\n${row.content}`;
+}
+
+// ============= Built-in Protocols =============
+
+async function readBuiltInFiles(): Promise<KnowledgeSource[]> {
+    let files: string[];
+    try {
+        files = (await fs.readdir(KNOWLEDGE_BASE_PATH)).filter(file => file.endsWith('.md')).sort();
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+    }
+
+    return Promise.all(files.map(async file => ({
+        source: file,
+        content: await fs.readFile(path.join(KNOWLEDGE_BASE_PATH, file), 'utf-8'),
+    })));
+}
+
+function builtInDocument({ source, content }: KnowledgeSource, updatedAt: Date): KnowledgeDocument {
+    const frontMatter = content.match(/^---\r?\n([\s\S]*?)\r?\n---/)?.[1] || '';
+    const attribute = (key: string) => frontMatter.match(new RegExp(`^${key}:\\s*(.+)$`, 'm'))?.[1].trim() || null;
+    const heading = content.match(/^#{1,3}\s+(.+)$/m)?.[1].trim();
+
+    return {
+        id: source,
+        source,
+        title: heading || source,
+        format: 'markdown',
+        originalFilename: source,
+        builtIn: true,
+        isActive: true,
+        size: content.length,
+        specialty: attribute('specialty'),
+        icdChapters: (attribute('icd_chapters') || '').split(',').map(chapter => chapter.trim()).filter(Boolean),
+        effectiveDate: null,
+        issuingBody: null,
+        createdAt: null,
+        updatedAt: updatedAt.toISOString(),
+    };
+}
+
+// ============= Knowledge Documents =============
+
+/**
+ * Built-in protocols first, then uploaded ones (oldest first)
+ */
+export async function listKnowledgeDocuments(): Promise<KnowledgeDocument[]> {
+    const files = await readBuiltInFiles();
+    const builtIn = await Promise.all(files.map(async file => {
+        const { mtime } = await fs.stat(path.join(KNOWLEDGE_BASE_PATH, file.source));
+        return builtInDocument(file, mtime);
+    }));
+
+    if (!db) return builtIn;
+
+    const rows: KnowledgeDocumentRow[] = await db
+        .select()
+        .from(knowledgeDocuments)
+        .orderBy(asc(knowledgeDocuments.createdAt));
+
+    return [...builtIn, ...rows.map(toKnowledgeDocument)];
+}
+
+/**
+ * Uploaded document with its markdown (null when it does not exist)
+ */
+export async function getKnowledgeDocument(id: string): Promise<(KnowledgeDocument & { content: string }) | null> {
+    const [row]: KnowledgeDocumentRow[] = await db
+        .select()
+        .from(knowledgeDocuments)
+        .where(eq(knowledgeDocuments.id, id))
+        .limit(1);
+
+    return row ? { ...toKnowledgeDocument(row), content: row.content } : null;
+}
+
+/**
+ * Built-in protocol by file name (null when it does not exist)
+ */
+export async function getBuiltInKnowledgeDocument(source: string): Promise<(KnowledgeDocument & { content: string }) | null> {
+    const file = (await readBuiltInFiles()).find(item => item.source === source);
+    if (!file) return null;
+
+    const { mtime } = await fs.stat(path.join(KNOWLEDGE_BASE_PATH, file.source));
+    return { ...builtInDocument(file, mtime), content: file.content };
+}
+
+/**
+ * Save an uploaded protocol
+ * The source name is derived from the title and never collides with a built-in file
+ */
+export async function createKnowledgeDocument(input: KnowledgeDocumentInput): Promise<KnowledgeDocument> {
+    const taken = new Set([
+        ...(await readBuiltInFiles()).map(file => file.source),
+        ...(await db.select({ source: knowledgeDocuments.source }).from(knowledgeDocuments))
+            .map((row: { source: string }) => row.source),
+    ]);
+
+    const base = slugify(input.title);
+    let source = `${base}.md`;
+    for (let suffix = 2; taken.has(source); suffix++) {
+        source = `${base}-${suffix}.md`;
+    }
+
+    const [row] = await db
+        .insert(knowledgeDocuments)
+        .values({
+            source,
+            title: input.title.trim().slice(0, 255),
+            format: input.format,
+            originalFilename: input.originalFilename || null,
+            content: input.content,
+            ...input.tags,
+        })
+        .returning();
+
+    return toKnowledgeDocument(row);
+}
+
+/**
+ * Update title, markdown, tags or active flag (source name stays the same)
+ * Changes reach the vector store on the next re-index
+ */
+export async function updateKnowledgeDocument(id: string, patch: KnowledgeDocumentPatch): Promise<KnowledgeDocument | null> {
+    const [row] = await db
+        .update(knowledgeDocuments)
+        .set({
+            ...(patch.title !== undefined && { title: patch.title.trim().slice(0, 255) }),
+            ...(patch.content !== undefined && { content: patch.content }),
+            ...(patch.tags !== undefined && patch.tags),
+            ...(patch.isActive !== undefined && { isActive: patch.isActive }),
+            updatedAt: new Date(),
+        })
+        .where(eq(knowledgeDocuments.id, id))
+        .returning();
+
+    return row ? toKnowledgeDocument(row) : null;
+}
+
+export async function deleteKnowledgeDocument(id: string): Promise<boolean> {
+    const deleted = await db
+        .delete(knowledgeDocuments)
+        .where(eq(knowledgeDocuments.id, id))
+        .returning({ id: knowledgeDocuments.id });
+
+    return deleted.length > 0;
+}
+
+// ============= Indexing =============
+
+/**
+ * Everything the vector index is built from: built-in files + active uploaded protocols
+ * Without a database (scripts / CI) only the built-in files are used
+ */
+export async function getKnowledgeSources(): Promise<KnowledgeSource[]> {
+    const files = await readBuiltInFiles();
+    if (!db) return files;
+
+    const rows: KnowledgeDocumentRow[] = await db
+        .select()
+        .from(knowledgeDocuments)
+        .where(eq(knowledgeDocuments.isActive, true))
+        .orderBy(asc(knowledgeDocuments.source));
+
+    return [...files, ...rows.map(row => ({ source: row.source, content: withFrontMatter(row) }))];
+}
+
+/**
+ * Chunks a markdown document would be split into - same settings as the index
+ */
+export async function previewKnowledgeChunks(markdown: string): Promise<KnowledgeChunkPreview[]> {
+    const chunks = await splitKnowledgeContent(markdown, KNOWLEDGE_CHUNKING);
+    return chunks.map(({ text, section }, position) => ({ position, text, section, length: text.length }));
+}
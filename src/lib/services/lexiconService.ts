@@ -0,0 +1,162 @@
+import { db, sttLexiconEntries } from '../db';
+import { and, asc, eq } from 'drizzle-orm';
+import { EMPTY_LEXICON, type Lexicon } from '../stt/lexicon';
+
+// ============= Types =============
+
+export type LexiconEntryKind = 'correction' | 'term';
+
+export interface LexiconEntryInput {
+    kind: LexiconEntryKind;
+    misheard?: string | null;
+    correct: string;
+    note?: string | null;
+    source?: 'admin' | 'transcript';
+    sourceSessionId?: string | null;
+}
+
+export interface LexiconEntry {
+    id: string;
+    kind: LexiconEntryKind;
+    misheard: string | null;
+    correct: string;
+    note: string | null;
+    source: string;
+    sourceSessionId: string | null;
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Lexicon được đọc cho mỗi chunk audio - cache ngắn để không query DB liên tục
+const LEXICON_CACHE_TTL_MS = 60_000;
+let _lexiconCache: { lexicon: Lexicon; loadedAt: number } | null = null;
+
+function invalidateLexiconCache() {
+    _lexiconCache = null;
+}
+
+// ============= Lexicon Management =============
+
+/**
+ * List lexicon entries (newest rules last, grouped by kind)
+ */
+export async function listLexiconEntries(options: { kind?: LexiconEntryKind } = {}): Promise<LexiconEntry[]> {
+    const results = await db
+        .select()
+        .from(sttLexiconEntries)
+        .where(options.kind ? eq(sttLexiconEntries.kind, options.kind) : undefined)
+        .orderBy(asc(sttLexiconEntries.kind), asc(sttLexiconEntries.createdAt));
+
+    return results as LexiconEntry[];
+}
+
+/**
+ * Add a lexicon entry
+ * Re-adding an existing misheard phrase / term updates it instead of creating a duplicate
+ */
+export async function createLexiconEntry(input: LexiconEntryInput): Promise<LexiconEntry> {
+    const misheard = input.kind === 'correction' ? input.misheard?.trim() || null : null;
+    const correct = input.correct.trim();
+
+    const existing = await db
+        .select()
+        .from(sttLexiconEntries)
+        .where(and(
+            eq(sttLexiconEntries.kind, input.kind),
+            misheard
+                ? eq(sttLexiconEntries.misheard, misheard)
+                : eq(sttLexiconEntries.correct, correct)
+        ))
+        .limit(1);
+
+    if (existing[0]) {
+        const [updated] = await db
+            .update(sttLexiconEntries)
+            .set({ correct, note: input.note ?? existing[0].note, isActive: true, updatedAt: new Date() })
+            .where(eq(sttLexiconEntries.id, existing[0].id))
+            .returning();
+        invalidateLexiconCache();
+        return updated as LexiconEntry;
+    }
+
+    const [created] = await db
+        .insert(sttLexiconEntries)
+        .values({
+            kind: input.kind,
+            misheard,
+            correct,
+            note: input.note || null,
+            source: input.source || 'admin',
+            sourceSessionId: input.sourceSessionId || null,
+        })
+        .returning();
+
+    // After the write - a request reloading the cache in between would otherwise keep the old lexicon
+    invalidateLexiconCache();
+    return created as LexiconEntry;
+}
+
+/**
+ * Update a lexicon entry (text, note or active flag)
+ */
+export async function updateLexiconEntry(
+    id: string,
+    updates: Partial<Pick<LexiconEntry, 'misheard' | 'correct' | 'note' | 'isActive'>>
+): Promise<LexiconEntry | null> {
+    const [updated] = await db
+        .update(sttLexiconEntries)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(sttLexiconEntries.id, id))
+        .returning();
+
+    invalidateLexiconCache();
+    return (updated as LexiconEntry) || null;
+}
+
+/**
+ * Delete a lexicon entry
+ */
+export async function deleteLexiconEntry(id: string): Promise<boolean> {
+    const deleted = await db
+        .delete(sttLexiconEntries)
+        .where(eq(sttLexiconEntries.id, id))
+        .returning({ id: sttLexiconEntries.id });
+
+    invalidateLexiconCache();
+    return deleted.length > 0;
+}
+
+/**
+ * Active lexicon used by the STT pipeline
+ * Never throws - STT keeps working with an empty lexicon if the DB is unavailable
+ */
+export async function getActiveLexicon(): Promise<Lexicon> {
+    if (_lexiconCache && Date.now() - _lexiconCache.loadedAt < LEXICON_CACHE_TTL_MS) {
+        return _lexiconCache.lexicon;
+    }
+
+    if (!db) return EMPTY_LEXICON;
+
+    try {
+        const entries = await db
+            .select()
+            .from(sttLexiconEntries)
+            .where(eq(sttLexiconEntries.isActive, true));
+
+        const lexicon: Lexicon = {
+            corrections: entries
+                .filter((e: LexiconEntry) => e.kind === 'correction' && e.misheard)
+                .map((e: LexiconEntry) => ({ misheard: e.misheard as string, correct: e.correct })),
+            terms: entries
+                .filter((e: LexiconEntry) => e.kind === 'term')
+                .map((e: LexiconEntry) => e.correct),
+        };
+
+        _lexiconCache = { lexicon, loadedAt: Date.now() };
+        return lexicon;
+    } catch (error) {
+        console.error('Error loading STT lexicon, continuing without it:', error);
+        return EMPTY_LEXICON;
+    }
+}
@@ -0,0 +1,173 @@
+import { db, bookings, users } from '../db';
+import { examinationSessions, medicalRecords } from '../db/schema-session';
+import { and, desc, eq, lt, ne, or, sql, type SQL } from 'drizzle-orm';
+import { getCurrentSession } from '../integrations/hisClient';
+import type { PatientContext } from '../agents/state';
+
+// ============= Helpers =============
+
+// Allergies are free text in bookings / users ("Penicillin, hải sản; ...")
+function splitList(value: string | null | undefined): string[] {
+    if (!value) return [];
+    return value
+        .split(/[,;\n]/)
+        .map(item => item.trim())
+        .filter(item => item && !/^(không|không có|ko|none|n\/a)$/i.test(item));
+}
+
+export function ageFromBirthDate(birthDate: string | null): number | null {
+    if (!birthDate) return null;
+    const birth = new Date(birthDate);
+    if (isNaN(birth.getTime())) return null;
+
+    const today = new Date();
+    let age = today.getFullYear() - birth.getFullYear();
+    const monthDiff = today.getMonth() - birth.getMonth();
+    if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birth.getDate())) {
+        age--;
+    }
+    return age;
+}
+
+function mergeLists(...lists: string[][]): string[] {
+    const seen = new Set<string>();
+    return lists.flat().filter(item => {
+        const key = item.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+/**
+ * Latest medical record of an earlier visit of the same patient
+ */
+async function getPreviousVisit(
+    sessionId: string,
+    createdAt: Date,
+    patientFilter: SQL | undefined
+): Promise<PatientContext['previousVisit']> {
+    if (!patientFilter) return null;
+
+    const results = await db
+        .select({ session: examinationSessions, record: medicalRecords })
+        .from(examinationSessions)
+        .innerJoin(medicalRecords, eq(medicalRecords.sessionId, examinationSessions.id))
+        .leftJoin(bookings, eq(examinationSessions.bookingId, bookings.id))
+        .where(and(
+            patientFilter,
+            ne(examinationSessions.id, sessionId),
+            lt(examinationSessions.createdAt, createdAt)
+        ))
+        .orderBy(desc(examinationSessions.createdAt))
+        .limit(1);
+
+    const previous = results[0];
+    if (!previous) return null;
+
+    return {
+        date: previous.session.createdAt.toISOString().slice(0, 10),
+        soap: {
+            subjective: previous.record.subjective || '',
+            objective: previous.record.objective || '',
+            assessment: previous.record.assessment || '',
+            plan: previous.record.plan || '',
+        },
+        icdCodes: Array.isArray(previous.record.icdCodes) ? previous.record.icdCodes.map(String) : [],
+    };
+}
+
+/**
+ * Medications and vital signs come from the HIS (only when an HIS is configured server-side)
+ * The HIS only exposes its currently open visit - if it has moved on to another visit,
+ * that context belongs to a different patient and must not be used
+ */
+async function getHisContext(visitId: string | null) {
+    if (!visitId || !process.env.HIS_API_URL) return null;
+
+    const response = await getCurrentSession(true);
+    if (!response.success || !response.data) return null;
+    if (response.data.visitId !== visitId) {
+        console.warn(`HIS current visit ${response.data.visitId} does not match session visit ${visitId} - context skipped`);
+        return null;
+    }
+    return response.data.context || null;
+}
+
+/**
+ * Bookings only store the name, gender and age at booking time: the name must match, and the gender
+ * and birth year (booking year - age, ±1) when known - bookings missing them are not matched
+ */
+function samePersonAsBooking(booking: typeof bookings.$inferSelect): SQL | undefined {
+    const conditions: SQL[] = [
+        sql`lower(trim(${bookings.patientName})) = ${booking.patientName.trim().toLowerCase()}`,
+    ];
+    if (booking.gender) {
+        conditions.push(eq(bookings.gender, booking.gender));
+    }
+    if (booking.age !== null) {
+        const birthYear = booking.bookingTime.getFullYear() - booking.age;
+        conditions.push(sql`abs(extract(year from ${bookings.bookingTime}) - ${bookings.age} - ${birthYear}) <= 1`);
+    }
+    return and(...conditions);
+}
+
+// ============= Patient Context =============
+
+/**
+ * Build the patient context injected into the agent graph for a session
+ * Sources: booking (new workflow) or patient record (legacy), HIS, previous visits
+ */
+export async function getPatientContext(sessionId: string): Promise<PatientContext | null> {
+    const results = await db
+        .select({ session: examinationSessions, booking: bookings, patient: users })
+        .from(examinationSessions)
+        .leftJoin(bookings, eq(examinationSessions.bookingId, bookings.id))
+        .leftJoin(users, eq(examinationSessions.patientId, users.id))
+        .where(eq(examinationSessions.id, sessionId))
+        .limit(1);
+
+    if (!results[0]) return null;
+    const { session, booking, patient } = results[0];
+
+    // Same patient = same patient record (legacy), or a booking of the same account / phone number
+    // for the same person - one account or phone often books for several family members
+    let patientFilter: SQL | undefined;
+    if (booking) {
+        patientFilter = and(
+            booking.userId
+                ? or(eq(bookings.userId, booking.userId), eq(bookings.patientPhone, booking.patientPhone))
+                : eq(bookings.patientPhone, booking.patientPhone),
+            samePersonAsBooking(booking)
+        );
+    } else if (patient) {
+        patientFilter = eq(examinationSessions.patientId, patient.id);
+    }
+
+    const [previousVisit, his] = await Promise.all([
+        getPreviousVisit(session.id, session.createdAt, patientFilter),
+        getHisContext(session.visitId).catch(error => {
+            console.error('Error fetching HIS context:', error);
+            return null;
+        }),
+    ]);
+
+    return {
+        demographics: {
+            name: booking?.patientName || patient?.name || 'Unknown',
+            age: booking?.age ?? ageFromBirthDate(patient?.birthDate || null),
+            gender: booking?.gender || patient?.gender || null,
+            bloodType: booking?.bloodType || patient?.bloodType || null,
+        },
+        medicalHistory: [booking?.medicalHistory || patient?.medicalHistory, his?.medicalHistory]
+            .filter(Boolean)
+            .join('\n') || null,
+        allergies: mergeLists(
+            splitList(booking?.allergies || patient?.allergies),
+            his?.allergies || []
+        ),
+        currentMedications: his?.currentMedications || [],
+        vitalSigns: his?.vitalSigns || null,
+        previousVisit,
+    };
+}
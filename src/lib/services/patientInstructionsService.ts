@@ -0,0 +1,108 @@
+import { db, patientInstructions } from '../db';
+import { eq } from 'drizzle-orm';
+import { getMedicalRecordBySession } from './sessionService';
+import { getPrescriptionItems } from './prescriptionService';
+import { getPatientContext } from './patientContextService';
+import { generatePatientInstructions } from '../agents/patientInstructions';
+import { adviceFromPlan } from '../prescription/prescription';
+import {
+    isReadingLevel,
+    parseInstructionsContent,
+    type PatientInstructions,
+    type PatientInstructionsContent,
+    type PatientInstructionsStatus,
+    type ReadingLevel,
+} from '../instructions/types';
+
+// ============= Types =============
+
+export interface PatientInstructionsInput {
+    readingLevel: ReadingLevel;
+    content: PatientInstructionsContent;
+    status: PatientInstructionsStatus;
+}
+
+// ============= Helpers =============
+
+function toInstructions(row: typeof patientInstructions.$inferSelect): PatientInstructions {
+    return {
+        readingLevel: isReadingLevel(row.readingLevel) ? row.readingLevel : 'standard',
+        content: parseInstructionsContent(row.content),
+        status: row.status === 'approved' ? 'approved' : 'draft',
+        approvedAt: row.approvedAt ? row.approvedAt.toISOString() : null,
+        updatedAt: row.updatedAt.toISOString(),
+    };
+}
+
+// ============= Patient Instructions =============
+
+/**
+ * Instructions attached to a medical record (null if none were generated yet)
+ */
+export async function getPatientInstructions(medicalRecordId: string): Promise<PatientInstructions | null> {
+    const rows = await db
+        .select()
+        .from(patientInstructions)
+        .where(eq(patientInstructions.medicalRecordId, medicalRecordId))
+        .limit(1);
+
+    return rows[0] ? toInstructions(rows[0]) : null;
+}
+
+/**
+ * Save the doctor's version of the instructions
+ * Approving stamps approvedAt; any later edit puts the document back to draft unless approved again
+ */
+export async function savePatientInstructions(
+    medicalRecordId: string,
+    input: PatientInstructionsInput,
+    generatedContent?: PatientInstructionsContent
+): Promise<PatientInstructions> {
+    const now = new Date();
+    const values = {
+        readingLevel: input.readingLevel,
+        content: input.content,
+        status: input.status,
+        approvedAt: input.status === 'approved' ? now : null,
+        updatedAt: now,
+        ...(generatedContent ? { generatedContent } : {}),
+    };
+
+    const rows = await db
+        .insert(patientInstructions)
+        .values({ medicalRecordId, ...values })
+        .onConflictDoUpdate({ target: patientInstructions.medicalRecordId, set: values })
+        .returning();
+
+    return toInstructions(rows[0]);
+}
+
+/**
+ * Generate a new AI draft from the session's medical record and store it (status: draft)
+ * Returns null when the session has no medical record
+ */
+export async function generateSessionInstructions(
+    sessionId: string,
+    readingLevel: ReadingLevel
+): Promise<PatientInstructions | null> {
+    const record = await getMedicalRecordBySession(sessionId);
+    if (!record) return null;
+
+    const [prescriptionItems, patientContext] = await Promise.all([
+        getPrescriptionItems(record.id),
+        getPatientContext(sessionId).catch(error => {
+            console.error('Error loading patient context:', error);
+            return null;
+        }),
+    ]);
+
+    const content = await generatePatientInstructions({
+        assessment: record.assessment || '',
+        icdCodes: Array.isArray(record.icdCodes) ? record.icdCodes.map(String) : [],
+        advice: prescriptionItems.length > 0 ? adviceFromPlan(record.plan || '') : record.plan || '',
+        prescriptionItems,
+        patientContext,
+    }, readingLevel);
+
+    return savePatientInstructions(record.id, { readingLevel, content, status: 'draft' }, content);
+}
@@ -0,0 +1,75 @@
+import { db, prescriptionItems } from '../db';
+import { asc, eq } from 'drizzle-orm';
+import type { PrescriptionItem } from '../prescription/types';
+
+// ============= Helpers =============
+
+function toItem(row: typeof prescriptionItems.$inferSelect): PrescriptionItem {
+    return {
+        drugName: row.drugName,
+        activeIngredient: row.activeIngredient,
+        strength: row.strength,
+        form: row.form,
+        dose: row.dose,
+        frequency: row.frequency,
+        duration: row.duration,
+        route: row.route,
+        quantity: row.quantity,
+        instructions: row.instructions,
+    };
+}
+
+function clean(value: string | null | undefined): string | null {
+    return value && value.trim() ? value.trim() : null;
+}
+
+// ============= Prescription Items =============
+
+/**
+ * Structured prescription of a medical record, in prescription order
+ */
+export async function getPrescriptionItems(medicalRecordId: string): Promise<PrescriptionItem[]> {
+    const rows = await db
+        .select()
+        .from(prescriptionItems)
+        .where(eq(prescriptionItems.medicalRecordId, medicalRecordId))
+        .orderBy(asc(prescriptionItems.position));
+
+    return rows.map(toItem);
+}
+
+/**
+ * Replace the whole prescription of a medical record
+ * The editor always sends the full list, so rows are rewritten rather than diffed
+ */
+export async function replacePrescriptionItems(
+    medicalRecordId: string,
+    items: PrescriptionItem[]
+): Promise<PrescriptionItem[]> {
+    const rows = items
+        .filter(item => item.drugName && item.drugName.trim())
+        .map((item, position) => ({
+            medicalRecordId,
+            position,
+            drugName: item.drugName.trim(),
+            activeIngredient: clean(item.activeIngredient),
+            strength: clean(item.strength),
+            form: clean(item.form),
+            dose: clean(item.dose),
+            frequency: clean(item.frequency),
+            duration: clean(item.duration),
+            route: clean(item.route),
+            quantity: item.quantity,
+            instructions: clean(item.instructions),
+        }));
+
+    return db.transaction(async (tx: typeof db) => {
+        await tx.delete(prescriptionItems).where(eq(prescriptionItems.medicalRecordId, medicalRecordId));
+        if (rows.length === 0) return [];
+
+        const inserted = await tx.insert(prescriptionItems).values(rows).returning();
+        return (inserted as (typeof prescriptionItems.$inferSelect)[])
+            .sort((a, b) => a.position - b.position)
+            .map(toItem);
+    });
+}
@@ -0,0 +1,228 @@
+import { db, bookings, sessionTranscripts, sessionAudioRecordings } from '../db';
+import { examinationSessions } from '../db/schema-session';
+import { and, desc, eq, isNotNull, lt, or, type SQL } from 'drizzle-orm';
+import { getAudioStorage, createStorageAdapter, AUDIO_RETENTION_DAYS, type StorageAdapter } from '../storage';
+import { getSttProvider } from '../stt/providers';
+import { getDiarizationProvider } from '../stt/diarization';
+import type { ProcessedSegment, SpeakerProfile } from '../stt/types';
+import { audioFileExtension } from '../contracts/session';
+
+// ============= Types =============
+
+export interface TranscriptInput {
+    sessionId: string;
+    segments: ProcessedSegment[];
+    originalSegments?: ProcessedSegment[];
+    speakers?: SpeakerProfile[];
+    rawText?: string;
+}
+
+export interface SessionTranscript {
+    id: string;
+    sessionId: string;
+    segments: ProcessedSegment[];
+    originalSegments: ProcessedSegment[] | null;
+    speakers: SpeakerProfile[] | null;
+    rawText: string | null;
+    sttProvider: string | null;
+    sttModel: string | null;
+    diarizationProvider: string | null;
+    durationSeconds: number | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface AudioRecording {
+    id: string;
+    sessionId: string;
+    storageBackend: string;
+    storageKey: string;
+    mimeType: string;
+    sizeBytes: number;
+    durationSeconds: number | null;
+    expiresAt: Date | null;
+    createdAt: Date;
+}
+
+// ============= Transcript Management =============
+
+/**
+ * Save (create or replace) the transcript of a session
+ * STT provider info is recorded from the server configuration at save time
+ */
+export async function saveSessionTranscript(input: TranscriptInput): Promise<SessionTranscript> {
+    const lastSegment = input.segments[input.segments.length - 1];
+    const values = {
+        segments: input.segments,
+        originalSegments: input.originalSegments || null,
+        // Voice embeddings are only useful while recording
+        speakers: input.speakers?.map(({ id, role }) => ({ id, role })) || null,
+        rawText: input.rawText || null,
+        sttProvider: getSttProvider().name,
+        sttModel: getSttProvider().model,
+        diarizationProvider: getDiarizationProvider().name,
+        durationSeconds: lastSegment && lastSegment.end > 0 ? lastSegment.end : null,
+    };
+
+    const [transcript] = await db
+        .insert(sessionTranscripts)
+        .values({ sessionId: input.sessionId, ...values })
+        .onConflictDoUpdate({
+            target: sessionTranscripts.sessionId,
+            set: { ...values, updatedAt: new Date() },
+        })
+        .returning();
+
+    return transcript as SessionTranscript;
+}
+
+/**
+ * Get the transcript of a session
+ */
+export async function getSessionTranscript(sessionId: string): Promise<SessionTranscript | null> {
+    const results = await db
+        .select()
+        .from(sessionTranscripts)
+        .where(eq(sessionTranscripts.sessionId, sessionId))
+        .limit(1);
+
+    return (results[0] as SessionTranscript) || null;
+}
+
+// ============= Audio Management =============
+
+// Recordings keep the backend they were written to, even if AUDIO_STORAGE changes later
+function storageFor(recording: AudioRecording): StorageAdapter {
+    const current = getAudioStorage();
+    return recording.storageBackend === current.name
+        ? current
+        : createStorageAdapter(recording.storageBackend, process.env.AUDIO_STORAGE_DIR || './storage/audio');
+}
+
+/**
+ * Store the audio of a session and record its metadata
+ */
+export async function saveSessionAudio(
+    sessionId: string,
+    data: Buffer,
+    mimeType: string,
+    durationSeconds?: number
+): Promise<AudioRecording> {
+    const storage = getAudioStorage();
+    const storageKey = `sessions/${sessionId}/${Date.now()}.${audioFileExtension(mimeType)}`;
+    await storage.put(storageKey, data, mimeType);
+
+    const expiresAt = AUDIO_RETENTION_DAYS > 0
+        ? new Date(Date.now() + AUDIO_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+        : null;
+
+    const [recording] = await db
+        .insert(sessionAudioRecordings)
+        .values({
+            sessionId,
+            storageBackend: storage.name,
+            storageKey,
+            mimeType,
+            sizeBytes: data.length,
+            durationSeconds: durationSeconds ?? null,
+            expiresAt,
+        })
+        .returning();
+
+    return recording as AudioRecording;
+}
+
+/**
+ * Latest audio recording of a session (metadata only)
+ */
+export async function getSessionAudio(sessionId: string): Promise<AudioRecording | null> {
+    const results = await db
+        .select()
+        .from(sessionAudioRecordings)
+        .where(eq(sessionAudioRecordings.sessionId, sessionId))
+        .orderBy(desc(sessionAudioRecordings.createdAt))
+        .limit(1);
+
+    return (results[0] as AudioRecording) || null;
+}
+
+/**
+ * Read the audio file of a recording from storage
+ */
+export async function readAudioRecording(recording: AudioRecording): Promise<Buffer | null> {
+    const object = await storageFor(recording).get(recording.storageKey);
+    return object?.data || null;
+}
+
+/**
+ * Delete every audio file of a session (before the session itself is deleted)
+ */
+export async function deleteSessionAudio(sessionId: string): Promise<number> {
+    const recordings: AudioRecording[] = await db
+        .select()
+        .from(sessionAudioRecordings)
+        .where(eq(sessionAudioRecordings.sessionId, sessionId));
+
+    for (const recording of recordings) {
+        await storageFor(recording).delete(recording.storageKey);
+    }
+    await db.delete(sessionAudioRecordings).where(eq(sessionAudioRecordings.sessionId, sessionId));
+
+    return recordings.length;
+}
+
+// Sessions matched by the filter - their rows cascade away with the patient / booking, their files do not
+async function deleteAudioOfSessions(filter: SQL | undefined): Promise<number> {
+    const sessions: { id: string }[] = await db
+        .select({ id: examinationSessions.id })
+        .from(examinationSessions)
+        .leftJoin(bookings, eq(examinationSessions.bookingId, bookings.id))
+        .where(filter);
+
+    let deleted = 0;
+    for (const session of sessions) {
+        deleted += await deleteSessionAudio(session.id);
+    }
+    return deleted;
+}
+
+/**
+ * Delete the audio files of every session of a patient (own sessions and sessions of their bookings)
+ */
+export async function deletePatientAudio(userId: string): Promise<number> {
+    return deleteAudioOfSessions(or(eq(examinationSessions.patientId, userId), eq(bookings.userId, userId)));
+}
+
+/**
+ * Delete the audio files of the sessions of a booking
+ */
+export async function deleteBookingAudio(bookingId: string): Promise<number> {
+    return deleteAudioOfSessions(eq(examinationSessions.bookingId, bookingId));
+}
+
+/**
+ * Retention: delete audio files past their expiry date
+ * Transcripts are kept - only the audio is purged
+ */
+export async function purgeExpiredAudio(now: Date = new Date()): Promise<number> {
+    const expired: AudioRecording[] = await db
+        .select()
+        .from(sessionAudioRecordings)
+        .where(and(
+            isNotNull(sessionAudioRecordings.expiresAt),
+            lt(sessionAudioRecordings.expiresAt, now)
+        ));
+
+    let purged = 0;
+    for (const recording of expired) {
+        try {
+            await storageFor(recording).delete(recording.storageKey);
+            await db.delete(sessionAudioRecordings).where(eq(sessionAudioRecordings.id, recording.id));
+            purged++;
+        } catch (error) {
+            console.error(`Error purging audio ${recording.storageKey}:`, error);
+        }
+    }
+
+    return purged;
+}
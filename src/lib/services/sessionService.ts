@@ -3,6 +3,15 @@ import { examinationSessions, medicalRecords } from '../db/schema-session';
 import { users } from '../db/schema-users';
 import { eq, desc, sql, and } from 'drizzle-orm';
 import { updateVisit, type MedicalPayload } from '../integrations/hisClient';
+import { replacePrescriptionItems } from './prescriptionService';
+import { getDiagnoses, replaceDiagnoses, withCatalogueLabels } from './diagnosisService';
+import { validateIcd10Codes } from './icd10Service';
+import { getPatientContext } from './patientContextService';
+import { checkRecordSafety, UnacknowledgedSafetyAlertsError } from '../agents/safety';
+import { formatPrescription, medicationsFromPrescription } from '../prescription/prescription';
+import { diagnosesFromIcdCodes, formatDiagnoses, icdCodesFromDiagnoses, orderDiagnoses } from '../diagnosis/diagnosis';
+import type { PrescriptionItem } from '../prescription/types';
+import type { Diagnosis } from '../diagnosis/types';
 
 // ============= Types =============
 
@@ -55,8 +64,11 @@ export interface MedicalRecordInput {
     objective?: string;
     assessment?: string;
     plan?: string;
-    icdCodes?: string[];
+    diagnoses?: Diagnosis[];                // Structured diagnoses - replace the stored ones when provided
+    icdCodes?: string[];                    // Legacy clients - converted to diagnoses, the first code is the main disease
+    prescriptionItems?: PrescriptionItem[]; // Structured prescription - replaces the stored items when provided
     status: 'draft' | 'final';
+    safetyAcknowledged?: boolean;           // Doctor reviewed the blocking drug safety alerts of the plan
 }
 
 export interface MedicalRecord {
@@ -66,7 +78,7 @@ export interface MedicalRecord {
     objective: string | null;
     assessment: string | null;
     plan: string | null;
-    icdCodes: unknown;
+    icdCodes: string[] | null;
     status: 'draft' | 'final';
     createdAt: Date;
     updatedAt: Date;
@@ -273,10 +285,43 @@ export async function updateSessionStatus(
 
 // ============= Medical Record Management =============
 
+/**
+ * Final records: the plan is checked again on the server - blocking drug safety alerts
+ * (including a check that could not run) must have been acknowledged by the doctor
+ */
+async function assertPlanSafety(input: MedicalRecordInput): Promise<void> {
+    if (input.status !== 'final' || input.safetyAcknowledged) return;
+
+    const patientContext = await getPatientContext(input.sessionId);
+    const { alerts } = await checkRecordSafety(
+        input.plan || '',
+        medicationsFromPrescription(input.prescriptionItems || []),
+        patientContext
+    );
+
+    const blocking = alerts.filter(alert => alert.blocking);
+    if (blocking.length > 0) {
+        throw new UnacknowledgedSafetyAlertsError(blocking);
+    }
+}
+
 /**
  * Save or update medical record
+ * Diagnosis codes are checked against the catalogue (InvalidIcd10CodesError for unknown / non-billable codes);
+ * icdCodes and the diagnosis text are generated from the diagnoses
+ * Final records with unacknowledged blocking safety alerts are rejected (UnacknowledgedSafetyAlertsError)
  */
 export async function saveMedicalRecord(input: MedicalRecordInput): Promise<MedicalRecord> {
+    await assertPlanSafety(input);
+
+    const requested = input.diagnoses ?? (input.icdCodes ? diagnosesFromIcdCodes(input.icdCodes) : undefined);
+    const diagnoses = requested ? await withCatalogueLabels(orderDiagnoses(requested)) : undefined;
+    if (diagnoses) {
+        await validateIcd10Codes(diagnoses.map(diagnosis => diagnosis.icdCode));
+    }
+    const icdCodes = diagnoses ? icdCodesFromDiagnoses(diagnoses) : undefined;
+    const diagnosisText = diagnoses ? formatDiagnoses(diagnoses) || null : undefined;
+
     // Check if record already exists for this session
     const existingRecords = await db
         .select()
@@ -286,6 +331,11 @@ export async function saveMedicalRecord(input: MedicalRecordInput): Promise<Medi
 
     const now = new Date();
 
+    // Đơn thuốc dạng text được sinh từ các dòng thuốc có cấu trúc (nếu có)
+    const prescriptionText = input.prescriptionItems
+        ? formatPrescription(input.prescriptionItems) || null
+        : undefined;
+
     if (existingRecords.length > 0) {
         // Update existing record
         const recordId = existingRecords[0].id;
@@ -296,12 +346,21 @@ export async function saveMedicalRecord(input: MedicalRecordInput): Promise<Medi
                 objective: input.objective,
                 assessment: input.assessment,
                 plan: input.plan,
-                icdCodes: input.icdCodes || [],
+                icdCodes,
+                diagnosis: diagnosisText,
+                prescription: prescriptionText,
                 status: input.status,
                 updatedAt: now,
             })
             .where(eq(medicalRecords.id, recordId));
 
+        if (input.prescriptionItems) {
+            await replacePrescriptionItems(recordId, input.prescriptionItems);
+        }
+        if (diagnoses) {
+            await replaceDiagnoses(recordId, diagnoses);
+        }
+
         // Fetch updated record
         const updated = await db
             .select()
@@ -326,9 +385,9 @@ export async function saveMedicalRecord(input: MedicalRecordInput): Promise<Medi
             objective: input.objective || null,
             assessment: input.assessment || null,
             plan: input.plan || null,
-            icdCodes: input.icdCodes || [],
-            diagnosis: input.assessment || null, // Duplicate for Booking compatibility
-            prescription: input.plan || null, // Duplicate for Booking compatibility
+            icdCodes: icdCodes || [],
+            diagnosis: diagnosisText || input.assessment || null, // For Booking - falls back to the assessment until codes are chosen
+            prescription: prescriptionText !== undefined ? prescriptionText : input.plan || null, // Duplicate for Booking compatibility
             status: input.status,
         };
 
@@ -336,6 +395,13 @@ export async function saveMedicalRecord(input: MedicalRecordInput): Promise<Medi
 
         const record = result[0] as MedicalRecord;
 
+        if (input.prescriptionItems) {
+            await replacePrescriptionItems(record.id, input.prescriptionItems);
+        }
+        if (diagnoses) {
+            await replaceDiagnoses(record.id, diagnoses);
+        }
+
         // If status is final, sync to HIS and update session
         if (input.status === 'final') {
             await finalizeRecord(input.sessionId, record);
@@ -453,6 +519,7 @@ async function finalizeRecord(sessionId: string, record: MedicalRecord): Promise
             assessment: record.assessment || '',
             plan: record.plan || '',
             icdCodes: (record.icdCodes as string[]) || [],
+            diagnoses: await getDiagnoses(record.id),
         };
 
         // Sync to HIS system
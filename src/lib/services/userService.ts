@@ -48,6 +48,30 @@ export interface PatientSearchResult {
     lastVisitDate: Date | null;
 }
 
+// User as returned by the API - never includes the password hash
+export type PublicUser = Omit<User, 'password'>;
+
+export function toPublicUser(user: User): PublicUser {
+    return {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        name: user.name,
+        phone: user.phone,
+        avatarUrl: user.avatarUrl,
+        displayId: user.displayId,
+        birthDate: user.birthDate,
+        gender: user.gender,
+        address: user.address,
+        medicalHistory: user.medicalHistory,
+        allergies: user.allergies,
+        bloodType: user.bloodType,
+        externalPatientId: user.externalPatientId,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+    };
+}
+
 // ============= Display ID Generation =============
 
 /**
@@ -245,6 +269,19 @@ export async function getUserById(userId: string): Promise<User | null> {
     return result[0] ? (result[0] as User) : null;
 }
 
+/**
+ * Get user by email (login) - case-insensitive
+ */
+export async function getUserByEmail(email: string): Promise<User | null> {
+    const result = await db
+        .select()
+        .from(users)
+        .where(sql`lower(${users.email}) = ${email.trim().toLowerCase()}`)
+        .limit(1);
+
+    return result[0] ? (result[0] as User) : null;
+}
+
 /**
  * Get patient by displayId (human-readable ID)
  */
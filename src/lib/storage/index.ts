@@ -0,0 +1,49 @@
+import { LocalStorageAdapter } from './localStorageAdapter';
+import { S3StorageAdapter } from './s3StorageAdapter';
+import type { StorageAdapter } from './types';
+
+/**
+ * Audio storage selection (environment variables):
+ * - AUDIO_STORAGE: 'local' (default) | 's3'
+ * - AUDIO_STORAGE_DIR: directory for the local adapter (default ./storage/audio)
+ * - S3_ENDPOINT, S3_REGION (default us-east-1), S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY
+ * - AUDIO_RETENTION_DAYS: recordings older than this are purged (default 0 = keep forever)
+ */
+export const AUDIO_RETENTION_DAYS = parseInt(process.env.AUDIO_RETENTION_DAYS || '0', 10);
+
+// Lazy initialization to avoid build-time errors when env vars are not set
+let _audioStorage: StorageAdapter | null = null;
+
+export function createStorageAdapter(name: string, localDir: string): StorageAdapter {
+    switch (name) {
+        case 'local':
+            return new LocalStorageAdapter(localDir);
+        case 's3': {
+            const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+            if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+                throw new Error('S3 storage requires S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+            }
+            return new S3StorageAdapter({
+                endpoint: S3_ENDPOINT,
+                region: S3_REGION || 'us-east-1',
+                bucket: S3_BUCKET,
+                accessKeyId: S3_ACCESS_KEY_ID,
+                secretAccessKey: S3_SECRET_ACCESS_KEY,
+            });
+        }
+        default:
+            throw new Error(`Unknown storage backend "${name}" (expected 'local' or 's3')`);
+    }
+}
+
+export function getAudioStorage(): StorageAdapter {
+    if (!_audioStorage) {
+        _audioStorage = createStorageAdapter(
+            process.env.AUDIO_STORAGE || 'local',
+            process.env.AUDIO_STORAGE_DIR || './storage/audio'
+        );
+    }
+    return _audioStorage;
+}
+
+export type { StorageAdapter, StoredObject } from './types';
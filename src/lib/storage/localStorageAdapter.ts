@@ -0,0 +1,43 @@
+import { mkdir, readFile, writeFile, rm } from 'fs/promises';
+import path from 'path';
+import type { StorageAdapter, StoredObject } from './types';
+
+/**
+ * Local filesystem storage - file nằm trên server của bệnh viện
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+    readonly name = 'local';
+    private readonly baseDir: string;
+
+    constructor(baseDir: string) {
+        this.baseDir = path.resolve(baseDir);
+    }
+
+    // Reject keys that would escape the storage directory ("../")
+    private resolve(key: string): string {
+        const filePath = path.resolve(this.baseDir, key);
+        if (!filePath.startsWith(this.baseDir + path.sep)) {
+            throw new Error(`Invalid storage key "${key}"`);
+        }
+        return filePath;
+    }
+
+    async put(key: string, data: Buffer): Promise<void> {
+        const filePath = this.resolve(key);
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await writeFile(filePath, data);
+    }
+
+    async get(key: string): Promise<StoredObject | null> {
+        try {
+            return { data: await readFile(this.resolve(key)) };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await rm(this.resolve(key), { force: true });
+    }
+}
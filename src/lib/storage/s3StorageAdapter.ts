@@ -0,0 +1,110 @@
+import { createHash, createHmac } from 'crypto';
+import type { StorageAdapter, StoredObject } from './types';
+
+export interface S3StorageConfig {
+    endpoint: string;        // https://s3.amazonaws.com, http://localhost:9000 (MinIO)...
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+}
+
+function sha256Hex(data: Buffer | string): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+    return createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 3986 encoding required by SigV4 (encodeURIComponent leaves !'()* as is)
+function encodeKeySegment(segment: string): string {
+    return encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * S3-compatible object storage (AWS S3, MinIO, Cloudflare R2...)
+ * Path-style URLs + AWS Signature V4, không cần AWS SDK
+ */
+export class S3StorageAdapter implements StorageAdapter {
+    readonly name = 's3';
+    private readonly config: S3StorageConfig;
+
+    constructor(config: S3StorageConfig) {
+        this.config = { ...config, endpoint: config.endpoint.replace(/\/$/, '') };
+    }
+
+    private async request(
+        method: 'GET' | 'PUT' | 'DELETE',
+        key: string,
+        body?: Buffer,
+        contentType?: string
+    ): Promise<Response> {
+        const { endpoint, region, bucket, accessKeyId, secretAccessKey } = this.config;
+        const url = new URL(endpoint);
+        const canonicalUri = `/${bucket}/${key.split('/').map(encodeKeySegment).join('/')}`;
+
+        const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const dateStamp = amzDate.slice(0, 8);
+        const payloadHash = sha256Hex(body ?? '');
+
+        const headers: Record<string, string> = {
+            host: url.host,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzDate,
+        };
+        if (contentType) headers['content-type'] = contentType;
+
+        const signedHeaderNames = Object.keys(headers).sort();
+        const canonicalRequest = [
+            method,
+            canonicalUri,
+            '',
+            signedHeaderNames.map(name => `${name}:${headers[name]}\n`).join(''),
+            signedHeaderNames.join(';'),
+            payloadHash,
+        ].join('\n');
+
+        const scope = `${dateStamp}/${region}/s3/aws4_request`;
+        const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+        const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request');
+        const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+        // fetch sets Host itself
+        const requestHeaders = Object.fromEntries(Object.entries(headers).filter(([name]) => name !== 'host'));
+        return fetch(`${endpoint}${canonicalUri}`, {
+            method,
+            headers: {
+                ...requestHeaders,
+                Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`,
+            },
+            body: body ? new Uint8Array(body) : undefined,
+        });
+    }
+
+    async put(key: string, data: Buffer, contentType: string): Promise<void> {
+        const response = await this.request('PUT', key, data, contentType);
+        if (!response.ok) {
+            throw new Error(`S3 PUT ${key} failed: HTTP ${response.status} ${await response.text()}`);
+        }
+    }
+
+    async get(key: string): Promise<StoredObject | null> {
+        const response = await this.request('GET', key);
+        if (response.status === 404) return null;
+        if (!response.ok) {
+            throw new Error(`S3 GET ${key} failed: HTTP ${response.status}`);
+        }
+        return {
+            data: Buffer.from(await response.arrayBuffer()),
+            contentType: response.headers.get('content-type') || undefined,
+        };
+    }
+
+    async delete(key: string): Promise<void> {
+        const response = await this.request('DELETE', key);
+        if (!response.ok && response.status !== 404) {
+            throw new Error(`S3 DELETE ${key} failed: HTTP ${response.status}`);
+        }
+    }
+}
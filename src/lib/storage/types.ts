@@ -0,0 +1,16 @@
+/**
+ * Object storage abstraction (audio recordings, uploaded documents...)
+ * Keys are '/'-separated relative paths, e.g. "sessions/<sessionId>/<recordingId>.webm"
+ */
+export interface StoredObject {
+    data: Buffer;
+    contentType?: string;
+}
+
+export interface StorageAdapter {
+    readonly name: string;
+
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    get(key: string): Promise<StoredObject | null>;
+    delete(key: string): Promise<void>;
+}
@@ -0,0 +1,68 @@
+import type { DiarizationProvider, DiarizationResult, DiarizeOptions, DiarizationHealth, SpeakerTurn } from './types';
+
+const HEALTH_TIMEOUT_MS = 3000;
+
+/**
+ * Diarization service over HTTP (e.g. pyannote.audio wrapped in a small API)
+ *
+ * Contract:
+ * - POST {baseUrl}/diarize (multipart: file, min_speakers, max_speakers)
+ *   → { turns: [{ speaker, start, end }], embeddings?: { [speaker]: number[] } }
+ * - GET {baseUrl}/health → 200 when ready
+ */
+export class HttpDiarizationProvider implements DiarizationProvider {
+    readonly name = 'http';
+    private readonly baseUrl: string;
+
+    constructor(baseUrl: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+    }
+
+    async diarize(audio: Blob, options: DiarizeOptions = {}): Promise<DiarizationResult> {
+        const formData = new FormData();
+        formData.append('file', audio, options.filename || 'recording.wav');
+        if (options.minSpeakers) formData.append('min_speakers', String(options.minSpeakers));
+        if (options.maxSpeakers) formData.append('max_speakers', String(options.maxSpeakers));
+
+        const response = await fetch(`${this.baseUrl}/diarize`, {
+            method: 'POST',
+            body: formData,
+        });
+
+        if (!response.ok) {
+            throw new Error(`Diarization service error: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        const turns: SpeakerTurn[] = Array.isArray(data.turns)
+            ? data.turns
+                .filter((t: SpeakerTurn) => t && typeof t.speaker === 'string')
+                .map((t: SpeakerTurn) => ({
+                    speaker: t.speaker,
+                    start: Number(t.start) || 0,
+                    end: Number(t.end) || 0,
+                }))
+            : [];
+
+        return {
+            turns,
+            embeddings: data.embeddings && typeof data.embeddings === 'object' ? data.embeddings : undefined,
+        };
+    }
+
+    async checkHealth(): Promise<DiarizationHealth> {
+        try {
+            const response = await fetch(`${this.baseUrl}/health`, {
+                signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS),
+            });
+            return response.ok
+                ? { reachable: true, details: this.baseUrl }
+                : { reachable: false, details: `HTTP ${response.status} from ${this.baseUrl}` };
+        } catch (error) {
+            return {
+                reachable: false,
+                details: `${this.baseUrl}: ${error instanceof Error ? error.message : String(error)}`,
+            };
+        }
+    }
+}
@@ -0,0 +1,36 @@
+import { HttpDiarizationProvider } from './httpDiarizationProvider';
+import { LocalStandInDiarizationProvider } from './localStandInProvider';
+import type { DiarizationProvider } from './types';
+
+/**
+ * Diarization provider selection (environment variables):
+ * - DIARIZATION_PROVIDER: 'none' (default, local stand-in) | 'http'
+ * - DIARIZATION_URL: base URL of the diarization service (default http://localhost:8090)
+ * - DIARIZATION_MAX_SPEAKERS: upper bound of speakers per recording (default 6)
+ */
+export const DIARIZATION_MAX_SPEAKERS = parseInt(process.env.DIARIZATION_MAX_SPEAKERS || '6', 10);
+
+// Lazy initialization to avoid build-time errors when env vars are not set
+let _provider: DiarizationProvider | null = null;
+
+export function createDiarizationProvider(
+    name: string = process.env.DIARIZATION_PROVIDER || 'none'
+): DiarizationProvider {
+    switch (name) {
+        case 'none':
+            return new LocalStandInDiarizationProvider();
+        case 'http':
+            return new HttpDiarizationProvider(process.env.DIARIZATION_URL || 'http://localhost:8090');
+        default:
+            throw new Error(`Unknown DIARIZATION_PROVIDER "${name}" (expected 'none' or 'http')`);
+    }
+}
+
+export function getDiarizationProvider(): DiarizationProvider {
+    if (!_provider) {
+        _provider = createDiarizationProvider();
+    }
+    return _provider;
+}
+
+export type { DiarizationProvider, DiarizationResult, SpeakerTurn } from './types';
@@ -0,0 +1,119 @@
+import type { DiarizationProvider, DiarizationResult, DiarizationHealth, SpeakerTurn } from './types';
+
+// Energy voice activity detection
+const FRAME_SECONDS = 0.03;
+const SPEECH_TO_NOISE_RATIO = 3;     // Frame RMS above the noise floor (10th percentile) times this is speech
+const MIN_SPEECH_RMS = 0.005;        // Silence in a quiet room is not speech however low the floor
+const TURN_PAUSE_SECONDS = 0.7;      // A pause this long ends a turn
+const MIN_TURN_SECONDS = 0.3;
+
+interface PcmAudio {
+    sampleRate: number;
+    samples: Float32Array;           // Mono, -1..1
+}
+
+/**
+ * Mono samples of a PCM WAV file (16-bit integer or 32-bit float), null for any other format
+ * Browsers record webm / mp4, which cannot be decoded here without ffmpeg
+ */
+function decodeWav(buffer: ArrayBuffer): PcmAudio | null {
+    const view = new DataView(buffer);
+    if (buffer.byteLength < 12 || view.getUint32(0, false) !== 0x52494646 || view.getUint32(8, false) !== 0x57415645) {
+        return null; // Not "RIFF....WAVE"
+    }
+
+    let format = 0;
+    let channels = 0;
+    let sampleRate = 0;
+    let bitsPerSample = 0;
+    let offset = 12;
+    while (offset + 8 <= buffer.byteLength) {
+        const id = view.getUint32(offset, false);
+        const size = view.getUint32(offset + 4, true);
+        const body = offset + 8;
+
+        if (id === 0x666d7420) { // "fmt "
+            format = view.getUint16(body, true);
+            channels = view.getUint16(body + 2, true);
+            sampleRate = view.getUint32(body + 4, true);
+            bitsPerSample = view.getUint16(body + 14, true);
+            if (format === 0xfffe && size >= 26) format = view.getUint16(body + 24, true); // WAVE_FORMAT_EXTENSIBLE
+        } else if (id === 0x64617461) { // "data"
+            const pcm = format === 1 && bitsPerSample === 16;
+            const float = format === 3 && bitsPerSample === 32;
+            if ((!pcm && !float) || channels === 0 || sampleRate === 0) return null;
+
+            const bytesPerFrame = channels * bitsPerSample / 8;
+            const frames = Math.floor(Math.min(size, buffer.byteLength - body) / bytesPerFrame);
+            const samples = new Float32Array(frames);
+            for (let i = 0; i < frames; i++) {
+                let sum = 0;
+                for (let c = 0; c < channels; c++) {
+                    const position = body + i * bytesPerFrame + c * bitsPerSample / 8;
+                    sum += pcm ? view.getInt16(position, true) / 32768 : view.getFloat32(position, true);
+                }
+                samples[i] = sum / channels;
+            }
+            return { sampleRate, samples };
+        }
+        offset = body + size + (size % 2);
+    }
+    return null;
+}
+
+/**
+ * Speech turns separated by pauses - one cluster label per turn, since energy says nothing about who speaks
+ */
+function detectSpeechTurns({ sampleRate, samples }: PcmAudio): SpeakerTurn[] {
+    const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+    const energies: number[] = [];
+    for (let start = 0; start + frameSize <= samples.length; start += frameSize) {
+        let sum = 0;
+        for (let i = start; i < start + frameSize; i++) sum += samples[i] * samples[i];
+        energies.push(Math.sqrt(sum / frameSize));
+    }
+    if (energies.length === 0) return [];
+
+    const noiseFloor = [...energies].sort((a, b) => a - b)[Math.floor(energies.length * 0.1)];
+    const threshold = Math.max(noiseFloor * SPEECH_TO_NOISE_RATIO, MIN_SPEECH_RMS);
+    const frameSeconds = frameSize / sampleRate;
+
+    const regions: { start: number; end: number }[] = [];
+    energies.forEach((energy, i) => {
+        if (energy < threshold) return;
+        const start = i * frameSeconds;
+        const last = regions[regions.length - 1];
+        if (last && start - last.end < TURN_PAUSE_SECONDS) {
+            last.end = start + frameSeconds;
+        } else {
+            regions.push({ start, end: start + frameSeconds });
+        }
+    });
+
+    return regions
+        .filter(region => region.end - region.start >= MIN_TURN_SECONDS)
+        .map((region, i) => ({
+            speaker: `TURN_${i.toString().padStart(2, '0')}`,
+            start: Number(region.start.toFixed(2)),
+            end: Number(region.end.toFixed(2)),
+        }));
+}
+
+/**
+ * Local stand-in used when no diarization service is deployed (dev, CI)
+ * No voice clustering: PCM WAV audio is split into speech turns at pauses (energy VAD) and each turn is
+ * its own cluster, which the pipeline labels by content and matches to the known speakers by role.
+ * Other formats (webm / mp4 from the browser) give no turns - the pipeline then detects roles per segment
+ */
+export class LocalStandInDiarizationProvider implements DiarizationProvider {
+    readonly name = 'none';
+
+    async diarize(audio: Blob): Promise<DiarizationResult> {
+        const pcm = decodeWav(await audio.arrayBuffer());
+        return { turns: pcm ? detectSpeechTurns(pcm) : [] };
+    }
+
+    async checkHealth(): Promise<DiarizationHealth> {
+        return { reachable: true, details: 'stand-in: pause-based turns for WAV audio, no voice clustering (set DIARIZATION_PROVIDER=http and DIARIZATION_URL) - speaker roles are inferred from content' };
+    }
+}
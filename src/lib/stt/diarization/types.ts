@@ -0,0 +1,32 @@
+/** One continuous speech turn of a speaker (seconds relative to the submitted audio) */
+export interface SpeakerTurn {
+    speaker: string; // Cluster label, only unique within one diarization call
+    start: number;
+    end: number;
+}
+
+export interface DiarizationResult {
+    turns: SpeakerTurn[];
+    embeddings?: Record<string, number[]>; // Voice embedding per cluster label - without it clusters are matched across chunks by role only
+}
+
+export interface DiarizeOptions {
+    filename?: string;
+    minSpeakers?: number;
+    maxSpeakers?: number;
+}
+
+export interface DiarizationHealth {
+    reachable: boolean;
+    details?: string;
+}
+
+/**
+ * Speaker diarization provider - groups speech by voice, not by content
+ */
+export interface DiarizationProvider {
+    readonly name: string;
+
+    diarize(audio: Blob, options?: DiarizeOptions): Promise<DiarizationResult>;
+    checkHealth(): Promise<DiarizationHealth>;
+}
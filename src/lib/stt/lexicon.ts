@@ -0,0 +1,70 @@
+/**
+ * Deterministic lexicon pass for STT output
+ * Chạy TRƯỚC medical fixer (LLM) - các lỗi nghe nhầm đã biết được sửa chắc chắn, không phụ thuộc LLM
+ */
+
+// Whisper chỉ dùng ~224 token cuối của prompt - giữ gợi ý ngắn
+const MAX_WHISPER_PROMPT_CHARS = 600;
+
+export interface LexiconCorrection {
+    misheard: string;
+    correct: string;
+}
+
+export interface Lexicon {
+    corrections: LexiconCorrection[];
+    terms: string[]; // Whitelist: tên thuốc / thuật ngữ viết đúng
+}
+
+export const EMPTY_LEXICON: Lexicon = { corrections: [], terms: [] };
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Thay thế các cụm từ nghe nhầm bằng cụm từ đúng
+ * Không phân biệt hoa thường, chỉ khớp nguyên từ (\b không hoạt động với chữ có dấu)
+ */
+export function applyLexicon(text: string, lexicon: Lexicon): string {
+    // Cụm dài trước để "đau thượng vịt" không bị "thượng vịt" thay mất một phần
+    const corrections = [...lexicon.corrections]
+        .filter(c => c.misheard.trim())
+        .sort((a, b) => b.misheard.length - a.misheard.length);
+
+    return corrections.reduce((result, { misheard, correct }) => {
+        const pattern = new RegExp(
+            `(?<![\\p{L}\\p{N}])${escapeRegExp(misheard.trim().normalize('NFC'))}(?![\\p{L}\\p{N}])`,
+            'giu'
+        );
+        // Dùng hàm: "$&", "$1"... trong cụm đúng được giữ nguyên, không bị hiểu là mẫu thay thế
+        return result.replace(pattern, () => correct);
+    }, text.normalize('NFC'));
+}
+
+/**
+ * Gợi ý từ vựng cho Whisper (tham số `prompt`) - giúp nhận diện đúng tên thuốc ngay từ đầu
+ */
+export function buildWhisperPrompt(lexicon: Lexicon): string | undefined {
+    const vocabulary = Array.from(new Set([
+        ...lexicon.terms,
+        ...lexicon.corrections.map(c => c.correct),
+    ].map(term => term.trim()).filter(Boolean)));
+
+    if (vocabulary.length === 0) return undefined;
+
+    let prompt = 'Hội thoại khám bệnh. Thuật ngữ:';
+    for (const term of vocabulary) {
+        if (prompt.length + term.length + 2 > MAX_WHISPER_PROMPT_CHARS) break;
+        prompt += ` ${term},`;
+    }
+    return prompt.replace(/,$/, '.');
+}
+
+/**
+ * Whitelisted terms present in a text (case-insensitive) - the LLM fixer must not touch them
+ */
+export function findWhitelistedTerms(text: string, lexicon: Lexicon): string[] {
+    const normalized = text.normalize('NFC').toLowerCase();
+    return lexicon.terms.filter(term => term.trim() && normalized.includes(term.trim().normalize('NFC').toLowerCase()));
+}
@@ -0,0 +1,138 @@
+import { groq, GROQ_MODEL_STANDARD } from '@/lib/agents/models';
+import { applyLexicon, findWhitelistedTerms, EMPTY_LEXICON, type Lexicon, type LexiconCorrection } from './lexicon';
+import { diffTokens, tokenize, type TokenDiff } from './tokenDiff';
+import type { CorrectionStatus, TextCorrection } from './types';
+
+// Tỷ lệ token tối đa được phép thay đổi trong một segment (so với raw_text)
+const MAX_CHANGED_TOKEN_RATIO = 0.4;
+// Số token tối đa được thêm/bớt (bản sửa chỉ được thay từ, không được thêm/xóa ý)
+const MAX_NET_TOKEN_DELTA = 2;
+const MAX_NET_TOKEN_DELTA_RATIO = 0.15;
+
+export interface MedicalFixResult {
+    clean_text: string;
+    correction_status: CorrectionStatus;
+    corrections: TextCorrection[];
+}
+
+/**
+ * Kiểm tra bản sửa có an toàn không: chỉ thay từ, không thêm/bớt nội dung quá ngưỡng
+ */
+function isSafeCorrection(original: string, diff: TokenDiff): boolean {
+    const tokenCount = Math.max(tokenize(original).length, 1);
+    const maxDelta = Math.max(MAX_NET_TOKEN_DELTA, Math.floor(tokenCount * MAX_NET_TOKEN_DELTA_RATIO));
+
+    return Math.abs(diff.netDelta) <= maxDelta
+        && diff.changedTokens / tokenCount <= MAX_CHANGED_TOKEN_RATIO;
+}
+
+// Ví dụ mặc định khi phòng khám chưa có từ điển riêng
+const DEFAULT_EXAMPLES: LexiconCorrection[] = [
+    { misheard: 'đau thượng vịt', correct: 'đau thượng vị' },
+    { misheard: 'bị sụp', correct: 'bị sốt' },
+    { misheard: 'ăn chích', correct: 'ăn kiêng' },
+    { misheard: 'tiêu chuẩn', correct: 'triệu chứng' },
+];
+// Số mục từ điển tối đa đưa vào prompt
+const MAX_PROMPT_EXAMPLES = 30;
+const MAX_PROMPT_TERMS = 60;
+
+/**
+ * Kết quả cuối cùng so với raw_text (gồm cả thay thế từ điển và bản sửa của LLM)
+ */
+function buildResult(raw: string, final: string, rejected: boolean): MedicalFixResult {
+    const diff = diffTokens(raw, final);
+    if (diff.corrections.length === 0) {
+        return { clean_text: raw, correction_status: rejected ? 'rejected' : 'unchanged', corrections: [] };
+    }
+    return {
+        clean_text: final.trim(),
+        correction_status: rejected ? 'rejected' : 'corrected',
+        corrections: diff.corrections,
+    };
+}
+
+/**
+ * Sửa lỗi thuật ngữ y khoa cho TẤT CẢ segments:
+ * 1. Thay thế chắc chắn theo từ điển của phòng khám (lexicon)
+ * 2. Một lần gọi Groq cho cả batch - CHỈ sửa lỗi chính tả, KHÔNG thêm nội dung mới
+ * Mỗi bản sửa của LLM được kiểm tra bằng token diff; bản sửa vượt ngưỡng hoặc động vào
+ * thuật ngữ trong whitelist bị loại và giữ nguyên văn bản sau bước 1
+ */
+export async function fixMedicalSegments(
+    texts: string[],
+    lexicon: Lexicon = EMPTY_LEXICON
+): Promise<MedicalFixResult[]> {
+    const prefixed = texts.map(text => applyLexicon(text, lexicon));
+    const indexed = prefixed
+        .map((text, index) => ({ index, text: text.trim() }))
+        .filter(item => item.text.length > 0);
+
+    if (indexed.length === 0) {
+        return texts.map((text, i) => buildResult(text, prefixed[i], false));
+    }
+
+    const examples = lexicon.corrections.length > 0
+        ? lexicon.corrections.slice(0, MAX_PROMPT_EXAMPLES)
+        : DEFAULT_EXAMPLES;
+    const termsText = lexicon.terms.length > 0
+        ? `\n7. Các thuật ngữ sau đã viết ĐÚNG, giữ nguyên: ${lexicon.terms.slice(0, MAX_PROMPT_TERMS).join(', ')}`
+        : '';
+
+    let fixedByIndex: Record<string, unknown> = {};
+    try {
+        console.log(` Fixing ${indexed.length} segment(s) in one request...`);
+
+        const completion = await groq.chat.completions.create({
+            messages: [
+                {
+                    role: "system",
+                    content: `Bạn là chuyên gia hiệu chỉnh văn bản y khoa tiếng Việt.
+NHIỆM VỤ: Chỉ sửa lỗi chính tả và phát âm sai trong các đoạn văn được chuyển từ giọng nói.
+
+QUY TẮC BẮT BUỘC:
+1. TUYỆT ĐỐI KHÔNG thêm nội dung mới
+2. TUYỆT ĐỐI KHÔNG xóa bớt nội dung
+3. TUYỆT ĐỐI KHÔNG viết lại câu
+4. Chỉ sửa lỗi phát âm thường gặp, ví dụ:
+${examples.map(e => `   - "${e.misheard}" → "${e.correct}"`).join('\n')}
+5. Giữ nguyên số từ và ý nghĩa gốc
+6. Mỗi đoạn được sửa ĐỘC LẬP, không gộp hay tách đoạn${termsText}
+
+ĐẦU VÀO: JSON array [{"index": 0, "text": "..."}, ...]
+ĐẦU RA: CHÍNH XÁC một JSON object ánh xạ index → đoạn văn đã sửa, KHÔNG giải thích thêm:
+{"0": "...", "1": "..."}`
+                },
+                { role: "user", content: JSON.stringify(indexed) }
+            ],
+            model: GROQ_MODEL_STANDARD,
+            temperature: 0.05,
+            response_format: { type: "json_object" }
+        });
+
+        fixedByIndex = JSON.parse(completion.choices[0]?.message?.content || '{}');
+    } catch (error) {
+        console.error('Medical fixer error:', error);
+        return texts.map((text, i) => buildResult(text, prefixed[i], false));
+    }
+
+    return texts.map((text, index) => {
+        const input = prefixed[index];
+        const fixed = fixedByIndex[String(index)];
+        if (typeof fixed !== 'string' || !fixed.trim()) return buildResult(text, input, false);
+
+        const diff = diffTokens(input, fixed);
+        if (diff.corrections.length === 0) return buildResult(text, input, false);
+
+        // Thuật ngữ trong whitelist có trong đoạn gốc phải còn nguyên sau khi sửa
+        const keptTerms = findWhitelistedTerms(fixed, lexicon);
+        const touchesWhitelist = findWhitelistedTerms(input, lexicon).some(term => !keptTerms.includes(term));
+
+        if (!isSafeCorrection(input, diff) || touchesWhitelist) {
+            console.warn(`   [${index}] Rejected correction (${diff.changedTokens} changed, delta ${diff.netDelta}): "${fixed.substring(0, 80)}"`);
+            return buildResult(text, input, true);
+        }
+
+        return buildResult(text, fixed, false);
+    });
+}
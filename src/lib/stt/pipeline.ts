@@ -0,0 +1,265 @@
+import { groq, GROQ_MODEL_STANDARD } from '@/lib/agents/models';
+import { getSttProvider } from './providers';
+import { getDiarizationProvider, DIARIZATION_MAX_SPEAKERS, type DiarizationResult } from './diarization';
+import { assignSegmentsToClusters, resolveSpeakerIds, mergeSpeakersByRole, mapSpeakersToRoles, roleSpeakerId } from './speakers';
+import { fixMedicalSegments } from './medicalFixer';
+import { buildWhisperPrompt } from './lexicon';
+import { getActiveLexicon } from '@/lib/services/lexiconService';
+import type { TranscriptSegment, ProcessedSegment, ContextSegment, SpeakerProfile } from './types';
+
+type RoleSegment = { speaker: string; role: string; raw_text: string; start: number; end: number };
+
+export interface SttPipelineOptions {
+    filename?: string;           // Tên file gửi lên STT provider
+    offset?: number;             // Độ lệch thời gian (giây) của chunk so với đầu buổi ghi âm
+    context?: ContextSegment[];  // Các câu trước đó (đã có vai trò) để giữ nhất quán giữa các chunk
+    speakers?: SpeakerProfile[]; // Người nói đã biết từ các chunk trước (ID ổn định + vai trò)
+}
+
+export interface SttPipelineResult {
+    segments: ProcessedSegment[];
+    raw_text: string;
+    speakers: SpeakerProfile[];
+}
+
+/**
+ * Chuyển transcription segments thành format chuẩn cho LLM role detection
+ */
+function prepareSegmentsForRoleDetection(
+    transcription: { text: string; segments: TranscriptSegment[] }
+): RoleSegment[] {
+
+    if (transcription.segments.length > 0) {
+        return transcription.segments.map(seg => ({
+            speaker: '',
+            role: 'Người nói', // Placeholder - LLM sẽ xác định role thực tế
+            raw_text: seg.text,
+            start: seg.start,
+            end: seg.end
+        }));
+    }
+
+    // Fallback nếu không có segments
+    if (transcription.text) {
+        return [{
+            speaker: '',
+            role: 'Người nói',
+            raw_text: transcription.text,
+            start: 0,
+            end: 0
+        }];
+    }
+
+    return [];
+}
+
+/**
+ * Sử dụng LLM để phân tích nội dung và xác định vai trò người nói
+ * Dựa vào ngữ cảnh của câu nói để đoán ai là Bác sĩ, ai là Bệnh nhân
+ */
+async function detectSpeakerRoleByContent(
+    segments: RoleSegment[],
+    context: ContextSegment[] = []
+): Promise<RoleSegment[]> {
+
+    if (segments.length === 0) return segments;
+
+    // Tạo prompt với tất cả segments
+    const conversationText = segments
+        .map((seg, i) => `[${i}] "${seg.raw_text.trim()}"`)
+        .join('\n');
+
+    // Ngữ cảnh từ các chunk trước (khi ghi âm theo từng đoạn)
+    const contextText = context.length > 0
+        ? `\nNGỮ CẢNH TRƯỚC ĐÓ (đã xác định vai trò, KHÔNG cần trả về):\n${context
+            .map(c => `- ${c.role}: "${c.text.trim()}"`)
+            .join('\n')}\n`
+        : '';
+
+    const prompt = `Bạn là chuyên gia phân tích hội thoại y khoa tiếng Việt.
+Dưới đây là transcript cuộc khám bệnh. Hãy xác định vai trò người nói cho từng đoạn.
+
+QUY TẮC XÁC ĐỊNH VAI TRÒ:
+- BÁC SĨ: Hỏi triệu chứng, hỏi bệnh sử, đưa ra chẩn đoán, kê đơn thuốc, hướng dẫn điều trị
+- BỆNH NHÂN: Mô tả triệu chứng ("tôi bị...", "tôi thấy..."), xưng "chào bác sĩ", trả lời câu hỏi về bản thân
+
+MANH MỐI QUAN TRỌNG:
+- Ai nói "Chào bác sĩ" → BỆNH NHÂN
+- Ai hỏi "bạn/anh/chị có triệu chứng gì?" → BÁC SĨ
+- Ai mô tả "tôi đau...", "tôi bị..." → BỆNH NHÂN
+- Ai hỏi "có sốt không?", "uống thuốc gì chưa?" → BÁC SĨ
+${contextText}
+HỘI THOẠI:
+${conversationText}
+
+Trả về CHÍNH XÁC định dạng JSON array sau, KHÔNG có text khác:
+[{"index": 0, "role": "Bác sĩ"}, {"index": 1, "role": "Bệnh nhân"}, ...]`;
+
+    try {
+        console.log(' Analyzing speaker roles with Groq...');
+
+        // Groq API call
+        const completion = await groq.chat.completions.create({
+            messages: [{ role: "user", content: prompt }],
+            model: GROQ_MODEL_STANDARD,
+            temperature: 0.1
+        });
+
+        const responseText = completion.choices[0]?.message?.content || '';
+        console.log('LLM response:', responseText.substring(0, 200));
+
+        // Start checking for JSON
+        const jsonMatch = responseText.match(/\[[\s\S]*\]/);
+        if (!jsonMatch) {
+            console.warn('LLM did not return valid JSON, keeping original roles');
+            return segments;
+        }
+
+        const roleAssignments: { index: number; role: string }[] = JSON.parse(jsonMatch[0]);
+
+        // Update segments với role mới từ LLM
+        const updatedSegments = segments.map((seg, i) => {
+            const assignment = roleAssignments.find(r => r.index === i);
+            if (assignment) {
+                console.log(`   [${i}] ${seg.role} → ${assignment.role}`);
+                return { ...seg, role: assignment.role };
+            }
+            return seg;
+        });
+
+        console.log('LLM role detection completed');
+        return updatedSegments;
+
+    } catch (error) {
+        console.error('LLM role detection error:', error);
+        // Fallback: keep original roles
+        return segments;
+    }
+}
+
+/**
+ * Gán người nói theo giọng (diarization) rồi ánh xạ từng cụm người nói sang vai trò lâm sàng
+ */
+async function labelSpeakersByVoice(
+    segments: RoleSegment[],
+    diarization: DiarizationResult,
+    knownSpeakers: SpeakerProfile[]
+): Promise<{ segments: RoleSegment[]; speakers: SpeakerProfile[] }> {
+    const assigned = assignSegmentsToClusters(segments, diarization.turns);
+    const clusters = Array.from(new Set(assigned.map(seg => seg.cluster)));
+    const { idByCluster, newSpeakers } = resolveSpeakerIds(clusters, diarization.embeddings, knownSpeakers);
+
+    const samplesById: Record<string, string[]> = {};
+    for (const seg of assigned) {
+        const id = idByCluster[seg.cluster];
+        (samplesById[id] ||= []).push(seg.raw_text);
+    }
+
+    const roles = await mapSpeakersToRoles(
+        Object.fromEntries(newSpeakers.map(s => [s.id, samplesById[s.id] || []])),
+        knownSpeakers.map(k => ({ id: k.id, role: k.role, samples: samplesById[k.id] || [] }))
+    );
+
+    // Clusters without a voice embedding are matched to the known speakers by role
+    const { idBySpeaker, added } = mergeSpeakersByRole(
+        newSpeakers.map(s => ({ ...s, role: roles[s.id] })),
+        knownSpeakers
+    );
+    console.log(` Diarization: ${clusters.length} cluster(s), ${added.length} new speaker(s)`);
+
+    const speakers = [...knownSpeakers, ...added];
+    const roleById = new Map(speakers.map(s => [s.id, s.role]));
+
+    return {
+        segments: assigned.map(({ cluster, ...seg }) => {
+            const speaker = idBySpeaker[idByCluster[cluster]] || idByCluster[cluster];
+            return { ...seg, speaker, role: roleById.get(speaker) || seg.role };
+        }),
+        speakers,
+    };
+}
+
+/**
+ * Fallback khi không có diarization: đoán vai trò theo nội dung từng câu,
+ * mỗi vai trò được coi là một cụm người nói
+ */
+async function labelSpeakersByContent(
+    segments: RoleSegment[],
+    context: ContextSegment[],
+    knownSpeakers: SpeakerProfile[]
+): Promise<{ segments: RoleSegment[]; speakers: SpeakerProfile[] }> {
+    const withRoles = await detectSpeakerRoleByContent(segments, context);
+    const speakers = [...knownSpeakers];
+
+    const labelled = withRoles.map(seg => {
+        const speaker = roleSpeakerId(seg.role);
+        let profile = speakers.find(s => s.id === speaker);
+        if (!profile) {
+            profile = { id: speaker, role: seg.role };
+            speakers.push(profile);
+        }
+        // Known cluster keeps its role (the doctor may have reassigned it)
+        return { ...seg, speaker, role: profile.role };
+    });
+
+    return { segments: labelled, speakers };
+}
+
+/**
+ * Chạy toàn bộ pipeline STT cho một file audio (cả buổi hoặc một chunk)
+ * Flow: Whisper STT + Diarization → Speaker Role Mapping → Medical Text Fixer
+ * Timestamps được cộng thêm `offset` để ghép nối giữa các chunk
+ */
+export async function runSttPipeline(
+    audio: Blob,
+    options: SttPipelineOptions = {}
+): Promise<SttPipelineResult> {
+    const { filename, offset = 0, context = [], speakers: knownSpeakers = [] } = options;
+
+    // Step 1: Whisper STT (có gợi ý từ vựng từ lexicon) + Diarization (song song) - Chuyển audio thành text, tách người nói theo giọng
+    const provider = getSttProvider();
+    const diarizer = getDiarizationProvider();
+    const lexicon = await getActiveLexicon();
+    console.log(` Running Whisper STT (${provider.name}/${provider.model}) + diarization (${diarizer.name})...`);
+    const [transcription, diarization] = await Promise.all([
+        provider.transcribe(audio, { filename, prompt: buildWhisperPrompt(lexicon) }),
+        diarizer
+            .diarize(audio, { filename, maxSpeakers: DIARIZATION_MAX_SPEAKERS })
+            .catch((error): DiarizationResult => {
+                console.error('Diarization error, falling back to content-based roles:', error);
+                return { turns: [] };
+            }),
+    ]);
+    console.log(` Transcription: ${transcription.text.substring(0, 100)}...`);
+    console.log(` Segments count: ${transcription.segments.length}`);
+
+    // Nếu không có text, trả về empty
+    if (!transcription.text || transcription.text.trim().length === 0) {
+        return { segments: [], raw_text: '', speakers: knownSpeakers };
+    }
+
+    // Step 2: Prepare segments for role detection
+    const preparedSegments = prepareSegmentsForRoleDetection(transcription);
+    console.log(` Prepared segments: ${preparedSegments.length}`);
+
+    // Step 3: Speaker labelling - cụm theo giọng nếu có diarization, nếu không thì đoán theo nội dung
+    const labelled = diarization.turns.length > 0
+        ? await labelSpeakersByVoice(preparedSegments, diarization, knownSpeakers)
+        : await labelSpeakersByContent(preparedSegments, context, knownSpeakers);
+
+    // Step 4: Lexicon + Medical Text Fixer - Sửa lỗi thuật ngữ y khoa (một request cho cả chunk)
+    console.log(' Running Medical Text Fixer...');
+    const fixes = await fixMedicalSegments(labelled.segments.map(seg => seg.raw_text), lexicon);
+    const processedSegments: ProcessedSegment[] = labelled.segments.map((seg, i) => ({
+        ...seg,
+        start: seg.start + offset,
+        end: seg.end + offset,
+        ...fixes[i]
+    }));
+
+    return {
+        segments: processedSegments,
+        raw_text: transcription.text,
+        speakers: labelled.speakers
+    };
+}
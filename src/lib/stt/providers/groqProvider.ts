@@ -0,0 +1,75 @@
+import type { SttProvider, SttTranscribeOptions, SttTranscription, SttHealth } from './types';
+
+const GROQ_API_BASE = 'https://api.groq.com/openai/v1';
+const HEALTH_TIMEOUT_MS = 3000;
+
+/**
+ * Groq Whisper (cloud) - audio được gửi ra ngoài bệnh viện
+ */
+export class GroqSttProvider implements SttProvider {
+    readonly name = 'groq';
+    readonly model: string;
+
+    constructor(model: string = process.env.GROQ_STT_MODEL || 'whisper-large-v3') {
+        this.model = model;
+    }
+
+    async transcribe(audio: Blob, options: SttTranscribeOptions = {}): Promise<SttTranscription> {
+        const groqFormData = new FormData();
+        groqFormData.append('file', audio, options.filename || 'recording.wav');
+        groqFormData.append('model', this.model);
+        groqFormData.append('language', options.language || 'vi');
+        groqFormData.append('response_format', 'verbose_json');
+        if (options.prompt) {
+            groqFormData.append('prompt', options.prompt);
+        }
+        if (options.wordTimestamps) {
+            groqFormData.append('timestamp_granularities[]', 'segment');
+            groqFormData.append('timestamp_granularities[]', 'word');
+        }
+
+        const response = await fetch(`${GROQ_API_BASE}/audio/transcriptions`, {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${process.env.GROQ_API_KEY}` },
+            body: groqFormData,
+        });
+
+        if (!response.ok) {
+            throw new Error(`Groq API error: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+
+        return {
+            text: data.text || '',
+            segments: data.segments || [],
+            words: data.words,
+        };
+    }
+
+    supportsSegments(): boolean {
+        return true;
+    }
+
+    supportsWordTimestamps(): boolean {
+        return true;
+    }
+
+    async checkHealth(): Promise<SttHealth> {
+        if (!process.env.GROQ_API_KEY) {
+            return { reachable: false, details: 'missing_key' };
+        }
+
+        try {
+            const response = await fetch(`${GROQ_API_BASE}/models`, {
+                headers: { 'Authorization': `Bearer ${process.env.GROQ_API_KEY}` },
+                signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS),
+            });
+            return response.ok
+                ? { reachable: true }
+                : { reachable: false, details: `HTTP ${response.status}` };
+        } catch (error) {
+            return { reachable: false, details: error instanceof Error ? error.message : String(error) };
+        }
+    }
+}
@@ -0,0 +1,41 @@
+import { GroqSttProvider } from './groqProvider';
+import { LocalWhisperSttProvider, type LocalWhisperApiStyle } from './localWhisperProvider';
+import type { SttProvider } from './types';
+
+/**
+ * STT provider selection (environment variables):
+ * - STT_PROVIDER: 'groq' (default) | 'local'
+ * - GROQ_STT_MODEL: Groq Whisper model (default whisper-large-v3)
+ * - LOCAL_WHISPER_URL: base URL of the local server (default http://localhost:8080)
+ * - LOCAL_WHISPER_API_STYLE: 'openai' (default, faster-whisper) | 'whisper.cpp'
+ * - LOCAL_WHISPER_MODEL: model name sent to OpenAI-style servers (default large-v3)
+ */
+
+// Lazy initialization to avoid build-time errors when env vars are not set
+let _provider: SttProvider | null = null;
+
+export function createSttProvider(name: string = process.env.STT_PROVIDER || 'groq'): SttProvider {
+    switch (name) {
+        case 'groq':
+            return new GroqSttProvider();
+        case 'local':
+            return new LocalWhisperSttProvider({
+                baseUrl: process.env.LOCAL_WHISPER_URL || 'http://localhost:8080',
+                apiStyle: (process.env.LOCAL_WHISPER_API_STYLE as LocalWhisperApiStyle) === 'whisper.cpp'
+                    ? 'whisper.cpp'
+                    : 'openai',
+                model: process.env.LOCAL_WHISPER_MODEL || 'large-v3',
+            });
+        default:
+            throw new Error(`Unknown STT_PROVIDER "${name}" (expected 'groq' or 'local')`);
+    }
+}
+
+export function getSttProvider(): SttProvider {
+    if (!_provider) {
+        _provider = createSttProvider();
+    }
+    return _provider;
+}
+
+export type { SttProvider, SttTranscribeOptions, SttTranscription, SttHealth } from './types';
@@ -0,0 +1,106 @@
+import type { TranscriptSegment } from '../types';
+import type { SttProvider, SttTranscribeOptions, SttTranscription, SttHealth } from './types';
+
+const HEALTH_TIMEOUT_MS = 3000;
+
+/**
+ * API style of the local server:
+ * - 'openai': OpenAI-compatible server (faster-whisper-server, speaches...) - POST /v1/audio/transcriptions
+ * - 'whisper.cpp': whisper.cpp `server` example - POST /inference
+ */
+export type LocalWhisperApiStyle = 'openai' | 'whisper.cpp';
+
+export interface LocalWhisperConfig {
+    baseUrl: string;
+    apiStyle: LocalWhisperApiStyle;
+    model: string;
+}
+
+/**
+ * Whisper chạy nội bộ qua HTTP (whisper.cpp / faster-whisper)
+ * Audio bệnh nhân không rời khỏi hạ tầng của bệnh viện
+ */
+export class LocalWhisperSttProvider implements SttProvider {
+    readonly name = 'local-whisper';
+    readonly model: string;
+    private readonly baseUrl: string;
+    private readonly apiStyle: LocalWhisperApiStyle;
+
+    constructor(config: LocalWhisperConfig) {
+        this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+        this.apiStyle = config.apiStyle;
+        this.model = config.model;
+    }
+
+    async transcribe(audio: Blob, options: SttTranscribeOptions = {}): Promise<SttTranscription> {
+        const formData = new FormData();
+        formData.append('file', audio, options.filename || 'recording.wav');
+        formData.append('language', options.language || 'vi');
+        formData.append('response_format', 'verbose_json');
+        if (options.prompt) {
+            formData.append('prompt', options.prompt);
+        }
+
+        if (this.apiStyle === 'openai') {
+            formData.append('model', this.model);
+            if (options.wordTimestamps) {
+                formData.append('timestamp_granularities[]', 'segment');
+                formData.append('timestamp_granularities[]', 'word');
+            }
+        } else {
+            formData.append('temperature', '0.0');
+        }
+
+        const endpoint = this.apiStyle === 'openai' ? '/v1/audio/transcriptions' : '/inference';
+        const response = await fetch(`${this.baseUrl}${endpoint}`, {
+            method: 'POST',
+            body: formData,
+        });
+
+        if (!response.ok) {
+            throw new Error(`Local Whisper error: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        const segments: TranscriptSegment[] = Array.isArray(data.segments)
+            ? data.segments.map((seg: { start: number; end: number; text: string }) => ({
+                start: Number(seg.start) || 0,
+                end: Number(seg.end) || 0,
+                text: seg.text || '',
+            }))
+            : [];
+
+        return {
+            text: data.text || segments.map(seg => seg.text).join(' '),
+            segments,
+            words: this.supportsWordTimestamps() ? data.words : undefined,
+        };
+    }
+
+    supportsSegments(): boolean {
+        return true;
+    }
+
+    supportsWordTimestamps(): boolean {
+        // whisper.cpp server không trả word timestamps ở verbose_json
+        return this.apiStyle === 'openai';
+    }
+
+    async checkHealth(): Promise<SttHealth> {
+        const healthPath = this.apiStyle === 'openai' ? '/health' : '/';
+
+        try {
+            const response = await fetch(`${this.baseUrl}${healthPath}`, {
+                signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS),
+            });
+            return response.ok
+                ? { reachable: true, details: this.baseUrl }
+                : { reachable: false, details: `HTTP ${response.status} from ${this.baseUrl}` };
+        } catch (error) {
+            return {
+                reachable: false,
+                details: `${this.baseUrl}: ${error instanceof Error ? error.message : String(error)}`,
+            };
+        }
+    }
+}
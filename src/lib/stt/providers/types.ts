@@ -0,0 +1,33 @@
+import type { TranscriptSegment, WordTimestamp } from '../types';
+
+export interface SttTranscribeOptions {
+    filename?: string;        // Tên file gửi lên provider (định dạng được suy ra từ đuôi file)
+    language?: string;        // Mặc định 'vi'
+    prompt?: string;          // Gợi ý từ vựng cho Whisper
+    wordTimestamps?: boolean; // Yêu cầu timestamp từng từ (nếu provider hỗ trợ)
+}
+
+export interface SttTranscription {
+    text: string;
+    segments: TranscriptSegment[];
+    words?: WordTimestamp[];
+}
+
+export interface SttHealth {
+    reachable: boolean;
+    details?: string;
+}
+
+/**
+ * Speech-to-Text provider
+ * Mỗi backend (Groq cloud, Whisper chạy nội bộ...) implement interface này
+ */
+export interface SttProvider {
+    readonly name: string;
+    readonly model: string;
+
+    transcribe(audio: Blob, options?: SttTranscribeOptions): Promise<SttTranscription>;
+    supportsSegments(): boolean;
+    supportsWordTimestamps(): boolean;
+    checkHealth(): Promise<SttHealth>;
+}
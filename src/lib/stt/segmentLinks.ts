@@ -0,0 +1,112 @@
+import { tokenize } from './tokenDiff';
+import type { ProcessedSegment } from './types';
+import type { SoapStatement } from '../agents/state';
+
+/**
+ * Link SOAP sentences back to the transcript segments they were derived from
+ * Evidence reported by the scribe agent is used when the line is still the AI statement,
+ * otherwise (edited text, saved records) fall back to word overlap
+ */
+
+export interface SentenceLink {
+    sentence: string;
+    segmentIndices: number[];
+    quotes: string[];
+    supported?: boolean;  // Only set for scribe statements - false = possible hallucination
+    fromPatientRecord?: boolean;  // Pre-filled from the patient context (e.g. measured vitals)
+}
+
+// Từ nối / hư từ phổ biến - không mang nội dung lâm sàng
+const STOPWORDS = new Set([
+    'và', 'là', 'có', 'không', 'của', 'cho', 'với', 'thì', 'mà', 'được', 'bị', 'các', 'những',
+    'một', 'này', 'đó', 'ở', 'trong', 'khi', 'đã', 'đang', 'sẽ', 'cũng', 'rồi', 'nhé', 'ạ', 'à',
+    'bệnh', 'nhân', 'bác', 'sĩ', 'tôi', 'em', 'anh', 'chị', 'ông', 'bà', 'cháu',
+]);
+
+const MIN_OVERLAP = 2;
+const MIN_SCORE = 0.3;
+
+function contentWords(text: string): Set<string> {
+    return new Set(
+        tokenize(text)
+            .map(token => token.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{N}]/gu, ''))
+            .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    );
+}
+
+/**
+ * Tách một mục SOAP thành các câu / dòng (mỗi gạch đầu dòng là một câu)
+ */
+export function splitSentences(text: string): string[] {
+    return text
+        .split(/\n+|(?<=[.!?;])\s+/)
+        .map(sentence => sentence.trim())
+        .filter(sentence => contentWords(sentence).size > 0);
+}
+
+/**
+ * Segments sharing the most content words with the sentence, best match first
+ */
+export function findSourceSegments(
+    sentence: string,
+    segments: ProcessedSegment[],
+    maxResults = 3
+): number[] {
+    const words = contentWords(sentence);
+    if (words.size === 0) return [];
+
+    return segments
+        .map((seg, index) => {
+            const segWords = contentWords(seg.clean_text);
+            let overlap = 0;
+            for (const word of words) {
+                if (segWords.has(word)) overlap++;
+            }
+            return { index, overlap, score: overlap / Math.min(words.size, Math.max(segWords.size, 1)) };
+        })
+        .filter(match => match.overlap >= Math.min(MIN_OVERLAP, words.size) && match.score >= MIN_SCORE)
+        .sort((a, b) => b.score - a.score || b.overlap - a.overlap)
+        .slice(0, maxResults)
+        .map(match => match.index);
+}
+
+function normalizeLine(text: string): string {
+    return text.normalize('NFC').toLowerCase().replace(/^\s*(?:[-•*]|\d+\.)\s*/, '').replace(/\s+/g, ' ').trim();
+}
+
+function heuristicLink(sentence: string, segments: ProcessedSegment[]): SentenceLink {
+    return { sentence, segmentIndices: findSourceSegments(sentence, segments), quotes: [] };
+}
+
+/**
+ * Link every sentence of a SOAP section to its source segments
+ * With scribe statements the section is linked line by line (one statement per line)
+ */
+export function linkSentencesToSegments(
+    text: string,
+    segments: ProcessedSegment[],
+    statements: SoapStatement[] = []
+): SentenceLink[] {
+    if (statements.length === 0) {
+        return splitSentences(text).map(sentence => heuristicLink(sentence, segments));
+    }
+
+    const byText = new Map(statements.map(statement => [normalizeLine(statement.text), statement]));
+
+    return text
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .map(line => {
+            const statement = byText.get(normalizeLine(line));
+            if (!statement) return heuristicLink(line, segments);
+
+            return {
+                sentence: line,
+                segmentIndices: [...new Set(statement.evidence.map(e => e.segment))],
+                quotes: statement.evidence.map(e => e.quote).filter(Boolean),
+                supported: statement.supported,
+                fromPatientRecord: statement.source === 'patient_context',
+            };
+        });
+}
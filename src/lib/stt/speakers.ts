@@ -0,0 +1,221 @@
+import { groq, GROQ_MODEL_STANDARD } from '@/lib/agents/models';
+import type { SpeakerTurn } from './diarization';
+import { SPEAKER_ROLES, type SpeakerProfile } from './types';
+
+// Cosine similarity above which a new cluster is the same person as a known speaker
+const SPEAKER_MATCH_THRESHOLD = 0.75;
+// Utterances per speaker shown to the LLM when mapping clusters to roles
+const MAX_SAMPLES_PER_SPEAKER = 6;
+
+const UNKNOWN_ROLE = 'Người nói';
+
+function cosineSimilarity(vecA: number[], vecB: number[]): number {
+    if (vecA.length !== vecB.length) return 0;
+    const dotProduct = vecA.reduce((sum, a, i) => sum + a * vecB[i], 0);
+    const magnitudeA = Math.sqrt(vecA.reduce((sum, a) => sum + a * a, 0));
+    const magnitudeB = Math.sqrt(vecB.reduce((sum, b) => sum + b * b, 0));
+    if (magnitudeA === 0 || magnitudeB === 0) return 0;
+    return dotProduct / (magnitudeA * magnitudeB);
+}
+
+export function formatSpeakerId(index: number): string {
+    return `SPEAKER_${index.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Speaker ID used when no diarization is available and roles come from content analysis
+ * All utterances of one role form one pseudo-cluster
+ */
+export function roleSpeakerId(role: string): string {
+    return `role:${role}`;
+}
+
+export function normalizeRole(role: unknown): string {
+    return typeof role === 'string' && (SPEAKER_ROLES as readonly string[]).includes(role)
+        ? role
+        : UNKNOWN_ROLE;
+}
+
+/**
+ * Gán mỗi segment Whisper cho cụm người nói có thời gian chồng lấn lớn nhất
+ * Nếu không chồng lấn, chọn turn gần nhất theo thời gian
+ */
+export function assignSegmentsToClusters<T extends { start: number; end: number }>(
+    segments: T[],
+    turns: SpeakerTurn[]
+): (T & { cluster: string })[] {
+    return segments.map(seg => {
+        const overlapBySpeaker = new Map<string, number>();
+        for (const turn of turns) {
+            const overlap = Math.min(seg.end, turn.end) - Math.max(seg.start, turn.start);
+            if (overlap > 0) {
+                overlapBySpeaker.set(turn.speaker, (overlapBySpeaker.get(turn.speaker) || 0) + overlap);
+            }
+        }
+
+        let cluster = '';
+        let best = 0;
+        overlapBySpeaker.forEach((overlap, speaker) => {
+            if (overlap > best) {
+                best = overlap;
+                cluster = speaker;
+            }
+        });
+
+        if (!cluster) {
+            const mid = (seg.start + seg.end) / 2;
+            let nearest = Infinity;
+            for (const turn of turns) {
+                const distance = Math.min(Math.abs(turn.start - mid), Math.abs(turn.end - mid));
+                if (distance < nearest) {
+                    nearest = distance;
+                    cluster = turn.speaker;
+                }
+            }
+        }
+
+        return { ...seg, cluster };
+    });
+}
+
+/**
+ * Map cluster labels of this diarization call to stable speaker IDs
+ * Clusters whose voice embedding matches a known speaker reuse its ID (and role);
+ * the others get new IDs after the known ones (clusters without an embedding are matched later by mergeSpeakersByRole)
+ */
+export function resolveSpeakerIds(
+    clusters: string[],
+    embeddings: Record<string, number[]> | undefined,
+    knownSpeakers: SpeakerProfile[]
+): { idByCluster: Record<string, string>; newSpeakers: SpeakerProfile[] } {
+    const idByCluster: Record<string, string> = {};
+    const newSpeakers: SpeakerProfile[] = [];
+    const claimed = new Set<string>();
+    let nextIndex = knownSpeakers.length;
+
+    for (const cluster of clusters) {
+        const embedding = embeddings?.[cluster];
+
+        let match: SpeakerProfile | null = null;
+        if (embedding) {
+            let bestScore = SPEAKER_MATCH_THRESHOLD;
+            for (const known of knownSpeakers) {
+                if (!known.embedding || claimed.has(known.id)) continue;
+                const score = cosineSimilarity(embedding, known.embedding);
+                if (score >= bestScore) {
+                    bestScore = score;
+                    match = known;
+                }
+            }
+        }
+
+        if (match) {
+            claimed.add(match.id);
+            idByCluster[cluster] = match.id;
+        } else {
+            const id = formatSpeakerId(nextIndex++);
+            idByCluster[cluster] = id;
+            newSpeakers.push({ id, role: UNKNOWN_ROLE, embedding });
+        }
+    }
+
+    return { idByCluster, newSpeakers };
+}
+
+/**
+ * Without a voice embedding a new cluster cannot be told apart from the known speakers by voice
+ * (stand-in diarization, services that return none): it is taken as the known speaker - or the earlier
+ * new cluster of this call - with the same role, so every chunk does not add new speakers
+ * New speakers are given their roles; returns the final ID of each and the speakers actually added
+ */
+export function mergeSpeakersByRole(
+    newSpeakers: SpeakerProfile[],
+    knownSpeakers: SpeakerProfile[]
+): { idBySpeaker: Record<string, string>; added: SpeakerProfile[] } {
+    const idBySpeaker: Record<string, string> = {};
+    const added: SpeakerProfile[] = [];
+    const usedIds = new Set(knownSpeakers.map(s => s.id));
+    const idByRole = new Map<string, string>();
+    for (const known of knownSpeakers) {
+        if (!idByRole.has(known.role)) idByRole.set(known.role, known.id);
+    }
+
+    let nextIndex = knownSpeakers.length;
+    for (const speaker of newSpeakers) {
+        const sameRole = speaker.embedding ? undefined : idByRole.get(speaker.role);
+        if (sameRole) {
+            idBySpeaker[speaker.id] = sameRole;
+            continue;
+        }
+
+        while (usedIds.has(formatSpeakerId(nextIndex))) nextIndex++;
+        const id = formatSpeakerId(nextIndex++);
+        usedIds.add(id);
+        idBySpeaker[speaker.id] = id;
+        added.push({ ...speaker, id });
+        if (!idByRole.has(speaker.role)) idByRole.set(speaker.role, id);
+    }
+
+    return { idBySpeaker, added };
+}
+
+/**
+ * Sử dụng LLM để gán vai trò lâm sàng cho từng cụm người nói (không phải từng câu)
+ * Chỉ những cụm mới được gửi lên; cụm đã biết giữ nguyên vai trò (kể cả khi bác sĩ đã sửa tay)
+ */
+export async function mapSpeakersToRoles(
+    utterancesBySpeaker: Record<string, string[]>,
+    knownSpeakers: { id: string; role: string; samples: string[] }[] = []
+): Promise<Record<string, string>> {
+    const speakerIds = Object.keys(utterancesBySpeaker);
+    if (speakerIds.length === 0) return {};
+
+    const describe = (id: string, samples: string[]) =>
+        `${id}:\n${samples.slice(0, MAX_SAMPLES_PER_SPEAKER).map(s => `  - "${s.trim()}"`).join('\n')}`;
+
+    const knownText = knownSpeakers.length > 0
+        ? `\nNGƯỜI NÓI ĐÃ XÁC ĐỊNH (KHÔNG cần trả về):\n${knownSpeakers
+            .map(k => `${k.id} = ${k.role}${k.samples.length ? `\n${k.samples.slice(0, 2).map(s => `  - "${s.trim()}"`).join('\n')}` : ''}`)
+            .join('\n')}\n`
+        : '';
+
+    const prompt = `Bạn là chuyên gia phân tích hội thoại y khoa tiếng Việt.
+Hệ thống đã tách giọng nói thành các cụm theo giọng (mỗi cụm là MỘT người). Hãy xác định vai trò của từng cụm.
+
+VAI TRÒ HỢP LỆ: ${SPEAKER_ROLES.join(', ')}
+- Bác sĩ: hỏi bệnh, khám, chẩn đoán, kê đơn
+- Bệnh nhân: kể triệu chứng của bản thân ("tôi bị...")
+- Người nhà: kể về bệnh nhân ở ngôi thứ ba ("cháu nó...", "mẹ tôi...")
+- Điều dưỡng: đo sinh hiệu, hướng dẫn thủ tục
+- Phiên dịch: dịch lại lời của người khác
+- Người nói: không đủ thông tin
+Có thể có nhiều cụm cùng vai trò (VD: hai người nhà).
+${knownText}
+CÁC CỤM CẦN XÁC ĐỊNH:
+${speakerIds.map(id => describe(id, utterancesBySpeaker[id])).join('\n')}
+
+Trả về CHÍNH XÁC một JSON object, KHÔNG có text khác:
+{"${speakerIds[0]}": "Bác sĩ", ...}`;
+
+    try {
+        console.log(` Mapping ${speakerIds.length} speaker cluster(s) to roles with Groq...`);
+
+        const completion = await groq.chat.completions.create({
+            messages: [{ role: "user", content: prompt }],
+            model: GROQ_MODEL_STANDARD,
+            temperature: 0.1,
+            response_format: { type: "json_object" }
+        });
+
+        const parsed = JSON.parse(completion.choices[0]?.message?.content || '{}');
+        const roles: Record<string, string> = {};
+        for (const id of speakerIds) {
+            roles[id] = normalizeRole(parsed[id]);
+        }
+        return roles;
+    } catch (error) {
+        console.error('Speaker role mapping error:', error);
+        // Fallback: leave clusters unlabelled - doctor can assign them in the UI
+        return Object.fromEntries(speakerIds.map(id => [id, UNKNOWN_ROLE]));
+    }
+}
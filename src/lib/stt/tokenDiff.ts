@@ -0,0 +1,80 @@
+import type { TextCorrection } from './types';
+
+/**
+ * Token-level diff used to verify and highlight transcript corrections
+ * Pure functions - shared by the server fixer and the transcript view
+ */
+
+export interface TokenDiff {
+    corrections: TextCorrection[];
+    changedTokens: number;  // Số token gốc bị thay/xóa hoặc token mới được thêm (lấy giá trị lớn hơn)
+    netDelta: number;       // Chênh lệch số token (mới - gốc)
+}
+
+export function tokenize(text: string): string[] {
+    return text.trim().split(/\s+/).filter(Boolean);
+}
+
+function normalizeToken(token: string): string {
+    return token.normalize('NFC').toLowerCase().replace(/[.,!?;:"'()]/g, '');
+}
+
+/**
+ * Token-level diff (LCS) giữa raw_text và bản sửa
+ * Mỗi cụm token liên tiếp khác nhau thành một TextCorrection
+ */
+export function diffTokens(original: string, corrected: string): TokenDiff {
+    const a = tokenize(original);
+    const b = tokenize(corrected);
+    const na = a.map(normalizeToken);
+    const nb = b.map(normalizeToken);
+
+    // lcs[i][j] = độ dài LCS của a[i..] và b[j..]
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = na[i] === nb[j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const corrections: TextCorrection[] = [];
+    let removed = 0;
+    let added = 0;
+    let hunk: { from: string[]; to: string[]; tokenIndex: number } | null = null;
+
+    const closeHunk = () => {
+        if (hunk) {
+            corrections.push({ from: hunk.from.join(' '), to: hunk.to.join(' '), tokenIndex: hunk.tokenIndex });
+            hunk = null;
+        }
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && na[i] === nb[j]) {
+            closeHunk();
+            i++;
+            j++;
+            continue;
+        }
+
+        hunk ||= { from: [], to: [], tokenIndex: j };
+        if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+            hunk.to.push(b[j++]);
+            added++;
+        } else {
+            hunk.from.push(a[i++]);
+            removed++;
+        }
+    }
+    closeHunk();
+
+    return {
+        corrections,
+        changedTokens: Math.max(added, removed),
+        netDelta: b.length - a.length,
+    };
+}
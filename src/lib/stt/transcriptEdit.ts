@@ -0,0 +1,70 @@
+import { diffTokens, tokenize } from './tokenDiff';
+import type { ProcessedSegment } from './types';
+
+/**
+ * Manual transcript edits made by the doctor after STT
+ * raw_text is never rewritten - it stays the audit trail of what Whisper actually heard
+ */
+
+/**
+ * Replace the text of a segment, recomputing the highlighted corrections against raw_text
+ */
+export function withCleanText(seg: ProcessedSegment, clean_text: string): ProcessedSegment {
+    const diff = diffTokens(seg.raw_text, clean_text);
+    return {
+        ...seg,
+        clean_text,
+        edited: true,
+        correction_status: diff.corrections.length > 0 ? 'corrected' : 'unchanged',
+        corrections: diff.corrections,
+    };
+}
+
+/**
+ * Gộp hai segment liên tiếp (giữ người nói / vai trò của segment đầu)
+ */
+export function mergeSegments(first: ProcessedSegment, second: ProcessedSegment): ProcessedSegment {
+    const merged: ProcessedSegment = {
+        ...first,
+        start: Math.min(first.start, second.start),
+        end: Math.max(first.end, second.end),
+        raw_text: `${first.raw_text.trim()} ${second.raw_text.trim()}`.trim(),
+    };
+    return withCleanText(merged, `${first.clean_text.trim()} ${second.clean_text.trim()}`.trim());
+}
+
+/**
+ * Tách một segment tại vị trí ký tự `position` của clean_text
+ * raw_text và thời gian được chia theo tỷ lệ số từ / số ký tự
+ * Trả về null nếu một trong hai phần rỗng
+ */
+export function splitSegment(
+    seg: ProcessedSegment,
+    position: number
+): [ProcessedSegment, ProcessedSegment] | null {
+    const before = seg.clean_text.slice(0, position).trim();
+    const after = seg.clean_text.slice(position).trim();
+    if (!before || !after) return null;
+
+    const cleanTokenCount = tokenize(seg.clean_text).length;
+    const rawTokens = tokenize(seg.raw_text);
+    const rawCut = Math.round(rawTokens.length * tokenize(before).length / Math.max(cleanTokenCount, 1));
+
+    const splitTime = seg.start + (seg.end - seg.start) * (before.length / (before.length + after.length));
+
+    return [
+        withCleanText({ ...seg, end: splitTime, raw_text: rawTokens.slice(0, rawCut).join(' ') }, before),
+        withCleanText({ ...seg, start: splitTime, raw_text: rawTokens.slice(rawCut).join(' ') }, after),
+    ];
+}
+
+/**
+ * Transcript gửi lại cho /api/analyze sau khi bác sĩ chỉnh sửa
+ * Mỗi dòng: "<Vai trò>: <nội dung đã hiệu chỉnh>"
+ */
+export function formatTranscriptForAnalysis(segments: ProcessedSegment[]): string {
+    return segments
+        .filter(seg => seg.clean_text.trim())
+        .map(seg => `${seg.role}: ${seg.clean_text.trim()}`)
+        .join('\n');
+}
@@ -0,0 +1,87 @@
+/**
+ * Shared Speech-to-Text types
+ * Used by the STT route handlers and the examination recorder UI
+ */
+
+/** Raw Whisper segment - start/end in seconds relative to the submitted audio */
+export interface TranscriptSegment {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * Clinical roles a speaker cluster can be mapped to
+ * 'Người nói' = chưa xác định
+ */
+export const SPEAKER_ROLES = ['Bác sĩ', 'Bệnh nhân', 'Người nhà', 'Điều dưỡng', 'Phiên dịch', 'Người nói'] as const;
+export type SpeakerRole = typeof SPEAKER_ROLES[number];
+
+/** A speaker cluster with a stable ID across the whole recording */
+export interface SpeakerProfile {
+    id: string;            // SPEAKER_00, SPEAKER_01...
+    role: string;          // Clinical role of the whole cluster
+    embedding?: number[];  // Voice embedding (used to match speakers across chunks)
+}
+
+/**
+ * One edit made by the medical text fixer
+ * tokenIndex = vị trí token (tách theo khoảng trắng) đầu tiên của `to` trong clean_text
+ */
+export interface TextCorrection {
+    from: string;
+    to: string;
+    tokenIndex: number;
+}
+
+/**
+ * unchanged: không có gì thay đổi
+ * corrected: đã áp dụng bản sửa (từ điển và/hoặc LLM)
+ * rejected: bản sửa của LLM thêm/bớt nội dung quá ngưỡng → chỉ giữ thay thế từ điển (lexicon)
+ */
+export type CorrectionStatus = 'unchanged' | 'corrected' | 'rejected';
+
+/** Segment after diarization / role detection + medical text fixer */
+export interface ProcessedSegment {
+    start: number;
+    end: number;
+    speaker: string;       // SpeakerProfile.id
+    role: string;
+    raw_text: string;
+    clean_text: string;
+    correction_status?: CorrectionStatus;
+    corrections?: TextCorrection[];
+    edited?: boolean;      // Bác sĩ đã chỉnh sửa thủ công (raw_text vẫn giữ nguyên để đối chiếu)
+}
+
+/** Previously transcribed utterance passed as context for role detection */
+export interface ContextSegment {
+    role: string;
+    text: string;
+}
+
+/** Response of POST /api/stt (whole recording) */
+export interface STTResponse {
+    success: boolean;
+    segments: ProcessedSegment[];
+    raw_text: string;
+    num_speakers: number;
+    speakers: SpeakerProfile[];
+}
+
+/** Response of POST /api/stt/stream (one audio chunk) */
+export interface STTChunkResponse {
+    success: boolean;
+    chunkIndex: number;
+    offset: number;
+    segments: ProcessedSegment[];
+    raw_text: string;
+    speakers: SpeakerProfile[];
+}
+
+/** Word-level timestamp (only from providers that support it) */
+export interface WordTimestamp {
+    word: string;
+    start: number;
+    end: number;
+}
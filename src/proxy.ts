@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hasPermission, isPublicPath, routePermission } from '@/lib/auth/permissions';
+import { authConfigError, SESSION_COOKIE, verifySessionToken } from '@/lib/auth/session';
+import { forbiddenResponse, unauthorizedResponse } from '@/lib/contracts/server';
+
+/**
+ * Access control for every page and API route (Next.js proxy, formerly middleware)
+ * - no session: API → 401, page → /login?next=...
+ * - role without the route permission (ROUTE_PERMISSIONS): API → 403, page → dashboard
+ */
+export function proxy(request: NextRequest) {
+    const { pathname, search } = request.nextUrl;
+    const isApi = pathname === '/api' || pathname.startsWith('/api/');
+
+    // Misconfigured server: say so instead of failing every request with a 500
+    const configError = authConfigError();
+    if (configError) {
+        console.error(`Authentication is not configured: ${configError}`);
+        return isApi
+            ? NextResponse.json(
+                { success: false, error: 'Service unavailable', message: 'Hệ thống chưa được cấu hình đăng nhập', details: configError },
+                { status: 503 }
+            )
+            : new NextResponse(`Hệ thống chưa được cấu hình đăng nhập: ${configError}`, { status: 503 });
+    }
+    const user = verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+    if (pathname === '/login' && user) {
+        return NextResponse.redirect(new URL('/dashboard', request.url));
+    }
+    if (isPublicPath(pathname)) {
+        return NextResponse.next();
+    }
+
+    if (!user) {
+        if (isApi) return unauthorizedResponse();
+
+        const loginUrl = new URL('/login', request.url);
+        loginUrl.searchParams.set('next', `${pathname}${search}`);
+        return NextResponse.redirect(loginUrl);
+    }
+
+    const permission = routePermission(pathname, request.method);
+    if (permission && !hasPermission(user.role, permission)) {
+        if (isApi || pathname === '/dashboard') return forbiddenResponse();
+        return NextResponse.redirect(new URL('/dashboard', request.url));
+    }
+
+    return NextResponse.next();
+}
+
+export const config = {
+    // Everything except build assets and files from /public
+    matcher: ['/((?!_next/static|_next/image|favicon\\.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)'],
+};